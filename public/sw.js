@@ -0,0 +1,130 @@
+// Caches the app shell so the form opens without a connection, and the public
+// data it reads so it can still be filled in. Submissions made offline are
+// kept in IndexedDB by the page (src/lib/outbox.ts), not here.
+
+const CACHE_NAME = "smartreg-v2";
+const SHELL_URLS = ["/", "/index.html", "/manifest.webmanifest", "/icon.svg", "/favicon.ico"];
+// The hashed scripts and styles of this build, filled in by the
+// precache-assets plugin in vite.config.ts. Left empty here: the worker is
+// only registered in production builds.
+const ASSET_URLS = [];
+// Tag the page registers for Background Sync (OUTBOX_SYNC_TAG)
+const OUTBOX_SYNC_TAG = "registration-outbox";
+
+// Public reads the registration form needs. Admin data is never cached, so a
+// shared device keeps none of it: that includes these same reads made by a
+// signed-in admin, which can return rows the public can't see.
+const CACHED_TABLES = ["/rest/v1/events", "/rest/v1/form_fields"];
+const CACHED_RPCS = [
+  "/rest/v1/rpc/get_registration_window_state",
+  "/rest/v1/rpc/get_department_availability",
+  "/rest/v1/rpc/current_consent_documents",
+];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll([...SHELL_URLS, ...ASSET_URLS])));
+  self.skipWaiting();
+});
+
+// Bundles of earlier builds are never asked for again
+async function deleteStaleAssets() {
+  const cache = await caches.open(CACHE_NAME);
+  const requests = await cache.keys();
+  await Promise.all(
+    requests
+      .filter((request) => {
+        const { pathname } = new URL(request.url);
+        return pathname.startsWith("/assets/") && !ASSET_URLS.includes(pathname);
+      })
+      .map((request) => cache.delete(request))
+  );
+}
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(deleteStaleAssets)
+      .then(() => self.clients.claim())
+  );
+});
+
+async function putInCache(key, response) {
+  if (!response.ok) return;
+  const cache = await caches.open(CACHE_NAME);
+  await cache.put(key, response);
+}
+
+// Network first, falling back to the last good response
+async function networkFirst(request, key = request) {
+  try {
+    const response = await fetch(request);
+    await putInCache(key, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await caches.match(key);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Built assets have hashed names, so a cached copy never goes stale
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  await putInCache(request, response.clone());
+  return response;
+}
+
+// The Supabase client sends the anon key as the bearer token until someone
+// signs in, then their session token
+function isAnonymous(request) {
+  const apiKey = request.headers.get("apikey");
+  return !!apiKey && request.headers.get("authorization") === `Bearer ${apiKey}`;
+}
+
+// RPCs are POSTs, which the Cache API won't store; key them by URL and body
+async function rpcCacheKey(request) {
+  const body = await request.clone().text();
+  return new Request(`${request.url}?body=${encodeURIComponent(body)}`);
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method === "POST" && CACHED_RPCS.includes(url.pathname) && isAnonymous(request)) {
+    event.respondWith(rpcCacheKey(request).then((key) => networkFirst(request, key)));
+    return;
+  }
+  if (request.method !== "GET") return;
+
+  if (CACHED_TABLES.includes(url.pathname)) {
+    if (!isAnonymous(request)) return;
+    event.respondWith(networkFirst(request));
+    return;
+  }
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === "navigate") {
+    // Every route is the same single page
+    event.respondWith(
+      fetch(request).catch(() => caches.match("/index.html").then((cached) => cached ?? Response.error()))
+    );
+    return;
+  }
+  event.respondWith(url.pathname.startsWith("/assets/") ? cacheFirst(request) : networkFirst(request));
+});
+
+// The outbox is sent by the page, which has the Supabase client; wake any
+// open one up
+self.addEventListener("sync", (event) => {
+  if (event.tag !== OUTBOX_SYNC_TAG) return;
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window" })
+      .then((clients) => clients.forEach((client) => client.postMessage({ type: OUTBOX_SYNC_TAG })))
+  );
+});
@@ -0,0 +1,104 @@
+// Builds src/data/postal-codes-in.json, the PIN code -> district/state table
+// bundled with the registration form.
+//
+// Source: the India Post office directory as packaged by the
+// `india-pincode-lookup` npm module (MIT). Usage:
+//
+//   npm pack india-pincode-lookup && tar xzf india-pincode-lookup-*.tgz
+//   node scripts/build-postal-codes.mjs package/pincodes.json
+//
+// The directory predates the 2014 and 2019-2020 reorganisations, so state
+// names are brought up to date here.
+import { readFileSync, writeFileSync } from "node:fs";
+
+const [source] = process.argv.slice(2);
+if (!source) {
+  console.error("Usage: node scripts/build-postal-codes.mjs <pincodes.json>");
+  process.exit(1);
+}
+
+const STATE_NAMES = {
+  "ANDAMAN & NICOBAR ISLANDS": "Andaman and Nicobar Islands",
+  "ANDHRA PRADESH": "Andhra Pradesh",
+  "ARUNACHAL PRADESH": "Arunachal Pradesh",
+  ASSAM: "Assam",
+  BIHAR: "Bihar",
+  CHANDIGARH: "Chandigarh",
+  CHATTISGARH: "Chhattisgarh",
+  "DADRA & NAGAR HAVELI": "Dadra and Nagar Haveli and Daman and Diu",
+  "DAMAN & DIU": "Dadra and Nagar Haveli and Daman and Diu",
+  DELHI: "Delhi",
+  GOA: "Goa",
+  GUJARAT: "Gujarat",
+  HARYANA: "Haryana",
+  "HIMACHAL PRADESH": "Himachal Pradesh",
+  "JAMMU & KASHMIR": "Jammu and Kashmir",
+  JHARKHAND: "Jharkhand",
+  KARNATAKA: "Karnataka",
+  KERALA: "Kerala",
+  LAKSHADWEEP: "Lakshadweep",
+  "MADHYA PRADESH": "Madhya Pradesh",
+  MAHARASHTRA: "Maharashtra",
+  MANIPUR: "Manipur",
+  MEGHALAYA: "Meghalaya",
+  MIZORAM: "Mizoram",
+  NAGALAND: "Nagaland",
+  ODISHA: "Odisha",
+  PONDICHERRY: "Puducherry",
+  PUNJAB: "Punjab",
+  RAJASTHAN: "Rajasthan",
+  SIKKIM: "Sikkim",
+  "TAMIL NADU": "Tamil Nadu",
+  TRIPURA: "Tripura",
+  "UTTAR PRADESH": "Uttar Pradesh",
+  UTTARAKHAND: "Uttarakhand",
+  "WEST BENGAL": "West Bengal",
+};
+
+function getState(office) {
+  const pin = String(office.pincode);
+  // Telangana (2014) kept the 50xxxx PIN range
+  if (pin.startsWith("50")) return "Telangana";
+  // Ladakh (2019)
+  if (["Leh", "Kargil"].includes(office.districtName.trim())) return "Ladakh";
+  const state = STATE_NAMES[office.stateName.trim()];
+  if (!state) throw new Error(`Unknown state "${office.stateName}"`);
+  return state;
+}
+
+function toTitleCase(value) {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/(^|[\s(-])([a-z])/g, (_, sep, c) => sep + c.toUpperCase());
+}
+
+// Count offices per PIN and place; a PIN spanning districts gets the one
+// with the most offices
+const counts = new Map();
+for (const office of JSON.parse(readFileSync(source, "utf8"))) {
+  const pin = String(office.pincode);
+  if (!/^[1-9]\d{5}$/.test(pin)) continue;
+  const place = `${toTitleCase(office.districtName)}|${getState(office)}`;
+  const byPlace = counts.get(pin) ?? new Map();
+  byPlace.set(place, (byPlace.get(place) ?? 0) + 1);
+  counts.set(pin, byPlace);
+}
+
+const places = [];
+const placeIndex = new Map();
+const pins = {};
+for (const pin of [...counts.keys()].sort()) {
+  const [place] = [...counts.get(pin)].sort((a, b) => b[1] - a[1])[0];
+  if (!placeIndex.has(place)) {
+    placeIndex.set(place, places.length);
+    places.push(place.split("|"));
+  }
+  pins[pin] = placeIndex.get(place);
+}
+
+writeFileSync(
+  new URL("../src/data/postal-codes-in.json", import.meta.url),
+  JSON.stringify({ places, pins })
+);
+console.log(`${Object.keys(pins).length} PIN codes, ${places.length} districts`);
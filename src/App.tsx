@@ -8,6 +8,13 @@ import Index from "./pages/Index";
 import AdminLogin from "./pages/AdminLogin";
 import AdminSignup from "./pages/AdminSignup";
 import AdminDashboard from "./pages/AdminDashboard";
+import AdminFormBuilder from "./pages/AdminFormBuilder";
+import AdminConsents from "./pages/AdminConsents";
+import AdminInvites from "./pages/AdminInvites";
+import AdminAttempts from "./pages/AdminAttempts";
+import RegistrationStatus from "./pages/RegistrationStatus";
+import RegistrationEdit from "./pages/RegistrationEdit";
+import Kiosk from "./pages/Kiosk";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -21,9 +28,18 @@ const App = () => (
         <BrowserRouter>
           <Routes>
             <Route path="/" element={<Index />} />
+            <Route path="/r/:slug" element={<Index />} />
+            <Route path="/status" element={<RegistrationStatus />} />
+            <Route path="/edit" element={<RegistrationEdit />} />
+            <Route path="/kiosk" element={<Kiosk />} />
+            <Route path="/kiosk/:slug" element={<Kiosk />} />
             <Route path="/admin/login" element={<AdminLogin />} />
             <Route path="/admin/signup" element={<AdminSignup />} />
             <Route path="/admin" element={<AdminDashboard />} />
+            <Route path="/admin/form-builder" element={<AdminFormBuilder />} />
+            <Route path="/admin/consents" element={<AdminConsents />} />
+            <Route path="/admin/invites" element={<AdminInvites />} />
+            <Route path="/admin/attempts" element={<AdminAttempts />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
@@ -0,0 +1,30 @@
+import { Languages } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useLanguage } from "@/hooks/useLanguage";
+import { LANGUAGE_OPTIONS, type Language } from "@/lib/i18n";
+
+export function LanguageSwitcher() {
+  const { language, setLanguage, t } = useLanguage();
+
+  return (
+    <Select value={language} onValueChange={(value) => setLanguage(value as Language)}>
+      <SelectTrigger className="h-9 w-auto gap-2" aria-label={t("language.label")}>
+        <Languages className="w-4 h-4" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {LANGUAGE_OPTIONS.map((option) => (
+          <SelectItem key={option.value} value={option.value} lang={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
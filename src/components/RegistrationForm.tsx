@@ -1,122 +1,775 @@
-import { useState } from "react";
-import { useForm } from "react-hook-form";
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useForm, useWatch, type FieldPath } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { motion } from "framer-motion";
-import { User, Phone, Mail, Users, Building2, MapPin, Loader2, CheckCircle2 } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { motion, AnimatePresence } from "framer-motion";
+import { Link, useNavigate } from "react-router-dom";
+import { Loader2, CheckCircle2, ArrowLeft, ArrowRight, Bookmark, Copy } from "lucide-react";
 import { toast } from "sonner";
 import {
-  registrationSchema,
-  RegistrationFormData,
-  DEPARTMENTS,
+  createRegistrationSchema,
+  RegistrationFormValues,
+  EMPTY_GROUP_MEMBER,
   MAX_FILE_SIZE,
   ACCEPTED_IMAGE_TYPES,
 } from "@/lib/validations";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { FileUpload } from "@/components/ui/file-upload";
+import { AttachmentsUpload } from "@/components/ui/attachments-upload";
+import { CustomFieldInputs } from "@/components/registration/CustomFieldInputs";
+import { RegistrationReview } from "@/components/registration/RegistrationReview";
+import { VerificationCodeDialog } from "@/components/registration/VerificationCodeDialog";
+import { ConsentFields } from "@/components/registration/ConsentFields";
+import {
+  FullNameField,
+  MobileNumberField,
+  EmailField,
+  GenderField,
+  DepartmentField,
+} from "@/components/registration/RegistrationFields";
+import { AddressFields } from "@/components/registration/AddressFields";
+import { GroupMembersFields } from "@/components/registration/GroupMembersFields";
+import { InviteCodeField } from "@/components/registration/InviteCodeField";
+import { EmployeeIdField } from "@/components/registration/EmployeeIdField";
+import { KioskConfirmation } from "@/components/kiosk/KioskConfirmation";
+import { PaymentStep } from "@/components/registration/PaymentStep";
+import { useFormFields } from "@/hooks/useFormFields";
+import { useDepartmentAvailability } from "@/hooks/useDepartmentAvailability";
+import { useConsentDocuments } from "@/hooks/useConsentDocuments";
+import { useRegistrationDraft } from "@/hooks/useRegistrationDraft";
+import { useRegistrationChallenge } from "@/hooks/useRegistrationChallenge";
+import { getCustomFieldDefaults } from "@/lib/form-fields";
+import { EMPTY_ADDRESS } from "@/lib/address";
+import {
+  DUPLICATE_MESSAGES,
+  createRegistration,
+  getDuplicateField,
+  getPossibleDuplicates,
+  getRegistrationConfirmation,
+  getStatusPagePath,
+  uploadRegistrationPhoto,
+  type DuplicateField,
+  type DuplicateMatches,
+} from "@/lib/registrations";
+import { saveAttachmentRecords, uploadAttachments, type PendingAttachment } from "@/lib/attachments";
+import {
+  applyRegistrationEdit,
+  toRegistrationFormValues,
+  type EditSession,
+} from "@/lib/registration-edits";
+import { urlToFile } from "@/lib/drafts";
+import { isRegistrationClosedError } from "@/lib/events";
+import { isConsentError } from "@/lib/consents";
+import {
+  NOT_VERIFIED_ERRORS,
+  normalizeVerificationTarget,
+  type VerificationChannel,
+} from "@/lib/verification";
+import { isNetworkError, queueSubmission } from "@/lib/outbox";
+import { INVITE_STATE_MESSAGES, checkInviteCode, getInviteErrorMessage } from "@/lib/invites";
+import { checkRoster, isNotOnRosterError } from "@/lib/roster";
+import { formatMoney } from "@/lib/payments";
+import { useLanguage } from "@/hooks/useLanguage";
+import type { MessageKey } from "@/locales/en";
+import type { InviteCheck } from "@/types/invite";
+import type { RosterPolicy } from "@/types/event";
+
+interface WizardStep {
+  title: MessageKey;
+  fields: FieldPath<RegistrationFormValues>[];
+}
+
+const WIZARD_STEPS: WizardStep[] = [
+  { title: "wizard.personalDetails", fields: ["fullName", "gender"] },
+  { title: "wizard.contact", fields: ["mobileNumber", "email"] },
+  { title: "wizard.departmentAddress", fields: ["department", "address", "customFields"] },
+  { title: "wizard.photoDocuments", fields: [] },
+  { title: "wizard.review", fields: [] },
+];
+
+const CONTACT_STEP = 1;
+const PHOTO_STEP = 3;
+const REVIEW_STEP = WIZARD_STEPS.length - 1;
 
-export function RegistrationForm() {
+interface RegistrationFormProps {
+  eventId: string;
+  wizard?: boolean;
+  requireEmailVerification?: boolean;
+  requireMobileVerification?: boolean;
+  resumeToken?: string | null;
+  // Opens the form on an existing registration, saved through its edit link
+  editSession?: EditSession | null;
+  // Called when a submission is turned away because the event stopped taking registrations
+  onClosed?: () => void;
+  // Runs the form on a kiosk: registrations are tagged with the device, nothing
+  // is saved for later or links away, and onDone starts over after a success
+  kiosk?: { deviceId: string; onDone: () => void };
+  // Registers other people along with the submitter, in one submission
+  group?: boolean;
+  // Turns away anyone without a valid invite code
+  inviteOnly?: boolean;
+  // Code from an invite link, checked as soon as the form opens
+  inviteCode?: string | null;
+  // Matches registrants against the event's HR roster
+  rosterPolicy?: RosterPolicy;
+  // Fee per person for paid events, in the currency's minor units; asked for
+  // right after registering, or at the desk on a kiosk
+  fee?: { amount: number; currency: string } | null;
+}
+
+interface SubmitOptions {
+  allowDuplicate?: boolean;
+}
+
+function getVerificationTarget(data: RegistrationFormValues, channel: VerificationChannel) {
+  return normalizeVerificationTarget(channel, channel === "email" ? data.email : data.mobileNumber);
+}
+
+export function RegistrationForm({
+  eventId,
+  wizard: wizardMode = false,
+  requireEmailVerification = false,
+  requireMobileVerification = false,
+  resumeToken,
+  editSession,
+  onClosed,
+  kiosk,
+  group = false,
+  inviteOnly = false,
+  inviteCode,
+  rosterPolicy = "off",
+  fee,
+}: RegistrationFormProps) {
+  // The wizard has no step for the other people, so groups fill in one page
+  const wizard = wizardMode && !group;
+  const navigate = useNavigate();
+  const [step, setStep] = useState(0);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
+  const [confirmationCode, setConfirmationCode] = useState<string | null>(null);
+  const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null);
+  // Confirmation numbers of the other people in a group registration
+  const [memberConfirmations, setMemberConfirmations] = useState<
+    { name: string; confirmationCode: string | null }[]
+  >([]);
+  // The fee of the submission just saved: due until paid or left for later.
+  // Only people with a seat pay now; the waitlisted pay once they get one.
+  const [payment, setPayment] = useState<{
+    registrationId: string;
+    people: number;
+    waitlisted: number;
+    stage: "due" | "paid" | "later";
+  } | null>(null);
   const [photoFile, setPhotoFile] = useState<File | null>(null);
   const [photoError, setPhotoError] = useState<string>("");
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const [acceptedConsents, setAcceptedConsents] = useState<string[]>([]);
+  const [consentError, setConsentError] = useState("");
+  const [inviteInput, setInviteInput] = useState(inviteCode ?? "");
+  const [invite, setInvite] = useState<InviteCheck | null>(null);
+  const [inviteError, setInviteError] = useState("");
+  const [isCheckingInvite, setIsCheckingInvite] = useState(false);
+  // Edits keep the code the registration was made with
+  const usesInvite = !editSession && (inviteOnly || !!inviteCode);
+  const inviteCodeValue = usesInvite ? inviteInput.trim() || null : null;
+  const [employeeId, setEmployeeId] = useState("");
+  // Whether the registrant is on the roster, once checked before submitting
+  const [onRoster, setOnRoster] = useState<boolean | null>(null);
+  // Edits keep the employee ID; the database matches their email again
+  const usesRoster = !editSession && rosterPolicy !== "off";
+  // The photo the registration already had, unchanged unless this is replaced
+  const originalPhoto = useRef<File | null>(null);
+  // Hidden from people; anything typed in it marks the submission as a bot's
+  const honeypot = useRef<HTMLInputElement>(null);
+  const [resumeLink, setResumeLink] = useState<{ url: string; expiresAt: string } | null>(null);
+  const [pendingDuplicate, setPendingDuplicate] = useState<{
+    data: RegistrationFormValues;
+    fields: DuplicateField[];
+  } | null>(null);
+  // Targets verified in this session, keyed by channel; a ref so a submission
+  // resumed right after verifying sees the new value
+  const verifiedTargets = useRef<Partial<Record<VerificationChannel, string>>>({});
+  const [pendingVerification, setPendingVerification] = useState<{
+    data: RegistrationFormValues;
+    options: SubmitOptions;
+    channel: VerificationChannel;
+  } | null>(null);
+  const { fields: customFields } = useFormFields(eventId);
+  const { availability, refetch: refetchAvailability } = useDepartmentAvailability(eventId);
+  const { documents: consentDocuments, refetch: refetchConsentDocuments } = useConsentDocuments();
+  const { takeSolution } = useRegistrationChallenge(!editSession);
+  const { language, t, formatDate } = useLanguage();
+  // Built on every render so a language switch reaches the messages;
+  // useForm picks up the new resolver
+  const schema = createRegistrationSchema(customFields, { group });
 
-  const {
-    register,
-    handleSubmit,
-    setValue,
-    reset,
-    formState: { errors },
-  } = useForm<RegistrationFormData>({
-    resolver: zodResolver(registrationSchema),
+  const form = useForm<RegistrationFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: editSession
+      ? toRegistrationFormValues(editSession.registration)
+      : { address: EMPTY_ADDRESS, ...(group && { members: [{ ...EMPTY_GROUP_MEMBER }] }) },
   });
+  const { control, handleSubmit, trigger, getValues, reset, setError, setValue } = form;
+
+  useEffect(() => {
+    const values = getValues();
+    reset({ ...values, customFields: getCustomFieldDefaults(customFields, values.customFields) });
+  }, [customFields, getValues, reset]);
+
+  const draft = useRegistrationDraft({
+    eventId,
+    form,
+    photoFile,
+    setPhotoFile,
+    step,
+    setStep,
+    resumeToken,
+    // A shared device must not keep one registrant's details for the next.
+    // Drafts hold one person's photo, not a group's.
+    enabled: !editSession && !kiosk && !group,
+  });
+
+  // Returns the check when the code can be used, and shows why not otherwise
+  const applyInvite = useCallback(
+    async (code: string) => {
+      setIsCheckingInvite(true);
+      setInviteError("");
+      try {
+        const result = await checkInviteCode(eventId, code);
+        if (result.state !== "valid") {
+          setInvite(null);
+          setInviteError(t(INVITE_STATE_MESSAGES[result.state]));
+          return null;
+        }
+        setInvite(result);
+        return result;
+      } catch (error) {
+        console.error("Error checking invite code:", error);
+        setInvite(null);
+        setInviteError(t("invite.checkFailed"));
+        return null;
+      } finally {
+        setIsCheckingInvite(false);
+      }
+    },
+    [eventId, t]
+  );
+
+  const initialInviteChecked = useRef(false);
+  useEffect(() => {
+    if (!usesInvite || !inviteCode || initialInviteChecked.current) return;
+    initialInviteChecked.current = true;
+    applyInvite(inviteCode);
+  }, [usesInvite, inviteCode, applyInvite]);
+
+  // A changed email or employee ID needs checking again
+  const watchedEmail = useWatch({ control, name: "email" });
+  useEffect(() => {
+    setOnRoster(null);
+  }, [watchedEmail, employeeId]);
+
+  // The database sets the department of people on the roster; edits keep the
+  // one a roster match or an invite code gave
+  const lockedDepartment =
+    invite?.department ?? (editSession?.departmentLocked ? editSession.registration.department : null);
+  useEffect(() => {
+    if (lockedDepartment) setValue("department", lockedDepartment, { shouldValidate: true });
+  }, [lockedDepartment, setValue]);
+
+  const handleInviteChange = (value: string) => {
+    setInviteInput(value);
+    setInvite(null);
+    setInviteError("");
+  };
+
+  const editPhotoUrl = editSession?.registration.photo_url;
+  useEffect(() => {
+    if (!editPhotoUrl) return;
+    let cancelled = false;
+    urlToFile(editPhotoUrl, editPhotoUrl.split("/").pop() ?? "photo.jpg")
+      .then((file) => {
+        if (cancelled) return;
+        originalPhoto.current = file;
+        setPhotoFile(file);
+      })
+      .catch((error) => console.error("Error loading current photo:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [editPhotoUrl]);
+
+  const handleSaveForLater = async () => {
+    try {
+      setResumeLink(await draft.saveForLater());
+    } catch (error) {
+      console.error("Error saving draft:", error);
+      toast.error(error instanceof Error ? error.message : t("form.saveFailed"));
+    }
+  };
+
+  const copyResumeLink = async () => {
+    if (!resumeLink) return;
+    try {
+      await navigator.clipboard.writeText(resumeLink.url);
+      toast.success(t("form.linkCopied"));
+    } catch {
+      toast.error(t("form.linkCopyFailed"));
+    }
+  };
 
   const validatePhoto = () => {
     if (!photoFile) {
-      setPhotoError("Please upload a photo");
+      setPhotoError(t("form.photoRequired"));
       return false;
     }
     if (!ACCEPTED_IMAGE_TYPES.includes(photoFile.type)) {
-      setPhotoError("Only JPG and PNG files are allowed");
+      setPhotoError(t("form.photoType"));
       return false;
     }
     if (photoFile.size > MAX_FILE_SIZE) {
-      setPhotoError("File size must be less than 2MB");
+      setPhotoError(t("form.photoSize"));
       return false;
     }
     setPhotoError("");
     return true;
   };
 
-  const uploadPhoto = async (file: File): Promise<string> => {
-    const fileExt = file.name.split(".").pop();
-    const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
-    const filePath = `registrations/${fileName}`;
+  const validateConsents = () => {
+    const missing = consentDocuments.find(
+      (document) => document.required && !acceptedConsents.includes(document.id)
+    );
+    if (missing) {
+      setConsentError(t("form.acceptConsent", { title: missing.title }));
+      return false;
+    }
+    setConsentError("");
+    return true;
+  };
 
-    const { error: uploadError } = await supabase.storage
-      .from("registration-photos")
-      .upload(filePath, file);
+  // A code typed but not applied is checked here. Every person in a group
+  // takes one use of the code.
+  const validateInvite = async (data: RegistrationFormValues) => {
+    if (!usesInvite) return true;
+    const code = inviteInput.trim();
+    if (!code) {
+      if (!inviteOnly) return true;
+      setInviteError(t("invite.required"));
+      return false;
+    }
+    // Offline, the code is checked when the queued registration is sent
+    if (!invite && !navigator.onLine) return true;
+    const checked = invite ?? (await applyInvite(code));
+    if (!checked) return false;
+    const people = 1 + (data.members?.length ?? 0);
+    if (people > checked.usesLeft) {
+      setInviteError(t("invite.notEnoughUses", { count: checked.usesLeft }));
+      return false;
+    }
+    return true;
+  };
+
+  const handleConsentChange = (value: string[]) => {
+    setAcceptedConsents(value);
+    if (consentError) setConsentError("");
+  };
+
+  // Wizard steps only validate their own fields before moving on
+  const goToNextStep = async () => {
+    const isStepValid =
+      step === PHOTO_STEP ? validatePhoto() : await trigger(WIZARD_STEPS[step].fields);
+    if (isStepValid && step === 0 && !(await validateInvite(getValues()))) return;
+    if (isStepValid) {
+      setStep((s) => Math.min(s + 1, REVIEW_STEP));
+    }
+  };
+
+  const goToPreviousStep = () => setStep((s) => Math.max(s - 1, 0));
 
-    if (uploadError) {
-      throw new Error("Failed to upload photo");
+  const handleFormSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    if (wizard && step < REVIEW_STEP) {
+      e.preventDefault();
+      goToNextStep();
+      return;
     }
+    handleSubmit(onSubmit)(e);
+  };
+
+  const showDuplicateErrors = (fields: DuplicateField[], memberFields: DuplicateMatches["members"] = []) => {
+    fields.forEach((field) =>
+      setError(field, { type: "duplicate", message: t(DUPLICATE_MESSAGES[field]) })
+    );
+    memberFields.forEach(({ index, field }) =>
+      setError(`members.${index}.${field}`, { type: "duplicate", message: t(DUPLICATE_MESSAGES[field]) })
+    );
+    toast.error(t(DUPLICATE_MESSAGES[fields[0] ?? memberFields[0].field]), {
+      action: kiosk
+        ? undefined
+        : { label: t("form.checkStatus"), onClick: () => navigate(getStatusPagePath()) },
+    });
+    if (wizard) setStep(CONTACT_STEP);
+  };
 
-    const { data } = supabase.storage
-      .from("registration-photos")
-      .getPublicUrl(filePath);
+  const getUnverifiedChannel = (data: RegistrationFormValues): VerificationChannel | null => {
+    const required: Record<VerificationChannel, boolean> = {
+      email: requireEmailVerification,
+      sms: requireMobileVerification,
+    };
+    const channels: VerificationChannel[] = ["email", "sms"];
+    return (
+      channels.find(
+        (channel) =>
+          required[channel] && verifiedTargets.current[channel] !== getVerificationTarget(data, channel)
+      ) ?? null
+    );
+  };
 
-    return data.publicUrl;
+  // Edits skip the pre-checks; the edit function validates and guards duplicates
+  const submitEdit = async (session: EditSession, data: RegistrationFormValues) => {
+    setIsSubmitting(true);
+    try {
+      const photoPath =
+        photoFile && photoFile !== originalPhoto.current ? await uploadRegistrationPhoto(photoFile) : null;
+      await applyRegistrationEdit(session.token, data, photoPath);
+      setConfirmationCode(session.registration.confirmation_code);
+      setIsSuccess(true);
+      toast.success(t("form.changesSaved"));
+    } catch (error) {
+      console.error("Error saving registration edit:", error);
+      const duplicateField = getDuplicateField(error as { code?: string; message?: string });
+      if (duplicateField) {
+        showDuplicateErrors([duplicateField]);
+        return;
+      }
+      toast.error(error instanceof Error ? error.message : t("form.saveChangesFailed"));
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
-  const onSubmit = async (data: RegistrationFormData) => {
+  const submitRegistration = async (data: RegistrationFormValues, options: SubmitOptions = {}) => {
     if (!validatePhoto()) return;
+    if (editSession) {
+      await submitEdit(editSession, data);
+      return;
+    }
+    if (!validateConsents()) return;
+    if (!(await validateInvite(data))) {
+      // The field is at the top, likely out of view
+      toast.error(t("invite.fixCode"));
+      if (wizard) setStep(0);
+      return;
+    }
 
     setIsSubmitting(true);
+    // The id is chosen here so documents can be filed under it before the
+    // registration row exists, and so a queued retry reuses it
+    const registrationId = crypto.randomUUID();
 
     try {
-      // Upload photo first
-      const photoUrl = await uploadPhoto(photoFile!);
-
-      // Insert registration data
-      const { error } = await supabase.from("registrations").insert({
-        full_name: data.fullName,
-        mobile_number: data.mobileNumber,
-        email: data.email,
-        gender: data.gender,
-        department: data.department,
-        address: data.address,
-        photo_url: photoUrl,
+      if (!navigator.onLine) {
+        await queueRegistration(registrationId, data);
+        return;
+      }
+
+      const unverifiedChannel = getUnverifiedChannel(data);
+      if (unverifiedChannel) {
+        setPendingVerification({ data, options, channel: unverifiedChannel });
+        return;
+      }
+
+      // Check before uploading anything. The roster only answers for a
+      // verified email; otherwise the database turns them away on insert.
+      if (
+        usesRoster &&
+        rosterPolicy === "block" &&
+        verifiedTargets.current.email === getVerificationTarget(data, "email")
+      ) {
+        const matched = await checkRoster(eventId, data.email, employeeId.trim()).catch((error) => {
+          console.error("Error checking roster:", error);
+          return null;
+        });
+        setOnRoster(matched);
+        if (matched === false) {
+          toast.error(t("roster.notFound"));
+          if (wizard) setStep(CONTACT_STEP);
+          return;
+        }
+      }
+
+      // Upload photo first, unless a saved draft already did
+      const photoPath =
+        draft.getUploadedPhotoPath(photoFile!) ?? (await uploadRegistrationPhoto(photoFile!));
+
+      const attachmentRows = await uploadAttachments(registrationId, attachments);
+
+      // Everyone else shares the submitter's address and custom answers
+      const { members = [], ...values } = data;
+      const memberSubmissions = await Promise.all(
+        members.map(async ({ photo, department, ...person }) => ({
+          id: crypto.randomUUID(),
+          values: { ...values, ...person, department: department || values.department },
+          photoPath: await uploadRegistrationPhoto(photo!),
+        }))
+      );
+
+      await createRegistration({
+        id: registrationId,
+        eventId,
+        values,
+        photoPath,
+        consentDocumentIds: acceptedConsents,
+        challenge: await takeSolution(),
+        honeypot: honeypot.current?.value ?? "",
+        source: kiosk ? "kiosk" : "web",
+        deviceId: kiosk?.deviceId,
+        members: memberSubmissions,
+        inviteCode: inviteCodeValue,
+        employeeId: usesRoster ? employeeId.trim() || null : null,
+        allowDuplicate: options.allowDuplicate,
       });
 
-      if (error) throw error;
+      try {
+        await saveAttachmentRecords(attachmentRows);
+      } catch (attachmentError) {
+        // The registration itself went through, so don't ask for a resubmit
+        console.error("Error saving attachments:", attachmentError);
+        toast.warning(t("form.documentsNotSaved"));
+      }
 
+      draft.clearDraft();
+      verifiedTargets.current = {};
+      let waitlisted = 0;
+      try {
+        const confirmation = await getRegistrationConfirmation(registrationId);
+        setConfirmationCode(confirmation?.confirmation_code ?? null);
+        setWaitlistPosition(confirmation?.status === "waitlisted" ? confirmation.waitlist_position : null);
+        const memberCodes = await Promise.all(
+          memberSubmissions.map((member) => getRegistrationConfirmation(member.id))
+        );
+        setMemberConfirmations(
+          memberSubmissions.map((member, index) => ({
+            name: member.values.fullName,
+            confirmationCode: memberCodes[index]?.confirmation_code ?? null,
+          }))
+        );
+        waitlisted = [confirmation, ...memberCodes].filter(
+          (registration) => registration?.status === "waitlisted"
+        ).length;
+      } catch (confirmationError) {
+        console.error("Error loading confirmation code:", confirmationError);
+      }
+      refetchAvailability();
+      if (fee) {
+        const people = memberSubmissions.length + 1 - waitlisted;
+        setPayment({ registrationId, people, waitlisted, stage: people > 0 ? "due" : "later" });
+      }
       setIsSuccess(true);
-      toast.success("Registration submitted successfully!");
-      
-      // Reset form after success
-      setTimeout(() => {
-        reset();
-        setPhotoFile(null);
-        setIsSuccess(false);
-      }, 3000);
+      toast.success(t("form.submitted"));
     } catch (error: any) {
       console.error("Registration error:", error);
-      toast.error(error.message || "Failed to submit registration");
+      if (isNetworkError(error)) {
+        await queueRegistration(registrationId, data);
+        return;
+      }
+      // The event warns about duplicates; sent again once the registrant confirms
+      const possibleDuplicates = getPossibleDuplicates(error);
+      if (possibleDuplicates) {
+        const fields = [...possibleDuplicates.fields, ...possibleDuplicates.members.map((match) => match.field)];
+        setPendingDuplicate({ data, fields: [...new Set(fields)] });
+        return;
+      }
+      // The whole group is turned away if any one of them is a duplicate
+      const duplicateField = getDuplicateField(error);
+      if (duplicateField) {
+        showDuplicateErrors(error.duplicates?.fields ?? [duplicateField], error.duplicates?.members);
+        return;
+      }
+      // The code was used up or expired since it was checked
+      const inviteMessage = getInviteErrorMessage(error);
+      if (inviteMessage) {
+        setInvite(null);
+        setInviteError(t(inviteMessage));
+        toast.error(t(inviteMessage));
+        if (wizard) setStep(0);
+        return;
+      }
+      if (isNotOnRosterError(error)) {
+        setOnRoster(false);
+        toast.error(t("roster.notFound"));
+        if (wizard) setStep(CONTACT_STEP);
+        return;
+      }
+      // A text was republished while the form was open; show the new one
+      if (isConsentError(error)) {
+        setAcceptedConsents([]);
+        refetchConsentDocuments();
+        setConsentError(t("form.consentsUpdated"));
+        toast.error(t("form.consentsUpdatedToast"));
+        return;
+      }
+      if (isRegistrationClosedError(error)) {
+        toast.error(t("form.eventClosed"));
+        onClosed?.();
+        return;
+      }
+      // The verification expired or was used up in the meantime; ask again
+      const expiredChannel = NOT_VERIFIED_ERRORS[error.message];
+      if (expiredChannel) {
+        delete verifiedTargets.current[expiredChannel];
+        setPendingVerification({ data, options, channel: expiredChannel });
+        return;
+      }
+      toast.error(error.message || t("submit.failed"));
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  // Keeps the registration on this device until the connection is back. The
+  // duplicate and consent checks happen when it is sent, where a possible
+  // duplicate is saved flagged for review; verification cannot wait, since
+  // the registrant has to be there to enter the code.
+  const queueRegistration = async (registrationId: string, data: RegistrationFormValues) => {
+    if (data.members?.length) {
+      toast.error(t("group.offline"));
+      return;
+    }
+    if (getUnverifiedChannel(data)) {
+      toast.error(t("outbox.verificationOffline"));
+      return;
+    }
+    try {
+      await queueSubmission({
+        id: registrationId,
+        eventId,
+        values: data,
+        photo: photoFile!,
+        attachments,
+        consentDocumentIds: acceptedConsents,
+        honeypot: honeypot.current?.value ?? "",
+        language,
+        source: kiosk ? "kiosk" : "web",
+        deviceId: kiosk?.deviceId,
+        inviteCode: inviteCodeValue,
+        employeeId: usesRoster ? employeeId.trim() || null : null,
+      });
+    } catch (queueError) {
+      console.error("Error queueing registration:", queueError);
+      toast.error(t("outbox.queueFailed"));
+      return;
+    }
+    draft.clearDraft();
+    verifiedTargets.current = {};
+    startNewRegistration();
+    toast.success(t("outbox.queued"));
+  };
+
+  const onSubmit = (data: RegistrationFormValues) => submitRegistration(data);
+
+  const startNewRegistration = () => {
+    reset({
+      fullName: "",
+      mobileNumber: "",
+      email: "",
+      gender: "" as RegistrationFormValues["gender"],
+      department: "",
+      address: EMPTY_ADDRESS,
+      customFields: getCustomFieldDefaults(customFields),
+      ...(group && { members: [{ ...EMPTY_GROUP_MEMBER }] }),
+    });
+    setPhotoFile(null);
+    setAttachments([]);
+    setAcceptedConsents([]);
+    setStep(0);
+    setConfirmationCode(null);
+    setWaitlistPosition(null);
+    setMemberConfirmations([]);
+    setPayment(null);
+    setIsSuccess(false);
+    // A code with uses left keeps its department for the next registration
+    setInvite(null);
+    if (usesInvite && inviteInput.trim()) applyInvite(inviteInput.trim());
+    setEmployeeId("");
+    setOnRoster(null);
+  };
+
+  const copyConfirmationCode = async () => {
+    if (!confirmationCode) return;
+    try {
+      await navigator.clipboard.writeText(confirmationCode);
+      toast.success(t("form.codeCopied"));
+    } catch {
+      toast.error(t("form.codeCopyFailed"));
+    }
+  };
+
+  const confirmDuplicate = () => {
+    if (!pendingDuplicate) return;
+    const { data } = pendingDuplicate;
+    setPendingDuplicate(null);
+    submitRegistration(data, { allowDuplicate: true });
+  };
+
+  const handleVerified = () => {
+    if (!pendingVerification) return;
+    const { data, options, channel } = pendingVerification;
+    verifiedTargets.current[channel] = getVerificationTarget(data, channel);
+    setPendingVerification(null);
+    toast.success(channel === "email" ? t("form.emailVerified") : t("form.mobileVerified"));
+    // Continues with the next required check, or submits
+    submitRegistration(data, options);
+  };
+
+  if (isSuccess && fee && payment?.stage === "due") {
+    return (
+      <PaymentStep
+        registrationId={payment.registrationId}
+        confirmationCode={confirmationCode}
+        fee={fee.amount}
+        currency={fee.currency}
+        people={payment.people}
+        onPaid={() => setPayment({ ...payment, stage: "paid" })}
+        onPayLater={() => setPayment({ ...payment, stage: "later" })}
+        onSite={!!kiosk}
+      />
+    );
+  }
+
+  if (isSuccess && kiosk) {
+    return (
+      <KioskConfirmation
+        confirmationCode={confirmationCode}
+        waitlistPosition={waitlistPosition}
+        payment={
+          fee && payment && payment.people > 0
+            ? { amount: formatMoney(fee.amount * payment.people, fee.currency), paid: payment.stage === "paid" }
+            : null
+        }
+        paymentDeferred={!!payment?.waitlisted}
+        onDone={kiosk.onDone}
+      />
+    );
+  }
+
   if (isSuccess) {
     return (
       <motion.div
@@ -128,159 +781,384 @@ export function RegistrationForm() {
           <CheckCircle2 className="w-10 h-10 text-success" />
         </div>
         <h2 className="text-2xl font-bold text-foreground mb-2">
-          Registration Successful!
+          {editSession
+            ? t("form.changesSavedTitle")
+            : waitlistPosition
+              ? t("form.waitlistTitle")
+              : t("form.successTitle")}
         </h2>
         <p className="text-muted-foreground">
-          Thank you for registering. We'll be in touch soon.
+          {editSession
+            ? t("form.changesSavedDescription")
+            : waitlistPosition
+              ? t("form.waitlistDescription", { position: waitlistPosition })
+              : t("form.successDescription")}
         </p>
+        {fee && payment?.stage === "paid" && (
+          <p className="mt-2 text-sm text-success">
+            {t("payment.paidNote", { amount: formatMoney(fee.amount * payment.people, fee.currency) })}
+          </p>
+        )}
+        {fee && payment?.stage === "later" && payment.people > 0 && (
+          <p className="mt-2 text-sm text-warning">
+            {t("payment.laterNote", { amount: formatMoney(fee.amount * payment.people, fee.currency) })}
+          </p>
+        )}
+        {fee && !!payment?.waitlisted && (
+          <p className="mt-2 text-sm text-muted-foreground">{t("payment.deferredNote")}</p>
+        )}
+        {confirmationCode && (
+          <div className="mt-6 w-full max-w-sm rounded-lg border border-border p-4">
+            <p className="text-sm text-muted-foreground">{t("form.confirmationNumber")}</p>
+            <div className="mt-1 flex items-center justify-center gap-2">
+              <span className="font-mono text-2xl font-bold tracking-wider text-foreground">
+                {confirmationCode}
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label={t("form.copyConfirmationNumber")}
+                onClick={copyConfirmationCode}
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="mt-2 text-xs text-muted-foreground">
+              {t("form.keepItTo")}{" "}
+              <Link to={getStatusPagePath(confirmationCode)} className="text-primary underline">
+                {t("form.checkYourStatus")}
+              </Link>{" "}
+              {t("form.later")}
+            </p>
+          </div>
+        )}
+        {memberConfirmations.length > 0 && (
+          <div className="mt-4 w-full max-w-sm rounded-lg border border-border p-4 text-left">
+            <p className="text-sm text-muted-foreground mb-2">{t("group.confirmationNumbers")}</p>
+            <ul className="space-y-1">
+              {memberConfirmations.map((member, index) => (
+                <li key={index} className="flex items-center justify-between gap-4">
+                  <span className="truncate text-foreground">{member.name}</span>
+                  <span className="font-mono font-semibold tracking-wider text-foreground">
+                    {member.confirmationCode ?? "—"}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {!editSession && (
+          <Button type="button" variant="outline" className="mt-6" onClick={startNewRegistration}>
+            {t("form.submitAnother")}
+          </Button>
+        )}
       </motion.div>
     );
   }
 
-  return (
-    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-      <div className="grid gap-6 md:grid-cols-2">
-        {/* Full Name */}
-        <div className="space-y-2">
-          <Label htmlFor="fullName" className="flex items-center gap-2">
-            <User className="w-4 h-4 text-primary" />
-            Full Name
-          </Label>
-          <Input
-            id="fullName"
-            placeholder="Enter your full name"
-            {...register("fullName")}
-            className="input-focus"
-          />
-          {errors.fullName && (
-            <p className="text-sm text-destructive">{errors.fullName.message}</p>
-          )}
-        </div>
+  if (draft.isRestoring) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
 
-        {/* Mobile Number */}
-        <div className="space-y-2">
-          <Label htmlFor="mobileNumber" className="flex items-center gap-2">
-            <Phone className="w-4 h-4 text-primary" />
-            Mobile Number
-          </Label>
-          <Input
-            id="mobileNumber"
-            placeholder="Enter 10-digit mobile number"
-            {...register("mobileNumber")}
-            className="input-focus"
-          />
-          {errors.mobileNumber && (
-            <p className="text-sm text-destructive">{errors.mobileNumber.message}</p>
-          )}
-        </div>
+  const saveForLaterButton = editSession || kiosk ? null : (
+    <Button
+      type="button"
+      variant="ghost"
+      onClick={handleSaveForLater}
+      disabled={draft.isSavingForLater || isSubmitting}
+      className="w-full gap-2 text-muted-foreground"
+    >
+      {draft.isSavingForLater ? (
+        <Loader2 className="w-4 h-4 animate-spin" />
+      ) : (
+        <Bookmark className="w-4 h-4" />
+      )}
+      {t("form.saveForLater")}
+    </Button>
+  );
 
-        {/* Email */}
-        <div className="space-y-2">
-          <Label htmlFor="email" className="flex items-center gap-2">
-            <Mail className="w-4 h-4 text-primary" />
-            Email Address
-          </Label>
-          <Input
-            id="email"
-            type="email"
-            placeholder="Enter your email"
-            {...register("email")}
-            className="input-focus"
-          />
-          {errors.email && (
-            <p className="text-sm text-destructive">{errors.email.message}</p>
-          )}
+  const resumeLinkDialog = (
+    <Dialog open={!!resumeLink} onOpenChange={(open) => !open && setResumeLink(null)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("form.progressSaved")}</DialogTitle>
+          <DialogDescription>
+            {t("form.resumeLinkDescription")}
+            {resumeLink && ` ${t("form.resumeLinkUntil", { date: formatDate(resumeLink.expiresAt, "MMM dd, yyyy") })}`}.{" "}
+            {t("form.resumeLinkPrivate")}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex gap-2">
+          <Input readOnly value={resumeLink?.url ?? ""} onFocus={(e) => e.target.select()} />
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            aria-label={t("form.copyLink")}
+            onClick={copyResumeLink}
+          >
+            <Copy className="w-4 h-4" />
+          </Button>
         </div>
+      </DialogContent>
+    </Dialog>
+  );
+
+  const duplicateWarningDialog = (
+    <AlertDialog open={!!pendingDuplicate} onOpenChange={(open) => !open && setPendingDuplicate(null)}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{t("form.alreadyRegistered")}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {pendingDuplicate?.fields.map((field) => t(DUPLICATE_MESSAGES[field])).join(". ")}.{" "}
+            {t("form.submitAnywayQuestion")}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+          <AlertDialogAction onClick={confirmDuplicate}>{t("form.submitAnyway")}</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+
+  const verificationDialog = (
+    <VerificationCodeDialog
+      eventId={eventId}
+      channel={pendingVerification?.channel ?? "email"}
+      target={
+        pendingVerification
+          ? getVerificationTarget(pendingVerification.data, pendingVerification.channel)
+          : null
+      }
+      onVerified={handleVerified}
+      onCancel={() => setPendingVerification(null)}
+    />
+  );
+
+  const inviteField = usesInvite ? (
+    <InviteCodeField
+      value={inviteInput}
+      onChange={handleInviteChange}
+      onApply={() => inviteInput.trim() && applyInvite(inviteInput.trim())}
+      isChecking={isCheckingInvite}
+      invite={invite}
+      error={inviteError}
+    />
+  ) : null;
+  const departmentLocked = !!lockedDepartment;
+
+  const employeeIdField = usesRoster ? (
+    <EmployeeIdField value={employeeId} onChange={setEmployeeId} policy={rosterPolicy} onRoster={onRoster} />
+  ) : null;
+
+  const photoUpload = (
+    <div className="space-y-2 md:col-span-2">
+      <Label className="flex items-center gap-2 mb-3">
+        {t("form.uploadPhoto")}
+      </Label>
+      <FileUpload
+        value={photoFile}
+        onChange={setPhotoFile}
+        error={photoError}
+      />
+    </div>
+  );
+
+  // Documents are not part of self-service edits
+  const attachmentsUpload = editSession ? null : (
+    <div className="space-y-2 md:col-span-2">
+      <Label htmlFor="attachments-upload" className="flex items-center gap-2 mb-3">
+        {t("form.supportingDocuments")}
+        <span className="text-xs font-normal text-muted-foreground">
+          {t("form.supportingDocumentsHint")}
+        </span>
+      </Label>
+      <AttachmentsUpload value={attachments} onChange={setAttachments} />
+    </div>
+  );
+
+  // Consent is given once, when registering
+  const consentFields = editSession ? null : (
+    <ConsentFields
+      documents={consentDocuments}
+      value={acceptedConsents}
+      onChange={handleConsentChange}
+      error={consentError}
+    />
+  );
 
-        {/* Gender */}
+  // Off-screen rather than display: none, which some bots know to skip
+  const honeypotField = editSession ? null : (
+    <div aria-hidden="true" className="absolute -left-[10000px] h-px w-px overflow-hidden">
+      <label htmlFor="website">Website</label>
+      <input ref={honeypot} id="website" name="website" type="text" tabIndex={-1} autoComplete="off" />
+    </div>
+  );
+
+  const submitButton = (
+    <Button
+      type="submit"
+      className="w-full btn-primary h-12 text-base font-medium"
+      disabled={isSubmitting}
+    >
+      {isSubmitting ? (
+        <>
+          <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+          {editSession ? t("form.saving") : t("form.submitting")}
+        </>
+      ) : editSession ? (
+        t("form.saveChanges")
+      ) : (
+        t("form.submit")
+      )}
+    </Button>
+  );
+
+  if (wizard) {
+    return (
+      <form onSubmit={handleFormSubmit} className="space-y-6">
         <div className="space-y-2">
-          <Label className="flex items-center gap-2">
-            <Users className="w-4 h-4 text-primary" />
-            Gender
-          </Label>
-          <Select onValueChange={(value) => setValue("gender", value as any)}>
-            <SelectTrigger className="input-focus">
-              <SelectValue placeholder="Select gender" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="male">Male</SelectItem>
-              <SelectItem value="female">Female</SelectItem>
-              <SelectItem value="other">Other</SelectItem>
-            </SelectContent>
-          </Select>
-          {errors.gender && (
-            <p className="text-sm text-destructive">{errors.gender.message}</p>
-          )}
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium text-foreground">{t(WIZARD_STEPS[step].title)}</span>
+            <span className="text-muted-foreground">
+              {t("wizard.stepOf", { step: step + 1, total: WIZARD_STEPS.length })}
+            </span>
+          </div>
+          <Progress value={((step + 1) / WIZARD_STEPS.length) * 100} className="h-2" />
         </div>
 
-        {/* Department */}
-        <div className="space-y-2 md:col-span-2">
-          <Label className="flex items-center gap-2">
-            <Building2 className="w-4 h-4 text-primary" />
-            Department
-          </Label>
-          <Select onValueChange={(value) => setValue("department", value)}>
-            <SelectTrigger className="input-focus">
-              <SelectValue placeholder="Select department" />
-            </SelectTrigger>
-            <SelectContent>
-              {DEPARTMENTS.map((dept) => (
-                <SelectItem key={dept} value={dept}>
-                  {dept}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-          {errors.department && (
-            <p className="text-sm text-destructive">{errors.department.message}</p>
-          )}
-        </div>
+        <AnimatePresence mode="wait">
+          <motion.div
+            key={step}
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: -20 }}
+            transition={{ duration: 0.2 }}
+            className="grid gap-6 md:grid-cols-2"
+          >
+            {step === 0 && (
+              <>
+                {inviteField}
+                <FullNameField form={form} />
+                <GenderField form={form} />
+              </>
+            )}
+            {step === 1 && (
+              <>
+                <MobileNumberField form={form} />
+                <EmailField form={form} />
+                {employeeIdField}
+              </>
+            )}
+            {step === 2 && (
+              <>
+                <DepartmentField form={form} availability={availability} disabled={departmentLocked} />
+                <AddressFields form={form} className="md:col-span-2" />
+                <CustomFieldInputs fields={customFields} control={control} />
+              </>
+            )}
+            {step === PHOTO_STEP && (
+              <>
+                {photoUpload}
+                {attachmentsUpload}
+              </>
+            )}
+            {step === REVIEW_STEP && (
+              <div className="md:col-span-2">
+                <RegistrationReview
+                  values={getValues()}
+                  customFields={customFields}
+                  photoFile={photoFile}
+                  attachments={attachments}
+                  onEditStep={setStep}
+                />
+              </div>
+            )}
+            {step === REVIEW_STEP && consentFields}
+          </motion.div>
+        </AnimatePresence>
 
-        {/* Address */}
-        <div className="space-y-2 md:col-span-2">
-          <Label htmlFor="address" className="flex items-center gap-2">
-            <MapPin className="w-4 h-4 text-primary" />
-            Address
-          </Label>
-          <Textarea
-            id="address"
-            placeholder="Enter your complete address"
-            rows={3}
-            {...register("address")}
-            className="input-focus resize-none"
-          />
-          {errors.address && (
-            <p className="text-sm text-destructive">{errors.address.message}</p>
+        <div className="flex gap-3">
+          {step > 0 && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={goToPreviousStep}
+              disabled={isSubmitting}
+              className="h-12 gap-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              {t("wizard.back")}
+            </Button>
           )}
+          <div className="flex-1">
+            {step === REVIEW_STEP ? (
+              submitButton
+            ) : (
+              <Button type="submit" className="w-full btn-primary h-12 text-base font-medium gap-2">
+                {t("wizard.next")}
+                <ArrowRight className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
         </div>
 
+        {saveForLaterButton}
+        {honeypotField}
+        {resumeLinkDialog}
+        {duplicateWarningDialog}
+        {verificationDialog}
+      </form>
+    );
+  }
+
+  return (
+    <form onSubmit={handleFormSubmit} className="space-y-6">
+      <div className="grid gap-6 md:grid-cols-2">
+        {inviteField}
+        {group && (
+          <h3 className="font-semibold text-foreground md:col-span-2">{t("group.yourDetails")}</h3>
+        )}
+        <FullNameField form={form} />
+        <MobileNumberField form={form} />
+        <EmailField form={form} />
+        <GenderField form={form} />
+        {employeeIdField}
+        <DepartmentField form={form} availability={availability} disabled={departmentLocked} />
+        <AddressFields form={form} className="md:col-span-2" />
+
+        {/* Custom Fields */}
+        <CustomFieldInputs fields={customFields} control={control} />
+
         {/* Photo Upload */}
-        <div className="space-y-2 md:col-span-2">
-          <Label className="flex items-center gap-2 mb-3">
-            Upload Photo
-          </Label>
-          <FileUpload
-            value={photoFile}
-            onChange={setPhotoFile}
-            error={photoError}
-          />
-        </div>
-      </div>
+        {photoUpload}
 
-      <Button
-        type="submit"
-        className="w-full btn-primary h-12 text-base font-medium"
-        disabled={isSubmitting}
-      >
-        {isSubmitting ? (
-          <>
-            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-            Submitting...
-          </>
-        ) : (
-          "Submit Registration"
+        {/* Supporting Documents */}
+        {attachmentsUpload}
+
+        {group && <GroupMembersFields form={form} departmentLocked={departmentLocked} />}
+        {/* The submitter accepts for everyone they register */}
+        {group && consentDocuments.length > 0 && (
+          <p className="text-sm text-muted-foreground md:col-span-2">{t("group.consentNote")}</p>
         )}
-      </Button>
+
+        {consentFields}
+      </div>
+
+      <div className="space-y-2">
+        {submitButton}
+        {saveForLaterButton}
+      </div>
+      {honeypotField}
+      {resumeLinkDialog}
+      {duplicateWarningDialog}
+      {verificationDialog}
     </form>
   );
 }
@@ -0,0 +1,103 @@
+import { useEffect, ReactNode } from "react";
+import { useNavigate } from "react-router-dom";
+import { LogOut, ClipboardList, Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useLanguage } from "@/hooks/useLanguage";
+import { Button } from "@/components/ui/button";
+import { NavLink } from "@/components/NavLink";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import type { MessageKey } from "@/locales/en";
+
+const NAV_ITEMS: { to: string; label: MessageKey }[] = [
+  { to: "/admin", label: "admin.navDashboard" },
+  { to: "/admin/form-builder", label: "admin.navFormBuilder" },
+  { to: "/admin/consents", label: "admin.navConsents" },
+  { to: "/admin/invites", label: "admin.navInvites" },
+  { to: "/admin/attempts", label: "admin.navAttempts" },
+];
+
+export function AdminLayout({ children }: { children: ReactNode }) {
+  const navigate = useNavigate();
+  const { user, isAdmin, isLoading: authLoading, signOut } = useAuth();
+  const { t } = useLanguage();
+
+  useEffect(() => {
+    if (!authLoading && (!user || !isAdmin)) {
+      navigate("/admin/login");
+    }
+  }, [user, isAdmin, authLoading, navigate]);
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate("/admin/login");
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user || !isAdmin) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border/50 bg-card/50 backdrop-blur-sm sticky top-0 z-40">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-6">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-primary flex items-center justify-center">
+                <ClipboardList className="w-5 h-5 text-primary-foreground" />
+              </div>
+              <div>
+                <span className="text-xl font-bold text-foreground">SmartReg</span>
+                <span className="text-sm text-muted-foreground ml-2">{t("admin.label")}</span>
+              </div>
+            </div>
+            <nav className="hidden md:flex items-center gap-1">
+              {NAV_ITEMS.map((item) => (
+                <NavLink
+                  key={item.to}
+                  to={item.to}
+                  end
+                  className="px-3 py-2 text-sm rounded-md text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+                  activeClassName="text-foreground bg-muted"
+                >
+                  {t(item.label)}
+                </NavLink>
+              ))}
+            </nav>
+          </div>
+          <div className="flex items-center gap-2">
+            <LanguageSwitcher />
+            <Button variant="outline" size="sm" onClick={handleSignOut} className="gap-2">
+              <LogOut className="w-4 h-4" />
+              {t("admin.signOut")}
+            </Button>
+          </div>
+        </div>
+        <nav className="md:hidden container mx-auto px-4 pb-3 flex gap-1 overflow-x-auto">
+          {NAV_ITEMS.map((item) => (
+            <NavLink
+              key={item.to}
+              to={item.to}
+              end
+              className="px-3 py-1.5 text-sm rounded-md whitespace-nowrap text-muted-foreground hover:text-foreground"
+              activeClassName="text-foreground bg-muted"
+            >
+              {t(item.label)}
+            </NavLink>
+          ))}
+        </nav>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8 space-y-8">{children}</main>
+    </div>
+  );
+}
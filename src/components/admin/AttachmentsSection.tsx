@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { Download, ExternalLink, FileText, Loader2, Paperclip } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  fetchRegistrationAttachments,
+  formatFileSize,
+  getAttachmentUrl,
+  getDocumentTypeLabel,
+  isImageAttachment,
+} from "@/lib/attachments";
+import { useLanguage } from "@/hooks/useLanguage";
+import type { RegistrationAttachment } from "@/types/registration";
+
+interface AttachmentsSectionProps {
+  registrationId: string;
+}
+
+export function AttachmentsSection({ registrationId }: AttachmentsSectionProps) {
+  const [attachments, setAttachments] = useState<RegistrationAttachment[]>([]);
+  // Signed URLs for image thumbnails, keyed by attachment id
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const { t } = useLanguage();
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setThumbnails({});
+
+    (async () => {
+      try {
+        const rows = await fetchRegistrationAttachments(registrationId);
+        if (cancelled) return;
+        setAttachments(rows);
+        const images = rows.filter((row) => isImageAttachment(row.content_type));
+        const urls = await Promise.all(images.map((row) => getAttachmentUrl(row)));
+        if (!cancelled) {
+          setThumbnails(Object.fromEntries(images.map((row, index) => [row.id, urls[index]])));
+        }
+      } catch (error) {
+        console.error("Error loading attachments:", error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [registrationId]);
+
+  const openAttachment = async (attachment: RegistrationAttachment, download: boolean) => {
+    // Opened before the URL is known so popup blockers allow it
+    const target = download ? null : window.open("", "_blank");
+    try {
+      const url = await getAttachmentUrl(attachment, download);
+      if (target) {
+        target.location.href = url;
+      } else {
+        window.location.assign(url);
+      }
+    } catch (error) {
+      target?.close();
+      console.error("Error opening attachment:", error);
+      toast.error(t("document.openFailed"));
+    }
+  };
+
+  if (!isLoading && attachments.length === 0) return null;
+
+  return (
+    <div className="flex items-start gap-3">
+      <div className="p-2 rounded-lg bg-primary/10">
+        <Paperclip className="w-4 h-4 text-primary" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-muted-foreground mb-2">{t("document.sectionTitle")}</p>
+        {isLoading ? (
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+        ) : (
+          <ul className="space-y-2">
+            {attachments.map((attachment) => (
+              <li
+                key={attachment.id}
+                className="flex items-center gap-3 rounded-lg border border-border p-2"
+              >
+                {thumbnails[attachment.id] ? (
+                  <img
+                    src={thumbnails[attachment.id]}
+                    alt={attachment.file_name}
+                    className="w-10 h-10 shrink-0 rounded object-cover"
+                  />
+                ) : (
+                  <div className="flex w-10 h-10 shrink-0 items-center justify-center rounded bg-muted">
+                    <FileText className="w-5 h-5 text-muted-foreground" />
+                  </div>
+                )}
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium">{attachment.file_name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {getDocumentTypeLabel(attachment.document_type)} · {formatFileSize(attachment.size_bytes)}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={t("document.preview", { name: attachment.file_name })}
+                  onClick={() => openAttachment(attachment, false)}
+                >
+                  <ExternalLink className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={t("document.download", { name: attachment.file_name })}
+                  onClick={() => openAttachment(attachment, true)}
+                >
+                  <Download className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
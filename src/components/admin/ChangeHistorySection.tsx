@@ -0,0 +1,70 @@
+import { useEffect, useState } from "react";
+import { History, Loader2 } from "lucide-react";
+import { fetchRegistrationChanges, getChangeSourceLabel } from "@/lib/registration-edits";
+import { useLanguage } from "@/hooks/useLanguage";
+import type { RegistrationChange } from "@/types/registration";
+
+interface ChangeHistorySectionProps {
+  registrationId: string;
+  // Bumped by the parent after it saves, so the new entry shows up
+  refreshKey?: string;
+}
+
+function formatChangedFields(change: RegistrationChange) {
+  return Object.keys(change.changes)
+    .map((key) => key.replace(/_/g, " "))
+    .join(", ");
+}
+
+export function ChangeHistorySection({ registrationId, refreshKey }: ChangeHistorySectionProps) {
+  const [changes, setChanges] = useState<RegistrationChange[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { t, formatDate } = useLanguage();
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetchRegistrationChanges(registrationId)
+      .then((rows) => {
+        if (!cancelled) setChanges(rows);
+      })
+      .catch((error) => console.error("Error loading change history:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [registrationId, refreshKey]);
+
+  if (!isLoading && changes.length === 0) return null;
+
+  return (
+    <div className="flex items-start gap-3">
+      <div className="p-2 rounded-lg bg-primary/10">
+        <History className="w-4 h-4 text-primary" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-muted-foreground mb-2">{t("history.title")}</p>
+        {isLoading ? (
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+        ) : (
+          <ul className="space-y-2">
+            {changes.map((change) => (
+              <li key={change.id} className="rounded-lg border border-border p-2 text-sm">
+                <p className="font-medium capitalize">{formatChangedFields(change)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {getChangeSourceLabel(change.source)}
+                  {change.actor_email && ` (${change.actor_email})`} ·{" "}
+                  {formatDate(change.created_at, "MMM dd, yyyy HH:mm")}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { AlertTriangle, ShieldCheck } from "lucide-react";
+import { formatConsentIssue, getConsentIssues } from "@/lib/consents";
+import { useLanguage } from "@/hooks/useLanguage";
+import type { ConsentDocument } from "@/types/consent";
+import type { Registration } from "@/types/registration";
+
+interface ConsentRecordSectionProps {
+  registration: Pick<Registration, "consent_document_ids" | "consented_at">;
+  // Every published version, so old acceptances can be named
+  documents: ConsentDocument[];
+}
+
+export function ConsentRecordSection({ registration, documents }: ConsentRecordSectionProps) {
+  const { t, formatDate } = useLanguage();
+  const accepted = documents.filter((document) => registration.consent_document_ids.includes(document.id));
+  const issues = getConsentIssues(registration, documents);
+
+  return (
+    <div className="flex items-start gap-3">
+      <div className="p-2 rounded-lg bg-primary/10">
+        <ShieldCheck className="w-4 h-4 text-primary" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-muted-foreground">{t("consent.label")}</p>
+        {accepted.length > 0 ? (
+          <>
+            <ul className="font-medium">
+              {accepted.map((document) => (
+                <li key={document.id}>
+                  {document.title} <span className="text-muted-foreground">v{document.version}</span>
+                </li>
+              ))}
+            </ul>
+            {registration.consented_at && (
+              <p className="text-xs text-muted-foreground">
+                {t("consent.acceptedOn", { date: formatDate(registration.consented_at, "MMMM dd, yyyy, hh:mm a") })}
+              </p>
+            )}
+          </>
+        ) : (
+          <p className="font-medium">{t("consent.noneRecorded")}</p>
+        )}
+        {issues.length > 0 && (
+          <div className="mt-2 flex items-start gap-2 text-sm text-warning">
+            <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+            <ul>
+              {issues.map((issue) => (
+                <li key={issue.kind}>{formatConsentIssue(issue)}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
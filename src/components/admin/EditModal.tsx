@@ -1,12 +1,12 @@
 import { useState, useEffect } from "react";
-import { useForm } from "react-hook-form";
+import { Controller, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { X, Loader2 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
@@ -14,28 +14,45 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { registrationSchema, RegistrationFormData, DEPARTMENTS } from "@/lib/validations";
-import type { Registration } from "@/types/registration";
+import { PhoneInput } from "@/components/ui/phone-input";
+import { AddressFields } from "@/components/registration/AddressFields";
+import { CustomFieldInputs } from "@/components/registration/CustomFieldInputs";
+import { createRegistrationSchema, RegistrationFormValues, DEPARTMENTS, getDepartmentLabel } from "@/lib/validations";
+import { getCustomFieldDefaults, toCustomFieldAnswers } from "@/lib/form-fields";
+import { fromAddressColumns, toAddressColumns } from "@/lib/address";
+import { REGISTRATION_STATUS_OPTIONS } from "@/lib/registrations";
+import { useLanguage } from "@/hooks/useLanguage";
+import type { Registration, RegistrationStatus } from "@/types/registration";
+import type { FormField } from "@/types/form-field";
 
 interface EditModalProps {
   registration: Registration | null;
+  formFields: FormField[];
   isOpen: boolean;
   onClose: () => void;
-  onSave: (id: string, data: Partial<Registration>) => Promise<void>;
+  onSave: (id: string, data: Partial<Registration>) => Promise<unknown>;
 }
 
-export function EditModal({ registration, isOpen, onClose, onSave }: EditModalProps) {
+export function EditModal({ registration, formFields, isOpen, onClose, onSave }: EditModalProps) {
   const [isSaving, setIsSaving] = useState(false);
+  // Review fields are not part of the registrant's form schema
+  const [status, setStatus] = useState<RegistrationStatus>("submitted");
+  const [adminMessage, setAdminMessage] = useState("");
+  const { t } = useLanguage();
+  // Built on every render so a language switch reaches the messages
+  const schema = createRegistrationSchema(formFields);
 
+  const form = useForm<RegistrationFormValues>({
+    resolver: zodResolver(schema),
+  });
   const {
     register,
+    control,
     handleSubmit,
     setValue,
     reset,
     formState: { errors },
-  } = useForm<RegistrationFormData>({
-    resolver: zodResolver(registrationSchema),
-  });
+  } = form;
 
   useEffect(() => {
     if (registration) {
@@ -45,12 +62,15 @@ export function EditModal({ registration, isOpen, onClose, onSave }: EditModalPr
         email: registration.email,
         gender: registration.gender,
         department: registration.department,
-        address: registration.address,
+        address: fromAddressColumns(registration),
+        customFields: getCustomFieldDefaults(formFields, registration.custom_fields),
       });
+      setStatus(registration.status);
+      setAdminMessage(registration.admin_message ?? "");
     }
-  }, [registration, reset]);
+  }, [registration, formFields, reset]);
 
-  const onSubmit = async (data: RegistrationFormData) => {
+  const onSubmit = async (data: RegistrationFormValues) => {
     if (!registration) return;
 
     setIsSaving(true);
@@ -61,7 +81,14 @@ export function EditModal({ registration, isOpen, onClose, onSave }: EditModalPr
         email: data.email,
         gender: data.gender,
         department: data.department,
-        address: data.address,
+        ...toAddressColumns(data.address),
+        // Keep answers to fields that were removed from the form since
+        custom_fields: {
+          ...registration.custom_fields,
+          ...toCustomFieldAnswers(formFields, data.customFields),
+        },
+        status,
+        admin_message: adminMessage.trim() || null,
       });
       onClose();
     } finally {
@@ -89,7 +116,7 @@ export function EditModal({ registration, isOpen, onClose, onSave }: EditModalPr
             className="fixed inset-4 md:inset-auto md:left-1/2 md:top-1/2 md:-translate-x-1/2 md:-translate-y-1/2 md:max-w-lg md:w-full bg-card rounded-2xl shadow-xl z-50 overflow-hidden"
           >
             <div className="flex items-center justify-between p-4 border-b border-border">
-              <h2 className="text-lg font-semibold">Edit Registration</h2>
+              <h2 className="text-lg font-semibold">{t("edit.title")}</h2>
               <Button variant="ghost" size="icon" onClick={onClose}>
                 <X className="w-5 h-5" />
               </Button>
@@ -98,24 +125,35 @@ export function EditModal({ registration, isOpen, onClose, onSave }: EditModalPr
             <form onSubmit={handleSubmit(onSubmit)} className="p-6 max-h-[calc(100vh-200px)] overflow-y-auto">
               <div className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="fullName">Full Name</Label>
+                  <Label htmlFor="fullName">{t("field.fullName")}</Label>
                   <Input id="fullName" {...register("fullName")} className="input-focus" />
                   {errors.fullName && (
                     <p className="text-sm text-destructive">{errors.fullName.message}</p>
                   )}
                 </div>
 
-                <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-4 sm:grid-cols-[3fr_2fr]">
                   <div className="space-y-2">
-                    <Label htmlFor="mobileNumber">Mobile Number</Label>
-                    <Input id="mobileNumber" {...register("mobileNumber")} className="input-focus" />
+                    <Label htmlFor="mobileNumber">{t("field.mobileNumber")}</Label>
+                    <Controller
+                      name="mobileNumber"
+                      control={control}
+                      render={({ field }) => (
+                        <PhoneInput
+                          id="mobileNumber"
+                          value={field.value ?? ""}
+                          onChange={field.onChange}
+                          onBlur={field.onBlur}
+                        />
+                      )}
+                    />
                     {errors.mobileNumber && (
                       <p className="text-sm text-destructive">{errors.mobileNumber.message}</p>
                     )}
                   </div>
 
                   <div className="space-y-2">
-                    <Label>Gender</Label>
+                    <Label>{t("field.gender")}</Label>
                     <Select
                       defaultValue={registration.gender}
                       onValueChange={(value) => setValue("gender", value as any)}
@@ -124,9 +162,9 @@ export function EditModal({ registration, isOpen, onClose, onSave }: EditModalPr
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="male">Male</SelectItem>
-                        <SelectItem value="female">Female</SelectItem>
-                        <SelectItem value="other">Other</SelectItem>
+                        <SelectItem value="male">{t("gender.male")}</SelectItem>
+                        <SelectItem value="female">{t("gender.female")}</SelectItem>
+                        <SelectItem value="other">{t("gender.other")}</SelectItem>
                       </SelectContent>
                     </Select>
                     {errors.gender && (
@@ -136,7 +174,7 @@ export function EditModal({ registration, isOpen, onClose, onSave }: EditModalPr
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="email">Email</Label>
+                  <Label htmlFor="email">{t("field.email")}</Label>
                   <Input id="email" type="email" {...register("email")} className="input-focus" />
                   {errors.email && (
                     <p className="text-sm text-destructive">{errors.email.message}</p>
@@ -144,7 +182,7 @@ export function EditModal({ registration, isOpen, onClose, onSave }: EditModalPr
                 </div>
 
                 <div className="space-y-2">
-                  <Label>Department</Label>
+                  <Label>{t("field.department")}</Label>
                   <Select
                     defaultValue={registration.department}
                     onValueChange={(value) => setValue("department", value)}
@@ -155,7 +193,7 @@ export function EditModal({ registration, isOpen, onClose, onSave }: EditModalPr
                     <SelectContent>
                       {DEPARTMENTS.map((dept) => (
                         <SelectItem key={dept} value={dept}>
-                          {dept}
+                          {getDepartmentLabel(dept)}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -165,32 +203,53 @@ export function EditModal({ registration, isOpen, onClose, onSave }: EditModalPr
                   )}
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="address">Address</Label>
-                  <Textarea
-                    id="address"
-                    rows={3}
-                    {...register("address")}
-                    className="input-focus resize-none"
-                  />
-                  {errors.address && (
-                    <p className="text-sm text-destructive">{errors.address.message}</p>
-                  )}
+                <AddressFields form={form} idPrefix="edit-address" className="gap-4" />
+
+                <CustomFieldInputs fields={formFields} control={control} idPrefix="edit" />
+
+                <div className="space-y-4 pt-4 border-t border-border">
+                  <div className="space-y-2">
+                    <Label htmlFor="edit-status">{t("edit.status")}</Label>
+                    <Select value={status} onValueChange={(value) => setStatus(value as RegistrationStatus)}>
+                      <SelectTrigger id="edit-status">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {REGISTRATION_STATUS_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {t(option.labelKey)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="edit-admin-message">{t("edit.adminMessage")}</Label>
+                    <Textarea
+                      id="edit-admin-message"
+                      value={adminMessage}
+                      onChange={(e) => setAdminMessage(e.target.value)}
+                      placeholder={t("edit.adminMessagePlaceholder")}
+                      maxLength={1000}
+                      className="input-focus"
+                    />
+                  </div>
                 </div>
               </div>
 
               <div className="flex gap-3 mt-6 pt-4 border-t border-border">
                 <Button type="button" variant="outline" onClick={onClose} className="flex-1">
-                  Cancel
+                  {t("common.cancel")}
                 </Button>
                 <Button type="submit" className="flex-1 btn-primary" disabled={isSaving}>
                   {isSaving ? (
                     <>
                       <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                      Saving...
+                      {t("edit.saving")}
                     </>
                   ) : (
-                    "Save Changes"
+                    t("edit.save")
                   )}
                 </Button>
               </div>
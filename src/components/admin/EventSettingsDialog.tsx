@@ -0,0 +1,528 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { DUPLICATE_POLICY_OPTIONS, getEventFormPath } from "@/lib/events";
+import { fetchDepartmentCapacities, saveDepartmentCapacities } from "@/lib/capacity";
+import { fromMinorUnits, toMinorUnits } from "@/lib/payments";
+import { KIOSK_PIN_PATTERN, getKioskPath, hasKioskPin, setKioskPin } from "@/lib/kiosk";
+import { ROSTER_POLICY_OPTIONS, fetchRosterSize, parseRosterFile, replaceRoster } from "@/lib/roster";
+import { DEPARTMENTS, getDepartmentLabel } from "@/lib/validations";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { DuplicatePolicy, RegistrationEvent, RosterPolicy } from "@/types/event";
+import type { RosterUploadEntry } from "@/types/roster";
+import { useLanguage } from "@/hooks/useLanguage";
+import { t } from "@/lib/i18n";
+
+type EventSettings = Pick<
+  RegistrationEvent,
+  | "name"
+  | "description"
+  | "is_active"
+  | "wizard_mode"
+  | "duplicate_policy"
+  | "require_email_verification"
+  | "require_mobile_verification"
+  | "opens_at"
+  | "closes_at"
+  | "max_registrations"
+  | "is_paused"
+  | "invite_only"
+  | "roster_policy"
+  | "fee_amount"
+>;
+
+interface EventSettingsDialogProps {
+  event: RegistrationEvent | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: (event: RegistrationEvent) => void;
+}
+
+function toSettings(event: RegistrationEvent): EventSettings {
+  return {
+    name: event.name,
+    description: event.description,
+    is_active: event.is_active,
+    wizard_mode: event.wizard_mode,
+    duplicate_policy: event.duplicate_policy,
+    require_email_verification: event.require_email_verification,
+    require_mobile_verification: event.require_mobile_verification,
+    opens_at: event.opens_at,
+    closes_at: event.closes_at,
+    max_registrations: event.max_registrations,
+    is_paused: event.is_paused,
+    invite_only: event.invite_only,
+    roster_policy: event.roster_policy,
+    fee_amount: event.fee_amount,
+  };
+}
+
+// <input type="datetime-local"> works in local time without a zone
+function toDateTimeInput(value: string | null) {
+  return value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : "";
+}
+
+function fromDateTimeInput(value: string) {
+  return value ? new Date(value).toISOString() : null;
+}
+
+export function EventSettingsDialog({ event, isOpen, onClose, onSaved }: EventSettingsDialogProps) {
+  useLanguage();
+  const [settings, setSettings] = useState<EventSettings | null>(null);
+  // Seats per department as typed; blank means unlimited
+  const [capacities, setCapacities] = useState<Record<string, string>>({});
+  // The fee per person as typed, in the event's currency; blank means free
+  const [fee, setFee] = useState("");
+  // A new kiosk PIN as typed; blank keeps the current one
+  const [kioskPin, setKioskPinInput] = useState("");
+  const [kioskPinSet, setKioskPinSet] = useState<boolean | null>(null);
+  const [rosterSize, setRosterSize] = useState<number | null>(null);
+  // A roster read from a chosen file, saved in place of the current one
+  const [rosterUpload, setRosterUpload] = useState<{
+    fileName: string;
+    entries: RosterUploadEntry[];
+    skipped: number;
+  } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (event && isOpen) {
+      setSettings(toSettings(event));
+      setFee(event.fee_amount ? fromMinorUnits(event.fee_amount, event.fee_currency) : "");
+    }
+  }, [event, isOpen]);
+
+  useEffect(() => {
+    if (!event || !isOpen) return;
+    let cancelled = false;
+    setCapacities({});
+    setKioskPinInput("");
+    setKioskPinSet(null);
+    setRosterSize(null);
+    setRosterUpload(null);
+
+    fetchRosterSize(event.id)
+      .then((size) => {
+        if (!cancelled) setRosterSize(size);
+      })
+      .catch((error) => console.error("Error loading roster size:", error));
+
+    hasKioskPin(event.id)
+      .then((isSet) => {
+        if (!cancelled) setKioskPinSet(isSet);
+      })
+      .catch((error) => console.error("Error loading kiosk PIN:", error));
+
+    fetchDepartmentCapacities(event.id)
+      .then((rows) => {
+        if (cancelled) return;
+        setCapacities(Object.fromEntries(rows.map((row) => [row.department, String(row.capacity)])));
+      })
+      .catch((error) => {
+        console.error("Error loading department capacities:", error);
+        if (!cancelled) toast.error(t("eventSettings.capacityLoadFailed"));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [event, isOpen]);
+
+  const handleRosterFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const { entries, skipped } = await parseRosterFile(file);
+      if (entries.length === 0) {
+        toast.error(t("roster.fileEmpty"));
+        return;
+      }
+      setRosterUpload({ fileName: file.name, entries, skipped });
+    } catch (error) {
+      console.error("Error reading roster file:", error);
+      toast.error(error instanceof Error ? error.message : t("roster.fileUnreadable"));
+    }
+  };
+
+  const update = (patch: Partial<EventSettings>) =>
+    setSettings((prev) => (prev ? { ...prev, ...patch } : prev));
+
+  const handleSave = async () => {
+    if (!event || !settings) return;
+    if (!settings.name.trim()) {
+      toast.error(t("eventSettings.nameRequired"));
+      return;
+    }
+    if (
+      settings.opens_at &&
+      settings.closes_at &&
+      new Date(settings.closes_at) <= new Date(settings.opens_at)
+    ) {
+      toast.error(t("eventSettings.closesBeforeOpens"));
+      return;
+    }
+    const maxRegistrations = settings.max_registrations;
+    if (maxRegistrations !== null && !(Number.isInteger(maxRegistrations) && maxRegistrations > 0)) {
+      toast.error(t("eventSettings.maxRegistrationsInvalid"));
+      return;
+    }
+    const parsedCapacities = Object.fromEntries(
+      DEPARTMENTS.map((dept) => {
+        const value = capacities[dept]?.trim();
+        return [dept, value ? Number(value) : null];
+      })
+    );
+    const isValidCapacity = (value: number | null) => value === null || (Number.isInteger(value) && value >= 0);
+    if (!Object.values(parsedCapacities).every(isValidCapacity)) {
+      toast.error(t("eventSettings.capacityInvalid"));
+      return;
+    }
+    const feeAmount = fee.trim() ? toMinorUnits(fee, event.fee_currency) : null;
+    if (fee.trim() && feeAmount === null) {
+      toast.error(t("eventSettings.feeInvalid"));
+      return;
+    }
+    if (kioskPin && !KIOSK_PIN_PATTERN.test(kioskPin)) {
+      toast.error(t("eventSettings.kioskPinInvalid"));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from("events")
+        .update({
+          ...settings,
+          fee_amount: feeAmount,
+          name: settings.name.trim(),
+          description: settings.description?.trim() || null,
+        })
+        .eq("id", event.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      await saveDepartmentCapacities(event.id, parsedCapacities);
+      if (kioskPin) await setKioskPin(event.id, kioskPin);
+      if (rosterUpload) await replaceRoster(event.id, rosterUpload.entries);
+
+      onSaved(data as RegistrationEvent);
+      toast.success(t("eventSettings.saved"));
+      onClose();
+    } catch (error) {
+      console.error("Error saving event settings:", error);
+      toast.error(t("eventSettings.saveFailed"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[calc(100vh-4rem)] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("eventSettings.title")}</DialogTitle>
+          <DialogDescription>
+            {event && t("eventSettings.description", { path: getEventFormPath(event) })}
+          </DialogDescription>
+        </DialogHeader>
+
+        {settings && (
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <Label htmlFor="settingsName">{t("events.name")}</Label>
+              <Input
+                id="settingsName"
+                value={settings.name}
+                onChange={(e) => update({ name: e.target.value })}
+                className="input-focus"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settingsDescription">{t("events.description")}</Label>
+              <Textarea
+                id="settingsDescription"
+                rows={3}
+                value={settings.description ?? ""}
+                onChange={(e) => update({ description: e.target.value })}
+                className="input-focus resize-none"
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="settingsActive">{t("eventSettings.active")}</Label>
+                <p className="text-sm text-muted-foreground">{t("eventSettings.activeHint")}</p>
+              </div>
+              <Switch
+                id="settingsActive"
+                checked={settings.is_active}
+                onCheckedChange={(checked) => update({ is_active: checked })}
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="settingsPaused">{t("eventSettings.paused")}</Label>
+                <p className="text-sm text-muted-foreground">{t("eventSettings.pausedHint")}</p>
+              </div>
+              <Switch
+                id="settingsPaused"
+                checked={settings.is_paused}
+                onCheckedChange={(checked) => update({ is_paused: checked })}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="settingsOpensAt">{t("eventSettings.opensAt")}</Label>
+                <Input
+                  id="settingsOpensAt"
+                  type="datetime-local"
+                  value={toDateTimeInput(settings.opens_at)}
+                  onChange={(e) => update({ opens_at: fromDateTimeInput(e.target.value) })}
+                  className="input-focus"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="settingsClosesAt">{t("eventSettings.closesAt")}</Label>
+                <Input
+                  id="settingsClosesAt"
+                  type="datetime-local"
+                  value={toDateTimeInput(settings.closes_at)}
+                  onChange={(e) => update({ closes_at: fromDateTimeInput(e.target.value) })}
+                  className="input-focus"
+                />
+              </div>
+              <p className="text-sm text-muted-foreground sm:col-span-2">
+                {t("eventSettings.scheduleHint")}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="settingsMaxRegistrations">{t("eventSettings.maxRegistrations")}</Label>
+              <Input
+                id="settingsMaxRegistrations"
+                type="number"
+                min={1}
+                step={1}
+                placeholder={t("eventSettings.noLimit")}
+                value={settings.max_registrations ?? ""}
+                onChange={(e) =>
+                  update({ max_registrations: e.target.value === "" ? null : Number(e.target.value) })
+                }
+                className="input-focus"
+              />
+              <p className="text-sm text-muted-foreground">{t("eventSettings.maxRegistrationsHint")}</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="settingsFee">
+                {t("eventSettings.fee", { currency: event?.fee_currency ?? "" })}
+              </Label>
+              <Input
+                id="settingsFee"
+                inputMode="decimal"
+                placeholder={t("eventSettings.feePlaceholder")}
+                value={fee}
+                onChange={(e) => setFee(e.target.value)}
+                className="input-focus"
+              />
+              <p className="text-sm text-muted-foreground">{t("eventSettings.feeHint")}</p>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="settingsWizard">{t("eventSettings.wizard")}</Label>
+                <p className="text-sm text-muted-foreground">{t("eventSettings.wizardHint")}</p>
+              </div>
+              <Switch
+                id="settingsWizard"
+                checked={settings.wizard_mode}
+                onCheckedChange={(checked) => update({ wizard_mode: checked })}
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="settingsEmailVerification">{t("eventSettings.emailVerification")}</Label>
+                <p className="text-sm text-muted-foreground">{t("eventSettings.emailVerificationHint")}</p>
+              </div>
+              <Switch
+                id="settingsEmailVerification"
+                checked={settings.require_email_verification}
+                onCheckedChange={(checked) => update({ require_email_verification: checked })}
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="settingsMobileVerification">{t("eventSettings.mobileVerification")}</Label>
+                <p className="text-sm text-muted-foreground">{t("eventSettings.mobileVerificationHint")}</p>
+              </div>
+              <Switch
+                id="settingsMobileVerification"
+                checked={settings.require_mobile_verification}
+                onCheckedChange={(checked) => update({ require_mobile_verification: checked })}
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="settingsInviteOnly">{t("eventSettings.inviteOnly")}</Label>
+                <p className="text-sm text-muted-foreground">{t("eventSettings.inviteOnlyHint")}</p>
+              </div>
+              <Switch
+                id="settingsInviteOnly"
+                checked={settings.invite_only}
+                onCheckedChange={(checked) => update({ invite_only: checked })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="settingsDuplicatePolicy">{t("eventSettings.duplicatePolicy")}</Label>
+              <Select
+                value={settings.duplicate_policy}
+                onValueChange={(value) => update({ duplicate_policy: value as DuplicatePolicy })}
+              >
+                <SelectTrigger id="settingsDuplicatePolicy" className="input-focus">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DUPLICATE_POLICY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {t(option.labelKey)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                {t(DUPLICATE_POLICY_OPTIONS.find((o) => o.value === settings.duplicate_policy)!.descriptionKey)}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="settingsRosterPolicy">{t("roster.settingsLabel")}</Label>
+              <Select
+                value={settings.roster_policy}
+                onValueChange={(value) => update({ roster_policy: value as RosterPolicy })}
+              >
+                <SelectTrigger id="settingsRosterPolicy" className="input-focus">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROSTER_POLICY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {t(option.labelKey)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                {t(ROSTER_POLICY_OPTIONS.find((o) => o.value === settings.roster_policy)!.descriptionKey)}{" "}
+                {t("roster.matchingNote")}
+              </p>
+              <Input
+                id="settingsRosterFile"
+                type="file"
+                accept=".xlsx,.xls,.csv"
+                onChange={handleRosterFile}
+                className="input-focus"
+              />
+              <p className="text-sm text-muted-foreground">
+                {rosterUpload
+                  ? t(rosterUpload.skipped > 0 ? "roster.fileReadSkipped" : "roster.fileRead", {
+                      count: rosterUpload.entries.length,
+                      file: rosterUpload.fileName,
+                      skipped: rosterUpload.skipped,
+                    })
+                  : t("roster.size", { count: rosterSize ?? "…" })}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="settingsKioskPin">{t("eventSettings.kioskPin")}</Label>
+              <Input
+                id="settingsKioskPin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="new-password"
+                maxLength={8}
+                placeholder={t(kioskPinSet ? "eventSettings.kioskPinUnchanged" : "eventSettings.kioskPinPlaceholder")}
+                value={kioskPin}
+                onChange={(e) => setKioskPinInput(e.target.value.replace(/\D/g, ""))}
+                className="input-focus"
+              />
+              <p className="text-sm text-muted-foreground">
+                {event && t("eventSettings.kioskPinHint", { path: getKioskPath(event) })}
+                {kioskPinSet === false && ` ${t("eventSettings.kioskPinMissing")}`}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t("eventSettings.capacity")}</Label>
+              <p className="text-sm text-muted-foreground">{t("eventSettings.capacityHint")}</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {DEPARTMENTS.map((dept) => (
+                  <div key={dept} className="flex items-center justify-between gap-3">
+                    <Label htmlFor={`capacity-${dept}`} className="font-normal">
+                      {getDepartmentLabel(dept)}
+                    </Label>
+                    <Input
+                      id={`capacity-${dept}`}
+                      type="number"
+                      min={0}
+                      step={1}
+                      placeholder={t("eventSettings.noLimit")}
+                      value={capacities[dept] ?? ""}
+                      onChange={(e) => setCapacities((prev) => ({ ...prev, [dept]: e.target.value }))}
+                      className="input-focus w-28"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {t("common.cancel")}
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving} className="btn-primary">
+            {isSaving ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                {t("common.saving")}
+              </>
+            ) : (
+              t("eventSettings.save")
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
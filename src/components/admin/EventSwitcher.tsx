@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { CalendarRange, Plus, Link2, Loader2, Settings } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { getEventFormPath, slugify } from "@/lib/events";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { EventSettingsDialog } from "@/components/admin/EventSettingsDialog";
+import type { RegistrationEvent } from "@/types/event";
+import { useLanguage } from "@/hooks/useLanguage";
+
+interface EventSwitcherProps {
+  events: RegistrationEvent[];
+  selectedEventId: string | null;
+  onSelect: (eventId: string) => void;
+  onCreated: (event: RegistrationEvent) => void;
+  onUpdated: (event: RegistrationEvent) => void;
+}
+
+export function EventSwitcher({
+  events,
+  selectedEventId,
+  onSelect,
+  onCreated,
+  onUpdated,
+}: EventSwitcherProps) {
+  const { t } = useLanguage();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [slug, setSlug] = useState("");
+  const [slugTouched, setSlugTouched] = useState(false);
+  const [description, setDescription] = useState("");
+
+  const selectedEvent = events.find((e) => e.id === selectedEventId);
+
+  const resetCreateForm = () => {
+    setName("");
+    setSlug("");
+    setSlugTouched(false);
+    setDescription("");
+  };
+
+  const handleCopyLink = async () => {
+    if (!selectedEvent) return;
+    const url = `${window.location.origin}${getEventFormPath(selectedEvent)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success(t("events.linkCopied"));
+    } catch {
+      toast.error(url);
+    }
+  };
+
+  const handleCreate = async () => {
+    const finalSlug = slugify(slug || name);
+    if (!name.trim() || !finalSlug) {
+      toast.error(t("events.nameRequired"));
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const { data, error } = await supabase
+        .from("events")
+        .insert({
+          name: name.trim(),
+          slug: finalSlug,
+          description: description.trim() || null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === "23505") {
+          toast.error(t("events.slugTaken"));
+          return;
+        }
+        throw error;
+      }
+
+      onCreated(data as RegistrationEvent);
+      toast.success(t("events.created"));
+      setIsCreateOpen(false);
+      resetCreateForm();
+    } catch (error) {
+      console.error("Error creating event:", error);
+      toast.error(t("events.createFailed"));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+      <Select value={selectedEventId ?? undefined} onValueChange={onSelect}>
+        <SelectTrigger className="w-full sm:w-[260px]">
+          <CalendarRange className="w-4 h-4 mr-2" />
+          <SelectValue placeholder={t("events.select")} />
+        </SelectTrigger>
+        <SelectContent>
+          {events.map((event) => (
+            <SelectItem key={event.id} value={event.id}>
+              {event.name}
+              {!event.is_active && ` ${t("events.inactive")}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleCopyLink}
+          disabled={!selectedEvent}
+          className="gap-2"
+        >
+          <Link2 className="w-4 h-4" />
+          {t("events.copyLink")}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setIsSettingsOpen(true)}
+          disabled={!selectedEvent}
+          className="gap-2"
+        >
+          <Settings className="w-4 h-4" />
+          {t("events.settings")}
+        </Button>
+        <Button size="sm" onClick={() => setIsCreateOpen(true)} className="gap-2">
+          <Plus className="w-4 h-4" />
+          {t("events.new")}
+        </Button>
+      </div>
+
+      <Dialog
+        open={isCreateOpen}
+        onOpenChange={(open) => {
+          setIsCreateOpen(open);
+          if (!open) resetCreateForm();
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("events.new")}</DialogTitle>
+            <DialogDescription>{t("events.newDescription")}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="eventName">{t("events.name")}</Label>
+              <Input
+                id="eventName"
+                placeholder={t("events.namePlaceholder")}
+                value={name}
+                onChange={(e) => {
+                  setName(e.target.value);
+                  if (!slugTouched) setSlug(slugify(e.target.value));
+                }}
+                className="input-focus"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="eventSlug">{t("events.slug")}</Label>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">/r/</span>
+                <Input
+                  id="eventSlug"
+                  placeholder="spring-hackathon-2026"
+                  value={slug}
+                  onChange={(e) => {
+                    setSlug(e.target.value);
+                    setSlugTouched(true);
+                  }}
+                  onBlur={() => setSlug(slugify(slug))}
+                  className="input-focus"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="eventDescription">{t("events.description")}</Label>
+              <Textarea
+                id="eventDescription"
+                rows={3}
+                placeholder={t("events.descriptionPlaceholder")}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="input-focus resize-none"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
+              {t("common.cancel")}
+            </Button>
+            <Button onClick={handleCreate} disabled={isCreating} className="btn-primary">
+              {isCreating ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  {t("events.creating")}
+                </>
+              ) : (
+                t("events.create")
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <EventSettingsDialog
+        event={selectedEvent ?? null}
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        onSaved={onUpdated}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FIELD_TYPE_LABELS, hasLengthLimits, hasOptions, toFieldKey } from "@/lib/form-fields";
+import type { FormFieldType } from "@/types/form-field";
+import { useLanguage } from "@/hooks/useLanguage";
+
+export interface FormFieldDraft {
+  label: string;
+  field_key: string;
+  field_type: FormFieldType;
+  optionsText: string;
+  placeholder: string;
+  required: boolean;
+  min_value: string;
+  max_value: string;
+  pattern: string;
+  show_in_table: boolean;
+}
+
+interface FormFieldEditorProps {
+  draft: FormFieldDraft;
+  isNew: boolean;
+  isSaving: boolean;
+  onChange: (draft: FormFieldDraft) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+export function FormFieldEditor({ draft, isNew, isSaving, onChange, onSave, onCancel }: FormFieldEditorProps) {
+  const { t } = useLanguage();
+  const update = (patch: Partial<FormFieldDraft>) => onChange({ ...draft, ...patch });
+  const supportsLimits = hasLengthLimits(draft.field_type) || draft.field_type === "number";
+  const supportsText = draft.field_type !== "checkbox" && draft.field_type !== "radio";
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="fieldLabel">{t("formBuilder.label")}</Label>
+          <Input
+            id="fieldLabel"
+            placeholder={t("formBuilder.labelPlaceholder")}
+            value={draft.label}
+            onChange={(e) =>
+              update({
+                label: e.target.value,
+                ...(isNew && { field_key: toFieldKey(e.target.value) }),
+              })
+            }
+            className="input-focus"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="fieldKey">{t("formBuilder.key")}</Label>
+          <Input
+            id="fieldKey"
+            placeholder="t_shirt_size"
+            value={draft.field_key}
+            disabled={!isNew}
+            onChange={(e) => update({ field_key: e.target.value })}
+            className="input-focus font-mono text-sm"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>{t("formBuilder.type")}</Label>
+          <Select
+            value={draft.field_type}
+            onValueChange={(value) => update({ field_type: value as FormFieldType })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(FIELD_TYPE_LABELS).map(([type, labelKey]) => (
+                <SelectItem key={type} value={type}>
+                  {t(labelKey)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {supportsText && (
+          <div className="space-y-2">
+            <Label htmlFor="fieldPlaceholder">{t("formBuilder.placeholder")}</Label>
+            <Input
+              id="fieldPlaceholder"
+              value={draft.placeholder}
+              onChange={(e) => update({ placeholder: e.target.value })}
+              className="input-focus"
+            />
+          </div>
+        )}
+      </div>
+
+      {hasOptions(draft.field_type) && (
+        <div className="space-y-2">
+          <Label htmlFor="fieldOptions">{t("formBuilder.options")}</Label>
+          <Textarea
+            id="fieldOptions"
+            rows={4}
+            placeholder={"S\nM\nL\nXL"}
+            value={draft.optionsText}
+            onChange={(e) => update({ optionsText: e.target.value })}
+            className="input-focus resize-none"
+          />
+        </div>
+      )}
+
+      {supportsLimits && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="fieldMin">
+              {t(draft.field_type === "number" ? "formBuilder.minValue" : "formBuilder.minLength")}
+            </Label>
+            <Input
+              id="fieldMin"
+              type="number"
+              value={draft.min_value}
+              onChange={(e) => update({ min_value: e.target.value })}
+              className="input-focus"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="fieldMax">
+              {t(draft.field_type === "number" ? "formBuilder.maxValue" : "formBuilder.maxLength")}
+            </Label>
+            <Input
+              id="fieldMax"
+              type="number"
+              value={draft.max_value}
+              onChange={(e) => update({ max_value: e.target.value })}
+              className="input-focus"
+            />
+          </div>
+        </div>
+      )}
+
+      {(draft.field_type === "text" || draft.field_type === "textarea") && (
+        <div className="space-y-2">
+          <Label htmlFor="fieldPattern">{t("formBuilder.pattern")}</Label>
+          <Input
+            id="fieldPattern"
+            placeholder="^EMP\d{5}$"
+            value={draft.pattern}
+            onChange={(e) => update({ pattern: e.target.value })}
+            className="input-focus font-mono text-sm"
+          />
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-6">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="fieldRequired"
+            checked={draft.required}
+            onCheckedChange={(checked) => update({ required: checked })}
+          />
+          <Label htmlFor="fieldRequired">{t("formBuilder.required")}</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="fieldShowInTable"
+            checked={draft.show_in_table}
+            onCheckedChange={(checked) => update({ show_in_table: checked })}
+          />
+          <Label htmlFor="fieldShowInTable">{t("formBuilder.showInTable")}</Label>
+        </div>
+      </div>
+
+      <div className="flex gap-3 pt-4 border-t border-border">
+        <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
+          {t("common.cancel")}
+        </Button>
+        <Button type="button" onClick={onSave} className="flex-1 btn-primary" disabled={isSaving}>
+          {isSaving ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              {t("common.saving")}
+            </>
+          ) : isNew ? (
+            t("formBuilder.addField")
+          ) : (
+            t("formBuilder.saveField")
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { MAX_INVITE_BATCH, generateInviteCodes } from "@/lib/invites";
+import { DEPARTMENTS, getDepartmentLabel } from "@/lib/validations";
+import { useLanguage } from "@/hooks/useLanguage";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { InviteCode } from "@/types/invite";
+
+// Select items can't have an empty value; this one stands for "any department"
+const ANY_DEPARTMENT = "any";
+
+interface GenerateInvitesDialogProps {
+  eventId: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onGenerated: (codes: InviteCode[]) => void;
+}
+
+export function GenerateInvitesDialog({ eventId, isOpen, onClose, onGenerated }: GenerateInvitesDialogProps) {
+  const { t } = useLanguage();
+  const [count, setCount] = useState("10");
+  const [maxUses, setMaxUses] = useState("1");
+  const [department, setDepartment] = useState(ANY_DEPARTMENT);
+  const [expiresAt, setExpiresAt] = useState("");
+  const [label, setLabel] = useState("");
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setCount("10");
+    setMaxUses("1");
+    setDepartment(ANY_DEPARTMENT);
+    setExpiresAt("");
+    setLabel("");
+  }, [isOpen]);
+
+  const handleGenerate = async () => {
+    if (!eventId) return;
+    const parsedCount = Number(count);
+    const parsedMaxUses = Number(maxUses);
+    if (!Number.isInteger(parsedCount) || parsedCount < 1 || parsedCount > MAX_INVITE_BATCH) {
+      toast.error(t("invites.countInvalid", { max: MAX_INVITE_BATCH }));
+      return;
+    }
+    if (!Number.isInteger(parsedMaxUses) || parsedMaxUses < 1) {
+      toast.error(t("invites.maxUsesInvalid"));
+      return;
+    }
+    if (expiresAt && new Date(expiresAt) <= new Date()) {
+      toast.error(t("invites.expiryInPast"));
+      return;
+    }
+
+    setIsGenerating(true);
+    try {
+      const codes = await generateInviteCodes(eventId, parsedCount, {
+        max_uses: parsedMaxUses,
+        department: department === ANY_DEPARTMENT ? null : department,
+        // <input type="datetime-local"> works in local time without a zone
+        expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+        label: label.trim() || null,
+      });
+      onGenerated(codes);
+      toast.success(t("invites.generated", { count: codes.length }));
+      onClose();
+    } catch (error) {
+      console.error("Error generating invite codes:", error);
+      toast.error(t("invites.generateFailed"));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("invites.generateTitle")}</DialogTitle>
+          <DialogDescription>{t("invites.generateDescription")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="inviteCount">{t("invites.count")}</Label>
+              <Input
+                id="inviteCount"
+                type="number"
+                min={1}
+                max={MAX_INVITE_BATCH}
+                value={count}
+                onChange={(e) => setCount(e.target.value)}
+                className="input-focus"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="inviteMaxUses">{t("invites.maxUses")}</Label>
+              <Input
+                id="inviteMaxUses"
+                type="number"
+                min={1}
+                value={maxUses}
+                onChange={(e) => setMaxUses(e.target.value)}
+                className="input-focus"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="inviteDepartment">{t("table.department")}</Label>
+            <Select value={department} onValueChange={setDepartment}>
+              <SelectTrigger id="inviteDepartment" className="input-focus">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_DEPARTMENT}>{t("invites.registrantChooses")}</SelectItem>
+                {DEPARTMENTS.map((dept) => (
+                  <SelectItem key={dept} value={dept}>
+                    {getDepartmentLabel(dept)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">{t("invites.departmentHint")}</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="inviteExpiresAt">{t("invites.expires")}</Label>
+            <Input
+              id="inviteExpiresAt"
+              type="datetime-local"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              className="input-focus"
+            />
+            <p className="text-sm text-muted-foreground">{t("invites.expiresHint")}</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="inviteLabel">{t("invites.label")}</Label>
+            <Input
+              id="inviteLabel"
+              value={label}
+              maxLength={100}
+              placeholder={t("invites.labelPlaceholder")}
+              onChange={(e) => setLabel(e.target.value)}
+              className="input-focus"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isGenerating}>
+            {t("common.cancel")}
+          </Button>
+          <Button onClick={handleGenerate} disabled={isGenerating || !eventId}>
+            {isGenerating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {t("invites.generateSubmit")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,34 @@
+import { cn } from "@/lib/utils";
+import { formatMoney, getPaymentStatusLabel } from "@/lib/payments";
+import { useLanguage } from "@/hooks/useLanguage";
+import type { PaymentStatus } from "@/types/registration";
+
+const PAYMENT_STYLES: Record<PaymentStatus, string> = {
+  pending_payment: "bg-warning/10 text-warning",
+  paid: "bg-success/10 text-success",
+  refunded: "bg-muted text-muted-foreground",
+};
+
+interface PaymentBadgeProps {
+  status: PaymentStatus;
+  amount?: number | null;
+  currency?: string | null;
+  className?: string;
+}
+
+export function PaymentBadge({ status, amount, currency, className }: PaymentBadgeProps) {
+  // Re-renders the label on a language switch
+  useLanguage();
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full whitespace-nowrap",
+        PAYMENT_STYLES[status],
+        className
+      )}
+    >
+      {getPaymentStatusLabel(status)}
+      {amount != null && currency ? ` · ${formatMoney(amount, currency)}` : null}
+    </span>
+  );
+}
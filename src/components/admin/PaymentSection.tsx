@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Loader2, Wallet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { PaymentBadge } from "@/components/admin/PaymentBadge";
+import { MANUAL_PAYMENT_PROVIDER } from "@/lib/payments";
+import { useLanguage } from "@/hooks/useLanguage";
+import type { Registration } from "@/types/registration";
+
+type PaymentFields = Pick<
+  Registration,
+  | "payment_status"
+  | "payment_amount"
+  | "payment_currency"
+  | "payment_provider"
+  | "payment_reference"
+  | "paid_at"
+>;
+
+interface PaymentSectionProps {
+  registration: PaymentFields;
+  // Saves the change; resolves false when it failed
+  onUpdate: (data: Partial<PaymentFields>) => Promise<boolean>;
+}
+
+// The fee of a registration for a paid event. Admins record payments taken
+// at the venue or by bank transfer here, and mark refunds; the money itself
+// moves outside the app.
+export function PaymentSection({ registration, onUpdate }: PaymentSectionProps) {
+  const { t, formatDate } = useLanguage();
+  const [reference, setReference] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!registration.payment_status) return null;
+
+  const save = async (data: Partial<PaymentFields>) => {
+    setIsSaving(true);
+    if (await onUpdate(data)) setReference("");
+    setIsSaving(false);
+  };
+
+  const recordPayment = () =>
+    save({
+      payment_status: "paid",
+      payment_provider: MANUAL_PAYMENT_PROVIDER,
+      payment_reference: reference.trim() || null,
+      paid_at: new Date().toISOString(),
+    });
+
+  return (
+    <div className="flex items-start gap-3">
+      <div className="p-2 rounded-lg bg-primary/10">
+        <Wallet className="w-4 h-4 text-primary" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-muted-foreground">{t("view.payment")}</p>
+        <PaymentBadge
+          status={registration.payment_status}
+          amount={registration.payment_amount}
+          currency={registration.payment_currency}
+        />
+        {registration.paid_at && (
+          <p className="mt-1 text-xs text-muted-foreground">
+            {t("view.paidOn", {
+              date: formatDate(registration.paid_at, "MMM dd, yyyy HH:mm"),
+              provider:
+                registration.payment_provider === MANUAL_PAYMENT_PROVIDER
+                  ? t("view.paymentManual")
+                  : registration.payment_provider ?? "",
+            })}
+          </p>
+        )}
+        {registration.payment_reference && registration.payment_status !== "pending_payment" && (
+          <p className="text-xs text-muted-foreground">
+            {t("view.paymentReference")}:{" "}
+            <span className="font-mono">{registration.payment_reference}</span>
+          </p>
+        )}
+
+        {registration.payment_status === "pending_payment" && (
+          <div className="mt-3 flex flex-col sm:flex-row gap-2">
+            <Input
+              value={reference}
+              maxLength={100}
+              placeholder={t("view.paymentReferencePlaceholder")}
+              onChange={(e) => setReference(e.target.value)}
+              className="sm:flex-1"
+            />
+            <Button size="sm" onClick={recordPayment} disabled={isSaving} className="gap-2">
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+              {t("view.recordPayment")}
+            </Button>
+          </div>
+        )}
+        {registration.payment_status === "paid" && (
+          <div className="mt-3">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => save({ payment_status: "refunded" })}
+              disabled={isSaving}
+              className="gap-2"
+            >
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+              {t("view.markRefunded")}
+            </Button>
+            <p className="mt-1 text-xs text-muted-foreground">{t("view.markRefundedHint")}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { getConsentKindLabel, publishConsentDocument } from "@/lib/consents";
+import type { ConsentDocument, ConsentKind } from "@/types/consent";
+import { useLanguage } from "@/hooks/useLanguage";
+
+interface PublishConsentDialogProps {
+  // Kind to publish, with its current version to start from if there is one
+  kind: ConsentKind | null;
+  current: ConsentDocument | null;
+  onClose: () => void;
+  onPublished: (document: ConsentDocument) => void;
+}
+
+export function PublishConsentDialog({ kind, current, onClose, onPublished }: PublishConsentDialogProps) {
+  const { t } = useLanguage();
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [required, setRequired] = useState(true);
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  useEffect(() => {
+    if (!kind) return;
+    setTitle(current?.title ?? "");
+    setBody(current?.body ?? "");
+    setRequired(current?.required ?? kind !== "marketing");
+  }, [kind, current]);
+
+  const handlePublish = async () => {
+    if (!kind) return;
+    if (!title.trim() || !body.trim()) {
+      toast.error(t("consents.textRequired"));
+      return;
+    }
+
+    setIsPublishing(true);
+    try {
+      const document = await publishConsentDocument({
+        kind,
+        title: title.trim(),
+        body: body.trim(),
+        required,
+      });
+      onPublished(document);
+      toast.success(t("consents.published", { title: document.title, version: document.version }));
+      onClose();
+    } catch (error) {
+      console.error("Error publishing consent document:", error);
+      toast.error(t("consents.publishFailed"));
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!kind} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[calc(100vh-4rem)] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{kind && t("consents.publishTitle", { kind: getConsentKindLabel(kind) })}</DialogTitle>
+          <DialogDescription>
+            {current
+              ? t("consents.publishNext", { version: current.version + 1 })
+              : t("consents.publishFirst")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="consentTitle">{t("consents.title")}</Label>
+            <Input
+              id="consentTitle"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="input-focus"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="consentBody">{t("consents.text")}</Label>
+            <Textarea
+              id="consentBody"
+              rows={10}
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              className="input-focus"
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="consentRequired">{t("consents.required")}</Label>
+              <p className="text-sm text-muted-foreground">{t("consents.requiredHint")}</p>
+            </div>
+            <Switch id="consentRequired" checked={required} onCheckedChange={setRequired} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {t("common.cancel")}
+          </Button>
+          <Button onClick={handlePublish} disabled={isPublishing} className="btn-primary">
+            {isPublishing ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                {t("consents.publishing")}
+              </>
+            ) : (
+              t("consents.publish")
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
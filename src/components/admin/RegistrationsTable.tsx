@@ -1,6 +1,5 @@
 import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { format } from "date-fns";
 import {
   Eye,
   Pencil,
@@ -11,6 +10,10 @@ import {
   Filter,
   Download,
   X,
+  MapPin,
+  CircleDot,
+  UsersRound,
+  Wallet,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -39,11 +42,21 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { DEPARTMENTS } from "@/lib/validations";
+import { PaymentBadge } from "@/components/admin/PaymentBadge";
+import { VerificationBadge } from "@/components/admin/VerificationBadge";
+import { StatusBadge } from "@/components/registration/StatusBadge";
+import { REGISTRATION_STATUS_OPTIONS } from "@/lib/registrations";
+import { PAYMENT_STATUS_OPTIONS } from "@/lib/payments";
+import { DEPARTMENTS, getDepartmentLabel } from "@/lib/validations";
+import { formatCustomFieldValue } from "@/lib/form-fields";
+import { formatPhoneNumber } from "@/lib/phone";
+import { useLanguage } from "@/hooks/useLanguage";
 import type { Registration } from "@/types/registration";
+import type { FormField } from "@/types/form-field";
 
 interface RegistrationsTableProps {
   registrations: Registration[];
+  formFields: FormField[];
   isLoading: boolean;
   onView: (registration: Registration) => void;
   onEdit: (registration: Registration) => void;
@@ -53,8 +66,15 @@ interface RegistrationsTableProps {
 
 const ITEMS_PER_PAGE = 10;
 
+function uniqueSorted(values: (string | null)[]) {
+  return [...new Set(values.filter((value): value is string => !!value))].sort((a, b) =>
+    a.localeCompare(b)
+  );
+}
+
 export function RegistrationsTable({
   registrations,
+  formFields,
   isLoading,
   onView,
   onEdit,
@@ -63,21 +83,61 @@ export function RegistrationsTable({
 }: RegistrationsTableProps) {
   const [search, setSearch] = useState("");
   const [departmentFilter, setDepartmentFilter] = useState<string>("all");
+  const [stateFilter, setStateFilter] = useState<string>("all");
+  const [cityFilter, setCityFilter] = useState<string>("all");
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  // A payment status, or "none" for registrations without a fee
+  const [paymentFilter, setPaymentFilter] = useState<string>("all");
+  // Set from a registration's group badge
+  const [groupFilter, setGroupFilter] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [deleteId, setDeleteId] = useState<string | null>(null);
   const [deletePhotoUrl, setDeletePhotoUrl] = useState<string>("");
+  const { t, formatDate } = useLanguage();
+
+  const tableFields = formFields.filter((field) => field.show_in_table);
+  const columnCount = 9 + tableFields.length;
+
+  // Location filter options come from the registrations themselves
+  const stateOptions = uniqueSorted(registrations.map((reg) => reg.state));
+  const cityOptions = uniqueSorted(
+    registrations
+      .filter((reg) => stateFilter === "all" || reg.state === stateFilter)
+      .map((reg) => reg.city)
+  );
+
+  const groupSizes = new Map<string, number>();
+  registrations.forEach((reg) => {
+    if (reg.group_id) groupSizes.set(reg.group_id, (groupSizes.get(reg.group_id) ?? 0) + 1);
+  });
 
   // Filter registrations
   const filteredRegistrations = registrations.filter((reg) => {
     const matchesSearch =
       reg.full_name.toLowerCase().includes(search.toLowerCase()) ||
-      reg.mobile_number.includes(search) ||
-      reg.email.toLowerCase().includes(search.toLowerCase());
+      reg.mobile_number.includes(search.replace(/[\s()-]/g, "")) ||
+      reg.email.toLowerCase().includes(search.toLowerCase()) ||
+      reg.confirmation_code.toLowerCase().includes(search.trim().toLowerCase());
 
     const matchesDepartment =
       departmentFilter === "all" || reg.department === departmentFilter;
 
-    return matchesSearch && matchesDepartment;
+    const matchesState = stateFilter === "all" || reg.state === stateFilter;
+    const matchesCity = cityFilter === "all" || reg.city === cityFilter;
+    const matchesStatus = statusFilter === "all" || reg.status === statusFilter;
+    const matchesPayment =
+      paymentFilter === "all" || (reg.payment_status ?? "none") === paymentFilter;
+    const matchesGroup = !groupFilter || reg.group_id === groupFilter;
+
+    return (
+      matchesSearch &&
+      matchesDepartment &&
+      matchesState &&
+      matchesCity &&
+      matchesStatus &&
+      matchesPayment &&
+      matchesGroup
+    );
   });
 
   // Pagination
@@ -104,6 +164,16 @@ export function RegistrationsTable({
   const clearFilters = () => {
     setSearch("");
     setDepartmentFilter("all");
+    setStateFilter("all");
+    setCityFilter("all");
+    setStatusFilter("all");
+    setPaymentFilter("all");
+    setGroupFilter(null);
+    setCurrentPage(1);
+  };
+
+  const showGroup = (groupId: string) => {
+    setGroupFilter(groupId);
     setCurrentPage(1);
   };
 
@@ -111,11 +181,11 @@ export function RegistrationsTable({
     <div className="space-y-4">
       {/* Filters */}
       <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
-        <div className="flex flex-col sm:flex-row gap-3 flex-1 w-full sm:w-auto">
+        <div className="flex flex-col sm:flex-row sm:flex-wrap gap-3 flex-1 w-full sm:w-auto">
           <div className="relative flex-1 min-w-[200px]">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
             <Input
-              placeholder="Search by name, mobile or email..."
+              placeholder={t("table.searchPlaceholder")}
               value={search}
               onChange={(e) => {
                 setSearch(e.target.value);
@@ -133,27 +203,130 @@ export function RegistrationsTable({
           >
             <SelectTrigger className="w-full sm:w-[180px]">
               <Filter className="w-4 h-4 mr-2" />
-              <SelectValue placeholder="Department" />
+              <SelectValue placeholder={t("table.department")} />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="all">All Departments</SelectItem>
+              <SelectItem value="all">{t("table.allDepartments")}</SelectItem>
               {DEPARTMENTS.map((dept) => (
                 <SelectItem key={dept} value={dept}>
-                  {dept}
+                  {getDepartmentLabel(dept)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={stateFilter}
+            onValueChange={(value) => {
+              setStateFilter(value);
+              setCityFilter("all");
+              setCurrentPage(1);
+            }}
+          >
+            <SelectTrigger className="w-full sm:w-[160px]">
+              <MapPin className="w-4 h-4 mr-2" />
+              <SelectValue placeholder={t("table.state")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t("table.allStates")}</SelectItem>
+              {stateOptions.map((state) => (
+                <SelectItem key={state} value={state}>
+                  {state}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={cityFilter}
+            onValueChange={(value) => {
+              setCityFilter(value);
+              setCurrentPage(1);
+            }}
+          >
+            <SelectTrigger className="w-full sm:w-[160px]">
+              <MapPin className="w-4 h-4 mr-2" />
+              <SelectValue placeholder={t("table.city")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t("table.allCities")}</SelectItem>
+              {cityOptions.map((city) => (
+                <SelectItem key={city} value={city}>
+                  {city}
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
-          {(search || departmentFilter !== "all") && (
+          <Select
+            value={statusFilter}
+            onValueChange={(value) => {
+              setStatusFilter(value);
+              setCurrentPage(1);
+            }}
+          >
+            <SelectTrigger className="w-full sm:w-[160px]">
+              <CircleDot className="w-4 h-4 mr-2" />
+              <SelectValue placeholder={t("table.status")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t("table.allStatuses")}</SelectItem>
+              {REGISTRATION_STATUS_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {t(option.labelKey)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={paymentFilter}
+            onValueChange={(value) => {
+              setPaymentFilter(value);
+              setCurrentPage(1);
+            }}
+          >
+            <SelectTrigger className="w-full sm:w-[160px]">
+              <Wallet className="w-4 h-4 mr-2" />
+              <SelectValue placeholder={t("table.payment")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t("table.allPayments")}</SelectItem>
+              {PAYMENT_STATUS_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {t(option.labelKey)}
+                </SelectItem>
+              ))}
+              <SelectItem value="none">{t("table.noFee")}</SelectItem>
+            </SelectContent>
+          </Select>
+          {groupFilter && (
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => {
+                setGroupFilter(null);
+                setCurrentPage(1);
+              }}
+              className="gap-2"
+            >
+              <UsersRound className="w-4 h-4" />
+              {t("table.groupOf", { count: groupSizes.get(groupFilter) ?? 0 })}
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+          {(search ||
+            departmentFilter !== "all" ||
+            stateFilter !== "all" ||
+            cityFilter !== "all" ||
+            statusFilter !== "all" ||
+            paymentFilter !== "all" ||
+            groupFilter) && (
             <Button variant="ghost" size="sm" onClick={clearFilters}>
               <X className="w-4 h-4 mr-1" />
-              Clear
+              {t("table.clear")}
             </Button>
           )}
         </div>
         <Button onClick={onExport} variant="outline" className="gap-2">
           <Download className="w-4 h-4" />
-          Export
+          {t("table.export")}
         </Button>
       </div>
 
@@ -163,30 +336,37 @@ export function RegistrationsTable({
           <Table>
             <TableHeader>
               <TableRow className="bg-muted/50">
-                <TableHead className="w-[80px]">Photo</TableHead>
-                <TableHead>Name</TableHead>
-                <TableHead className="hidden md:table-cell">Mobile</TableHead>
-                <TableHead className="hidden lg:table-cell">Email</TableHead>
-                <TableHead className="hidden md:table-cell">Department</TableHead>
-                <TableHead className="hidden lg:table-cell">Date</TableHead>
-                <TableHead className="text-right">Actions</TableHead>
+                <TableHead className="w-[80px]">{t("table.photo")}</TableHead>
+                <TableHead>{t("table.name")}</TableHead>
+                <TableHead className="hidden md:table-cell">{t("table.mobile")}</TableHead>
+                <TableHead className="hidden lg:table-cell">{t("table.email")}</TableHead>
+                <TableHead className="hidden md:table-cell">{t("table.department")}</TableHead>
+                <TableHead className="hidden sm:table-cell">{t("table.status")}</TableHead>
+                <TableHead className="hidden md:table-cell">{t("table.payment")}</TableHead>
+                {tableFields.map((field) => (
+                  <TableHead key={field.id} className="hidden xl:table-cell">
+                    {field.label}
+                  </TableHead>
+                ))}
+                <TableHead className="hidden lg:table-cell">{t("table.date")}</TableHead>
+                <TableHead className="text-right">{t("table.actions")}</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               <AnimatePresence mode="popLayout">
                 {isLoading ? (
                   <TableRow>
-                    <TableCell colSpan={7} className="text-center py-10">
+                    <TableCell colSpan={columnCount} className="text-center py-10">
                       <div className="flex items-center justify-center gap-2">
                         <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin" />
-                        Loading...
+                        {t("table.loading")}
                       </div>
                     </TableCell>
                   </TableRow>
                 ) : paginatedRegistrations.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={7} className="text-center py-10 text-muted-foreground">
-                      No registrations found
+                    <TableCell colSpan={columnCount} className="text-center py-10 text-muted-foreground">
+                      {t("table.empty")}
                     </TableCell>
                   </TableRow>
                 ) : (
@@ -206,22 +386,74 @@ export function RegistrationsTable({
                           className="w-10 h-10 rounded-full object-cover border border-border"
                         />
                       </TableCell>
-                      <TableCell className="font-medium">{reg.full_name}</TableCell>
-                      <TableCell className="hidden md:table-cell">{reg.mobile_number}</TableCell>
-                      <TableCell className="hidden lg:table-cell">{reg.email}</TableCell>
+                      <TableCell className="font-medium">
+                        {reg.full_name}
+                        {reg.is_possible_duplicate && (
+                          <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-warning/10 text-warning whitespace-nowrap">
+                            {t("table.possibleDuplicate")}
+                          </span>
+                        )}
+                        {reg.roster_status === "unmatched" && (
+                          <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-warning/10 text-warning whitespace-nowrap">
+                            {t("table.notOnRoster")}
+                          </span>
+                        )}
+                        {reg.group_id && (
+                          <button
+                            type="button"
+                            title={t("table.showGroup")}
+                            onClick={() => showGroup(reg.group_id!)}
+                            className="ml-2 px-2 py-0.5 text-xs rounded-full bg-primary/10 text-primary whitespace-nowrap hover:bg-primary/20"
+                          >
+                            {t("table.groupOf", { count: groupSizes.get(reg.group_id) ?? 1 })}
+                          </button>
+                        )}
+                      </TableCell>
+                      <TableCell className="hidden md:table-cell">
+                        <div className="flex items-center gap-2">
+                          <span className="whitespace-nowrap">{formatPhoneNumber(reg.mobile_number)}</span>
+                          <VerificationBadge verifiedAt={reg.mobile_verified_at} />
+                        </div>
+                      </TableCell>
+                      <TableCell className="hidden lg:table-cell">
+                        <div className="flex items-center gap-2">
+                          {reg.email}
+                          <VerificationBadge verifiedAt={reg.email_verified_at} />
+                        </div>
+                      </TableCell>
                       <TableCell className="hidden md:table-cell">
                         <span className="px-2 py-1 text-xs rounded-full bg-accent text-accent-foreground">
-                          {reg.department}
+                          {getDepartmentLabel(reg.department)}
                         </span>
                       </TableCell>
+                      <TableCell className="hidden sm:table-cell">
+                        <StatusBadge status={reg.status} waitlistPosition={reg.waitlist_position} />
+                      </TableCell>
+                      <TableCell className="hidden md:table-cell">
+                        {reg.payment_status ? (
+                          <PaymentBadge
+                            status={reg.payment_status}
+                            amount={reg.payment_amount}
+                            currency={reg.payment_currency}
+                          />
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      {tableFields.map((field) => (
+                        <TableCell key={field.id} className="hidden xl:table-cell">
+                          {formatCustomFieldValue(field, reg.custom_fields?.[field.field_key]) || "—"}
+                        </TableCell>
+                      ))}
                       <TableCell className="hidden lg:table-cell text-muted-foreground">
-                        {format(new Date(reg.created_at), "MMM dd, yyyy")}
+                        {formatDate(reg.created_at, "MMM dd, yyyy")}
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center justify-end gap-1">
                           <Button
                             variant="ghost"
                             size="icon"
+                            aria-label={t("table.view")}
                             onClick={() => onView(reg)}
                             className="hover:bg-primary/10 hover:text-primary"
                           >
@@ -230,6 +462,7 @@ export function RegistrationsTable({
                           <Button
                             variant="ghost"
                             size="icon"
+                            aria-label={t("table.edit")}
                             onClick={() => onEdit(reg)}
                             className="hover:bg-warning/10 hover:text-warning"
                           >
@@ -238,6 +471,7 @@ export function RegistrationsTable({
                           <Button
                             variant="ghost"
                             size="icon"
+                            aria-label={t("table.delete")}
                             onClick={() => handleDeleteClick(reg.id, reg.photo_url)}
                             className="hover:bg-destructive/10 hover:text-destructive"
                           >
@@ -257,8 +491,11 @@ export function RegistrationsTable({
         {totalPages > 1 && (
           <div className="flex items-center justify-between px-4 py-3 border-t border-border">
             <p className="text-sm text-muted-foreground">
-              Showing {startIndex + 1}-{Math.min(startIndex + ITEMS_PER_PAGE, filteredRegistrations.length)} of{" "}
-              {filteredRegistrations.length}
+              {t("table.showing", {
+                from: startIndex + 1,
+                to: Math.min(startIndex + ITEMS_PER_PAGE, filteredRegistrations.length),
+                total: filteredRegistrations.length,
+              })}
             </p>
             <div className="flex items-center gap-2">
               <Button
@@ -289,19 +526,18 @@ export function RegistrationsTable({
       <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete Registration</AlertDialogTitle>
+            <AlertDialogTitle>{t("table.deleteTitle")}</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this registration? This action cannot be undone
-              and will also remove the associated photo.
+              {t("table.deleteDescription")}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
             <AlertDialogAction
               onClick={confirmDelete}
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
             >
-              Delete
+              {t("table.delete")}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
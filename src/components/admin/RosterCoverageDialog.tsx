@@ -0,0 +1,71 @@
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { downloadMissingRosterCsv } from "@/lib/roster";
+import { getDepartmentLabel } from "@/lib/validations";
+import { useLanguage } from "@/hooks/useLanguage";
+import type { RegistrationEvent } from "@/types/event";
+import type { RosterEntry } from "@/types/roster";
+
+interface RosterCoverageDialogProps {
+  event: RegistrationEvent | null;
+  // Roster people without a registration
+  missing: RosterEntry[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function RosterCoverageDialog({ event, missing, isOpen, onClose }: RosterCoverageDialogProps) {
+  const { t } = useLanguage();
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t("roster.coverageTitle")}</DialogTitle>
+          <DialogDescription>
+            {missing.length > 0
+              ? t("roster.coverageDescription", { count: missing.length })
+              : t("roster.allRegistered")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {missing.length > 0 && (
+          <>
+            <ul className="max-h-[60vh] overflow-y-auto divide-y divide-border rounded-lg border border-border">
+              {missing.map((entry) => (
+                <li key={entry.id} className="flex items-center justify-between gap-4 p-3">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{entry.full_name ?? entry.email ?? entry.employee_id}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {[entry.employee_id, entry.email].filter(Boolean).join(" · ")}
+                    </p>
+                  </div>
+                  {entry.department && (
+                    <span className="text-sm text-muted-foreground whitespace-nowrap">
+                      {getDepartmentLabel(entry.department)}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+            <Button
+              variant="outline"
+              className="gap-2 self-end"
+              onClick={() => event && downloadMissingRosterCsv(event, missing)}
+              disabled={!event}
+            >
+              <Download className="w-4 h-4" />
+              {t("roster.download")}
+            </Button>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,37 +1,76 @@
 import { motion } from "framer-motion";
-import { Users, CalendarDays, TrendingUp, Building2 } from "lucide-react";
+import { Users, CalendarDays, TrendingUp, Building2, Armchair, IdCard } from "lucide-react";
+import { useLanguage } from "@/hooks/useLanguage";
+import type { MessageKey } from "@/locales/en";
 
 interface StatsCardsProps {
   totalSubmissions: number;
   todaySubmissions: number;
   departments: number;
+  // Seat totals over departments with a capacity; null when none has one
+  capacity?: {
+    capacity: number;
+    seatsTaken: number;
+    waitlisted: number;
+    percent: number;
+  } | null;
+  // Roster people with a registration; null when the event has no roster
+  roster?: {
+    total: number;
+    registered: number;
+    percent: number;
+  } | null;
+  onShowRosterMissing?: () => void;
 }
 
-export function StatsCards({ totalSubmissions, todaySubmissions, departments }: StatsCardsProps) {
-  const stats = [
+// Column classes by number of cards, keeping rows even
+const GRID_COLUMNS: Record<number, string> = {
+  4: "lg:grid-cols-4",
+  5: "lg:grid-cols-3 xl:grid-cols-5",
+  6: "lg:grid-cols-3",
+};
+
+export function StatsCards({
+  totalSubmissions,
+  todaySubmissions,
+  departments,
+  capacity,
+  roster,
+  onShowRosterMissing,
+}: StatsCardsProps) {
+  const { t } = useLanguage();
+  const stats: {
+    label: MessageKey;
+    value: number | string;
+    detail?: string;
+    action?: { label: MessageKey; onClick: () => void };
+    icon: typeof Users;
+    color: string;
+    bgColor: string;
+  }[] = [
     {
-      label: "Total Registrations",
+      label: "stats.total",
       value: totalSubmissions,
       icon: Users,
       color: "text-primary",
       bgColor: "bg-primary/10",
     },
     {
-      label: "Today's Submissions",
+      label: "stats.today",
       value: todaySubmissions,
       icon: CalendarDays,
       color: "text-success",
       bgColor: "bg-success/10",
     },
     {
-      label: "Departments",
+      label: "stats.departments",
       value: departments,
       icon: Building2,
       color: "text-warning",
       bgColor: "bg-warning/10",
     },
     {
-      label: "Growth Rate",
+      label: "stats.growth",
       value: todaySubmissions > 0 ? `+${todaySubmissions}` : "0",
       icon: TrendingUp,
       color: "text-accent-foreground",
@@ -39,8 +78,35 @@ export function StatsCards({ totalSubmissions, todaySubmissions, departments }:
     },
   ];
 
+  if (capacity) {
+    stats.push({
+      label: "stats.capacity",
+      value: `${capacity.percent}%`,
+      detail: t("stats.capacityDetail", {
+        taken: capacity.seatsTaken,
+        capacity: capacity.capacity,
+        waitlisted: capacity.waitlisted,
+      }),
+      icon: Armchair,
+      color: "text-primary",
+      bgColor: "bg-primary/10",
+    });
+  }
+
+  if (roster) {
+    stats.push({
+      label: "stats.roster",
+      value: `${roster.percent}%`,
+      detail: t("stats.rosterDetail", { registered: roster.registered, total: roster.total }),
+      action: onShowRosterMissing && { label: "roster.viewMissing", onClick: onShowRosterMissing },
+      icon: IdCard,
+      color: "text-success",
+      bgColor: "bg-success/10",
+    });
+  }
+
   return (
-    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+    <div className={`grid grid-cols-1 sm:grid-cols-2 gap-4 ${GRID_COLUMNS[stats.length]}`}>
       {stats.map((stat, index) => (
         <motion.div
           key={stat.label}
@@ -51,8 +117,18 @@ export function StatsCards({ totalSubmissions, todaySubmissions, departments }:
         >
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-muted-foreground mb-1">{stat.label}</p>
+              <p className="text-sm text-muted-foreground mb-1">{t(stat.label)}</p>
               <p className="text-2xl font-bold text-foreground">{stat.value}</p>
+              {stat.detail && <p className="text-xs text-muted-foreground mt-1">{stat.detail}</p>}
+              {stat.action && (
+                <button
+                  type="button"
+                  onClick={stat.action.onClick}
+                  className="text-xs text-primary underline mt-1"
+                >
+                  {t(stat.action.label)}
+                </button>
+              )}
             </div>
             <div className={`p-3 rounded-xl ${stat.bgColor}`}>
               <stat.icon className={`w-6 h-6 ${stat.color}`} />
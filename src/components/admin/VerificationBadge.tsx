@@ -0,0 +1,34 @@
+import { BadgeCheck, CircleAlert } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useLanguage } from "@/hooks/useLanguage";
+
+interface VerificationBadgeProps {
+  verifiedAt: string | null;
+  className?: string;
+}
+
+export function VerificationBadge({ verifiedAt, className }: VerificationBadgeProps) {
+  const { t, formatDate } = useLanguage();
+  return verifiedAt ? (
+    <span
+      title={t("verification.verifiedOn", { date: formatDate(verifiedAt, "MMM dd, yyyy HH:mm") })}
+      className={cn(
+        "inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-success/10 text-success whitespace-nowrap",
+        className
+      )}
+    >
+      <BadgeCheck className="w-3 h-3" />
+      {t("verification.verified")}
+    </span>
+  ) : (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-muted text-muted-foreground whitespace-nowrap",
+        className
+      )}
+    >
+      <CircleAlert className="w-3 h-3" />
+      {t("verification.unverified")}
+    </span>
+  );
+}
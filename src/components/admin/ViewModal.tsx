@@ -1,16 +1,62 @@
-import { format } from "date-fns";
-import { X, User, Phone, Mail, MapPin, Building2, Calendar } from "lucide-react";
+import {
+  X,
+  User,
+  Phone,
+  Mail,
+  MapPin,
+  Building2,
+  Calendar,
+  ListChecks,
+  Hash,
+  IdCard,
+  Languages,
+  MessageSquare,
+  Tablet,
+  UsersRound,
+} from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
+import { VerificationBadge } from "@/components/admin/VerificationBadge";
+import { AttachmentsSection } from "@/components/admin/AttachmentsSection";
+import { ChangeHistorySection } from "@/components/admin/ChangeHistorySection";
+import { ConsentRecordSection } from "@/components/admin/ConsentRecordSection";
+import { PaymentSection } from "@/components/admin/PaymentSection";
+import { StatusBadge } from "@/components/registration/StatusBadge";
+import { formatCustomFieldValue } from "@/lib/form-fields";
+import { formatPhoneNumber } from "@/lib/phone";
+import { getCountryName } from "@/lib/address";
+import { getLanguageLabel } from "@/lib/i18n";
+import { getDepartmentLabel } from "@/lib/validations";
+import { useLanguage } from "@/hooks/useLanguage";
 import type { Registration } from "@/types/registration";
+import type { FormField } from "@/types/form-field";
+import type { ConsentDocument } from "@/types/consent";
 
 interface ViewModalProps {
   registration: Registration | null;
+  formFields: FormField[];
+  consentDocuments: ConsentDocument[];
+  // The others submitted in the same group as this registration
+  groupMembers?: Registration[];
+  onSelectMember?: (registration: Registration) => void;
+  // Records a payment taken outside the app, or a refund; resolves false when it failed
+  onUpdatePayment: (id: string, data: Partial<Registration>) => Promise<boolean>;
   isOpen: boolean;
   onClose: () => void;
 }
 
-export function ViewModal({ registration, isOpen, onClose }: ViewModalProps) {
+export function ViewModal({
+  registration,
+  formFields,
+  consentDocuments,
+  groupMembers = [],
+  onSelectMember,
+  onUpdatePayment,
+  isOpen,
+  onClose,
+}: ViewModalProps) {
+  const { t, formatDate } = useLanguage();
+
   if (!registration) return null;
 
   return (
@@ -31,7 +77,7 @@ export function ViewModal({ registration, isOpen, onClose }: ViewModalProps) {
             className="fixed inset-4 md:inset-auto md:left-1/2 md:top-1/2 md:-translate-x-1/2 md:-translate-y-1/2 md:max-w-2xl md:w-full bg-card rounded-2xl shadow-xl z-50 overflow-hidden"
           >
             <div className="flex items-center justify-between p-4 border-b border-border">
-              <h2 className="text-lg font-semibold">Registration Details</h2>
+              <h2 className="text-lg font-semibold">{t("view.title")}</h2>
               <Button variant="ghost" size="icon" onClick={onClose}>
                 <X className="w-5 h-5" />
               </Button>
@@ -55,8 +101,13 @@ export function ViewModal({ registration, isOpen, onClose }: ViewModalProps) {
                       <User className="w-4 h-4 text-primary" />
                     </div>
                     <div>
-                      <p className="text-sm text-muted-foreground">Full Name</p>
+                      <p className="text-sm text-muted-foreground">{t("field.fullName")}</p>
                       <p className="font-medium">{registration.full_name}</p>
+                      {registration.is_possible_duplicate && (
+                        <p className="text-xs text-warning mt-1">
+                          {t("view.possibleDuplicate")}
+                        </p>
+                      )}
                     </div>
                   </div>
 
@@ -65,8 +116,11 @@ export function ViewModal({ registration, isOpen, onClose }: ViewModalProps) {
                       <Phone className="w-4 h-4 text-primary" />
                     </div>
                     <div>
-                      <p className="text-sm text-muted-foreground">Mobile Number</p>
-                      <p className="font-medium">{registration.mobile_number}</p>
+                      <p className="text-sm text-muted-foreground">{t("field.mobileNumber")}</p>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className="font-medium">{formatPhoneNumber(registration.mobile_number)}</p>
+                        <VerificationBadge verifiedAt={registration.mobile_verified_at} />
+                      </div>
                     </div>
                   </div>
 
@@ -75,8 +129,11 @@ export function ViewModal({ registration, isOpen, onClose }: ViewModalProps) {
                       <Mail className="w-4 h-4 text-primary" />
                     </div>
                     <div>
-                      <p className="text-sm text-muted-foreground">Email</p>
-                      <p className="font-medium">{registration.email}</p>
+                      <p className="text-sm text-muted-foreground">{t("field.email")}</p>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className="font-medium">{registration.email}</p>
+                        <VerificationBadge verifiedAt={registration.email_verified_at} />
+                      </div>
                     </div>
                   </div>
 
@@ -86,8 +143,8 @@ export function ViewModal({ registration, isOpen, onClose }: ViewModalProps) {
                         <Building2 className="w-4 h-4 text-primary" />
                       </div>
                       <div>
-                        <p className="text-sm text-muted-foreground">Department</p>
-                        <p className="font-medium">{registration.department}</p>
+                        <p className="text-sm text-muted-foreground">{t("field.department")}</p>
+                        <p className="font-medium">{getDepartmentLabel(registration.department)}</p>
                       </div>
                     </div>
 
@@ -96,8 +153,8 @@ export function ViewModal({ registration, isOpen, onClose }: ViewModalProps) {
                         <User className="w-4 h-4 text-primary" />
                       </div>
                       <div>
-                        <p className="text-sm text-muted-foreground">Gender</p>
-                        <p className="font-medium capitalize">{registration.gender}</p>
+                        <p className="text-sm text-muted-foreground">{t("field.gender")}</p>
+                        <p className="font-medium">{t(`gender.${registration.gender}`)}</p>
                       </div>
                     </div>
                   </div>
@@ -107,22 +164,176 @@ export function ViewModal({ registration, isOpen, onClose }: ViewModalProps) {
                       <MapPin className="w-4 h-4 text-primary" />
                     </div>
                     <div>
-                      <p className="text-sm text-muted-foreground">Address</p>
-                      <p className="font-medium">{registration.address}</p>
+                      <p className="text-sm text-muted-foreground">{t("view.address")}</p>
+                      {registration.city ? (
+                        <div className="font-medium">
+                          <p>{registration.address_line1}</p>
+                          {registration.address_line2 && <p>{registration.address_line2}</p>}
+                          <p>
+                            {registration.city}, {registration.state} {registration.postal_code}
+                          </p>
+                          <p>{getCountryName(registration.country)}</p>
+                        </div>
+                      ) : (
+                        <p className="font-medium">{registration.address}</p>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="flex items-start gap-3">
+                      <div className="p-2 rounded-lg bg-primary/10">
+                        <Calendar className="w-4 h-4 text-primary" />
+                      </div>
+                      <div>
+                        <p className="text-sm text-muted-foreground">{t("view.registeredOn")}</p>
+                        <p className="font-medium">
+                          {formatDate(registration.created_at, "MMMM dd, yyyy, hh:mm a")}
+                        </p>
+                      </div>
                     </div>
+
+                    {/* Emails and messages to the registrant go out in this language */}
+                    <div className="flex items-start gap-3">
+                      <div className="p-2 rounded-lg bg-primary/10">
+                        <Languages className="w-4 h-4 text-primary" />
+                      </div>
+                      <div>
+                        <p className="text-sm text-muted-foreground">{t("view.language")}</p>
+                        <p className="font-medium">{getLanguageLabel(registration.language)}</p>
+                      </div>
+                    </div>
+
+                    <div className="flex items-start gap-3">
+                      <div className="p-2 rounded-lg bg-primary/10">
+                        <Tablet className="w-4 h-4 text-primary" />
+                      </div>
+                      <div>
+                        <p className="text-sm text-muted-foreground">{t("view.registeredVia")}</p>
+                        <p className="font-medium">
+                          {registration.source === "kiosk"
+                            ? t("view.sourceKiosk", { device: registration.device_id ?? "" })
+                            : t("view.sourceWeb")}
+                        </p>
+                      </div>
+                    </div>
+
+                    {(registration.employee_id || registration.roster_status) && (
+                      <div className="flex items-start gap-3">
+                        <div className="p-2 rounded-lg bg-primary/10">
+                          <IdCard className="w-4 h-4 text-primary" />
+                        </div>
+                        <div>
+                          <p className="text-sm text-muted-foreground">{t("view.employeeId")}</p>
+                          <p className="font-medium">{registration.employee_id ?? "—"}</p>
+                          {registration.roster_status && (
+                            <p
+                              className={`text-xs ${registration.roster_status === "unmatched" ? "text-warning" : "text-muted-foreground"}`}
+                            >
+                              {t("view.roster")}:{" "}
+                              {registration.roster_status === "matched"
+                                ? t("view.rosterMatched")
+                                : t("view.rosterUnmatched")}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    )}
                   </div>
 
                   <div className="flex items-start gap-3">
                     <div className="p-2 rounded-lg bg-primary/10">
-                      <Calendar className="w-4 h-4 text-primary" />
+                      <Hash className="w-4 h-4 text-primary" />
                     </div>
                     <div>
-                      <p className="text-sm text-muted-foreground">Registered On</p>
-                      <p className="font-medium">
-                        {format(new Date(registration.created_at), "MMMM dd, yyyy 'at' hh:mm a")}
-                      </p>
+                      <p className="text-sm text-muted-foreground">{t("statusPage.confirmationNumber")}</p>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className="font-mono font-medium">{registration.confirmation_code}</p>
+                        <StatusBadge status={registration.status} waitlistPosition={registration.waitlist_position} />
+                      </div>
                     </div>
                   </div>
+
+                  <PaymentSection
+                    key={registration.id}
+                    registration={registration}
+                    onUpdate={(data) => onUpdatePayment(registration.id, data)}
+                  />
+
+                  {registration.admin_message && (
+                    <div className="flex items-start gap-3">
+                      <div className="p-2 rounded-lg bg-primary/10">
+                        <MessageSquare className="w-4 h-4 text-primary" />
+                      </div>
+                      <div>
+                        <p className="text-sm text-muted-foreground">{t("edit.adminMessage")}</p>
+                        <p className="font-medium whitespace-pre-line">{registration.admin_message}</p>
+                      </div>
+                    </div>
+                  )}
+
+                  {groupMembers.length > 0 && (
+                    <div className="flex items-start gap-3">
+                      <div className="p-2 rounded-lg bg-primary/10">
+                        <UsersRound className="w-4 h-4 text-primary" />
+                      </div>
+                      <div className="flex-1">
+                        <p className="text-sm text-muted-foreground mb-2">{t("view.groupMembers")}</p>
+                        <ul className="space-y-2">
+                          {groupMembers.map((member) => (
+                            <li key={member.id} className="flex flex-wrap items-center gap-2">
+                              <button
+                                type="button"
+                                onClick={() => onSelectMember?.(member)}
+                                className="font-medium text-primary hover:underline"
+                              >
+                                {member.full_name}
+                              </button>
+                              <span className="font-mono text-sm text-muted-foreground">
+                                {member.confirmation_code}
+                              </span>
+                              {member.id === member.group_id && (
+                                <span className="px-2 py-0.5 text-xs rounded-full bg-accent text-accent-foreground">
+                                  {t("view.groupSubmitter")}
+                                </span>
+                              )}
+                              <StatusBadge status={member.status} waitlistPosition={member.waitlist_position} />
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    </div>
+                  )}
+
+                  <ConsentRecordSection registration={registration} documents={consentDocuments} />
+
+                  {formFields.length > 0 && (
+                    <div className="flex items-start gap-3">
+                      <div className="p-2 rounded-lg bg-primary/10">
+                        <ListChecks className="w-4 h-4 text-primary" />
+                      </div>
+                      <div className="flex-1">
+                        <p className="text-sm text-muted-foreground mb-2">{t("view.additionalDetails")}</p>
+                        <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2">
+                          {formFields.map((field) => (
+                            <div key={field.id}>
+                              <dt className="text-xs text-muted-foreground">{field.label}</dt>
+                              <dd className="font-medium">
+                                {formatCustomFieldValue(field, registration.custom_fields?.[field.field_key]) || "—"}
+                              </dd>
+                            </div>
+                          ))}
+                        </dl>
+                      </div>
+                    </div>
+                  )}
+
+                  <AttachmentsSection registrationId={registration.id} />
+
+                  <ChangeHistorySection
+                    registrationId={registration.id}
+                    refreshKey={registration.updated_at}
+                  />
                 </div>
               </div>
             </div>
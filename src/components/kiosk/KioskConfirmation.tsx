@@ -0,0 +1,82 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { CheckCircle2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useLanguage } from "@/hooks/useLanguage";
+import { KIOSK_RESET_SECONDS } from "@/lib/kiosk";
+
+interface KioskConfirmationProps {
+  confirmationCode: string | null;
+  waitlistPosition: number | null;
+  // The fee for a paid event, formatted, and whether it was paid here
+  payment?: { amount: string; paid: boolean } | null;
+  // Someone in the submission was waitlisted and pays once they get a seat
+  paymentDeferred?: boolean;
+  // Starts the form over for the next person
+  onDone: () => void;
+}
+
+export function KioskConfirmation({
+  confirmationCode,
+  waitlistPosition,
+  payment,
+  paymentDeferred = false,
+  onDone,
+}: KioskConfirmationProps) {
+  const [secondsLeft, setSecondsLeft] = useState(KIOSK_RESET_SECONDS);
+  const { t } = useLanguage();
+
+  useEffect(() => {
+    if (secondsLeft <= 0) {
+      onDone();
+      return;
+    }
+    const timer = setTimeout(() => setSecondsLeft((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [secondsLeft, onDone]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.9 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="flex flex-col items-center justify-center py-12 text-center"
+    >
+      <div className="w-24 h-24 rounded-full bg-success/10 flex items-center justify-center mb-6">
+        <CheckCircle2 className="w-12 h-12 text-success" />
+      </div>
+      <h2 className="text-3xl font-bold text-foreground mb-2">
+        {waitlistPosition ? t("form.waitlistTitle") : t("form.successTitle")}
+      </h2>
+      <p className="text-lg text-muted-foreground max-w-md">
+        {waitlistPosition
+          ? t("form.waitlistDescription", { position: waitlistPosition })
+          : t("form.successDescription")}
+      </p>
+      {payment && (
+        <p className={`mt-3 text-lg font-medium ${payment.paid ? "text-success" : "text-warning"}`}>
+          {payment.paid
+            ? t("payment.paidNote", { amount: payment.amount })
+            : t("payment.deskNote", { amount: payment.amount })}
+        </p>
+      )}
+      {paymentDeferred && (
+        <p className="mt-2 text-muted-foreground max-w-md">{t("payment.deferredNote")}</p>
+      )}
+      {confirmationCode && (
+        <div className="mt-8 w-full max-w-md rounded-xl border-2 border-primary/30 bg-primary/5 p-6">
+          <p className="text-muted-foreground">{t("form.confirmationNumber")}</p>
+          <p className="mt-2 font-mono text-5xl md:text-6xl font-bold tracking-widest text-foreground">
+            {confirmationCode}
+          </p>
+          <p className="mt-3 text-sm text-muted-foreground">{t("kiosk.noteCode")}</p>
+        </div>
+      )}
+      <Button type="button" size="lg" className="mt-8 btn-primary" onClick={onDone}>
+        {t("kiosk.done")}
+      </Button>
+      <p className="mt-3 text-sm text-muted-foreground" aria-live="polite">
+        {t("kiosk.startingOver", { seconds: secondsLeft })}
+      </p>
+    </motion.div>
+  );
+}
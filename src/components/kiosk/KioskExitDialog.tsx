@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useLanguage } from "@/hooks/useLanguage";
+import { KIOSK_PIN_PATTERN, verifyKioskPin } from "@/lib/kiosk";
+
+interface KioskExitDialogProps {
+  eventId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onExit: () => void;
+}
+
+export function KioskExitDialog({ eventId, isOpen, onClose, onExit }: KioskExitDialogProps) {
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState("");
+  const [isChecking, setIsChecking] = useState(false);
+  const { t } = useLanguage();
+
+  useEffect(() => {
+    if (!isOpen) {
+      setPin("");
+      setError("");
+    }
+  }, [isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!KIOSK_PIN_PATTERN.test(pin)) {
+      setError(t("kiosk.pinInvalid"));
+      return;
+    }
+    setIsChecking(true);
+    setError("");
+    try {
+      if (await verifyKioskPin(eventId, pin)) {
+        onExit();
+        return;
+      }
+      setPin("");
+      setError(t("kiosk.pinWrong"));
+    } catch (error) {
+      console.error("Error checking kiosk PIN:", error);
+      setError(t("kiosk.pinCheckFailed"));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{t("kiosk.exitTitle")}</DialogTitle>
+            <DialogDescription>{t("kiosk.exitDescription")}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="kiosk-pin">{t("kiosk.pin")}</Label>
+            <Input
+              id="kiosk-pin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={8}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+              className="input-focus text-center text-2xl tracking-[0.5em]"
+              autoFocus
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              {t("common.cancel")}
+            </Button>
+            <Button type="submit" disabled={isChecking} className="btn-primary">
+              {isChecking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {t("kiosk.exit")}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { Controller, type UseFormReturn } from "react-hook-form";
+import { Loader2, MapPin } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { COUNTRY_OPTIONS, getPostalCodeLabel, lookupPostalCode } from "@/lib/address";
+import type { RegistrationFormValues } from "@/lib/validations";
+import { useLanguage } from "@/hooks/useLanguage";
+
+interface AddressFieldsProps {
+  form: UseFormReturn<RegistrationFormValues>;
+  idPrefix?: string;
+  className?: string;
+}
+
+type LookupStatus = "idle" | "loading" | "found" | "not_found";
+
+export function AddressFields({ form, idPrefix = "address", className }: AddressFieldsProps) {
+  const { register, control, watch, getValues, setValue, formState: { errors } } = form;
+  const [lookupStatus, setLookupStatus] = useState<LookupStatus>("idle");
+  const { t } = useLanguage();
+  const country = watch("address.country");
+  const addressErrors = errors.address;
+  const id = (name: string) => `${idPrefix}-${name}`;
+
+  // Fill city and state from the bundled PIN code data; both stay editable
+  const fillFromPostalCode = async (nextCountry: string, postalCode: string) => {
+    setLookupStatus("loading");
+    const place = await lookupPostalCode(nextCountry, postalCode);
+    // Ignore results for a code the registrant has since changed
+    if (getValues("address.postalCode") !== postalCode) return;
+    if (!place) {
+      setLookupStatus(nextCountry === "IN" && postalCode.trim().length === 6 ? "not_found" : "idle");
+      return;
+    }
+    setValue("address.city", place.city, { shouldValidate: true, shouldDirty: true });
+    setValue("address.state", place.state, { shouldValidate: true, shouldDirty: true });
+    setLookupStatus("found");
+  };
+
+  return (
+    <div className={cn("grid gap-6 md:grid-cols-2", className)}>
+      <div className="space-y-2 md:col-span-2">
+        <Label htmlFor={id("line1")} className="flex items-center gap-2">
+          <MapPin className="w-4 h-4 text-primary" />
+          {t("address.label")}
+        </Label>
+        <Input
+          id={id("line1")}
+          placeholder={t("address.line1Placeholder")}
+          autoComplete="address-line1"
+          {...register("address.line1")}
+          className="input-focus"
+        />
+        {addressErrors?.line1 && (
+          <p className="text-sm text-destructive">{addressErrors.line1.message}</p>
+        )}
+        <Input
+          id={id("line2")}
+          aria-label={t("address.line2Label")}
+          placeholder={t("address.line2Placeholder")}
+          autoComplete="address-line2"
+          {...register("address.line2")}
+          className="input-focus"
+        />
+        {addressErrors?.line2 && (
+          <p className="text-sm text-destructive">{addressErrors.line2.message}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={id("country")}>{t("address.country")}</Label>
+        <Controller
+          control={control}
+          name="address.country"
+          render={({ field }) => (
+            <Select
+              value={field.value ?? ""}
+              onValueChange={(value) => {
+                field.onChange(value);
+                fillFromPostalCode(value, getValues("address.postalCode") ?? "");
+              }}
+            >
+              <SelectTrigger id={id("country")} className="input-focus">
+                <SelectValue placeholder={t("address.countryPlaceholder")} />
+              </SelectTrigger>
+              <SelectContent>
+                {COUNTRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.code} value={option.code}>
+                    {option.flag} {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        />
+        {addressErrors?.country && (
+          <p className="text-sm text-destructive">{addressErrors.country.message}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={id("postalCode")}>{getPostalCodeLabel(country)}</Label>
+        <div className="relative">
+          <Input
+            id={id("postalCode")}
+            placeholder={country === "IN" ? t("address.pinCodePlaceholder") : t("address.postalCodePlaceholder")}
+            autoComplete="postal-code"
+            inputMode={country === "IN" ? "numeric" : "text"}
+            {...register("address.postalCode", {
+              onChange: (e) => fillFromPostalCode(getValues("address.country"), e.target.value),
+            })}
+            className="input-focus"
+          />
+          {lookupStatus === "loading" && (
+            <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 animate-spin text-muted-foreground" />
+          )}
+        </div>
+        {addressErrors?.postalCode ? (
+          <p className="text-sm text-destructive">{addressErrors.postalCode.message}</p>
+        ) : lookupStatus === "found" ? (
+          <p className="text-sm text-muted-foreground">{t("address.filledFromPinCode")}</p>
+        ) : lookupStatus === "not_found" ? (
+          <p className="text-sm text-muted-foreground">{t("address.pinCodeNotFound")}</p>
+        ) : null}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={id("city")}>{t("address.city")}</Label>
+        <Input
+          id={id("city")}
+          placeholder={t("address.cityPlaceholder")}
+          autoComplete="address-level2"
+          {...register("address.city")}
+          className="input-focus"
+        />
+        {addressErrors?.city && (
+          <p className="text-sm text-destructive">{addressErrors.city.message}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={id("state")}>{t("address.state")}</Label>
+        <Input
+          id={id("state")}
+          placeholder={t("address.statePlaceholder")}
+          autoComplete="address-level1"
+          {...register("address.state")}
+          className="input-focus"
+        />
+        {addressErrors?.state && (
+          <p className="text-sm text-destructive">{addressErrors.state.message}</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { ShieldCheck } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useLanguage } from "@/hooks/useLanguage";
+import type { ConsentDocument } from "@/types/consent";
+
+interface ConsentFieldsProps {
+  documents: ConsentDocument[];
+  // Ids of the accepted documents
+  value: string[];
+  onChange: (value: string[]) => void;
+  error?: string;
+}
+
+export function ConsentFields({ documents, value, onChange, error }: ConsentFieldsProps) {
+  const [openDocument, setOpenDocument] = useState<ConsentDocument | null>(null);
+  const { t } = useLanguage();
+
+  if (documents.length === 0) return null;
+
+  const toggle = (id: string, checked: boolean) =>
+    onChange(checked ? [...value, id] : value.filter((accepted) => accepted !== id));
+
+  return (
+    <div className="space-y-3 md:col-span-2">
+      <Label className="flex items-center gap-2">
+        <ShieldCheck className="w-4 h-4 text-primary" />
+        {t("consent.label")}
+      </Label>
+      {documents.map((document) => (
+        <div key={document.id} className="flex items-start gap-3">
+          <Checkbox
+            id={`consent-${document.id}`}
+            checked={value.includes(document.id)}
+            onCheckedChange={(checked) => toggle(document.id, checked === true)}
+            className="mt-0.5"
+          />
+          <div className="text-sm leading-snug">
+            <label htmlFor={`consent-${document.id}`} className="cursor-pointer">
+              {t("consent.agreeTo", { title: document.title })}
+              {document.required ? (
+                <span className="text-destructive"> *</span>
+              ) : (
+                <span className="text-muted-foreground"> {t("consent.optional")}</span>
+              )}
+            </label>{" "}
+            <button
+              type="button"
+              onClick={() => setOpenDocument(document)}
+              className="text-primary underline"
+            >
+              {t("consent.read")}
+            </button>
+          </div>
+        </div>
+      ))}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <Dialog open={!!openDocument} onOpenChange={(open) => !open && setOpenDocument(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{openDocument?.title}</DialogTitle>
+            <DialogDescription>
+              {openDocument && t("consent.version", { version: openDocument.version })}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[60vh] overflow-y-auto pr-2">
+            <p className="text-sm whitespace-pre-line">{openDocument?.body}</p>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
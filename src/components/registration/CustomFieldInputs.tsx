@@ -0,0 +1,130 @@
+import { Controller, type Control } from "react-hook-form";
+import { cn } from "@/lib/utils";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useLanguage } from "@/hooks/useLanguage";
+import type { RegistrationFormValues } from "@/lib/validations";
+import type { FormField } from "@/types/form-field";
+
+interface CustomFieldInputsProps {
+  fields: FormField[];
+  control: Control<RegistrationFormValues>;
+  idPrefix?: string;
+}
+
+export function CustomFieldInputs({ fields, control, idPrefix = "custom" }: CustomFieldInputsProps) {
+  const { t } = useLanguage();
+  return (
+    <>
+      {fields.map((field) => {
+        const id = `${idPrefix}-${field.field_key}`;
+        const isWide = field.field_type === "textarea" || field.field_type === "radio";
+
+        return (
+          <Controller
+            key={field.id}
+            control={control}
+            name={`customFields.${field.field_key}`}
+            render={({ field: input, fieldState }) => (
+              <div className={cn("space-y-2", isWide && "md:col-span-2")}>
+                {field.field_type === "checkbox" ? (
+                  <div className="flex items-center gap-3 pt-2">
+                    <Checkbox
+                      id={id}
+                      checked={input.value === true}
+                      onCheckedChange={(checked) => input.onChange(checked === true)}
+                    />
+                    <Label htmlFor={id} className="font-normal">
+                      {field.label}
+                      {field.required && <span className="text-destructive ml-1">*</span>}
+                    </Label>
+                  </div>
+                ) : (
+                  <Label htmlFor={id}>
+                    {field.label}
+                    {field.required && <span className="text-destructive ml-1">*</span>}
+                  </Label>
+                )}
+
+                {field.field_type === "textarea" && (
+                  <Textarea
+                    id={id}
+                    rows={3}
+                    placeholder={field.placeholder ?? undefined}
+                    value={(input.value as string) ?? ""}
+                    onChange={input.onChange}
+                    onBlur={input.onBlur}
+                    className="input-focus resize-none"
+                  />
+                )}
+
+                {field.field_type === "select" && (
+                  <Select value={(input.value as string) || undefined} onValueChange={input.onChange}>
+                    <SelectTrigger id={id} className="input-focus">
+                      <SelectValue
+                        placeholder={field.placeholder || t("field.selectPlaceholder", { label: field.label.toLowerCase() })}
+                      />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {field.options.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {option}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
+                {field.field_type === "radio" && (
+                  <RadioGroup
+                    value={(input.value as string) || ""}
+                    onValueChange={input.onChange}
+                    className="flex flex-wrap gap-4"
+                  >
+                    {field.options.map((option) => (
+                      <div key={option} className="flex items-center gap-2">
+                        <RadioGroupItem value={option} id={`${id}-${option}`} />
+                        <Label htmlFor={`${id}-${option}`} className="font-normal">
+                          {option}
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                )}
+
+                {(field.field_type === "text" ||
+                  field.field_type === "email" ||
+                  field.field_type === "number" ||
+                  field.field_type === "date") && (
+                  <Input
+                    id={id}
+                    type={field.field_type}
+                    placeholder={field.placeholder ?? undefined}
+                    value={(input.value as string | number) ?? ""}
+                    onChange={input.onChange}
+                    onBlur={input.onBlur}
+                    className="input-focus"
+                  />
+                )}
+
+                {fieldState.error && (
+                  <p className="text-sm text-destructive">{fieldState.error.message}</p>
+                )}
+              </div>
+            )}
+          />
+        );
+      })}
+    </>
+  );
+}
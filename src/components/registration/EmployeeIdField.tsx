@@ -0,0 +1,48 @@
+import { BadgeCheck, IdCard } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useLanguage } from "@/hooks/useLanguage";
+import type { RosterPolicy } from "@/types/event";
+
+interface EmployeeIdFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  policy: Exclude<RosterPolicy, "off">;
+  // Whether the email and employee ID matched the roster, once checked
+  onRoster: boolean | null;
+}
+
+// For events checked against the HR roster. People are matched by this ID,
+// or by their email when it is left blank.
+export function EmployeeIdField({ value, onChange, policy, onRoster }: EmployeeIdFieldProps) {
+  const { t } = useLanguage();
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="employeeId" className="flex items-center gap-2">
+        <IdCard className="w-4 h-4 text-primary" />
+        {t("roster.employeeId")}
+      </Label>
+      <Input
+        id="employeeId"
+        value={value}
+        maxLength={50}
+        autoComplete="off"
+        placeholder={t("roster.employeeIdPlaceholder")}
+        onChange={(e) => onChange(e.target.value)}
+        className="input-focus"
+      />
+      {onRoster ? (
+        <p className="flex items-center gap-1 text-sm text-success">
+          <BadgeCheck className="w-4 h-4" />
+          {t("roster.matched")}
+        </p>
+      ) : onRoster === false ? (
+        <p className={`text-sm ${policy === "block" ? "text-destructive" : "text-muted-foreground"}`}>
+          {policy === "block" ? t("roster.notFound") : t("roster.notFoundFlag")}
+        </p>
+      ) : (
+        <p className="text-xs text-muted-foreground">{t("roster.employeeIdHint")}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { Controller, useFieldArray, type UseFormReturn } from "react-hook-form";
+import { Plus, Trash2, UsersRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { PhoneInput } from "@/components/ui/phone-input";
+import { Label } from "@/components/ui/label";
+import { FileUpload } from "@/components/ui/file-upload";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DEPARTMENTS,
+  EMPTY_GROUP_MEMBER,
+  MAX_GROUP_MEMBERS,
+  getDepartmentLabel,
+  type RegistrationFormValues,
+} from "@/lib/validations";
+import { useLanguage } from "@/hooks/useLanguage";
+
+// Select items can't have an empty value; this one stands for "the submitter's"
+const SAME_DEPARTMENT = "same";
+
+interface GroupMembersFieldsProps {
+  form: UseFormReturn<RegistrationFormValues>;
+  // Everyone goes in the invite code's department, so members can't pick one
+  departmentLocked?: boolean;
+}
+
+// The other people in a group registration, each with their own contact
+// details and photo. Address and custom answers are the submitter's.
+export function GroupMembersFields({ form, departmentLocked = false }: GroupMembersFieldsProps) {
+  const { control, register, formState: { errors } } = form;
+  const { fields, append, remove } = useFieldArray({ control, name: "members" });
+  const { t } = useLanguage();
+
+  return (
+    <div className="space-y-4 md:col-span-2">
+      <div>
+        <h3 className="flex items-center gap-2 font-semibold text-foreground">
+          <UsersRound className="w-4 h-4 text-primary" />
+          {t("group.title")}
+        </h3>
+        <p className="text-sm text-muted-foreground">{t("group.description")}</p>
+      </div>
+
+      {fields.map((member, index) => {
+        const memberErrors = errors.members?.[index];
+        const id = (name: string) => `members-${index}-${name}`;
+        return (
+          <div key={member.id} className="rounded-lg border border-border p-4 space-y-4">
+            <div className="flex items-center justify-between">
+              <span className="font-medium text-foreground">
+                {t("group.person", { number: index + 2 })}
+              </span>
+              {fields.length > 1 && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label={t("group.remove")}
+                  onClick={() => remove(index)}
+                  className="hover:bg-destructive/10 hover:text-destructive"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor={id("fullName")}>{t("field.fullName")}</Label>
+                <Input
+                  id={id("fullName")}
+                  placeholder={t("field.fullNamePlaceholder")}
+                  {...register(`members.${index}.fullName`)}
+                  className="input-focus"
+                />
+                {memberErrors?.fullName && (
+                  <p className="text-sm text-destructive">{memberErrors.fullName.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor={id("mobileNumber")}>{t("field.mobileNumber")}</Label>
+                <Controller
+                  name={`members.${index}.mobileNumber`}
+                  control={control}
+                  render={({ field }) => (
+                    <PhoneInput
+                      id={id("mobileNumber")}
+                      placeholder={t("field.mobileNumberPlaceholder")}
+                      value={field.value ?? ""}
+                      onChange={field.onChange}
+                      onBlur={field.onBlur}
+                    />
+                  )}
+                />
+                {memberErrors?.mobileNumber && (
+                  <p className="text-sm text-destructive">{memberErrors.mobileNumber.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor={id("email")}>{t("field.email")}</Label>
+                <Input
+                  id={id("email")}
+                  type="email"
+                  placeholder={t("field.emailPlaceholder")}
+                  {...register(`members.${index}.email`)}
+                  className="input-focus"
+                />
+                {memberErrors?.email && (
+                  <p className="text-sm text-destructive">{memberErrors.email.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>{t("field.gender")}</Label>
+                <Controller
+                  control={control}
+                  name={`members.${index}.gender`}
+                  render={({ field }) => (
+                    <Select value={field.value ?? ""} onValueChange={field.onChange}>
+                      <SelectTrigger className="input-focus">
+                        <SelectValue placeholder={t("field.genderPlaceholder")} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="male">{t("gender.male")}</SelectItem>
+                        <SelectItem value="female">{t("gender.female")}</SelectItem>
+                        <SelectItem value="other">{t("gender.other")}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+                {memberErrors?.gender && (
+                  <p className="text-sm text-destructive">{memberErrors.gender.message}</p>
+                )}
+              </div>
+
+              {!departmentLocked && (
+                <div className="space-y-2 md:col-span-2">
+                  <Label>{t("field.department")}</Label>
+                  <Controller
+                    control={control}
+                    name={`members.${index}.department`}
+                    render={({ field }) => (
+                      <Select
+                        value={field.value || SAME_DEPARTMENT}
+                        onValueChange={(value) => field.onChange(value === SAME_DEPARTMENT ? "" : value)}
+                      >
+                        <SelectTrigger className="input-focus">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={SAME_DEPARTMENT}>{t("group.sameDepartment")}</SelectItem>
+                          {DEPARTMENTS.map((dept) => (
+                            <SelectItem key={dept} value={dept}>
+                              {getDepartmentLabel(dept)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  />
+                </div>
+              )}
+
+              <div className="space-y-2 md:col-span-2">
+                <Label>{t("form.uploadPhoto")}</Label>
+                <Controller
+                  control={control}
+                  name={`members.${index}.photo`}
+                  render={({ field }) => (
+                    <FileUpload
+                      value={field.value ?? null}
+                      onChange={field.onChange}
+                      error={memberErrors?.photo?.message}
+                    />
+                  )}
+                />
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      {errors.members?.root && (
+        <p className="text-sm text-destructive">{errors.members.root.message}</p>
+      )}
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => append({ ...EMPTY_GROUP_MEMBER })}
+        disabled={fields.length >= MAX_GROUP_MEMBERS}
+        className="w-full gap-2"
+      >
+        <Plus className="w-4 h-4" />
+        {t("group.add")}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { CheckCircle2, KeyRound, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { getDepartmentLabel } from "@/lib/validations";
+import { useLanguage } from "@/hooks/useLanguage";
+import type { InviteCheck } from "@/types/invite";
+
+interface InviteCodeFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  onApply: () => void;
+  isChecking: boolean;
+  // The last code checked, once it came back valid
+  invite: InviteCheck | null;
+  error: string;
+}
+
+// Entry for the code an invite-only event asks for, checked before the rest
+// of the form is filled in
+export function InviteCodeField({ value, onChange, onApply, isChecking, invite, error }: InviteCodeFieldProps) {
+  const { t } = useLanguage();
+  return (
+    <div className="space-y-2 md:col-span-2">
+      <Label htmlFor="inviteCode" className="flex items-center gap-2">
+        <KeyRound className="w-4 h-4 text-primary" />
+        {t("invite.label")}
+      </Label>
+      <div className="flex gap-2">
+        <Input
+          id="inviteCode"
+          value={value}
+          placeholder={t("invite.placeholder")}
+          autoComplete="off"
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={(e) => {
+            // Checks the code rather than submitting the whole form
+            if (e.key === "Enter") {
+              e.preventDefault();
+              onApply();
+            }
+          }}
+          className="input-focus font-mono uppercase"
+        />
+        <Button type="button" variant="outline" onClick={onApply} disabled={isChecking || !value.trim()}>
+          {isChecking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {t("invite.apply")}
+        </Button>
+      </div>
+      {invite && !error && (
+        <p className="flex items-center gap-1 text-sm text-success">
+          <CheckCircle2 className="w-4 h-4" />
+          {invite.department
+            ? t("invite.validDepartment", { department: getDepartmentLabel(invite.department) })
+            : t("invite.valid")}
+        </p>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { AlertCircle, CheckCircle2, Clock, RotateCw, WifiOff, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useLanguage } from "@/hooks/useLanguage";
+import { useOutbox } from "@/hooks/useOutbox";
+import type { OutboxStatus } from "@/lib/outbox";
+import type { MessageKey } from "@/locales/en";
+
+const STATUS_DISPLAY: Record<OutboxStatus, { label: MessageKey; icon: typeof Clock; className: string }> = {
+  pending: { label: "outbox.pending", icon: Clock, className: "bg-warning/10 text-warning" },
+  synced: { label: "outbox.synced", icon: CheckCircle2, className: "bg-success/10 text-success" },
+  failed: { label: "outbox.failed", icon: AlertCircle, className: "bg-destructive/10 text-destructive" },
+};
+
+// Registrations saved on this device while offline, until they are dismissed
+// or expire
+export function OutboxList() {
+  const { entries, isOnline, retry, remove } = useOutbox();
+  const { t, formatDate } = useLanguage();
+
+  if (entries.length === 0 && isOnline) return null;
+
+  const handleAction = (action: (id: string) => Promise<void>, id: string) => {
+    action(id).catch((error) => {
+      console.error("Error updating queued registration:", error);
+      toast.error(t("outbox.updateFailed"));
+    });
+  };
+
+  return (
+    <div className="form-card p-6 space-y-4">
+      {!isOnline && (
+        <div className="flex items-center gap-2 text-sm text-warning">
+          <WifiOff className="w-4 h-4" />
+          {t("outbox.offline")}
+        </div>
+      )}
+      {entries.length > 0 && (
+        <div className="space-y-3">
+          <h2 className="font-semibold text-foreground">{t("outbox.title")}</h2>
+          {entries.map((entry) => {
+            const { label, icon: Icon, className } = STATUS_DISPLAY[entry.status];
+            return (
+              <div
+                key={entry.id}
+                className="flex items-start justify-between gap-3 rounded-lg border border-border p-3"
+              >
+                <div className="min-w-0 space-y-1">
+                  {/* Sent entries no longer hold the registrant's details */}
+                  <p className="font-medium text-foreground truncate">
+                    {entry.status !== "synced"
+                      ? entry.values.fullName
+                      : entry.confirmationCode
+                        ? t("outbox.confirmationNumber", { code: entry.confirmationCode })
+                        : t("outbox.sentWithoutCode")}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatDate(new Date(entry.queuedAt), "MMM dd, HH:mm")}
+                  </p>
+                  {entry.status === "failed" && entry.error && (
+                    <p className="text-xs text-destructive">{entry.error}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <span
+                    className={cn(
+                      "inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full whitespace-nowrap",
+                      className
+                    )}
+                  >
+                    <Icon className="w-3 h-3" />
+                    {t(label)}
+                  </span>
+                  {entry.status === "failed" && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => handleAction(retry, entry.id)}
+                      aria-label={t("outbox.retry")}
+                    >
+                      <RotateCw className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {entry.status !== "pending" && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => handleAction(remove, entry.id)}
+                      aria-label={t("outbox.dismiss")}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
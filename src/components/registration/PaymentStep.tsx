@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { Loader2, Wallet } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { formatMoney, getPaymentErrorMessage, payRegistration } from "@/lib/payments";
+import { useLanguage } from "@/hooks/useLanguage";
+
+interface PaymentStepProps {
+  registrationId: string;
+  confirmationCode: string | null;
+  // Fee per person, in the currency's minor units
+  fee: number;
+  currency: string;
+  // Everyone in the submission with a seat, paid for together
+  people: number;
+  onPaid: () => void;
+  // The registration stays pending until an admin records a payment
+  onPayLater: () => void;
+  // On a kiosk, paying later means at the registration desk
+  onSite?: boolean;
+}
+
+// Shown once a registration for a paid event is saved
+export function PaymentStep({
+  registrationId,
+  confirmationCode,
+  fee,
+  currency,
+  people,
+  onPaid,
+  onPayLater,
+  onSite = false,
+}: PaymentStepProps) {
+  const { t } = useLanguage();
+  const [isPaying, setIsPaying] = useState(false);
+  const [error, setError] = useState("");
+  const total = formatMoney(fee * people, currency);
+
+  const pay = async () => {
+    setIsPaying(true);
+    setError("");
+    try {
+      if (await payRegistration({ registrationId })) {
+        toast.success(t("payment.success"));
+        onPaid();
+      } else {
+        setError(t("payment.cancelled"));
+      }
+    } catch (payError) {
+      console.error("Payment error:", payError);
+      setError(t(getPaymentErrorMessage(payError as Error)));
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.9 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="flex flex-col items-center justify-center py-16 text-center"
+    >
+      <div className="w-20 h-20 rounded-full bg-primary/10 flex items-center justify-center mb-6">
+        <Wallet className="w-10 h-10 text-primary" />
+      </div>
+      <h2 className="text-2xl font-bold text-foreground mb-2">{t("payment.title")}</h2>
+      <p className="text-muted-foreground">
+        {confirmationCode
+          ? t("payment.descriptionWithCode", { code: confirmationCode })
+          : t("payment.description")}
+      </p>
+      <div className="mt-6 w-full max-w-sm rounded-lg border border-border p-4">
+        <p className="text-sm text-muted-foreground">{t("payment.amountDue")}</p>
+        <p className="mt-1 text-3xl font-bold text-foreground">{total}</p>
+        {people > 1 && (
+          <p className="mt-1 text-xs text-muted-foreground">
+            {t("payment.perPerson", { fee: formatMoney(fee, currency), count: people })}
+          </p>
+        )}
+      </div>
+      {error && <p className="mt-4 text-sm text-destructive">{error}</p>}
+      <div className="mt-6 flex flex-col sm:flex-row gap-3">
+        <Button type="button" onClick={pay} disabled={isPaying} className="gap-2">
+          {isPaying && <Loader2 className="w-4 h-4 animate-spin" />}
+          {error ? t("payment.retry") : t("payment.pay", { amount: total })}
+        </Button>
+        <Button type="button" variant="ghost" onClick={onPayLater} disabled={isPaying}>
+          {onSite ? t("payment.payAtDesk") : t("payment.payLater")}
+        </Button>
+      </div>
+    </motion.div>
+  );
+}
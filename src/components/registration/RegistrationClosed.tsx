@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+import { CalendarClock, CalendarX, PauseCircle } from "lucide-react";
+import { REGISTRATION_CLOSED_MESSAGES, formatCountdown } from "@/lib/events";
+import { useLanguage } from "@/hooks/useLanguage";
+import type { RegistrationWindowState } from "@/types/event";
+
+interface RegistrationClosedProps {
+  state: Exclude<RegistrationWindowState, "open">;
+  opensAt?: string | null;
+  closesAt?: string | null;
+}
+
+function Countdown({ until }: { until: string }) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <p className="mt-6 font-mono text-3xl font-bold tracking-wider text-foreground" aria-live="polite">
+      {formatCountdown(new Date(until).getTime() - now)}
+    </p>
+  );
+}
+
+// Shown in place of the form while the event isn't taking registrations
+export function RegistrationClosed({ state, opensAt, closesAt }: RegistrationClosedProps) {
+  const { t, formatDate } = useLanguage();
+  const { title, description } = REGISTRATION_CLOSED_MESSAGES[state];
+  const Icon = state === "scheduled" ? CalendarClock : state === "paused" ? PauseCircle : CalendarX;
+
+  return (
+    <div className="flex flex-col items-center justify-center py-16 text-center">
+      <div className="w-20 h-20 rounded-full bg-muted flex items-center justify-center mb-6">
+        <Icon className="w-10 h-10 text-muted-foreground" />
+      </div>
+      <h2 className="text-2xl font-bold text-foreground mb-2">{t(title)}</h2>
+      <p className="text-muted-foreground">
+        {t(description)}
+        {state === "scheduled" && opensAt && ` ${t("closed.opensOn", { date: formatDate(opensAt, "MMM dd, yyyy, HH:mm") })}`}
+        {state === "closed" && closesAt && ` ${t("closed.closedOn", { date: formatDate(closesAt, "MMM dd, yyyy, HH:mm") })}`}
+      </p>
+      {state === "scheduled" && opensAt && <Countdown until={opensAt} />}
+    </div>
+  );
+}
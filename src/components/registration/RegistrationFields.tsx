@@ -0,0 +1,183 @@
+import { Controller, type UseFormReturn } from "react-hook-form";
+import { User, Phone, Mail, Users, Building2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { PhoneInput } from "@/components/ui/phone-input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DEPARTMENTS, getDepartmentLabel, type RegistrationFormValues } from "@/lib/validations";
+import { formatAvailability, getSeatsLeft } from "@/lib/capacity";
+import { useLanguage } from "@/hooks/useLanguage";
+import type { DepartmentAvailability } from "@/types/registration";
+
+// Individual fields of the public registration form, shared by the
+// single-page layout and the wizard steps.
+
+interface FieldProps {
+  form: UseFormReturn<RegistrationFormValues>;
+}
+
+export function FullNameField({ form }: FieldProps) {
+  const { register, formState: { errors } } = form;
+  const { t } = useLanguage();
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="fullName" className="flex items-center gap-2">
+        <User className="w-4 h-4 text-primary" />
+        {t("field.fullName")}
+      </Label>
+      <Input
+        id="fullName"
+        placeholder={t("field.fullNamePlaceholder")}
+        {...register("fullName")}
+        className="input-focus"
+      />
+      {errors.fullName && (
+        <p className="text-sm text-destructive">{errors.fullName.message}</p>
+      )}
+    </div>
+  );
+}
+
+export function MobileNumberField({ form }: FieldProps) {
+  const { control, formState: { errors } } = form;
+  const { t } = useLanguage();
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="mobileNumber" className="flex items-center gap-2">
+        <Phone className="w-4 h-4 text-primary" />
+        {t("field.mobileNumber")}
+      </Label>
+      <Controller
+        name="mobileNumber"
+        control={control}
+        render={({ field }) => (
+          <PhoneInput
+            id="mobileNumber"
+            placeholder={t("field.mobileNumberPlaceholder")}
+            value={field.value ?? ""}
+            onChange={field.onChange}
+            onBlur={field.onBlur}
+          />
+        )}
+      />
+      {errors.mobileNumber && (
+        <p className="text-sm text-destructive">{errors.mobileNumber.message}</p>
+      )}
+    </div>
+  );
+}
+
+export function EmailField({ form }: FieldProps) {
+  const { register, formState: { errors } } = form;
+  const { t } = useLanguage();
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="email" className="flex items-center gap-2">
+        <Mail className="w-4 h-4 text-primary" />
+        {t("field.email")}
+      </Label>
+      <Input
+        id="email"
+        type="email"
+        placeholder={t("field.emailPlaceholder")}
+        {...register("email")}
+        className="input-focus"
+      />
+      {errors.email && (
+        <p className="text-sm text-destructive">{errors.email.message}</p>
+      )}
+    </div>
+  );
+}
+
+export function GenderField({ form }: FieldProps) {
+  const { control, formState: { errors } } = form;
+  const { t } = useLanguage();
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-2">
+        <Users className="w-4 h-4 text-primary" />
+        {t("field.gender")}
+      </Label>
+      <Controller
+        control={control}
+        name="gender"
+        render={({ field }) => (
+          <Select value={field.value ?? ""} onValueChange={field.onChange}>
+            <SelectTrigger className="input-focus">
+              <SelectValue placeholder={t("field.genderPlaceholder")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="male">{t("gender.male")}</SelectItem>
+              <SelectItem value="female">{t("gender.female")}</SelectItem>
+              <SelectItem value="other">{t("gender.other")}</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+      />
+      {errors.gender && (
+        <p className="text-sm text-destructive">{errors.gender.message}</p>
+      )}
+    </div>
+  );
+}
+
+interface DepartmentFieldProps extends FieldProps {
+  // Departments with a capacity; the rest are unlimited
+  availability?: DepartmentAvailability[];
+  // Set by an invite code that places registrations in one department
+  disabled?: boolean;
+}
+
+export function DepartmentField({ form, availability = [], disabled = false }: DepartmentFieldProps) {
+  const { control, watch, formState: { errors } } = form;
+  const { t } = useLanguage();
+  const getAvailability = (dept: string) => availability.find((a) => a.department === dept);
+  const selected = getAvailability(watch("department"));
+  return (
+    <div className="space-y-2 md:col-span-2">
+      <Label className="flex items-center gap-2">
+        <Building2 className="w-4 h-4 text-primary" />
+        {t("field.department")}
+      </Label>
+      <Controller
+        control={control}
+        name="department"
+        render={({ field }) => (
+          <Select value={field.value ?? ""} onValueChange={field.onChange} disabled={disabled}>
+            <SelectTrigger className="input-focus">
+              <SelectValue placeholder={t("field.departmentPlaceholder")} />
+            </SelectTrigger>
+            <SelectContent>
+              {DEPARTMENTS.map((dept) => {
+                const deptAvailability = getAvailability(dept);
+                return (
+                  <SelectItem key={dept} value={dept}>
+                    {getDepartmentLabel(dept)}
+                    {deptAvailability && (
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        ({formatAvailability(deptAvailability)})
+                      </span>
+                    )}
+                  </SelectItem>
+                );
+              })}
+            </SelectContent>
+          </Select>
+        )}
+      />
+      {selected && getSeatsLeft(selected) === 0 && (
+        <p className="text-sm text-muted-foreground">{t("field.departmentFull")}</p>
+      )}
+      {errors.department && (
+        <p className="text-sm text-destructive">{errors.department.message}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import { FileText, Pencil } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatCustomFieldValue } from "@/lib/form-fields";
+import { formatPhoneNumber } from "@/lib/phone";
+import { formatAddress } from "@/lib/address";
+import { formatFileSize, getDocumentTypeLabel, type PendingAttachment } from "@/lib/attachments";
+import { getDepartmentLabel, type RegistrationFormValues } from "@/lib/validations";
+import { useLanguage } from "@/hooks/useLanguage";
+import type { FormField } from "@/types/form-field";
+
+interface ReviewSection {
+  title: string;
+  step: number;
+  items: { label: string; value: string }[];
+}
+
+interface RegistrationReviewProps {
+  values: RegistrationFormValues;
+  customFields: FormField[];
+  photoFile: File | null;
+  attachments: PendingAttachment[];
+  onEditStep: (step: number) => void;
+}
+
+export function RegistrationReview({
+  values,
+  customFields,
+  photoFile,
+  attachments,
+  onEditStep,
+}: RegistrationReviewProps) {
+  const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+  const { t } = useLanguage();
+
+  useEffect(() => {
+    if (!photoFile) {
+      setPhotoPreview(null);
+      return;
+    }
+    const url = URL.createObjectURL(photoFile);
+    setPhotoPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [photoFile]);
+
+  const sections: ReviewSection[] = [
+    {
+      title: t("wizard.personalDetails"),
+      step: 0,
+      items: [
+        { label: t("field.fullName"), value: values.fullName },
+        { label: t("field.gender"), value: values.gender ? t(`gender.${values.gender}`) : "" },
+      ],
+    },
+    {
+      title: t("wizard.contact"),
+      step: 1,
+      items: [
+        { label: t("field.mobileNumber"), value: values.mobileNumber ? formatPhoneNumber(values.mobileNumber) : "" },
+        { label: t("review.email"), value: values.email },
+      ],
+    },
+    {
+      title: t("wizard.departmentAddress"),
+      step: 2,
+      items: [
+        { label: t("field.department"), value: values.department ? getDepartmentLabel(values.department) : "" },
+        { label: t("address.label"), value: values.address ? formatAddress(values.address) : "" },
+        ...customFields.map((field) => ({
+          label: field.label,
+          value: formatCustomFieldValue(field, values.customFields?.[field.field_key]),
+        })),
+      ],
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      {sections.map((section) => (
+        <div key={section.title} className="rounded-lg border border-border p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold text-foreground">{section.title}</h3>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onEditStep(section.step)}
+              className="gap-1 text-primary"
+            >
+              <Pencil className="w-3 h-3" />
+              {t("common.edit")}
+            </Button>
+          </div>
+          <dl className="grid gap-3 sm:grid-cols-2">
+            {section.items.map((item) => (
+              <div key={item.label}>
+                <dt className="text-sm text-muted-foreground">{item.label}</dt>
+                <dd className="font-medium break-words">{item.value || "—"}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      ))}
+
+      <div className="rounded-lg border border-border p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-semibold text-foreground">{t("wizard.photoDocuments")}</h3>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onEditStep(3)}
+            className="gap-1 text-primary"
+          >
+            <Pencil className="w-3 h-3" />
+            {t("common.edit")}
+          </Button>
+        </div>
+        {photoPreview && (
+          <img
+            src={photoPreview}
+            alt={t("review.yourPhoto")}
+            className="w-32 h-32 rounded-lg object-cover border border-border"
+          />
+        )}
+        {attachments.length > 0 && (
+          <ul className="mt-3 space-y-1">
+            {attachments.map((item) => (
+              <li key={item.id} className="flex items-center gap-2 text-sm">
+                <FileText className="w-4 h-4 shrink-0 text-muted-foreground" />
+                <span className="truncate font-medium">{item.file.name}</span>
+                <span className="shrink-0 text-muted-foreground">
+                  {getDocumentTypeLabel(item.documentType)} · {formatFileSize(item.file.size)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
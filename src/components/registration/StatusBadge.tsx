@@ -0,0 +1,36 @@
+import { cn } from "@/lib/utils";
+import { getRegistrationStatusLabel } from "@/lib/registrations";
+import { useLanguage } from "@/hooks/useLanguage";
+import type { RegistrationStatus } from "@/types/registration";
+
+const STATUS_STYLES: Record<RegistrationStatus, string> = {
+  submitted: "bg-muted text-muted-foreground",
+  under_review: "bg-warning/10 text-warning",
+  waitlisted: "bg-primary/10 text-primary",
+  approved: "bg-success/10 text-success",
+  rejected: "bg-destructive/10 text-destructive",
+  cancelled: "bg-muted text-muted-foreground",
+};
+
+interface StatusBadgeProps {
+  status: RegistrationStatus;
+  waitlistPosition?: number | null;
+  className?: string;
+}
+
+export function StatusBadge({ status, waitlistPosition, className }: StatusBadgeProps) {
+  // Re-renders the label on a language switch
+  useLanguage();
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full whitespace-nowrap",
+        STATUS_STYLES[status],
+        className
+      )}
+    >
+      {getRegistrationStatusLabel(status)}
+      {status === "waitlisted" && waitlistPosition ? ` #${waitlistPosition}` : null}
+    </span>
+  );
+}
@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  CHANNEL_LABELS,
+  CODE_LENGTH,
+  VERIFY_CODE_MESSAGES,
+  sendVerificationCode,
+  verifyCode,
+  type VerificationChannel,
+} from "@/lib/verification";
+import { useLanguage } from "@/hooks/useLanguage";
+
+const RESEND_COOLDOWN = 60;
+
+interface VerificationCodeDialogProps {
+  eventId: string;
+  channel: VerificationChannel;
+  target: string | null;
+  onVerified: () => void;
+  onCancel: () => void;
+}
+
+export function VerificationCodeDialog({
+  eventId,
+  channel,
+  target,
+  onVerified,
+  onCancel,
+}: VerificationCodeDialogProps) {
+  const [code, setCode] = useState("");
+  const [error, setError] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [cooldown, setCooldown] = useState(0);
+  const { t } = useLanguage();
+
+  const sendCode = useCallback(async () => {
+    if (!target) return;
+    setIsSending(true);
+    setError("");
+    try {
+      const result = await sendVerificationCode(eventId, channel, target);
+      if (result.status === "cooldown") {
+        setCooldown(result.retryAfter);
+      } else {
+        setCooldown(RESEND_COOLDOWN);
+        toast.success(t("verification.codeSent", { target }));
+      }
+    } catch (error) {
+      console.error("Error sending verification code:", error);
+      setError(error instanceof Error ? error.message : t("verification.sendFailed"));
+    } finally {
+      setIsSending(false);
+    }
+  }, [eventId, channel, target, t]);
+
+  // A new target gets a fresh code
+  useEffect(() => {
+    setCode("");
+    sendCode();
+  }, [sendCode]);
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown((c) => c - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const handleVerify = async (value = code) => {
+    if (!target || value.length !== CODE_LENGTH) return;
+    setIsVerifying(true);
+    setError("");
+    try {
+      const result = await verifyCode(eventId, channel, target, value);
+      if (result === "verified") {
+        onVerified();
+        return;
+      }
+      setError(t(VERIFY_CODE_MESSAGES[result]));
+      setCode("");
+    } catch (error) {
+      console.error("Error verifying code:", error);
+      setError(t("verification.verifyFailed"));
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t("verification.title", { channel: t(CHANNEL_LABELS[channel]) })}</DialogTitle>
+          <DialogDescription>
+            {t("verification.description", { length: CODE_LENGTH })}{" "}
+            <span className="font-medium">{target}</span>.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col items-center gap-3 py-2">
+          <InputOTP
+            maxLength={CODE_LENGTH}
+            value={code}
+            onChange={setCode}
+            onComplete={handleVerify}
+            disabled={isVerifying}
+            inputMode="numeric"
+            autoFocus
+          >
+            <InputOTPGroup>
+              {Array.from({ length: CODE_LENGTH }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+          {error && <p className="text-sm text-destructive text-center">{error}</p>}
+          <Button
+            type="button"
+            variant="link"
+            size="sm"
+            onClick={sendCode}
+            disabled={isSending || cooldown > 0}
+          >
+            {cooldown > 0 ? t("verification.resendIn", { seconds: cooldown }) : t("verification.resend")}
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>
+            {t("common.cancel")}
+          </Button>
+          <Button
+            type="button"
+            onClick={() => handleVerify()}
+            disabled={isVerifying || code.length !== CODE_LENGTH}
+            className="btn-primary"
+          >
+            {isVerifying ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                {t("verification.verifying")}
+              </>
+            ) : (
+              t("verification.verify")
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
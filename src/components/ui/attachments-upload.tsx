@@ -0,0 +1,170 @@
+import { useRef, useState } from "react";
+import { FileText, Image as ImageIcon, Paperclip, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ATTACHMENT_TYPE_RULES,
+  DOCUMENT_TYPE_OPTIONS,
+  MAX_ATTACHMENTS,
+  formatFileSize,
+  getAttachmentError,
+  isImageAttachment,
+  type PendingAttachment,
+} from "@/lib/attachments";
+import { useLanguage } from "@/hooks/useLanguage";
+import type { AttachmentDocumentType } from "@/types/registration";
+
+interface AttachmentsUploadProps {
+  value: PendingAttachment[];
+  onChange: (attachments: PendingAttachment[]) => void;
+}
+
+export function AttachmentsUpload({ value, onChange }: AttachmentsUploadProps) {
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { t } = useLanguage();
+  const remaining = MAX_ATTACHMENTS - value.length;
+
+  const addFiles = (files: File[]) => {
+    const nextErrors: string[] = [];
+    const accepted: PendingAttachment[] = [];
+    for (const file of files) {
+      const error = getAttachmentError(file);
+      if (error) {
+        nextErrors.push(error);
+      } else if (accepted.length >= remaining) {
+        nextErrors.push(t("document.tooMany", { name: file.name, max: MAX_ATTACHMENTS }));
+      } else {
+        accepted.push({ id: crypto.randomUUID(), file, documentType: "other" });
+      }
+    }
+    setErrors(nextErrors);
+    if (accepted.length > 0) {
+      onChange([...value, ...accepted]);
+    }
+  };
+
+  const updateDocumentType = (id: string, documentType: AttachmentDocumentType) =>
+    onChange(value.map((item) => (item.id === id ? { ...item, documentType } : item)));
+
+  const removeAttachment = (id: string) => {
+    setErrors([]);
+    onChange(value.filter((item) => item.id !== id));
+  };
+
+  return (
+    <div className="space-y-3">
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={Object.keys(ATTACHMENT_TYPE_RULES).join(",")}
+        onChange={(e) => {
+          addFiles(Array.from(e.target.files ?? []));
+          e.target.value = "";
+        }}
+        className="hidden"
+        id="attachments-upload"
+      />
+
+      {value.length > 0 && (
+        <ul className="space-y-2">
+          {value.map((item) => (
+            <li
+              key={item.id}
+              className="flex flex-col gap-2 rounded-lg border border-border p-3 sm:flex-row sm:items-center"
+            >
+              <div className="flex min-w-0 flex-1 items-center gap-3">
+                {isImageAttachment(item.file.type) ? (
+                  <ImageIcon className="w-5 h-5 shrink-0 text-primary" />
+                ) : (
+                  <FileText className="w-5 h-5 shrink-0 text-primary" />
+                )}
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium">{item.file.name}</p>
+                  <p className="text-xs text-muted-foreground">{formatFileSize(item.file.size)}</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={item.documentType}
+                  onValueChange={(next) => updateDocumentType(item.id, next as AttachmentDocumentType)}
+                >
+                  <SelectTrigger className="w-full sm:w-[150px] input-focus" aria-label={t("document.typeLabel")}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DOCUMENT_TYPE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {t(option.labelKey)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label={t("document.remove", { name: item.file.name })}
+                  onClick={() => removeAttachment(item.id)}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {remaining > 0 && (
+        <label
+          htmlFor="attachments-upload"
+          onDrop={(e) => {
+            e.preventDefault();
+            setIsDragging(false);
+            addFiles(Array.from(e.dataTransfer.files ?? []));
+          }}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={(e) => {
+            e.preventDefault();
+            setIsDragging(false);
+          }}
+          className={cn(
+            "flex items-center justify-center gap-3 w-full rounded-lg border-2 border-dashed p-4 cursor-pointer transition-all duration-200",
+            isDragging
+              ? "border-primary bg-primary/5"
+              : "border-muted-foreground/25 hover:border-primary/50 hover:bg-muted/50"
+          )}
+        >
+          <Paperclip className="w-5 h-5 text-primary" />
+          <div className="text-sm">
+            <p className="text-muted-foreground">
+              <span className="font-semibold text-foreground">{t("document.add")}</span>{" "}
+              {t("document.dragHere")}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {t("document.limits", { remaining, max: MAX_ATTACHMENTS })}
+            </p>
+          </div>
+        </label>
+      )}
+
+      {errors.map((error) => (
+        <p key={error} className="text-sm text-destructive">
+          {error}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Camera, CameraOff, Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useLanguage } from "@/hooks/useLanguage";
+
+const COUNTDOWN_SECONDS = 3;
+
+type CameraStatus = "starting" | "ready" | "unavailable" | "denied";
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  // Offered when the camera cannot be used
+  onFallback?: () => void;
+}
+
+function getCameraStatus(error: unknown): CameraStatus {
+  if (error instanceof DOMException && (error.name === "NotAllowedError" || error.name === "SecurityError")) {
+    return "denied";
+  }
+  return "unavailable";
+}
+
+export function CameraCapture({ onCapture, onFallback }: CameraCaptureProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [status, setStatus] = useState<CameraStatus>("starting");
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [captured, setCaptured] = useState<File | null>(null);
+  const [capturedUrl, setCapturedUrl] = useState<string | null>(null);
+  const { t } = useLanguage();
+
+  const stopCamera = useCallback(() => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+  }, []);
+
+  // The camera only runs while there is no captured frame to review
+  useEffect(() => {
+    if (captured) return;
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setStatus("unavailable");
+      return;
+    }
+
+    let cancelled = false;
+    setStatus("starting");
+    navigator.mediaDevices
+      .getUserMedia({
+        video: { facingMode: "user", width: { ideal: 1280 }, height: { ideal: 720 } },
+        audio: false,
+      })
+      .then((stream) => {
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+        }
+        setStatus("ready");
+      })
+      .catch((error) => {
+        console.error("Error starting camera:", error);
+        if (!cancelled) setStatus(getCameraStatus(error));
+      });
+
+    return () => {
+      cancelled = true;
+      stopCamera();
+    };
+  }, [captured, stopCamera]);
+
+  useEffect(() => {
+    if (!captured) {
+      setCapturedUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(captured);
+    setCapturedUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [captured]);
+
+  const captureFrame = useCallback(() => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement("canvas");
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const context = canvas.getContext("2d");
+    if (!context) return;
+    // Keep the mirrored view the registrant saw while framing
+    context.translate(canvas.width, 0);
+    context.scale(-1, 1);
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob(
+      (blob) => {
+        if (blob) setCaptured(new File([blob], "camera.jpg", { type: "image/jpeg" }));
+      },
+      "image/jpeg",
+      0.92
+    );
+  }, []);
+
+  useEffect(() => {
+    if (countdown === null) return;
+    if (countdown === 0) {
+      setCountdown(null);
+      captureFrame();
+      return;
+    }
+    const timer = setTimeout(() => setCountdown((c) => (c === null ? null : c - 1)), 1000);
+    return () => clearTimeout(timer);
+  }, [countdown, captureFrame]);
+
+  if (status === "unavailable" || status === "denied") {
+    return (
+      <div className="flex flex-col items-center justify-center gap-3 w-full h-48 border-2 border-dashed rounded-lg border-muted-foreground/25 px-4 text-center">
+        <CameraOff className="w-8 h-8 text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">
+          {status === "denied"
+            ? t("photo.cameraBlocked")
+            : t("photo.noCamera")}
+        </p>
+        {onFallback && (
+          <Button type="button" variant="outline" size="sm" onClick={onFallback}>
+            {t("photo.uploadInstead")}
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  if (captured && capturedUrl) {
+    return (
+      <div className="space-y-3">
+        <img
+          src={capturedUrl}
+          alt={t("photo.captured")}
+          className="w-full aspect-video object-cover rounded-lg border-2 border-primary/20"
+        />
+        <div className="flex justify-center gap-2">
+          <Button type="button" variant="outline" onClick={() => setCaptured(null)}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            {t("photo.retake")}
+          </Button>
+          <Button type="button" className="btn-primary" onClick={() => onCapture(captured)}>
+            {t("photo.usePhoto")}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="relative w-full aspect-video overflow-hidden rounded-lg bg-muted">
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          className="w-full h-full object-cover -scale-x-100"
+        />
+        {status === "starting" ? (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          // Face guide; the shade outside it is the oval's own shadow
+          <div className="pointer-events-none absolute inset-0 flex items-center justify-center">
+            <div className="h-[75%] aspect-[3/4] rounded-[50%] border-2 border-white/80 shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]" />
+          </div>
+        )}
+        {countdown !== null && countdown > 0 && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <span className="text-6xl font-bold text-white drop-shadow-lg">{countdown}</span>
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground text-center">
+        {t("photo.faceGuide")}
+      </p>
+      <div className="flex justify-center">
+        <Button
+          type="button"
+          className="btn-primary"
+          onClick={() => setCountdown(COUNTDOWN_SECONDS)}
+          disabled={status !== "ready" || countdown !== null}
+        >
+          <Camera className="w-4 h-4 mr-2" />
+          {countdown !== null ? t("photo.holdStill") : t("photo.takePhoto")}
+        </Button>
+      </div>
+    </div>
+  );
+}
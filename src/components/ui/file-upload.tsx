@@ -1,8 +1,14 @@
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Upload, X, Image as ImageIcon } from "lucide-react";
+import { Upload, X, Crop, Camera, Image as ImageIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { MAX_FILE_SIZE, ACCEPTED_IMAGE_TYPES } from "@/lib/validations";
+import { useLanguage } from "@/hooks/useLanguage";
+import { ACCEPTED_IMAGE_TYPES, MAX_SOURCE_FILE_SIZE } from "@/lib/validations";
+import { PhotoEditorDialog } from "@/components/ui/photo-editor-dialog";
+import { CameraCapture } from "@/components/ui/camera-capture";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+type PhotoSourceMode = "upload" | "camera";
 
 interface FileUploadProps {
   value: File | null;
@@ -13,32 +19,54 @@ interface FileUploadProps {
 export function FileUpload({ value, onChange, error }: FileUploadProps) {
   const [preview, setPreview] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  // Picked image kept so the crop can be adjusted again from the original
+  const [source, setSource] = useState<File | null>(null);
+  const [editing, setEditing] = useState<File | null>(null);
+  const [pickError, setPickError] = useState("");
+  const [mode, setMode] = useState<PhotoSourceMode>("upload");
   const inputRef = useRef<HTMLInputElement>(null);
+  const { t } = useLanguage();
+
+  // Preview follows the value so restored or re-mounted files show up too
+  useEffect(() => {
+    if (!value) {
+      setPreview(null);
+      return;
+    }
+    const url = URL.createObjectURL(value);
+    setPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [value]);
 
   const handleFileChange = useCallback(
     (file: File | null) => {
+      setPickError("");
       if (file) {
         if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+          setPickError(t("photo.chooseImage"));
           return;
         }
-        if (file.size > MAX_FILE_SIZE) {
+        if (file.size > MAX_SOURCE_FILE_SIZE) {
+          setPickError(t("photo.tooLarge"));
           return;
         }
 
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          setPreview(reader.result as string);
-        };
-        reader.readAsDataURL(file);
-        onChange(file);
+        // The cropped and compressed result is what reaches the form
+        setEditing(file);
       } else {
-        setPreview(null);
+        setSource(null);
         onChange(null);
       }
     },
-    [onChange]
+    [onChange, t]
   );
 
+  const handleEditorApply = (file: File) => {
+    setSource(editing);
+    setEditing(null);
+    onChange(file);
+  };
+
   const handleDrop = useCallback(
     (e: React.DragEvent) => {
       e.preventDefault();
@@ -74,7 +102,11 @@ export function FileUpload({ value, onChange, error }: FileUploadProps) {
         ref={inputRef}
         type="file"
         accept={ACCEPTED_IMAGE_TYPES.join(",")}
-        onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+        onChange={(e) => {
+          handleFileChange(e.target.files?.[0] || null);
+          // Allow picking the same file again after cancelling the editor
+          e.target.value = "";
+        }}
         className="hidden"
         id="photo-upload"
       />
@@ -82,6 +114,7 @@ export function FileUpload({ value, onChange, error }: FileUploadProps) {
       <AnimatePresence mode="wait">
         {preview ? (
           <motion.div
+            key="preview"
             initial={{ opacity: 0, scale: 0.95 }}
             animate={{ opacity: 1, scale: 1 }}
             exit={{ opacity: 0, scale: 0.95 }}
@@ -89,56 +122,97 @@ export function FileUpload({ value, onChange, error }: FileUploadProps) {
           >
             <img
               src={preview}
-              alt="Preview"
+              alt={t("photo.preview")}
               className="w-full h-full object-cover rounded-lg border-2 border-primary/20"
             />
+            {source && (
+              <button
+                type="button"
+                onClick={() => setEditing(source)}
+                aria-label={t("photo.adjustLabel")}
+                className="absolute bottom-2 right-2 flex items-center gap-1 px-2 py-1 text-xs bg-background/90 text-foreground rounded-md shadow-md hover:bg-background transition-colors"
+              >
+                <Crop className="w-3.5 h-3.5" />
+                {t("photo.adjust")}
+              </button>
+            )}
             <button
               type="button"
               onClick={clearFile}
+              aria-label={t("photo.remove")}
               className="absolute -top-2 -right-2 p-1.5 bg-destructive text-destructive-foreground rounded-full shadow-md hover:bg-destructive/90 transition-colors"
             >
               <X className="w-4 h-4" />
             </button>
           </motion.div>
         ) : (
-          <motion.label
+          <motion.div
+            key="picker"
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
-            htmlFor="photo-upload"
-            onDrop={handleDrop}
-            onDragOver={handleDragOver}
-            onDragLeave={handleDragLeave}
-            className={cn(
-              "flex flex-col items-center justify-center w-full h-48 border-2 border-dashed rounded-lg cursor-pointer transition-all duration-200",
-              isDragging
-                ? "border-primary bg-primary/5"
-                : "border-muted-foreground/25 hover:border-primary/50 hover:bg-muted/50",
-              error && "border-destructive"
-            )}
           >
-            <div className="flex flex-col items-center justify-center pt-5 pb-6">
-              <div className="p-3 rounded-full bg-primary/10 mb-3">
-                {isDragging ? (
-                  <ImageIcon className="w-8 h-8 text-primary" />
-                ) : (
-                  <Upload className="w-8 h-8 text-primary" />
-                )}
-              </div>
-              <p className="mb-2 text-sm text-muted-foreground">
-                <span className="font-semibold text-foreground">Click to upload</span> or drag and drop
-              </p>
-              <p className="text-xs text-muted-foreground">
-                JPG, PNG (Max 2MB)
-              </p>
-            </div>
-          </motion.label>
+            <Tabs value={mode} onValueChange={(next) => setMode(next as PhotoSourceMode)}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="upload">
+                  <Upload className="w-4 h-4 mr-2" />
+                  {t("photo.uploadTab")}
+                </TabsTrigger>
+                <TabsTrigger value="camera">
+                  <Camera className="w-4 h-4 mr-2" />
+                  {t("photo.cameraTab")}
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="upload">
+                <label
+                  htmlFor="photo-upload"
+                  onDrop={handleDrop}
+                  onDragOver={handleDragOver}
+                  onDragLeave={handleDragLeave}
+                  className={cn(
+                    "flex flex-col items-center justify-center w-full h-48 border-2 border-dashed rounded-lg cursor-pointer transition-all duration-200",
+                    isDragging
+                      ? "border-primary bg-primary/5"
+                      : "border-muted-foreground/25 hover:border-primary/50 hover:bg-muted/50",
+                    (error || pickError) && "border-destructive"
+                  )}
+                >
+                  <div className="flex flex-col items-center justify-center pt-5 pb-6">
+                    <div className="p-3 rounded-full bg-primary/10 mb-3">
+                      {isDragging ? (
+                        <ImageIcon className="w-8 h-8 text-primary" />
+                      ) : (
+                        <Upload className="w-8 h-8 text-primary" />
+                      )}
+                    </div>
+                    <p className="mb-2 text-sm text-muted-foreground">
+                      <span className="font-semibold text-foreground">{t("photo.clickToUpload")}</span>{" "}
+                      {t("photo.dragAndDrop")}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {t("photo.formats")}
+                    </p>
+                  </div>
+                </label>
+              </TabsContent>
+              <TabsContent value="camera">
+                {/* Captured frames go through the same crop and compression step */}
+                <CameraCapture onCapture={handleFileChange} onFallback={() => setMode("upload")} />
+              </TabsContent>
+            </Tabs>
+          </motion.div>
         )}
       </AnimatePresence>
 
-      {error && (
-        <p className="text-sm text-destructive text-center">{error}</p>
+      {(pickError || error) && (
+        <p className="text-sm text-destructive text-center">{pickError || error}</p>
       )}
+
+      <PhotoEditorDialog
+        source={editing}
+        onApply={handleEditorApply}
+        onCancel={() => setEditing(null)}
+      />
     </div>
   );
 }
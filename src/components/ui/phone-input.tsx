@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  DEFAULT_PHONE_COUNTRY,
+  PHONE_COUNTRY_OPTIONS,
+  buildPhoneNumber,
+  getNationalDigits,
+  getPhoneCountry,
+  type CountryCode,
+} from "@/lib/phone";
+import { useLanguage } from "@/hooks/useLanguage";
+
+interface PhoneInputProps {
+  id?: string;
+  // International number ("+919876543210"), or "" when empty
+  value: string;
+  onChange: (value: string) => void;
+  onBlur?: () => void;
+  placeholder?: string;
+  className?: string;
+}
+
+export function PhoneInput({ id, value, onChange, onBlur, placeholder, className }: PhoneInputProps) {
+  const [country, setCountry] = useState<CountryCode>(
+    () => getPhoneCountry(value ?? "") ?? DEFAULT_PHONE_COUNTRY
+  );
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const { t } = useLanguage();
+  const nationalDigits = getNationalDigits(value ?? "", country);
+  const selected = PHONE_COUNTRY_OPTIONS.find((option) => option.code === country);
+
+  // Follow values set from outside (form reset, restored drafts)
+  useEffect(() => {
+    const valueCountry = getPhoneCountry(value ?? "");
+    if (valueCountry && !(value ?? "").startsWith(`+${selected?.callingCode}`)) {
+      setCountry(valueCountry);
+    }
+  }, [value, selected?.callingCode]);
+
+  const handleCountryChange = (next: CountryCode) => {
+    setCountry(next);
+    setIsPickerOpen(false);
+    onChange(buildPhoneNumber(next, nationalDigits));
+  };
+
+  return (
+    <div className={cn("flex gap-2", className)}>
+      <Popover open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={isPickerOpen}
+            aria-label={t("phone.countryCode")}
+            className="w-[110px] shrink-0 justify-between px-3 font-normal"
+          >
+            <span className="truncate">
+              {selected?.flag} +{selected?.callingCode}
+            </span>
+            <ChevronsUpDown className="w-4 h-4 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[280px] p-0" align="start">
+          <Command>
+            <CommandInput placeholder={t("phone.searchCountry")} />
+            <CommandList>
+              <CommandEmpty>{t("phone.noCountry")}</CommandEmpty>
+              <CommandGroup>
+                {PHONE_COUNTRY_OPTIONS.map((option) => (
+                  <CommandItem
+                    key={option.code}
+                    value={`${option.name} +${option.callingCode} ${option.code}`}
+                    onSelect={() => handleCountryChange(option.code)}
+                  >
+                    <Check
+                      className={cn("w-4 h-4 mr-2", option.code === country ? "opacity-100" : "opacity-0")}
+                    />
+                    <span className="mr-2">{option.flag}</span>
+                    <span className="flex-1 truncate">{option.name}</span>
+                    <span className="text-muted-foreground">+{option.callingCode}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      <Input
+        id={id}
+        type="tel"
+        inputMode="tel"
+        autoComplete="tel-national"
+        placeholder={placeholder}
+        value={nationalDigits}
+        onChange={(e) => onChange(buildPhoneNumber(country, e.target.value.replace(/\D/g, "")))}
+        onBlur={onBlur}
+        className="input-focus"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import Cropper, { type Area, type Point } from "react-easy-crop";
+import { Loader2, RotateCcw, RotateCw, ZoomIn } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { renderCroppedPhoto } from "@/lib/image";
+import { useLanguage } from "@/hooks/useLanguage";
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 3;
+
+interface PhotoEditorDialogProps {
+  // Original picked image; the dialog is open while it is set
+  source: File | null;
+  onApply: (file: File) => void;
+  onCancel: () => void;
+}
+
+export function PhotoEditorDialog({ source, onApply, onCancel }: PhotoEditorDialogProps) {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [crop, setCrop] = useState<Point>({ x: 0, y: 0 });
+  const [zoom, setZoom] = useState(MIN_ZOOM);
+  const [rotation, setRotation] = useState(0);
+  const [croppedArea, setCroppedArea] = useState<Area | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState("");
+  const { t } = useLanguage();
+
+  useEffect(() => {
+    setCrop({ x: 0, y: 0 });
+    setZoom(MIN_ZOOM);
+    setRotation(0);
+    setError("");
+    if (!source) {
+      setImageUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(source);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [source]);
+
+  const rotate = (degrees: number) => setRotation((r) => (r + degrees + 360) % 360);
+
+  const handleApply = async () => {
+    if (!imageUrl || !croppedArea) return;
+    setIsProcessing(true);
+    setError("");
+    try {
+      onApply(await renderCroppedPhoto(imageUrl, croppedArea, rotation));
+    } catch (error) {
+      console.error("Error processing photo:", error);
+      setError(error instanceof Error ? error.message : t("photo.processFailed"));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!source} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t("photo.editorTitle")}</DialogTitle>
+          <DialogDescription>
+            {t("photo.editorDescription")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="relative h-72 w-full overflow-hidden rounded-lg bg-muted">
+          {imageUrl && (
+            <Cropper
+              image={imageUrl}
+              crop={crop}
+              zoom={zoom}
+              rotation={rotation}
+              aspect={1}
+              minZoom={MIN_ZOOM}
+              maxZoom={MAX_ZOOM}
+              onCropChange={setCrop}
+              onZoomChange={setZoom}
+              onRotationChange={setRotation}
+              onCropComplete={(_, areaPixels) => setCroppedArea(areaPixels)}
+              onMediaLoaded={() => setError("")}
+            />
+          )}
+        </div>
+
+        <div className="flex items-center gap-3">
+          <ZoomIn className="w-4 h-4 text-muted-foreground shrink-0" />
+          <Slider
+            aria-label={t("photo.zoom")}
+            min={MIN_ZOOM}
+            max={MAX_ZOOM}
+            step={0.05}
+            value={[zoom]}
+            onValueChange={([value]) => setZoom(value)}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            aria-label={t("photo.rotateLeft")}
+            onClick={() => rotate(-90)}
+          >
+            <RotateCcw className="w-4 h-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            aria-label={t("photo.rotateRight")}
+            onClick={() => rotate(90)}
+          >
+            <RotateCw className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>
+            {t("common.cancel")}
+          </Button>
+          <Button
+            type="button"
+            onClick={handleApply}
+            disabled={isProcessing || !croppedArea}
+            className="btn-primary"
+          >
+            {isProcessing ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                {t("photo.processing")}
+              </>
+            ) : (
+              t("photo.usePhoto")
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
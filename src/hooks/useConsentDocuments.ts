@@ -0,0 +1,24 @@
+import { useState, useEffect, useCallback } from "react";
+import { fetchConsentDocuments, fetchCurrentConsentDocuments } from "@/lib/consents";
+import type { ConsentDocument } from "@/types/consent";
+
+// The current documents by default, or every version for the admin screens
+export function useConsentDocuments({ allVersions = false } = {}) {
+  const [documents, setDocuments] = useState<ConsentDocument[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchDocuments = useCallback(async () => {
+    try {
+      setDocuments(await (allVersions ? fetchConsentDocuments() : fetchCurrentConsentDocuments()));
+    } catch (error) {
+      console.error("Error loading consent documents:", error);
+    }
+    setIsLoading(false);
+  }, [allVersions]);
+
+  useEffect(() => {
+    fetchDocuments();
+  }, [fetchDocuments]);
+
+  return { documents, setDocuments, isLoading, refetch: fetchDocuments };
+}
@@ -0,0 +1,26 @@
+import { useState, useEffect, useCallback } from "react";
+import { fetchDepartmentAvailability } from "@/lib/capacity";
+import type { DepartmentAvailability } from "@/types/registration";
+
+export function useDepartmentAvailability(eventId: string | null | undefined) {
+  const [availability, setAvailability] = useState<DepartmentAvailability[]>([]);
+
+  const fetchAvailability = useCallback(async () => {
+    if (!eventId) {
+      setAvailability([]);
+      return;
+    }
+
+    try {
+      setAvailability(await fetchDepartmentAvailability(eventId));
+    } catch (error) {
+      console.error("Error loading department availability:", error);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchAvailability();
+  }, [fetchAvailability]);
+
+  return { availability, refetch: fetchAvailability };
+}
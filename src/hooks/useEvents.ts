@@ -0,0 +1,142 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_EVENT_SLUG, fetchRegistrationWindowState } from "@/lib/events";
+import type { RegistrationEvent, RegistrationWindowState } from "@/types/event";
+
+export function useEvent(slug: string) {
+  const [event, setEvent] = useState<RegistrationEvent | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    supabase
+      .from("events")
+      .select("*")
+      .eq("slug", slug)
+      .eq("is_active", true)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error("Error loading event:", error);
+        }
+        setEvent((data as RegistrationEvent) ?? null);
+        setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [slug]);
+
+  return { event, isLoading };
+}
+
+// Longest a timer can wait; setTimeout overflows beyond ~24.8 days
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+// Whether the event's form is open, re-checked when it is scheduled to open or close
+export function useRegistrationWindow(event: RegistrationEvent | null) {
+  const [state, setState] = useState<RegistrationWindowState | null>(null);
+  const eventId = event?.id;
+
+  const fetchState = useCallback(async () => {
+    if (!eventId) {
+      setState(null);
+      return;
+    }
+    try {
+      setState(await fetchRegistrationWindowState(eventId));
+    } catch (error) {
+      console.error("Error loading registration window:", error);
+      // Let the form through; the database still rejects late submissions
+      setState("open");
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchState();
+  }, [fetchState]);
+
+  useEffect(() => {
+    const boundary = state === "scheduled" ? event?.opens_at : state === "open" ? event?.closes_at : null;
+    if (!boundary) return;
+    const delay = new Date(boundary).getTime() - Date.now();
+    const timer = setTimeout(fetchState, Math.min(Math.max(delay, 0) + 1000, MAX_TIMER_DELAY));
+    return () => clearTimeout(timer);
+  }, [state, event?.opens_at, event?.closes_at, fetchState]);
+
+  return { state, refetch: fetchState };
+}
+
+export function useEvents(enabled = true) {
+  const [events, setEvents] = useState<RegistrationEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchEvents = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("events")
+      .select("*")
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error loading events:", error);
+    } else {
+      setEvents(data as RegistrationEvent[]);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (enabled) {
+      fetchEvents();
+    }
+  }, [enabled, fetchEvents]);
+
+  return { events, setEvents, isLoading, refetch: fetchEvents };
+}
+
+const SELECTED_EVENT_KEY = "smartreg:admin-event";
+
+// Admin-side event selection, remembered across admin screens and reloads
+export function useSelectedEvent(enabled = true) {
+  const { events, setEvents, isLoading } = useEvents(enabled);
+  const [selectedEventId, setSelectedEventId] = useState<string | null>(
+    () => localStorage.getItem(SELECTED_EVENT_KEY)
+  );
+  const selectedEvent = events.find((e) => e.id === selectedEventId) ?? null;
+
+  // Fall back to the default event when nothing (or a deleted event) is selected
+  useEffect(() => {
+    if (events.length === 0 || events.some((e) => e.id === selectedEventId)) return;
+    const fallback = events.find((e) => e.slug === DEFAULT_EVENT_SLUG) ?? events[0];
+    setSelectedEventId(fallback.id);
+  }, [events, selectedEventId]);
+
+  useEffect(() => {
+    if (selectedEventId) {
+      localStorage.setItem(SELECTED_EVENT_KEY, selectedEventId);
+    }
+  }, [selectedEventId]);
+
+  const addEvent = useCallback((event: RegistrationEvent) => {
+    setEvents((prev) => [...prev, event]);
+    setSelectedEventId(event.id);
+  }, [setEvents]);
+
+  const updateEvent = useCallback((event: RegistrationEvent) => {
+    setEvents((prev) => prev.map((e) => (e.id === event.id ? event : e)));
+  }, [setEvents]);
+
+  return {
+    events,
+    isLoading,
+    selectedEvent,
+    selectedEventId,
+    setSelectedEventId,
+    addEvent,
+    updateEvent,
+  };
+}
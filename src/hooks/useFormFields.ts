@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { FormField } from "@/types/form-field";
+
+export function toFormField(row: Record<string, unknown>): FormField {
+  const options = Array.isArray(row.options) ? row.options.map(String) : [];
+  return { ...(row as unknown as FormField), options };
+}
+
+export function useFormFields(eventId: string | null | undefined) {
+  const [fields, setFields] = useState<FormField[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchFields = useCallback(async () => {
+    if (!eventId) {
+      setFields([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from("form_fields")
+      .select("*")
+      .eq("event_id", eventId)
+      .order("position", { ascending: true });
+
+    if (error) {
+      console.error("Error loading form fields:", error);
+    } else {
+      setFields(data.map(toFormField));
+    }
+    setIsLoading(false);
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchFields();
+  }, [fetchFields]);
+
+  return { fields, setFields, isLoading, refetch: fetchFields };
+}
@@ -0,0 +1,21 @@
+import { useEffect } from "react";
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "touchstart", "wheel"] as const;
+
+// Calls onIdle once `timeoutMs` after the last touch, click or key press.
+// Counting only starts with the first one, so an untouched page is left alone.
+export function useIdleTimer(timeoutMs: number, onIdle: () => void) {
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const restart = () => {
+      clearTimeout(timer);
+      timer = setTimeout(onIdle, timeoutMs);
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, restart, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, restart));
+    };
+  }, [timeoutMs, onIdle]);
+}
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from "react";
+import { formatDate, getLanguage, setLanguage, subscribeToLanguage, t } from "@/lib/i18n";
+
+// Re-renders the component when the language changes. `t` and `formatDate`
+// read the current language, so they are safe to call from here on.
+export function useLanguage() {
+  const language = useSyncExternalStore(subscribeToLanguage, getLanguage);
+  return { language, setLanguage, t, formatDate };
+}
@@ -0,0 +1,23 @@
+import { useSyncExternalStore } from "react";
+import {
+  getOutboxEntries,
+  removeOutboxEntry,
+  retryOutboxEntry,
+  subscribeToOutbox,
+} from "@/lib/outbox";
+
+function subscribeToConnection(listener: () => void) {
+  window.addEventListener("online", listener);
+  window.addEventListener("offline", listener);
+  return () => {
+    window.removeEventListener("online", listener);
+    window.removeEventListener("offline", listener);
+  };
+}
+
+// Registrations queued on this device and whether the browser is online
+export function useOutbox() {
+  const entries = useSyncExternalStore(subscribeToOutbox, getOutboxEntries);
+  const isOnline = useSyncExternalStore(subscribeToConnection, () => navigator.onLine);
+  return { entries, isOnline, retry: retryOutboxEntry, remove: removeOutboxEntry };
+}
@@ -0,0 +1,46 @@
+import { useEffect, useCallback, useRef } from "react";
+import {
+  CHALLENGE_MAX_AGE_MS,
+  fetchSolvedChallenge,
+  waitForMinFillTime,
+  type SolvedChallenge,
+} from "@/lib/proof-of-work";
+
+interface PendingChallenge {
+  promise: Promise<SolvedChallenge>;
+  startedAt: number;
+}
+
+// Solves the proof-of-work challenge in the background while the form is
+// being filled in. Each solution is good for one submission, so taking one
+// starts on the next right away.
+export function useRegistrationChallenge(enabled = true) {
+  const pending = useRef<PendingChallenge | null>(null);
+
+  const start = useCallback(() => {
+    const promise = fetchSolvedChallenge();
+    // Reported by takeSolution, if it is ever taken
+    promise.catch((error) => console.error("Error solving registration challenge:", error));
+    pending.current = { promise, startedAt: Date.now() };
+  }, []);
+
+  useEffect(() => {
+    if (enabled) start();
+  }, [enabled, start]);
+
+  // Resolves no sooner than MIN_FILL_SECONDS after the form was opened, which
+  // is also what the server holds the submission to
+  const takeSolution = useCallback(async () => {
+    if (!pending.current || Date.now() - pending.current.startedAt > CHALLENGE_MAX_AGE_MS) {
+      start();
+    }
+    const { promise } = pending.current!;
+    start();
+
+    const solution = await promise;
+    await waitForMinFillTime(solution);
+    return solution;
+  }, [start]);
+
+  return { takeSolution };
+}
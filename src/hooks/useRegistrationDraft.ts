@@ -0,0 +1,207 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import type { UseFormReturn } from "react-hook-form";
+import { toast } from "sonner";
+import {
+  loadLocalDraft,
+  saveLocalDraft,
+  clearLocalDraft,
+  fileToDataUrl,
+  urlToFile,
+  saveServerDraft,
+  fetchServerDraft,
+  restoreDraftPhoto,
+  deleteServerDraft,
+  getResumeUrl,
+} from "@/lib/drafts";
+import { t } from "@/lib/i18n";
+import type { RegistrationFormValues } from "@/lib/validations";
+
+const AUTOSAVE_DELAY = 500;
+
+interface UseRegistrationDraftOptions {
+  eventId: string;
+  form: UseFormReturn<RegistrationFormValues>;
+  photoFile: File | null;
+  setPhotoFile: (file: File | null) => void;
+  step: number;
+  setStep: (step: number) => void;
+  resumeToken?: string | null;
+  // Off when editing an existing registration, which has nothing to save
+  enabled?: boolean;
+}
+
+export function useRegistrationDraft({
+  eventId,
+  form,
+  photoFile,
+  setPhotoFile,
+  step,
+  setStep,
+  resumeToken,
+  enabled = true,
+}: UseRegistrationDraftOptions) {
+  const [isRestoring, setIsRestoring] = useState(enabled);
+  const [isSavingForLater, setIsSavingForLater] = useState(false);
+  const [token, setToken] = useState<string | undefined>(resumeToken ?? undefined);
+  // Photo already uploaded with a server draft, reused while it stays selected
+  const uploadedPhoto = useRef<{ file: File; path: string } | null>(null);
+  const localPhoto = useRef<{ file: File; dataUrl: string | null } | null>(null);
+  const saveTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  const {
+    reset,
+    getValues,
+    watch,
+    formState: { isDirty },
+  } = form;
+
+  const applyValues = useCallback(
+    (values: Partial<RegistrationFormValues>) => {
+      const current = getValues();
+      reset({
+        ...current,
+        ...values,
+        customFields: { ...current.customFields, ...values.customFields },
+      });
+    },
+    [getValues, reset]
+  );
+
+  // Restore once: a resume link wins over the local autosave
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    const restore = async () => {
+      try {
+        if (resumeToken) {
+          const draft = await fetchServerDraft(resumeToken, eventId);
+          if (cancelled) return;
+          if (!draft) {
+            setToken(undefined);
+            toast.error(t("draft.linkExpired"));
+          } else {
+            applyValues(draft.values);
+            setStep(draft.step);
+            if (draft.photoPath) {
+              const file = await restoreDraftPhoto(draft.photoPath);
+              if (cancelled) return;
+              uploadedPhoto.current = { file, path: draft.photoPath };
+              setPhotoFile(file);
+            }
+            toast.success(t("draft.restored"));
+            return;
+          }
+        }
+
+        const local = loadLocalDraft(eventId);
+        if (!local) return;
+        applyValues(local.values);
+        setStep(local.step);
+        if (local.resumeToken) setToken(local.resumeToken);
+        if (local.photo) {
+          const file = await urlToFile(local.photo.dataUrl, local.photo.name, local.photo.type);
+          if (cancelled) return;
+          localPhoto.current = { file, dataUrl: local.photo.dataUrl };
+          setPhotoFile(file);
+        }
+      } catch (error) {
+        console.error("Error restoring draft:", error);
+      } finally {
+        if (!cancelled) setIsRestoring(false);
+      }
+    };
+
+    restore();
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, eventId, resumeToken, applyValues, setPhotoFile, setStep]);
+
+  const saveLocally = useCallback(async () => {
+    // Nothing new to keep (fresh or just-submitted form)
+    if (!isDirty && !photoFile) return;
+
+    let photo: { name: string; type: string; dataUrl: string } | undefined;
+    if (photoFile) {
+      if (localPhoto.current?.file !== photoFile) {
+        localPhoto.current = { file: photoFile, dataUrl: await fileToDataUrl(photoFile) };
+      }
+      if (localPhoto.current.dataUrl) {
+        photo = { name: photoFile.name, type: photoFile.type, dataUrl: localPhoto.current.dataUrl };
+      }
+    }
+    saveLocalDraft(eventId, {
+      values: getValues(),
+      step,
+      photo,
+      resumeToken: token,
+      savedAt: new Date().toISOString(),
+    });
+  }, [eventId, isDirty, getValues, photoFile, step, token]);
+
+  // Autosave on every change once the restore is done
+  useEffect(() => {
+    if (!enabled || isRestoring) return;
+
+    const schedule = () => {
+      clearTimeout(saveTimer.current);
+      saveTimer.current = setTimeout(saveLocally, AUTOSAVE_DELAY);
+    };
+
+    schedule();
+    const subscription = watch(schedule);
+    return () => {
+      subscription.unsubscribe();
+      clearTimeout(saveTimer.current);
+    };
+  }, [enabled, isRestoring, saveLocally, watch]);
+
+  const saveForLater = useCallback(async () => {
+    setIsSavingForLater(true);
+    try {
+      const reusablePath =
+        photoFile && uploadedPhoto.current?.file === photoFile ? uploadedPhoto.current.path : null;
+      const saved = await saveServerDraft({
+        eventId,
+        values: getValues(),
+        step,
+        photoFile,
+        photoPath: reusablePath,
+        token,
+      });
+      if (photoFile && saved.photoPath) {
+        uploadedPhoto.current = { file: photoFile, path: saved.photoPath };
+      }
+      setToken(saved.token);
+      return { url: getResumeUrl(saved.token), expiresAt: saved.expiresAt };
+    } finally {
+      setIsSavingForLater(false);
+    }
+  }, [eventId, getValues, photoFile, step, token]);
+
+  // Storage path of the current photo if a draft already uploaded it
+  const getUploadedPhotoPath = useCallback(
+    (file: File) => (uploadedPhoto.current?.file === file ? uploadedPhoto.current.path : null),
+    []
+  );
+
+  const clearDraft = useCallback(() => {
+    clearTimeout(saveTimer.current);
+    clearLocalDraft(eventId);
+    if (token) {
+      deleteServerDraft(token);
+      setToken(undefined);
+    }
+    uploadedPhoto.current = null;
+    localPhoto.current = null;
+  }, [eventId, token]);
+
+  return {
+    isRestoring,
+    isSavingForLater,
+    saveForLater,
+    getUploadedPhotoPath,
+    clearDraft,
+  };
+}
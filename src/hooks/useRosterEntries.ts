@@ -0,0 +1,26 @@
+import { useState, useEffect, useCallback } from "react";
+import { fetchRosterEntries } from "@/lib/roster";
+import type { RosterEntry } from "@/types/roster";
+
+export function useRosterEntries(eventId: string | null | undefined) {
+  const [entries, setEntries] = useState<RosterEntry[]>([]);
+
+  const fetchEntries = useCallback(async () => {
+    if (!eventId) {
+      setEntries([]);
+      return;
+    }
+
+    try {
+      setEntries(await fetchRosterEntries(eventId));
+    } catch (error) {
+      console.error("Error loading roster:", error);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  return { entries, refetch: fetchEntries };
+}
@@ -14,44 +14,621 @@ export type Database = {
   }
   public: {
     Tables: {
+      consent_documents: {
+        Row: {
+          body: string
+          created_at: string
+          created_by: string | null
+          id: string
+          kind: Database["public"]["Enums"]["consent_kind"]
+          required: boolean
+          title: string
+          version: number
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind: Database["public"]["Enums"]["consent_kind"]
+          required?: boolean
+          title: string
+          version?: number
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind?: Database["public"]["Enums"]["consent_kind"]
+          required?: boolean
+          title?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      department_capacities: {
+        Row: {
+          capacity: number
+          created_at: string
+          department: string
+          event_id: string
+          id: string
+          updated_at: string
+        }
+        Insert: {
+          capacity: number
+          created_at?: string
+          department: string
+          event_id: string
+          id?: string
+          updated_at?: string
+        }
+        Update: {
+          capacity?: number
+          created_at?: string
+          department?: string
+          event_id?: string
+          id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "department_capacities_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      events: {
+        Row: {
+          closes_at: string | null
+          created_at: string
+          description: string | null
+          duplicate_policy: Database["public"]["Enums"]["duplicate_policy"]
+          fee_amount: number | null
+          fee_currency: string
+          id: string
+          invite_only: boolean
+          is_active: boolean
+          is_paused: boolean
+          max_registrations: number | null
+          name: string
+          opens_at: string | null
+          require_email_verification: boolean
+          require_mobile_verification: boolean
+          roster_policy: Database["public"]["Enums"]["roster_policy"]
+          slug: string
+          updated_at: string
+          wizard_mode: boolean
+        }
+        Insert: {
+          closes_at?: string | null
+          created_at?: string
+          description?: string | null
+          duplicate_policy?: Database["public"]["Enums"]["duplicate_policy"]
+          fee_amount?: number | null
+          fee_currency?: string
+          id?: string
+          invite_only?: boolean
+          is_active?: boolean
+          is_paused?: boolean
+          max_registrations?: number | null
+          name: string
+          opens_at?: string | null
+          require_email_verification?: boolean
+          require_mobile_verification?: boolean
+          roster_policy?: Database["public"]["Enums"]["roster_policy"]
+          slug: string
+          updated_at?: string
+          wizard_mode?: boolean
+        }
+        Update: {
+          closes_at?: string | null
+          created_at?: string
+          description?: string | null
+          duplicate_policy?: Database["public"]["Enums"]["duplicate_policy"]
+          fee_amount?: number | null
+          fee_currency?: string
+          id?: string
+          invite_only?: boolean
+          is_active?: boolean
+          is_paused?: boolean
+          max_registrations?: number | null
+          name?: string
+          opens_at?: string | null
+          require_email_verification?: boolean
+          require_mobile_verification?: boolean
+          roster_policy?: Database["public"]["Enums"]["roster_policy"]
+          slug?: string
+          updated_at?: string
+          wizard_mode?: boolean
+        }
+        Relationships: []
+      }
+      form_fields: {
+        Row: {
+          created_at: string
+          event_id: string
+          field_key: string
+          field_type: Database["public"]["Enums"]["form_field_type"]
+          id: string
+          label: string
+          max_value: number | null
+          min_value: number | null
+          options: Json
+          pattern: string | null
+          placeholder: string | null
+          position: number
+          required: boolean
+          show_in_table: boolean
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          field_key: string
+          field_type?: Database["public"]["Enums"]["form_field_type"]
+          id?: string
+          label: string
+          max_value?: number | null
+          min_value?: number | null
+          options?: Json
+          pattern?: string | null
+          placeholder?: string | null
+          position?: number
+          required?: boolean
+          show_in_table?: boolean
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          field_key?: string
+          field_type?: Database["public"]["Enums"]["form_field_type"]
+          id?: string
+          label?: string
+          max_value?: number | null
+          min_value?: number | null
+          options?: Json
+          pattern?: string | null
+          placeholder?: string | null
+          position?: number
+          required?: boolean
+          show_in_table?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "form_fields_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invite_codes: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string | null
+          department: string | null
+          event_id: string
+          expires_at: string | null
+          id: string
+          label: string | null
+          max_uses: number
+          uses: number
+        }
+        Insert: {
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          department?: string | null
+          event_id: string
+          expires_at?: string | null
+          id?: string
+          label?: string | null
+          max_uses?: number
+          uses?: number
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          department?: string | null
+          event_id?: string
+          expires_at?: string | null
+          id?: string
+          label?: string | null
+          max_uses?: number
+          uses?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invite_codes_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      kiosk_pins: {
+        Row: {
+          event_id: string
+          failed_attempts: number
+          locked_until: string | null
+          pin_hash: string
+          updated_at: string
+        }
+        Insert: {
+          event_id: string
+          failed_attempts?: number
+          locked_until?: string | null
+          pin_hash: string
+          updated_at?: string
+        }
+        Update: {
+          event_id?: string
+          failed_attempts?: number
+          locked_until?: string | null
+          pin_hash?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kiosk_pins_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: true
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      registration_attachments: {
+        Row: {
+          content_type: string
+          created_at: string
+          document_type: Database["public"]["Enums"]["attachment_document_type"]
+          file_name: string
+          file_path: string
+          id: string
+          registration_id: string
+          size_bytes: number
+        }
+        Insert: {
+          content_type: string
+          created_at?: string
+          document_type?: Database["public"]["Enums"]["attachment_document_type"]
+          file_name: string
+          file_path: string
+          id?: string
+          registration_id: string
+          size_bytes: number
+        }
+        Update: {
+          content_type?: string
+          created_at?: string
+          document_type?: Database["public"]["Enums"]["attachment_document_type"]
+          file_name?: string
+          file_path?: string
+          id?: string
+          registration_id?: string
+          size_bytes?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "registration_attachments_registration_id_fkey"
+            columns: ["registration_id"]
+            isOneToOne: false
+            referencedRelation: "registrations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      registration_attempts: {
+        Row: {
+          action: string
+          challenge_id: string | null
+          created_at: string
+          email: string | null
+          event_id: string | null
+          id: string
+          ip_address: string
+          outcome: string
+          reason: string | null
+          user_agent: string | null
+        }
+        Insert: {
+          action: string
+          challenge_id?: string | null
+          created_at?: string
+          email?: string | null
+          event_id?: string | null
+          id?: string
+          ip_address: string
+          outcome: string
+          reason?: string | null
+          user_agent?: string | null
+        }
+        Update: {
+          action?: string
+          challenge_id?: string | null
+          created_at?: string
+          email?: string | null
+          event_id?: string | null
+          id?: string
+          ip_address?: string
+          outcome?: string
+          reason?: string | null
+          user_agent?: string | null
+        }
+        Relationships: []
+      }
+      registration_changes: {
+        Row: {
+          actor_email: string | null
+          actor_id: string | null
+          changes: Json
+          created_at: string
+          id: string
+          registration_id: string
+          source: string
+        }
+        Insert: {
+          actor_email?: string | null
+          actor_id?: string | null
+          changes: Json
+          created_at?: string
+          id?: string
+          registration_id: string
+          source: string
+        }
+        Update: {
+          actor_email?: string | null
+          actor_id?: string | null
+          changes?: Json
+          created_at?: string
+          id?: string
+          registration_id?: string
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "registration_changes_registration_id_fkey"
+            columns: ["registration_id"]
+            isOneToOne: false
+            referencedRelation: "registrations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      registration_drafts: {
+        Row: {
+          created_at: string
+          event_id: string
+          expires_at: string
+          form_data: Json
+          id: string
+          photo_path: string | null
+          token: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          expires_at?: string
+          form_data?: Json
+          id?: string
+          photo_path?: string | null
+          token?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          expires_at?: string
+          form_data?: Json
+          id?: string
+          photo_path?: string | null
+          token?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "registration_drafts_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       registrations: {
         Row: {
           address: string
+          address_line1: string | null
+          address_line2: string | null
+          admin_message: string | null
+          city: string | null
+          confirmation_code: string
+          consent_document_ids: string[]
+          consented_at: string | null
+          country: string | null
           created_at: string
+          custom_fields: Json
           department: string
+          device_id: string | null
           email: string
+          email_verified_at: string | null
+          employee_id: string | null
+          event_id: string
           full_name: string
           gender: Database["public"]["Enums"]["gender_type"]
+          group_id: string | null
           id: string
+          invite_code_id: string | null
+          is_possible_duplicate: boolean
+          language: string
           mobile_number: string
+          mobile_verified_at: string | null
+          paid_at: string | null
+          payment_amount: number | null
+          payment_currency: string | null
+          payment_provider: string | null
+          payment_reference: string | null
+          payment_status: Database["public"]["Enums"]["payment_status"] | null
           photo_url: string
+          postal_code: string | null
+          roster_status: string | null
+          source: string
+          state: string | null
+          status: Database["public"]["Enums"]["registration_status"]
           updated_at: string
+          waitlist_position: number | null
         }
         Insert: {
           address: string
+          address_line1?: string | null
+          address_line2?: string | null
+          admin_message?: string | null
+          city?: string | null
+          confirmation_code?: string
+          consent_document_ids?: string[]
+          consented_at?: string | null
+          country?: string | null
           created_at?: string
+          custom_fields?: Json
           department: string
+          device_id?: string | null
           email: string
+          email_verified_at?: string | null
+          employee_id?: string | null
+          event_id: string
           full_name: string
           gender: Database["public"]["Enums"]["gender_type"]
+          group_id?: string | null
           id?: string
+          invite_code_id?: string | null
+          is_possible_duplicate?: boolean
+          language?: string
           mobile_number: string
+          mobile_verified_at?: string | null
+          paid_at?: string | null
+          payment_amount?: number | null
+          payment_currency?: string | null
+          payment_provider?: string | null
+          payment_reference?: string | null
+          payment_status?: Database["public"]["Enums"]["payment_status"] | null
           photo_url: string
+          postal_code?: string | null
+          roster_status?: string | null
+          source?: string
+          state?: string | null
+          status?: Database["public"]["Enums"]["registration_status"]
           updated_at?: string
+          waitlist_position?: number | null
         }
         Update: {
           address?: string
+          address_line1?: string | null
+          address_line2?: string | null
+          admin_message?: string | null
+          city?: string | null
+          confirmation_code?: string
+          consent_document_ids?: string[]
+          consented_at?: string | null
+          country?: string | null
           created_at?: string
+          custom_fields?: Json
           department?: string
+          device_id?: string | null
           email?: string
+          email_verified_at?: string | null
+          employee_id?: string | null
+          event_id?: string
           full_name?: string
           gender?: Database["public"]["Enums"]["gender_type"]
+          group_id?: string | null
           id?: string
+          invite_code_id?: string | null
+          is_possible_duplicate?: boolean
+          language?: string
           mobile_number?: string
+          mobile_verified_at?: string | null
+          paid_at?: string | null
+          payment_amount?: number | null
+          payment_currency?: string | null
+          payment_provider?: string | null
+          payment_reference?: string | null
+          payment_status?: Database["public"]["Enums"]["payment_status"] | null
           photo_url?: string
+          postal_code?: string | null
+          roster_status?: string | null
+          source?: string
+          state?: string | null
+          status?: Database["public"]["Enums"]["registration_status"]
           updated_at?: string
+          waitlist_position?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "registrations_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "registrations_invite_code_id_fkey"
+            columns: ["invite_code_id"]
+            isOneToOne: false
+            referencedRelation: "invite_codes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      roster_entries: {
+        Row: {
+          created_at: string
+          department: string | null
+          email: string | null
+          employee_id: string | null
+          event_id: string
+          full_name: string | null
+          id: string
+        }
+        Insert: {
+          created_at?: string
+          department?: string | null
+          email?: string | null
+          employee_id?: string | null
+          event_id: string
+          full_name?: string | null
+          id?: string
+        }
+        Update: {
+          created_at?: string
+          department?: string | null
+          email?: string | null
+          employee_id?: string | null
+          event_id?: string
+          full_name?: string | null
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "roster_entries_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_roles: {
         Row: {
@@ -74,11 +651,189 @@ export type Database = {
         }
         Relationships: []
       }
+      verification_codes: {
+        Row: {
+          attempts: number
+          channel: Database["public"]["Enums"]["verification_channel"]
+          code_hash: string
+          consumed_at: string | null
+          created_at: string
+          event_id: string
+          expires_at: string
+          id: string
+          target: string
+          verified_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          channel: Database["public"]["Enums"]["verification_channel"]
+          code_hash: string
+          consumed_at?: string | null
+          created_at?: string
+          event_id: string
+          expires_at?: string
+          id?: string
+          target: string
+          verified_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          channel?: Database["public"]["Enums"]["verification_channel"]
+          code_hash?: string
+          consumed_at?: string | null
+          created_at?: string
+          event_id?: string
+          expires_at?: string
+          id?: string
+          target?: string
+          verified_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "verification_codes_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      apply_registration_edit: {
+        Args: {
+          _actor_email: string
+          _expected_updated_at: string
+          _registration_id: string
+          _values: Json
+        }
+        Returns: string
+      }
+      can_attach_to_registration: {
+        Args: { _registration_id: string }
+        Returns: boolean
+      }
+      can_upload_registration_document: {
+        Args: { _registration_id: string }
+        Returns: boolean
+      }
+      check_invite_code: {
+        Args: { _code: string; _event_id: string }
+        Returns: {
+          department: string
+          state: string
+          uses_left: number
+        }[]
+      }
+      check_registration_duplicate: {
+        Args: { _email: string; _event_id: string; _mobile_number: string }
+        Returns: {
+          email_taken: boolean
+          mobile_taken: boolean
+          policy: Database["public"]["Enums"]["duplicate_policy"]
+        }[]
+      }
+      check_roster: {
+        Args: { _email: string; _employee_id: string; _event_id: string }
+        Returns: boolean
+      }
+      consume_verification: {
+        Args: {
+          _channel: Database["public"]["Enums"]["verification_channel"]
+          _event_id: string
+          _target: string
+        }
+        Returns: string
+      }
+      create_verification_code: {
+        Args: {
+          _channel: Database["public"]["Enums"]["verification_channel"]
+          _event_id: string
+          _target: string
+        }
+        Returns: {
+          code: string
+          retry_after: number
+        }[]
+      }
+      current_consent_documents: {
+        Args: never
+        Returns: {
+          body: string
+          created_at: string
+          created_by: string | null
+          id: string
+          kind: Database["public"]["Enums"]["consent_kind"]
+          required: boolean
+          title: string
+          version: number
+        }[]
+      }
+      delete_registration_draft: {
+        Args: { _token: string }
+        Returns: undefined
+      }
+      find_registration_by_code: {
+        Args: { _code: string; _contact: string }
+        Returns: string
+      }
+      find_roster_entry: {
+        Args: { _email: string; _employee_id: string; _event_id: string }
+        Returns: {
+          created_at: string
+          department: string | null
+          email: string | null
+          employee_id: string | null
+          event_id: string
+          full_name: string | null
+          id: string
+        }[]
+      }
+      generate_confirmation_code: {
+        Args: never
+        Returns: string
+      }
+      get_department_availability: {
+        Args: { _event_id: string }
+        Returns: {
+          capacity: number
+          department: string
+          seats_taken: number
+          waitlisted: number
+        }[]
+      }
+      get_registration_confirmation: {
+        Args: { _registration_id: string }
+        Returns: {
+          confirmation_code: string
+          status: Database["public"]["Enums"]["registration_status"]
+          waitlist_position: number
+        }[]
+      }
+      get_registration_window_state: {
+        Args: { _event_id: string }
+        Returns: string
+      }
+      get_registration_draft: {
+        Args: { _token: string }
+        Returns: {
+          event_id: string
+          expires_at: string
+          form_data: Json
+          photo_path: string
+        }[]
+      }
+      has_kiosk_pin: {
+        Args: { _event_id: string }
+        Returns: boolean
+      }
+      hash_kiosk_pin: {
+        Args: { _event_id: string; _pin: string }
+        Returns: string
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -86,10 +841,124 @@ export type Database = {
         }
         Returns: boolean
       }
+      holds_department_seat: {
+        Args: { _status: Database["public"]["Enums"]["registration_status"] }
+        Returns: boolean
+      }
+      is_registration_submitted: {
+        Args: { _registration_id: string }
+        Returns: boolean
+      }
+      lock_department_seats: {
+        Args: { _department: string; _event_id: string }
+        Returns: undefined
+      }
+      lookup_registration_status: {
+        Args: { _code: string; _contact: string }
+        Returns: {
+          admin_message: string
+          confirmation_code: string
+          created_at: string
+          event_name: string
+          full_name: string
+          payment_amount: number
+          payment_currency: string
+          payment_status: Database["public"]["Enums"]["payment_status"]
+          status: Database["public"]["Enums"]["registration_status"]
+          updated_at: string
+          waitlist_position: number
+        }[]
+      }
+      normalize_invite_code: {
+        Args: { _code: string }
+        Returns: string
+      }
+      normalize_verification_target: {
+        Args: {
+          _channel: Database["public"]["Enums"]["verification_channel"]
+          _target: string
+        }
+        Returns: string
+      }
+      orphaned_registration_documents: {
+        Args: never
+        Returns: {
+          file_path: string
+        }[]
+      }
+      purge_expired_registration_drafts: {
+        Args: never
+        Returns: {
+          photo_path: string
+        }[]
+      }
+      refresh_department_waitlist: {
+        Args: { _department: string; _event_id: string }
+        Returns: undefined
+      }
+      replace_roster: {
+        Args: { _entries: Json; _event_id: string }
+        Returns: number
+      }
+      save_registration_draft: {
+        Args: {
+          _event_id: string
+          _form_data: Json
+          _photo_path?: string
+          _token?: string
+        }
+        Returns: {
+          expires_at: string
+          token: string
+        }[]
+      }
+      set_kiosk_pin: {
+        Args: { _event_id: string; _pin: string }
+        Returns: undefined
+      }
+      verify_code: {
+        Args: {
+          _channel: Database["public"]["Enums"]["verification_channel"]
+          _code: string
+          _event_id: string
+          _target: string
+        }
+        Returns: string
+      }
+      verify_kiosk_pin: {
+        Args: { _event_id: string; _pin: string }
+        Returns: boolean
+      }
     }
     Enums: {
       app_role: "admin" | "user"
+      attachment_document_type:
+        | "id_proof"
+        | "offer_letter"
+        | "certificate"
+        | "other"
+      consent_kind: "privacy" | "terms" | "marketing"
+      duplicate_policy: "block" | "warn" | "allow"
+      form_field_type:
+        | "text"
+        | "textarea"
+        | "number"
+        | "email"
+        | "select"
+        | "radio"
+        | "checkbox"
+        | "date"
       gender_type: "male" | "female" | "other"
+      payment_status: "pending_payment" | "paid" | "refunded"
+      registration_status:
+        | "submitted"
+        | "under_review"
+        | "waitlisted"
+        | "approved"
+        | "rejected"
+        | "cancelled"
+      roster_policy: "off" | "flag" | "block"
+      verification_channel: "email" | "sms"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -218,7 +1087,36 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "user"],
+      attachment_document_type: [
+        "id_proof",
+        "offer_letter",
+        "certificate",
+        "other",
+      ],
+      consent_kind: ["privacy", "terms", "marketing"],
+      duplicate_policy: ["block", "warn", "allow"],
+      form_field_type: [
+        "text",
+        "textarea",
+        "number",
+        "email",
+        "select",
+        "radio",
+        "checkbox",
+        "date",
+      ],
       gender_type: ["male", "female", "other"],
+      payment_status: ["pending_payment", "paid", "refunded"],
+      registration_status: [
+        "submitted",
+        "under_review",
+        "waitlisted",
+        "approved",
+        "rejected",
+        "cancelled",
+      ],
+      roster_policy: ["off", "flag", "block"],
+      verification_channel: ["email", "sms"],
     },
   },
 } as const
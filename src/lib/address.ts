@@ -0,0 +1,110 @@
+import { DEFAULT_PHONE_COUNTRY, PHONE_COUNTRY_OPTIONS } from "@/lib/phone";
+import { t } from "@/lib/i18n";
+
+// Shape of the form's `address` value; parts may be missing while editing
+export interface AddressParts {
+  line1?: string;
+  line2?: string;
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+export interface AddressColumns {
+  address: string;
+  address_line1: string | null;
+  address_line2: string | null;
+  city: string | null;
+  state: string | null;
+  postal_code: string | null;
+  country: string | null;
+}
+
+export const DEFAULT_ADDRESS_COUNTRY = DEFAULT_PHONE_COUNTRY;
+
+export const EMPTY_ADDRESS: AddressParts = {
+  line1: "",
+  line2: "",
+  city: "",
+  state: "",
+  postalCode: "",
+  country: DEFAULT_ADDRESS_COUNTRY,
+};
+
+export const COUNTRY_OPTIONS = PHONE_COUNTRY_OPTIONS.map(({ code, name, flag }) => ({ code, name, flag }));
+
+const POSTAL_CODE_PATTERNS: Record<string, RegExp> = {
+  IN: /^[1-9]\d{5}$/,
+};
+const GENERIC_POSTAL_CODE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 -]{1,9}$/;
+
+export function isValidPostalCode(country: string, postalCode: string) {
+  return (POSTAL_CODE_PATTERNS[country] ?? GENERIC_POSTAL_CODE_PATTERN).test(postalCode.trim());
+}
+
+export function getPostalCodeLabel(country: string) {
+  return country === "IN" ? t("address.pinCode") : t("address.postalCode");
+}
+
+export function getCountryName(code: string | null | undefined) {
+  return COUNTRY_OPTIONS.find((option) => option.code === code)?.name ?? code ?? "";
+}
+
+interface PostalCodeDataset {
+  places: [city: string, state: string][];
+  pins: Record<string, number>;
+}
+
+// Only India's PIN codes are bundled; loaded on first use so the form's
+// initial bundle stays small
+let indiaPostalCodes: Promise<PostalCodeDataset> | null = null;
+
+export async function lookupPostalCode(country: string, postalCode: string) {
+  if (country !== "IN" || !isValidPostalCode(country, postalCode)) return null;
+
+  indiaPostalCodes ??= import("@/data/postal-codes-in.json").then(
+    (module) => module.default as unknown as PostalCodeDataset
+  );
+  const dataset = await indiaPostalCodes;
+  const index = dataset.pins[postalCode.trim()];
+  if (index === undefined) return null;
+
+  const [city, state] = dataset.places[index];
+  return { city, state };
+}
+
+export function formatAddress(parts: AddressParts) {
+  const locality = [parts.city, [parts.state, parts.postalCode].filter(Boolean).join(" ")]
+    .filter(Boolean)
+    .join(", ");
+  return [parts.line1, parts.line2, locality, getCountryName(parts.country)]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(", ");
+}
+
+export function toAddressColumns(parts: AddressParts): AddressColumns {
+  return {
+    address: formatAddress(parts),
+    address_line1: parts.line1?.trim() || null,
+    address_line2: parts.line2?.trim() || null,
+    city: parts.city?.trim() || null,
+    state: parts.state?.trim() || null,
+    postal_code: parts.postalCode?.trim() || null,
+    country: parts.country || null,
+  };
+}
+
+// Rows from before structured addresses only have the free-text address,
+// which becomes the first line
+export function fromAddressColumns(columns: AddressColumns): AddressParts {
+  return {
+    line1: columns.address_line1 ?? columns.address,
+    line2: columns.address_line2 ?? "",
+    city: columns.city ?? "",
+    state: columns.state ?? "",
+    postalCode: columns.postal_code ?? "",
+    country: columns.country ?? DEFAULT_ADDRESS_COUNTRY,
+  };
+}
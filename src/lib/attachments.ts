@@ -0,0 +1,112 @@
+import { supabase } from "@/integrations/supabase/client";
+import { t } from "@/lib/i18n";
+import { uploadRegistrationFile } from "@/lib/uploads";
+import type { MessageKey } from "@/locales/en";
+import type { AttachmentDocumentType, RegistrationAttachment } from "@/types/registration";
+
+// Private bucket; files are only served through short-lived signed URLs
+export const ATTACHMENT_BUCKET = "registration-documents";
+
+export const MAX_ATTACHMENTS = 5;
+
+// Per-type size limits; the bucket itself caps every file at 5MB
+export const ATTACHMENT_TYPE_RULES: Record<string, { label: string; maxSize: number }> = {
+  "application/pdf": { label: "PDF", maxSize: 5 * 1024 * 1024 },
+  "image/jpeg": { label: "JPG", maxSize: 3 * 1024 * 1024 },
+  "image/png": { label: "PNG", maxSize: 3 * 1024 * 1024 },
+  "image/webp": { label: "WebP", maxSize: 3 * 1024 * 1024 },
+};
+
+export const DOCUMENT_TYPE_OPTIONS: { value: AttachmentDocumentType; labelKey: MessageKey }[] = [
+  { value: "id_proof", labelKey: "document.idProof" },
+  { value: "offer_letter", labelKey: "document.offerLetter" },
+  { value: "certificate", labelKey: "document.certificate" },
+  { value: "other", labelKey: "document.other" },
+];
+
+// A document picked in the form, not uploaded yet
+export interface PendingAttachment {
+  id: string;
+  file: File;
+  documentType: AttachmentDocumentType;
+}
+
+export function getDocumentTypeLabel(type: AttachmentDocumentType) {
+  const option = DOCUMENT_TYPE_OPTIONS.find((option) => option.value === type);
+  return option ? t(option.labelKey) : type;
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function isImageAttachment(contentType: string) {
+  return contentType.startsWith("image/");
+}
+
+// Error message for a file that breaks the type or size rules, or null
+export function getAttachmentError(file: File): string | null {
+  const rule = ATTACHMENT_TYPE_RULES[file.type];
+  if (!rule) {
+    return t("document.typeNotAllowed", { name: file.name });
+  }
+  if (file.size > rule.maxSize) {
+    return t("document.tooLarge", { name: file.name, type: rule.label, size: formatFileSize(rule.maxSize) });
+  }
+  return null;
+}
+
+async function uploadAttachment(registrationId: string, attachment: PendingAttachment) {
+  const filePath = await uploadRegistrationFile("document", attachment.file, { registrationId });
+
+  return {
+    registration_id: registrationId,
+    document_type: attachment.documentType,
+    file_path: filePath,
+    file_name: attachment.file.name,
+    content_type: attachment.file.type,
+    size_bytes: attachment.file.size,
+  };
+}
+
+// Uploads the files before the registration exists; the rows are saved after it
+export async function uploadAttachments(registrationId: string, attachments: PendingAttachment[]) {
+  return Promise.all(attachments.map((attachment) => uploadAttachment(registrationId, attachment)));
+}
+
+export async function saveAttachmentRecords(rows: Awaited<ReturnType<typeof uploadAttachments>>) {
+  if (rows.length === 0) return;
+  const { error } = await supabase.from("registration_attachments").insert(rows);
+  if (error) throw error;
+}
+
+export async function fetchRegistrationAttachments(registrationId: string) {
+  const { data, error } = await supabase
+    .from("registration_attachments")
+    .select("*")
+    .eq("registration_id", registrationId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data as RegistrationAttachment[];
+}
+
+export async function getAttachmentUrl(attachment: RegistrationAttachment, download = false) {
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUrl(attachment.file_path, 60 * 10, download ? { download: attachment.file_name } : undefined);
+
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+// Removes the stored files; the rows go with the registration (on delete cascade)
+export async function removeAttachmentFiles(registrationId: string) {
+  const attachments = await fetchRegistrationAttachments(registrationId);
+  if (attachments.length === 0) return;
+  const { error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .remove(attachments.map((attachment) => attachment.file_path));
+  if (error) throw error;
+}
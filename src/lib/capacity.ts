@@ -0,0 +1,72 @@
+import { supabase } from "@/integrations/supabase/client";
+import { t } from "@/lib/i18n";
+import type { DepartmentAvailability, DepartmentCapacity } from "@/types/registration";
+
+export async function fetchDepartmentAvailability(eventId: string) {
+  const { data, error } = await supabase.rpc("get_department_availability", { _event_id: eventId });
+  if (error) throw error;
+  return (data ?? []) as DepartmentAvailability[];
+}
+
+export function getSeatsLeft(availability: DepartmentAvailability) {
+  return Math.max(0, availability.capacity - availability.seats_taken);
+}
+
+// "3 seats left" or "Waitlist only"
+export function formatAvailability(availability: DepartmentAvailability) {
+  const seatsLeft = getSeatsLeft(availability);
+  if (seatsLeft === 0) return t("capacity.waitlistOnly");
+  return seatsLeft === 1 ? t("capacity.oneSeatLeft") : t("capacity.seatsLeft", { count: seatsLeft });
+}
+
+// Totals over the departments that have a capacity
+export function getCapacityUtilisation(availability: DepartmentAvailability[]) {
+  const totals = availability.reduce(
+    (sum, department) => ({
+      capacity: sum.capacity + department.capacity,
+      seatsTaken: sum.seatsTaken + department.seats_taken,
+      waitlisted: sum.waitlisted + department.waitlisted,
+    }),
+    { capacity: 0, seatsTaken: 0, waitlisted: 0 }
+  );
+  const percent = totals.capacity > 0 ? Math.round((totals.seatsTaken / totals.capacity) * 100) : 0;
+  return { ...totals, percent };
+}
+
+export async function fetchDepartmentCapacities(eventId: string) {
+  const { data, error } = await supabase
+    .from("department_capacities")
+    .select("*")
+    .eq("event_id", eventId);
+
+  if (error) throw error;
+  return data as DepartmentCapacity[];
+}
+
+// Capacities keyed by department; null removes the limit
+export async function saveDepartmentCapacities(
+  eventId: string,
+  capacities: Record<string, number | null>
+) {
+  const entries = Object.entries(capacities);
+  const limited = entries
+    .filter((entry): entry is [string, number] => entry[1] !== null)
+    .map(([department, capacity]) => ({ event_id: eventId, department, capacity }));
+  const unlimited = entries.filter(([, capacity]) => capacity === null).map(([department]) => department);
+
+  if (limited.length > 0) {
+    const { error } = await supabase
+      .from("department_capacities")
+      .upsert(limited, { onConflict: "event_id,department" });
+    if (error) throw error;
+  }
+
+  if (unlimited.length > 0) {
+    const { error } = await supabase
+      .from("department_capacities")
+      .delete()
+      .eq("event_id", eventId)
+      .in("department", unlimited);
+    if (error) throw error;
+  }
+}
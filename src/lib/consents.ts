@@ -0,0 +1,90 @@
+import { supabase } from "@/integrations/supabase/client";
+import { t } from "@/lib/i18n";
+import type { MessageKey } from "@/locales/en";
+import type { ConsentDocument, ConsentIssue, ConsentKind } from "@/types/consent";
+import type { Registration } from "@/types/registration";
+
+export const CONSENT_KIND_OPTIONS: { value: ConsentKind; labelKey: MessageKey }[] = [
+  { value: "privacy", labelKey: "consentKind.privacy" },
+  { value: "terms", labelKey: "consentKind.terms" },
+  { value: "marketing", labelKey: "consentKind.marketing" },
+];
+
+export function getConsentKindLabel(kind: ConsentKind) {
+  const option = CONSENT_KIND_OPTIONS.find((option) => option.value === kind);
+  return option ? t(option.labelKey) : kind;
+}
+
+// What the public form asks for: the latest version of each kind
+export async function fetchCurrentConsentDocuments() {
+  const { data, error } = await supabase.rpc("current_consent_documents");
+  if (error) throw error;
+  return sortByKind((data ?? []) as ConsentDocument[]);
+}
+
+// Every published version, newest first
+export async function fetchConsentDocuments() {
+  const { data, error } = await supabase
+    .from("consent_documents")
+    .select("*")
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data as ConsentDocument[];
+}
+
+export async function publishConsentDocument(
+  document: Pick<ConsentDocument, "kind" | "title" | "body" | "required">
+) {
+  const { data, error } = await supabase
+    .from("consent_documents")
+    .insert(document)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as ConsentDocument;
+}
+
+function sortByKind(documents: ConsentDocument[]) {
+  const order = CONSENT_KIND_OPTIONS.map((option) => option.value);
+  return [...documents].sort((a, b) => order.indexOf(a.kind) - order.indexOf(b.kind));
+}
+
+export function getCurrentConsentDocuments(documents: ConsentDocument[]) {
+  const current = new Map<ConsentKind, ConsentDocument>();
+  documents.forEach((document) => {
+    const latest = current.get(document.kind);
+    if (!latest || document.version > latest.version) current.set(document.kind, document);
+  });
+  return sortByKind(Array.from(current.values()));
+}
+
+// Accepted an older version of a current document, or never accepted a
+// current required one
+export function getConsentIssues(
+  registration: Pick<Registration, "consent_document_ids">,
+  documents: ConsentDocument[]
+): ConsentIssue[] {
+  const accepted = documents.filter((document) => registration.consent_document_ids.includes(document.id));
+
+  return getCurrentConsentDocuments(documents).flatMap((current) => {
+    const acceptedVersion = accepted.find((document) => document.kind === current.kind)?.version ?? null;
+    const isOutdated = acceptedVersion !== null && acceptedVersion < current.version;
+    const isMissing = acceptedVersion === null && current.required;
+    return isOutdated || isMissing
+      ? [{ kind: current.kind, title: current.title, acceptedVersion, currentVersion: current.version }]
+      : [];
+  });
+}
+
+export function formatConsentIssue(issue: ConsentIssue) {
+  return issue.acceptedVersion === null
+    ? t("consent.issueNotAccepted", { title: issue.title, current: issue.currentVersion })
+    : t("consent.issueOutdated", { title: issue.title, accepted: issue.acceptedVersion, current: issue.currentVersion });
+}
+
+// Rejected by the database because the texts changed or a required one was left out
+export function isConsentError(error: { message?: string }) {
+  return error.message === "consent_outdated" || error.message === "consent_required";
+}
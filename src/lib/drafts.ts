@@ -0,0 +1,161 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { EMPTY_ADDRESS } from "@/lib/address";
+import { t } from "@/lib/i18n";
+import { getPhotoPublicUrl, uploadRegistrationPhoto } from "@/lib/registrations";
+import type { RegistrationFormValues } from "@/lib/validations";
+
+// Local drafts live in localStorage and are written on every change; server
+// drafts are only created on "Save and continue later" and are reached
+// through their resume token.
+
+const LOCAL_DRAFT_PREFIX = "smartreg:draft:";
+// Larger photos are not kept locally; they would not fit in localStorage
+const MAX_LOCAL_PHOTO_SIZE = 1.5 * 1024 * 1024;
+
+export interface LocalDraft {
+  values: Partial<RegistrationFormValues>;
+  step: number;
+  photo?: { name: string; type: string; dataUrl: string };
+  resumeToken?: string;
+  savedAt: string;
+}
+
+export interface ServerDraft {
+  values: Partial<RegistrationFormValues>;
+  step: number;
+  photoPath: string | null;
+  expiresAt: string;
+}
+
+// Drafts saved before structured addresses hold the address as one string
+function upgradeDraftValues(values: Partial<RegistrationFormValues>): Partial<RegistrationFormValues> {
+  const address: unknown = values.address;
+  return typeof address === "string"
+    ? { ...values, address: { ...EMPTY_ADDRESS, line1: address } }
+    : values;
+}
+
+export function loadLocalDraft(eventId: string): LocalDraft | null {
+  try {
+    const raw = localStorage.getItem(LOCAL_DRAFT_PREFIX + eventId);
+    if (!raw) return null;
+    const draft = JSON.parse(raw) as LocalDraft;
+    return { ...draft, values: upgradeDraftValues(draft.values ?? {}) };
+  } catch {
+    return null;
+  }
+}
+
+export function saveLocalDraft(eventId: string, draft: LocalDraft) {
+  try {
+    localStorage.setItem(LOCAL_DRAFT_PREFIX + eventId, JSON.stringify(draft));
+  } catch {
+    // Quota exceeded: keep the typed values at least
+    try {
+      const { photo, ...rest } = draft;
+      localStorage.setItem(LOCAL_DRAFT_PREFIX + eventId, JSON.stringify(rest));
+    } catch {
+      // Storage unavailable (private mode); autosave is best effort
+    }
+  }
+}
+
+export function clearLocalDraft(eventId: string) {
+  localStorage.removeItem(LOCAL_DRAFT_PREFIX + eventId);
+}
+
+export function fileToDataUrl(file: File) {
+  return new Promise<string | null>((resolve) => {
+    if (file.size > MAX_LOCAL_PHOTO_SIZE) {
+      resolve(null);
+      return;
+    }
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => resolve(null);
+    reader.readAsDataURL(file);
+  });
+}
+
+export async function urlToFile(url: string, name: string, type?: string) {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(t("draft.photoLoadFailed"));
+  }
+  const blob = await response.blob();
+  return new File([blob], name, { type: type || blob.type });
+}
+
+export async function saveServerDraft({
+  eventId,
+  values,
+  step,
+  photoFile,
+  photoPath,
+  token,
+}: {
+  eventId: string;
+  values: Partial<RegistrationFormValues>;
+  step: number;
+  photoFile: File | null;
+  photoPath: string | null;
+  token?: string;
+}) {
+  // Only upload the photo again if it changed since the last save
+  const uploadedPath =
+    photoFile && !photoPath ? await uploadRegistrationPhoto(photoFile, "drafts") : photoPath;
+
+  const { data, error } = await supabase.rpc("save_registration_draft", {
+    _event_id: eventId,
+    _form_data: { values, step } as unknown as Json,
+    _photo_path: uploadedPath ?? undefined,
+    _token: token,
+  });
+
+  if (error || !data?.[0]) {
+    throw new Error(t("form.saveFailed"));
+  }
+
+  return { token: data[0].token, expiresAt: data[0].expires_at, photoPath: uploadedPath };
+}
+
+export async function fetchServerDraft(token: string, eventId: string): Promise<ServerDraft | null> {
+  const { data, error } = await supabase.rpc("get_registration_draft", { _token: token });
+  if (error) {
+    throw error;
+  }
+
+  const draft = data?.[0];
+  if (!draft || draft.event_id !== eventId) {
+    return null;
+  }
+
+  const formData = (draft.form_data ?? {}) as { values?: Partial<RegistrationFormValues>; step?: number };
+  return {
+    values: upgradeDraftValues(formData.values ?? {}),
+    step: formData.step ?? 0,
+    photoPath: draft.photo_path,
+    expiresAt: draft.expires_at,
+  };
+}
+
+export async function restoreDraftPhoto(photoPath: string) {
+  const fileName = photoPath.split("/").pop() ?? "photo.jpg";
+  return urlToFile(getPhotoPublicUrl(photoPath), fileName);
+}
+
+export async function deleteServerDraft(token: string) {
+  const { error } = await supabase.rpc("delete_registration_draft", { _token: token });
+  if (error) {
+    console.error("Error deleting draft:", error);
+  }
+}
+
+export function getResumeUrl(token: string) {
+  const url = new URL(window.location.href);
+  url.search = "";
+  url.hash = "";
+  url.searchParams.set("resume", token);
+  return url.toString();
+}
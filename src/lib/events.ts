@@ -0,0 +1,53 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { MessageKey } from "@/locales/en";
+import type { DuplicatePolicy, RegistrationEvent, RegistrationWindowState } from "@/types/event";
+
+// Slug of the event seeded by the events migration; "/" renders its form.
+export const DEFAULT_EVENT_SLUG = "general";
+
+export function slugify(value: string) {
+  return value
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+export function getEventFormPath(event: Pick<RegistrationEvent, "slug">) {
+  return event.slug === DEFAULT_EVENT_SLUG ? "/" : `/r/${event.slug}`;
+}
+
+export const DUPLICATE_POLICY_OPTIONS: { value: DuplicatePolicy; labelKey: MessageKey; descriptionKey: MessageKey }[] = [
+  { value: "block", labelKey: "duplicatePolicy.block", descriptionKey: "duplicatePolicy.blockDescription" },
+  { value: "warn", labelKey: "duplicatePolicy.warn", descriptionKey: "duplicatePolicy.warnDescription" },
+  { value: "allow", labelKey: "duplicatePolicy.allow", descriptionKey: "duplicatePolicy.allowDescription" },
+];
+
+export async function fetchRegistrationWindowState(eventId: string) {
+  const { data, error } = await supabase.rpc("get_registration_window_state", { _event_id: eventId });
+  if (error) throw error;
+  return data as RegistrationWindowState;
+}
+
+export const REGISTRATION_CLOSED_MESSAGES: Record<Exclude<RegistrationWindowState, "open">, { title: MessageKey; description: MessageKey }> = {
+  paused: { title: "closed.pausedTitle", description: "closed.pausedDescription" },
+  scheduled: { title: "closed.scheduledTitle", description: "closed.scheduledDescription" },
+  closed: { title: "closed.closedTitle", description: "closed.closedDescription" },
+  full: { title: "closed.fullTitle", description: "closed.fullDescription" },
+  not_found: { title: "closed.notFoundTitle", description: "closed.notFoundDescription" },
+};
+
+// Rejected because the window closed or the cap was reached after the form was opened
+export function isRegistrationClosedError(error: { message?: string }) {
+  return error.message === "registration_closed";
+}
+
+// "2d 04:05:09", or "04:05:09" under a day
+export function formatCountdown(milliseconds: number) {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const time = [Math.floor(totalSeconds / 3600) % 24, Math.floor(totalSeconds / 60) % 60, totalSeconds % 60]
+    .map((part) => String(part).padStart(2, "0"))
+    .join(":");
+  return days > 0 ? `${days}d ${time}` : time;
+}
@@ -0,0 +1,155 @@
+import { z } from "zod";
+import { formatDate, t } from "@/lib/i18n";
+import type { MessageKey } from "@/locales/en";
+import type {
+  FormField,
+  FormFieldType,
+  CustomFieldValue,
+  CustomFieldValues,
+} from "@/types/form-field";
+
+export const FIELD_TYPE_LABELS: Record<FormFieldType, MessageKey> = {
+  text: "fieldType.text",
+  textarea: "fieldType.textarea",
+  number: "fieldType.number",
+  email: "fieldType.email",
+  select: "fieldType.select",
+  radio: "fieldType.radio",
+  checkbox: "fieldType.checkbox",
+  date: "fieldType.date",
+};
+
+export const FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,49}$/;
+
+export function hasOptions(type: FormFieldType) {
+  return type === "select" || type === "radio";
+}
+
+// For text-like fields min/max are lengths, for numbers they are values
+export function hasLengthLimits(type: FormFieldType) {
+  return type === "text" || type === "textarea" || type === "email";
+}
+
+export function toFieldKey(label: string) {
+  return label
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^[^a-z]+|_+$/g, "")
+    .slice(0, 50);
+}
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+
+function buildFieldSchema(field: FormField): z.ZodTypeAny {
+  const { label, required, min_value: min, max_value: max } = field;
+
+  if (field.field_type === "checkbox") {
+    const schema = z.boolean();
+    return required
+      ? schema.refine((v) => v === true, t("validation.customChecked", { label }))
+      : schema.optional();
+  }
+
+  if (field.field_type === "number") {
+    let schema = z.number({
+      required_error: t("validation.customRequired", { label }),
+      invalid_type_error: t("validation.customNumber", { label }),
+    });
+    if (min !== null) schema = schema.min(min, t("validation.customMin", { label, min }));
+    if (max !== null) schema = schema.max(max, t("validation.customMax", { label, max }));
+    return z.preprocess(
+      (v) => (isBlank(v) ? undefined : Number(v)),
+      required ? schema : schema.optional()
+    );
+  }
+
+  let schema = z.string({ required_error: t("validation.customRequired", { label }) }).trim();
+  if (field.field_type === "email") {
+    schema = schema.email(t("validation.customEmail", { label }));
+  }
+  if (field.field_type === "date") {
+    schema = schema.regex(/^\d{4}-\d{2}-\d{2}$/, t("validation.customDate", { label }));
+  }
+  if (hasLengthLimits(field.field_type)) {
+    if (min !== null) schema = schema.min(min, t("validation.customMinLength", { label, min }));
+    if (max !== null) schema = schema.max(max, t("validation.customMaxLength", { label, max }));
+  }
+  if (field.pattern && isValidPattern(field.pattern)) {
+    schema = schema.regex(new RegExp(field.pattern), t("validation.customPattern", { label }));
+  }
+
+  let refined: z.ZodTypeAny = schema;
+  if (hasOptions(field.field_type) && field.options.length > 0) {
+    refined = schema.refine(
+      (v) => field.options.includes(v),
+      t("validation.customSelect", { label: label.toLowerCase() })
+    );
+  }
+
+  return z.preprocess(
+    (v) => (isBlank(v) ? undefined : v),
+    required ? refined : refined.optional()
+  );
+}
+
+export function buildCustomFieldsSchema(fields: FormField[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const field of fields) {
+    shape[field.field_key] = buildFieldSchema(field);
+  }
+  return z.object(shape);
+}
+
+export function getCustomFieldDefaults(
+  fields: FormField[],
+  values: CustomFieldValues = {}
+): CustomFieldValues {
+  const defaults: CustomFieldValues = {};
+  for (const field of fields) {
+    const value = values[field.field_key];
+    if (field.field_type === "checkbox") {
+      defaults[field.field_key] = value === true;
+    } else {
+      defaults[field.field_key] = value === null || value === undefined ? "" : value;
+    }
+  }
+  return defaults;
+}
+
+// Keeps only answers for defined fields and stores blanks as null
+export function toCustomFieldAnswers(
+  fields: FormField[],
+  values: Record<string, unknown> = {}
+): CustomFieldValues {
+  const answers: CustomFieldValues = {};
+  for (const field of fields) {
+    const value = values[field.field_key];
+    answers[field.field_key] = isBlank(value) ? null : (value as CustomFieldValue);
+  }
+  return answers;
+}
+
+export function formatCustomFieldValue(field: FormField, value: CustomFieldValue | undefined) {
+  if (field.field_type === "checkbox") {
+    return value === true ? t("common.yes") : t("common.no");
+  }
+  if (isBlank(value)) {
+    return "";
+  }
+  if (field.field_type === "date" && typeof value === "string") {
+    const date = new Date(`${value}T00:00:00`);
+    return Number.isNaN(date.getTime()) ? value : formatDate(date, "MMM dd, yyyy");
+  }
+  return String(value);
+}
+
+export function isValidPattern(pattern: string) {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
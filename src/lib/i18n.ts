@@ -0,0 +1,103 @@
+import { format, type Locale } from "date-fns";
+import { hi as hiDateLocale } from "date-fns/locale";
+import { en, type MessageKey, type Messages } from "@/locales/en";
+import { hi } from "@/locales/hi";
+import { mr } from "@/locales/mr";
+
+export type Language = "en" | "hi" | "mr";
+
+export const LANGUAGE_OPTIONS: { value: Language; label: string }[] = [
+  { value: "en", label: "English" },
+  { value: "hi", label: "हिन्दी" },
+  { value: "mr", label: "मराठी" },
+];
+
+export const DEFAULT_LANGUAGE: Language = "en";
+
+const LANGUAGE_KEY = "smartreg:language";
+
+const MESSAGES: Record<Language, Messages> = { en, hi, mr };
+
+export type TranslationParams = Record<string, string | number>;
+
+export function isLanguage(value: unknown): value is Language {
+  return LANGUAGE_OPTIONS.some((option) => option.value === value);
+}
+
+export function getLanguageLabel(language: string) {
+  return LANGUAGE_OPTIONS.find((option) => option.value === language)?.label ?? language;
+}
+
+// A saved choice wins, then the browser's preferred languages
+function detectLanguage(): Language {
+  const saved = localStorage.getItem(LANGUAGE_KEY);
+  if (isLanguage(saved)) return saved;
+  const preferred = navigator.languages
+    .map((tag) => tag.split("-")[0])
+    .find((code) => isLanguage(code));
+  return (preferred as Language | undefined) ?? DEFAULT_LANGUAGE;
+}
+
+let currentLanguage = detectLanguage();
+const listeners = new Set<() => void>();
+document.documentElement.lang = currentLanguage;
+
+export function getLanguage() {
+  return currentLanguage;
+}
+
+export function setLanguage(language: Language) {
+  if (language === currentLanguage) return;
+  currentLanguage = language;
+  localStorage.setItem(LANGUAGE_KEY, language);
+  document.documentElement.lang = language;
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeToLanguage(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Message in the current language; "{name}" placeholders are filled from params
+export function t(key: MessageKey, params?: TranslationParams) {
+  const template = MESSAGES[currentLanguage][key] ?? en[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+const INTL_WIDTHS = { narrow: "narrow", short: "short", abbreviated: "short", wide: "long" } as const;
+
+// date-fns has no Marathi locale. Hindi's grammar for the rest, with month and
+// weekday names from the browser's Marathi data.
+const mrDateLocale: Locale = {
+  ...hiDateLocale,
+  code: "mr",
+  localize: {
+    ...hiDateLocale.localize,
+    month: (month, options) =>
+      new Intl.DateTimeFormat("mr", { month: INTL_WIDTHS[options?.width ?? "wide"], timeZone: "UTC" }).format(
+        Date.UTC(2024, month, 1)
+      ),
+    // January 7, 2024 was a Sunday (day 0)
+    day: (day, options) =>
+      new Intl.DateTimeFormat("mr", { weekday: INTL_WIDTHS[options?.width ?? "wide"], timeZone: "UTC" }).format(
+        Date.UTC(2024, 0, 7 + day)
+      ),
+  },
+};
+
+const DATE_LOCALES: Record<Language, Locale | undefined> = {
+  en: undefined,
+  hi: hiDateLocale,
+  mr: mrDateLocale,
+};
+
+// date-fns format in the current language; patterns stay the same across languages
+export function formatDate(date: Date | string | number, pattern: string) {
+  return format(new Date(date), pattern, { locale: DATE_LOCALES[currentLanguage] });
+}
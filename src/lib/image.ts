@@ -0,0 +1,85 @@
+import type { Area } from "react-easy-crop";
+import { t } from "@/lib/i18n";
+
+// Photos are stored as square images of at most this many pixels per side
+export const PHOTO_OUTPUT_SIZE = 800;
+// Compression steps down the quality until the photo fits this size
+export const PHOTO_TARGET_BYTES = 300 * 1024;
+
+const QUALITY_STEPS = [0.9, 0.8, 0.7, 0.6, 0.5];
+
+export function loadImage(url: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(t("photo.unreadable")));
+    image.src = url;
+  });
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number) {
+  return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+}
+
+async function encodePhoto(canvas: HTMLCanvasElement) {
+  let blob: Blob | null = null;
+  for (const quality of QUALITY_STEPS) {
+    blob = await canvasToBlob(canvas, "image/webp", quality);
+    // Browsers without WebP encoding fall back to PNG; use JPEG there instead
+    if (blob && blob.type !== "image/webp") {
+      blob = await canvasToBlob(canvas, "image/jpeg", quality);
+    }
+    if (!blob || blob.size <= PHOTO_TARGET_BYTES) break;
+  }
+  if (!blob) {
+    throw new Error(t("photo.processFailed"));
+  }
+  return blob;
+}
+
+// Renders the cropped, rotated square from the editor and re-encodes it.
+// Drawing onto a canvas drops all EXIF data, GPS position included.
+export async function renderCroppedPhoto(imageUrl: string, crop: Area, rotation: number) {
+  const image = await loadImage(imageUrl);
+  const radians = (rotation * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(radians));
+  const cos = Math.abs(Math.cos(radians));
+
+  // The crop area is relative to the rotated image's bounding box
+  const rotated = document.createElement("canvas");
+  rotated.width = Math.round(image.naturalWidth * cos + image.naturalHeight * sin);
+  rotated.height = Math.round(image.naturalWidth * sin + image.naturalHeight * cos);
+  const rotatedContext = rotated.getContext("2d");
+  if (!rotatedContext) {
+    throw new Error(t("photo.processFailed"));
+  }
+  rotatedContext.translate(rotated.width / 2, rotated.height / 2);
+  rotatedContext.rotate(radians);
+  rotatedContext.drawImage(image, -image.naturalWidth / 2, -image.naturalHeight / 2);
+
+  const output = document.createElement("canvas");
+  output.width = output.height = Math.min(PHOTO_OUTPUT_SIZE, Math.round(crop.width));
+  const outputContext = output.getContext("2d");
+  if (!outputContext) {
+    throw new Error(t("photo.processFailed"));
+  }
+  // Transparent PNG areas would turn black in JPEG
+  outputContext.fillStyle = "#ffffff";
+  outputContext.fillRect(0, 0, output.width, output.height);
+  outputContext.imageSmoothingQuality = "high";
+  outputContext.drawImage(
+    rotated,
+    crop.x,
+    crop.y,
+    crop.width,
+    crop.height,
+    0,
+    0,
+    output.width,
+    output.height
+  );
+
+  const blob = await encodePhoto(output);
+  const extension = blob.type === "image/webp" ? "webp" : "jpg";
+  return new File([blob], `photo.${extension}`, { type: blob.type });
+}
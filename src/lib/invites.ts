@@ -0,0 +1,101 @@
+import * as XLSX from "xlsx";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { getEventFormPath } from "@/lib/events";
+import type { MessageKey } from "@/locales/en";
+import type { RegistrationEvent } from "@/types/event";
+import type { InviteCheck, InviteCode, InviteCodeState } from "@/types/invite";
+
+// Most codes generated in one go
+export const MAX_INVITE_BATCH = 1000;
+
+export const INVITE_STATE_MESSAGES: Record<Exclude<InviteCodeState, "valid">, MessageKey> = {
+  invalid: "invite.invalid",
+  expired: "invite.expired",
+  used_up: "invite.usedUp",
+};
+
+// Raised by redeem_registration_invite when the submission is saved
+const INVITE_ERROR_MESSAGES: Record<string, MessageKey> = {
+  invite_required: "invite.required",
+  invite_invalid: "invite.invalid",
+  invite_expired: "invite.expired",
+  invite_used_up: "invite.usedUp",
+};
+
+export function getInviteErrorMessage(error: { message?: string }): MessageKey | null {
+  return (error.message && INVITE_ERROR_MESSAGES[error.message]) || null;
+}
+
+export async function checkInviteCode(eventId: string, code: string): Promise<InviteCheck> {
+  const { data, error } = await supabase.rpc("check_invite_code", { _event_id: eventId, _code: code });
+  if (error) throw error;
+  const result = data?.[0];
+  return {
+    code: code.trim().toUpperCase(),
+    state: (result?.state ?? "invalid") as InviteCodeState,
+    department: result?.department ?? null,
+    usesLeft: result?.uses_left ?? 0,
+  };
+}
+
+// How a code stands for the admin list, as check_invite_code would see it
+export function getInviteCodeState(invite: InviteCode): Exclude<InviteCodeState, "invalid"> {
+  if (invite.expires_at && new Date(invite.expires_at) <= new Date()) return "expired";
+  if (invite.uses >= invite.max_uses) return "used_up";
+  return "valid";
+}
+
+export async function fetchInviteCodes(eventId: string) {
+  const { data, error } = await supabase
+    .from("invite_codes")
+    .select("*")
+    .eq("event_id", eventId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data as InviteCode[];
+}
+
+// Codes come from the column default; a rare clash with an existing code
+// fails the whole batch, which can simply be generated again
+export async function generateInviteCodes(
+  eventId: string,
+  count: number,
+  options: Pick<InviteCode, "max_uses" | "department" | "expires_at" | "label">
+) {
+  const { data, error } = await supabase
+    .from("invite_codes")
+    .insert(Array.from({ length: count }, () => ({ event_id: eventId, ...options })))
+    .select();
+
+  if (error) throw error;
+  return data as InviteCode[];
+}
+
+// Registrations made with it keep their place; only the record of the code goes
+export async function deleteInviteCode(id: string) {
+  const { error } = await supabase.from("invite_codes").delete().eq("id", id);
+  if (error) throw error;
+}
+
+export function getInviteLink(event: Pick<RegistrationEvent, "slug">, code: string) {
+  return `${window.location.origin}${getEventFormPath(event)}?invite=${encodeURIComponent(code)}`;
+}
+
+export function downloadInviteCodesCsv(event: RegistrationEvent, codes: InviteCode[]) {
+  const rows = codes.map((invite) => ({
+    Code: invite.code,
+    Link: getInviteLink(event, invite.code),
+    Uses: invite.uses,
+    "Max Uses": invite.max_uses,
+    Department: invite.department ?? "",
+    Expires: invite.expires_at ? format(new Date(invite.expires_at), "yyyy-MM-dd HH:mm") : "",
+    Label: invite.label ?? "",
+  }));
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(rows), "Invite Codes");
+  XLSX.writeFile(wb, `invite-codes-${event.slug}-${format(new Date(), "yyyy-MM-dd-HHmm")}.csv`, {
+    bookType: "csv",
+  });
+}
@@ -0,0 +1,56 @@
+import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_EVENT_SLUG } from "@/lib/events";
+import type { RegistrationEvent } from "@/types/event";
+
+const KIOSK_DEVICE_KEY = "smartreg:kiosk-device";
+const MAX_DEVICE_ID_LENGTH = 64;
+
+// Mirrors set_kiosk_pin
+export const KIOSK_PIN_PATTERN = /^[0-9]{4,8}$/;
+
+// A half-filled form is cleared after this long without a touch or key press
+export const KIOSK_IDLE_SECONDS = 90;
+// How long the confirmation stays up before the form starts over
+export const KIOSK_RESET_SECONDS = 15;
+
+export function getKioskPath(event: Pick<RegistrationEvent, "slug">) {
+  return event.slug === DEFAULT_EVENT_SLUG ? "/kiosk" : `/kiosk/${event.slug}`;
+}
+
+// Name this device's registrations are tagged with. Set once by opening the
+// kiosk with ?device=<name>, otherwise made up and kept.
+export function getKioskDeviceId(requested?: string | null) {
+  const name = requested?.trim().slice(0, MAX_DEVICE_ID_LENGTH);
+  try {
+    if (name) {
+      localStorage.setItem(KIOSK_DEVICE_KEY, name);
+      return name;
+    }
+    const saved = localStorage.getItem(KIOSK_DEVICE_KEY);
+    if (saved) return saved;
+    const generated = `kiosk-${crypto.randomUUID().slice(0, 8)}`;
+    localStorage.setItem(KIOSK_DEVICE_KEY, generated);
+    return generated;
+  } catch {
+    return name || "kiosk";
+  }
+}
+
+// False for a wrong PIN, an event without one, or an exit locked after too
+// many wrong tries
+export async function verifyKioskPin(eventId: string, pin: string) {
+  const { data, error } = await supabase.rpc("verify_kiosk_pin", { _event_id: eventId, _pin: pin });
+  if (error) throw error;
+  return data === true;
+}
+
+export async function hasKioskPin(eventId: string) {
+  const { data, error } = await supabase.rpc("has_kiosk_pin", { _event_id: eventId });
+  if (error) throw error;
+  return data === true;
+}
+
+export async function setKioskPin(eventId: string, pin: string) {
+  const { error } = await supabase.rpc("set_kiosk_pin", { _event_id: eventId, _pin: pin });
+  if (error) throw error;
+}
@@ -0,0 +1,267 @@
+import { FunctionsFetchError } from "@supabase/supabase-js";
+import { saveAttachmentRecords, uploadAttachments, type PendingAttachment } from "@/lib/attachments";
+import type { Language } from "@/lib/i18n";
+import { fetchSolvedChallenge, waitForMinFillTime } from "@/lib/proof-of-work";
+import {
+  createRegistration,
+  getRegistrationConfirmation,
+  isRegistrationSubmitted,
+  uploadRegistrationPhoto,
+} from "@/lib/registrations";
+import type { RegistrationFormValues } from "@/lib/validations";
+import type { RegistrationSource } from "@/types/registration";
+
+// Registrations made without a connection wait in IndexedDB, photo and
+// documents included, and are sent once the browser is back online. Once
+// sent, only the confirmation number is kept, since the device is likely
+// shared with the next registrant. Synced and failed entries stay listed
+// until they are dismissed or expire.
+
+const DB_NAME = "smartreg-outbox";
+const STORE_NAME = "submissions";
+// Tag of the Background Sync registration the service worker answers
+export const OUTBOX_SYNC_TAG = "registration-outbox";
+// Venue Wi-Fi can drop without the browser going offline, so pending entries
+// are also retried on a timer
+const RETRY_INTERVAL_MS = 60 * 1000;
+// How long synced and failed entries are kept after they were queued
+const ENTRY_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export type OutboxStatus = "pending" | "synced" | "failed";
+
+export interface QueuedEntry {
+  // Also the id the registration is created with, so a retry after a lost
+  // response is recognised rather than saved twice
+  id: string;
+  eventId: string;
+  values: RegistrationFormValues;
+  photo: File;
+  attachments: PendingAttachment[];
+  consentDocumentIds: string[];
+  // Storage paths of the photo and documents once uploaded, reused on retries
+  photoPath?: string;
+  attachmentRows?: Awaited<ReturnType<typeof uploadAttachments>>;
+  honeypot: string;
+  language: Language;
+  source?: RegistrationSource;
+  deviceId?: string | null;
+  inviteCode?: string | null;
+  employeeId?: string | null;
+  status: "pending" | "failed";
+  queuedAt: string;
+  error?: string;
+}
+
+// What is left of an entry once it is sent
+export interface SyncedEntry {
+  id: string;
+  status: "synced";
+  queuedAt: string;
+  confirmationCode: string | null;
+}
+
+export type OutboxEntry = QueuedEntry | SyncedEntry;
+
+type UploadedEntry = QueuedEntry & Required<Pick<QueuedEntry, "photoPath" | "attachmentRows">>;
+
+let entries: OutboxEntry[] = [];
+const listeners = new Set<() => void>();
+let syncing: Promise<void> | null = null;
+
+function openDatabase() {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+) {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+async function refreshEntries() {
+  const stored = await runTransaction("readonly", (store) => store.getAll() as IDBRequest<OutboxEntry[]>);
+  entries = stored.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+  listeners.forEach((listener) => listener());
+}
+
+async function putEntry(entry: OutboxEntry) {
+  await runTransaction("readwrite", (store) => store.put(entry));
+  await refreshEntries();
+}
+
+async function deleteExpiredEntries() {
+  const cutoff = new Date(Date.now() - ENTRY_MAX_AGE_MS).toISOString();
+  const expired = entries.filter((entry) => entry.status !== "pending" && entry.queuedAt < cutoff);
+  if (expired.length === 0) return;
+  for (const entry of expired) {
+    await runTransaction("readwrite", (store) => store.delete(entry.id));
+  }
+  await refreshEntries();
+}
+
+export function getOutboxEntries() {
+  return entries;
+}
+
+export function subscribeToOutbox(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// A request that never reached the server, as opposed to one it turned down
+export function isNetworkError(error: unknown) {
+  return (
+    !navigator.onLine ||
+    error instanceof FunctionsFetchError ||
+    (error instanceof TypeError && /fetch|network/i.test(error.message))
+  );
+}
+
+function requestBackgroundSync() {
+  if (!("serviceWorker" in navigator)) return;
+  navigator.serviceWorker.ready
+    .then((registration) => {
+      const sync = (registration as ServiceWorkerRegistration & {
+        sync?: { register: (tag: string) => Promise<void> };
+      }).sync;
+      return sync?.register(OUTBOX_SYNC_TAG);
+    })
+    .catch((error) => console.error("Error requesting background sync:", error));
+}
+
+export async function queueSubmission(submission: Omit<QueuedEntry, "status" | "queuedAt" | "error">) {
+  await putEntry({ ...submission, status: "pending", queuedAt: new Date().toISOString() });
+  requestBackgroundSync();
+}
+
+// Uploads the photo and documents once, keeping their paths on the entry so
+// a retry doesn't upload them again
+async function uploadEntryFiles(entry: QueuedEntry): Promise<UploadedEntry> {
+  const photoPath = entry.photoPath ?? (await uploadRegistrationPhoto(entry.photo));
+  const attachmentRows = entry.attachmentRows ?? (await uploadAttachments(entry.id, entry.attachments));
+  const uploaded = { ...entry, photoPath, attachmentRows };
+  if (!entry.photoPath || !entry.attachmentRows) await putEntry(uploaded);
+  return uploaded;
+}
+
+// Same steps as a submission from the form, with a fresh proof-of-work
+// challenge since the one solved while filling it in has likely expired.
+// Skips the submission when an earlier attempt got through but its response
+// was lost.
+async function sendEntry(entry: UploadedEntry) {
+  if (!(await isRegistrationSubmitted(entry.id))) {
+    const challenge = await fetchSolvedChallenge();
+    await waitForMinFillTime(challenge);
+    await createRegistration({
+      id: entry.id,
+      eventId: entry.eventId,
+      values: entry.values,
+      photoPath: entry.photoPath,
+      consentDocumentIds: entry.consentDocumentIds,
+      challenge,
+      honeypot: entry.honeypot,
+      language: entry.language,
+      source: entry.source,
+      deviceId: entry.deviceId,
+      inviteCode: entry.inviteCode,
+      employeeId: entry.employeeId,
+      // Nobody is there to confirm a possible duplicate, so it is saved and
+      // flagged for review
+      allowDuplicate: true,
+    });
+  }
+
+  try {
+    await saveAttachmentRecords(entry.attachmentRows);
+  } catch (attachmentError) {
+    console.error("Error saving attachments:", attachmentError);
+  }
+
+  const confirmation = await getRegistrationConfirmation(entry.id).catch(() => null);
+  return confirmation?.confirmation_code ?? null;
+}
+
+// Sends pending entries one at a time; stops at the first network error and
+// leaves the rest for the next time the connection comes back
+async function syncPendingEntries() {
+  await refreshEntries();
+  const pending = entries.filter((entry): entry is QueuedEntry => entry.status === "pending");
+  for (const queued of pending) {
+    let entry = queued;
+    try {
+      const uploaded = await uploadEntryFiles(entry);
+      entry = uploaded;
+      const confirmationCode = await sendEntry(uploaded);
+      // Replaces the stored entry, dropping the form values, photo and documents
+      await putEntry({ id: entry.id, status: "synced", queuedAt: entry.queuedAt, confirmationCode });
+    } catch (error) {
+      if (isNetworkError(error)) return;
+      console.error("Error sending queued registration:", error);
+      await putEntry({
+        ...entry,
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+export function syncOutbox() {
+  if (!navigator.onLine) return Promise.resolve();
+  syncing ??= syncPendingEntries()
+    .catch((error) => console.error("Error syncing outbox:", error))
+    .finally(() => {
+      syncing = null;
+    });
+  return syncing;
+}
+
+export async function retryOutboxEntry(id: string) {
+  const entry = entries.find((entry) => entry.id === id);
+  if (entry?.status !== "failed") return;
+  await putEntry({ ...entry, status: "pending", error: undefined });
+  await syncOutbox();
+}
+
+export async function removeOutboxEntry(id: string) {
+  await runTransaction("readwrite", (store) => store.delete(id));
+  await refreshEntries();
+}
+
+// Loads the outbox and syncs it now, whenever the browser comes back online,
+// when the service worker relays a Background Sync event and on a timer,
+// which also drops expired entries
+export function startOutboxSync() {
+  if (!("indexedDB" in window)) return;
+  window.addEventListener("online", () => syncOutbox());
+  navigator.serviceWorker?.addEventListener("message", (event) => {
+    if (event.data?.type === OUTBOX_SYNC_TAG) syncOutbox();
+  });
+  setInterval(() => {
+    deleteExpiredEntries().catch((error) => console.error("Error deleting expired outbox entries:", error));
+    if (entries.some((entry) => entry.status === "pending")) syncOutbox();
+  }, RETRY_INTERVAL_MS);
+  refreshEntries()
+    .then(deleteExpiredEntries)
+    .then(() => syncOutbox())
+    .catch((error) => console.error("Error loading outbox:", error));
+}
@@ -0,0 +1,114 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { getLanguage, t } from "@/lib/i18n";
+import type { MessageKey } from "@/locales/en";
+import type { PaymentStatus } from "@/types/registration";
+
+// A payment opened by registration-payment, for the gateway's checkout to take
+export interface PaymentSession {
+  provider: string;
+  paymentId: string;
+  // In the currency's minor units
+  amount: number;
+  currency: string;
+  // Whatever the gateway's checkout needs, as returned by its server half
+  checkout: Record<string, unknown>;
+}
+
+// The browser half of a payment gateway: takes the registrant through its
+// checkout. The server half is in supabase/functions/_shared/payments.ts,
+// which decides the provider; register each one here under the same name.
+export interface PaymentCheckout {
+  open(session: PaymentSession): Promise<"completed" | "cancelled">;
+}
+
+// Pays straight away, after a pause like a real checkout's. Left out of
+// production builds, as the server refuses the mock provider outside local
+// development.
+const mockCheckout: PaymentCheckout = {
+  open: () => new Promise((resolve) => setTimeout(() => resolve("completed"), 800)),
+};
+
+const CHECKOUTS: Record<string, PaymentCheckout> = import.meta.env.DEV ? { mock: mockCheckout } : {};
+
+export const PAYMENT_STATUS_OPTIONS: { value: PaymentStatus; labelKey: MessageKey }[] = [
+  { value: "pending_payment", labelKey: "payment.pending" },
+  { value: "paid", labelKey: "payment.paid" },
+  { value: "refunded", labelKey: "payment.refunded" },
+];
+
+export function getPaymentStatusLabel(status: PaymentStatus) {
+  const option = PAYMENT_STATUS_OPTIONS.find((option) => option.value === status);
+  return option ? t(option.labelKey) : status;
+}
+
+// Provider name of payments an admin records by hand
+export const MANUAL_PAYMENT_PROVIDER = "manual";
+
+const PAYMENT_ERROR_MESSAGES: Record<string, MessageKey> = {
+  nothing_to_pay: "payment.nothingToPay",
+  payment_not_completed: "payment.notCompleted",
+  payment_failed: "payment.failed",
+  payments_unavailable: "payment.unavailable",
+};
+
+// Digits after the decimal point of the currency's minor units, e.g. 2 for INR
+function getCurrencyDigits(currency: string) {
+  const { maximumFractionDigits } = new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions();
+  return maximumFractionDigits ?? 2;
+}
+
+export function formatMoney(amount: number, currency: string) {
+  return new Intl.NumberFormat(getLanguage(), { style: "currency", currency }).format(
+    amount / 10 ** getCurrencyDigits(currency)
+  );
+}
+
+// "500" or "499.50" as minor units; null when it isn't a positive amount
+export function toMinorUnits(value: string, currency: string) {
+  const digits = getCurrencyDigits(currency);
+  const pattern = new RegExp(`^\\d+(\\.\\d{0,${digits}})?$`);
+  const trimmed = value.trim();
+  if (!pattern.test(trimmed)) return null;
+  const amount = Math.round(Number(trimmed) * 10 ** digits);
+  return amount > 0 ? amount : null;
+}
+
+export function fromMinorUnits(amount: number, currency: string) {
+  const digits = getCurrencyDigits(currency);
+  return (amount / 10 ** digits).toFixed(digits);
+}
+
+async function invokePayment<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke("registration-payment", { body });
+  if (error instanceof FunctionsHttpError) {
+    const errorBody = await error.context.json().catch(() => ({}));
+    throw new Error(typeof errorBody.error === "string" ? errorBody.error : "payment_failed");
+  }
+  if (error) throw error;
+  return data as T;
+}
+
+// Which registration to pay for: by id right after registering, which also
+// covers the other people registered with it, or by confirmation code and
+// email or mobile number from the status page
+export type PaymentTarget =
+  | { registrationId: string }
+  | { confirmationCode: string; contact: string };
+
+// Takes the fee for a registration through the configured gateway, skipping
+// anyone on the waitlist. Resolves false when the registrant backs out.
+export async function payRegistration(target: PaymentTarget) {
+  const session = await invokePayment<PaymentSession>({ action: "start", ...target });
+  const checkout = CHECKOUTS[session.provider];
+  if (!checkout) {
+    throw new Error(`No checkout for payment provider "${session.provider}"`);
+  }
+  if ((await checkout.open(session)) === "cancelled") return false;
+  await invokePayment({ action: "confirm", ...target, paymentId: session.paymentId });
+  return true;
+}
+
+export function getPaymentErrorMessage(error: { message?: string }): MessageKey {
+  return (error.message && PAYMENT_ERROR_MESSAGES[error.message]) || "payment.failed";
+}
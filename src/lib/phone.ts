@@ -0,0 +1,82 @@
+import {
+  getCountries,
+  getCountryCallingCode,
+  parsePhoneNumberFromString,
+  validatePhoneNumberLength,
+  type CountryCode,
+} from "libphonenumber-js/max";
+import { t } from "@/lib/i18n";
+
+export type { CountryCode };
+
+// Country assumed for numbers entered without a country code, including the
+// 10-digit numbers stored before international numbers were supported.
+export const DEFAULT_PHONE_COUNTRY: CountryCode = "IN";
+
+export interface PhoneCountryOption {
+  code: CountryCode;
+  name: string;
+  callingCode: string;
+  flag: string;
+}
+
+const regionNames = new Intl.DisplayNames(["en"], { type: "region" });
+
+function toFlag(country: CountryCode) {
+  return String.fromCodePoint(...[...country].map((c) => 0x1f1e6 + c.charCodeAt(0) - 65));
+}
+
+export const PHONE_COUNTRY_OPTIONS: PhoneCountryOption[] = getCountries()
+  .map((code) => ({
+    code,
+    name: regionNames.of(code) ?? code,
+    callingCode: getCountryCallingCode(code),
+    flag: toFlag(code),
+  }))
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+function parsePhone(value: string) {
+  return parsePhoneNumberFromString(value, DEFAULT_PHONE_COUNTRY);
+}
+
+// Country of a stored or partially typed number, if it can be told
+export function getPhoneCountry(value: string): CountryCode | undefined {
+  return parsePhone(value)?.country;
+}
+
+// Digits after the country calling code
+export function getNationalDigits(value: string, country: CountryCode) {
+  const digits = value.replace(/\D/g, "");
+  if (!value.trim().startsWith("+")) return digits;
+  const callingCode = getCountryCallingCode(country);
+  return digits.startsWith(callingCode) ? digits.slice(callingCode.length) : digits;
+}
+
+export function buildPhoneNumber(country: CountryCode, nationalDigits: string) {
+  return nationalDigits ? `+${getCountryCallingCode(country)}${nationalDigits}` : "";
+}
+
+// Error message for an invalid number, or null when it is valid
+export function getPhoneNumberError(value: string): string | null {
+  switch (validatePhoneNumberLength(value, DEFAULT_PHONE_COUNTRY)) {
+    case "TOO_SHORT":
+      return t("validation.mobileTooShort");
+    case "TOO_LONG":
+      return t("validation.mobileTooLong");
+    case "INVALID_COUNTRY":
+      return t("validation.countryCodeRequired");
+    case "NOT_A_NUMBER":
+    case "INVALID_LENGTH":
+      return t("validation.mobileInvalid");
+  }
+  return parsePhone(value)?.isValid() ? null : t("validation.mobileInvalidForCountry");
+}
+
+// E.164 form ("+919876543210") used for storage
+export function toE164(value: string) {
+  return parsePhone(value)?.number ?? value;
+}
+
+export function formatPhoneNumber(value: string) {
+  return parsePhone(value)?.formatInternational() ?? value;
+}
@@ -0,0 +1,65 @@
+import { supabase } from "@/integrations/supabase/client";
+import { t } from "@/lib/i18n";
+
+// Mirror the limits in supabase/functions/_shared (proof-of-work.ts, abuse.ts)
+export const MIN_FILL_SECONDS = 5;
+// A bit under the server's two hours, so a solution is never sent just as it expires
+export const CHALLENGE_MAX_AGE_MS = 110 * 60 * 1000;
+
+const MAX_NONCE = 2 ** 32;
+
+export interface RegistrationChallenge {
+  challenge: string;
+  difficulty: number;
+}
+
+export interface SolvedChallenge extends RegistrationChallenge {
+  nonce: string;
+  // When the challenge arrived, which is when the form counts as opened
+  receivedAt: number;
+}
+
+export async function fetchRegistrationChallenge(): Promise<RegistrationChallenge> {
+  const { data, error } = await supabase.functions.invoke("registration-challenge");
+  if (error) throw error;
+  return data as RegistrationChallenge;
+}
+
+function countLeadingZeroBits(bytes: Uint8Array) {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+// Finds a nonce such that SHA-256("<challenge>:<nonce>") starts with
+// `difficulty` zero bits. Each hash is awaited, so the page stays responsive.
+export async function solveChallenge({ challenge, difficulty }: RegistrationChallenge) {
+  const encoder = new TextEncoder();
+  for (let nonce = 0; nonce < MAX_NONCE; nonce++) {
+    const digest = await crypto.subtle.digest("SHA-256", encoder.encode(`${challenge}:${nonce}`));
+    if (countLeadingZeroBits(new Uint8Array(digest)) >= difficulty) {
+      return String(nonce);
+    }
+  }
+  throw new Error(t("submit.challengeInvalid"));
+}
+
+export async function fetchSolvedChallenge(): Promise<SolvedChallenge> {
+  const challenge = await fetchRegistrationChallenge();
+  const receivedAt = Date.now();
+  return { ...challenge, nonce: await solveChallenge(challenge), receivedAt };
+}
+
+const wait = (milliseconds: number) => new Promise((resolve) => setTimeout(resolve, milliseconds));
+
+// Resolves no sooner than MIN_FILL_SECONDS after the challenge arrived, which
+// is what the server holds the submission to
+export function waitForMinFillTime(solution: SolvedChallenge) {
+  return wait(solution.receivedAt + MIN_FILL_SECONDS * 1000 - Date.now());
+}
@@ -0,0 +1,64 @@
+import { supabase } from "@/integrations/supabase/client";
+import { t } from "@/lib/i18n";
+import type { MessageKey } from "@/locales/en";
+import type {
+  RegistrationAttempt,
+  RegistrationAttemptAction,
+  RegistrationAttemptReason,
+} from "@/types/registration";
+
+export const ATTEMPT_REASON_OPTIONS: {
+  value: RegistrationAttemptReason;
+  labelKey: MessageKey;
+  descriptionKey: MessageKey;
+}[] = [
+  { value: "honeypot", labelKey: "attemptReason.honeypot", descriptionKey: "attemptReason.honeypotDescription" },
+  { value: "too_fast", labelKey: "attemptReason.tooFast", descriptionKey: "attemptReason.tooFastDescription" },
+  {
+    value: "challenge_invalid",
+    labelKey: "attemptReason.challengeInvalid",
+    descriptionKey: "attemptReason.challengeInvalidDescription",
+  },
+  {
+    value: "challenge_reused",
+    labelKey: "attemptReason.challengeReused",
+    descriptionKey: "attemptReason.challengeReusedDescription",
+  },
+  {
+    value: "ip_rate_limited",
+    labelKey: "attemptReason.ipRateLimited",
+    descriptionKey: "attemptReason.ipRateLimitedDescription",
+  },
+  {
+    value: "email_rate_limited",
+    labelKey: "attemptReason.emailRateLimited",
+    descriptionKey: "attemptReason.emailRateLimitedDescription",
+  },
+];
+
+export const ATTEMPT_ACTION_LABELS: Record<RegistrationAttemptAction, MessageKey> = {
+  submit: "attempts.actionSubmit",
+  upload: "attempts.actionUpload",
+  verify: "attempts.actionVerify",
+};
+
+// How many rejected attempts the review page loads
+export const REJECTED_ATTEMPTS_LIMIT = 500;
+
+export function getAttemptReasonLabel(reason: RegistrationAttemptReason) {
+  const option = ATTEMPT_REASON_OPTIONS.find((option) => option.value === reason);
+  return option ? t(option.labelKey) : reason;
+}
+
+// Newest first, across all events (bots also post made-up event ids)
+export async function fetchRejectedAttempts() {
+  const { data, error } = await supabase
+    .from("registration_attempts")
+    .select("*")
+    .eq("outcome", "rejected")
+    .order("created_at", { ascending: false })
+    .limit(REJECTED_ATTEMPTS_LIMIT);
+
+  if (error) throw error;
+  return data as RegistrationAttempt[];
+}
@@ -0,0 +1,143 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { fromAddressColumns } from "@/lib/address";
+import { t } from "@/lib/i18n";
+import type { RegistrationFormValues } from "@/lib/validations";
+import type { MessageKey } from "@/locales/en";
+import type { Registration, RegistrationChange, RegistrationChangeSource } from "@/types/registration";
+
+// The part of a registration its owner can see and change through an edit link
+export type EditableRegistration = Pick<
+  Registration,
+  | "id"
+  | "event_id"
+  | "confirmation_code"
+  | "full_name"
+  | "mobile_number"
+  | "email"
+  | "gender"
+  | "department"
+  | "address"
+  | "address_line1"
+  | "address_line2"
+  | "city"
+  | "state"
+  | "postal_code"
+  | "country"
+  | "photo_url"
+  | "custom_fields"
+  | "updated_at"
+>;
+
+export interface EditSession {
+  token: string;
+  registration: EditableRegistration;
+  expiresAt: string;
+  // The department came from the roster or an invite code and stays as it is
+  departmentLocked: boolean;
+}
+
+export function getEditPagePath(confirmationCode?: string) {
+  return confirmationCode ? `/edit?code=${encodeURIComponent(confirmationCode)}` : "/edit";
+}
+
+async function readFunctionError(error: unknown) {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => ({}));
+    return typeof body.error === "string" ? (body as { error: string; issues?: { message: string }[] }) : null;
+  }
+  return null;
+}
+
+// Always resolves the same way whether or not the details matched
+export async function requestEditLink(code: string, email: string) {
+  const { error } = await supabase.functions.invoke("request-edit-link", {
+    body: { code, email },
+  });
+
+  if (error) {
+    const body = await readFunctionError(error);
+    throw new Error(body?.error === "delivery_failed" ? t("editPage.deliveryFailed") : t("editPage.requestFailed"));
+  }
+}
+
+// The registration behind an edit link, or null if the link is invalid, expired or used
+export async function fetchEditSession(token: string): Promise<EditSession | null> {
+  const { data, error } = await supabase.functions.invoke("registration-edit", {
+    body: { action: "get", token },
+  });
+
+  if (error) {
+    const body = await readFunctionError(error);
+    if (body?.error === "invalid_link") return null;
+    throw error;
+  }
+
+  return {
+    token,
+    registration: data.registration,
+    expiresAt: data.expiresAt,
+    departmentLocked: !!data.departmentLocked,
+  };
+}
+
+// Saves the registrant's corrections. Duplicate rejections are rethrown in the
+// shape of the insert errors so getDuplicateField recognises them.
+export async function applyRegistrationEdit(
+  token: string,
+  values: RegistrationFormValues,
+  photoPath: string | null
+) {
+  const { error } = await supabase.functions.invoke("registration-edit", {
+    body: { action: "apply", token, values, photoPath },
+  });
+
+  if (error) {
+    const body = await readFunctionError(error);
+    if (body?.error === "invalid_link") throw new Error(t("editPage.linkInvalid"));
+    if (body?.error === "duplicate_email" || body?.error === "duplicate_mobile_number") {
+      throw Object.assign(new Error(body.error), { code: "23505" });
+    }
+    // The new email isn't on the roster of an event that only takes people on it
+    if (body?.error === "not_on_roster") throw new Error(t("roster.notFound"));
+    if (body?.error === "invalid_department") throw new Error(t("validation.departmentRequired"));
+    if (body?.error === "invalid_values") {
+      throw new Error(body.issues?.[0]?.message ?? t("submit.invalidValues"));
+    }
+    throw new Error(t("form.saveChangesFailed"));
+  }
+}
+
+export function toRegistrationFormValues(registration: EditableRegistration): RegistrationFormValues {
+  return {
+    fullName: registration.full_name,
+    mobileNumber: registration.mobile_number,
+    email: registration.email,
+    gender: registration.gender,
+    department: registration.department,
+    address: fromAddressColumns(registration),
+    customFields: registration.custom_fields,
+  };
+}
+
+const CHANGE_SOURCE_LABELS: Record<RegistrationChangeSource, MessageKey> = {
+  admin: "history.admin",
+  registrant: "history.registrant",
+  system: "history.system",
+};
+
+export function getChangeSourceLabel(source: RegistrationChangeSource) {
+  return t(CHANGE_SOURCE_LABELS[source]);
+}
+
+// Newest first
+export async function fetchRegistrationChanges(registrationId: string) {
+  const { data, error } = await supabase
+    .from("registration_changes")
+    .select("*")
+    .eq("registration_id", registrationId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data as unknown as RegistrationChange[];
+}
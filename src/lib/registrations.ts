@@ -0,0 +1,200 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { getLanguage, t, type Language } from "@/lib/i18n";
+import { toE164 } from "@/lib/phone";
+import { uploadRegistrationFile } from "@/lib/uploads";
+import type { RegistrationFormValues } from "@/lib/validations";
+import type { SolvedChallenge } from "@/lib/proof-of-work";
+import type { MessageKey } from "@/locales/en";
+import type { RegistrationSource, RegistrationStatus } from "@/types/registration";
+
+export const PHOTO_BUCKET = "registration-photos";
+
+export function getPhotoPublicUrl(filePath: string) {
+  const { data } = supabase.storage.from(PHOTO_BUCKET).getPublicUrl(filePath);
+  return data.publicUrl;
+}
+
+// Storage path of a photo from its public URL ("<folder>/<file>")
+export function getPhotoPath(photoUrl: string) {
+  const marker = `/${PHOTO_BUCKET}/`;
+  const index = photoUrl.indexOf(marker);
+  return index === -1
+    ? photoUrl.split("/").slice(-2).join("/")
+    : decodeURIComponent(photoUrl.slice(index + marker.length));
+}
+
+export function uploadRegistrationPhoto(file: File, folder: "registrations" | "drafts" = "registrations") {
+  return uploadRegistrationFile("photo", file, { folder });
+}
+
+export type DuplicateField = "email" | "mobileNumber";
+
+export const DUPLICATE_MESSAGES: Record<DuplicateField, MessageKey> = {
+  email: "submit.duplicateEmail",
+  mobileNumber: "submit.duplicateMobile",
+};
+
+// Everything already registered in a submission, as submit-registration
+// reports it: the submitter's fields and the others' by their index
+export interface DuplicateMatches {
+  fields: DuplicateField[];
+  members: { index: number; field: DuplicateField }[];
+}
+
+// Matches the event's warn policy asks the registrant to confirm; sending
+// again with allowDuplicate saves the registration, flagged for review
+export function getPossibleDuplicates(error: { message?: string; duplicates?: DuplicateMatches }) {
+  return error.message === "possible_duplicate" ? (error.duplicates ?? null) : null;
+}
+
+// Field rejected by the database duplicate guard, if that is why an insert failed
+export function getDuplicateField(error: { code?: string; message?: string }): DuplicateField | null {
+  if (error.code !== "23505") return null;
+  if (error.message === "duplicate_email") return "email";
+  if (error.message === "duplicate_mobile_number") return "mobileNumber";
+  return null;
+}
+
+export const REGISTRATION_STATUS_OPTIONS: {
+  value: RegistrationStatus;
+  labelKey: MessageKey;
+  descriptionKey: MessageKey;
+}[] = [
+  { value: "submitted", labelKey: "status.submitted", descriptionKey: "status.submittedDescription" },
+  { value: "under_review", labelKey: "status.underReview", descriptionKey: "status.underReviewDescription" },
+  { value: "waitlisted", labelKey: "status.waitlisted", descriptionKey: "status.waitlistedDescription" },
+  { value: "approved", labelKey: "status.approved", descriptionKey: "status.approvedDescription" },
+  { value: "rejected", labelKey: "status.rejected", descriptionKey: "status.rejectedDescription" },
+  { value: "cancelled", labelKey: "status.cancelled", descriptionKey: "status.cancelledDescription" },
+];
+
+export function getRegistrationStatusLabel(status: RegistrationStatus) {
+  const option = REGISTRATION_STATUS_OPTIONS.find((option) => option.value === status);
+  return option ? t(option.labelKey) : status;
+}
+
+// Whether the registration takes up a seat, as holds_department_seat decides;
+// only those are charged the fee
+export function holdsSeat(status: RegistrationStatus) {
+  return status !== "waitlisted" && status !== "rejected" && status !== "cancelled";
+}
+
+const SUBMISSION_REJECTED_MESSAGES: Record<string, MessageKey> = {
+  rate_limited: "submit.rateLimited",
+  too_fast: "submit.tooFast",
+  challenge_invalid: "submit.challengeInvalid",
+  rejected: "submit.rejected",
+  invalid_values: "submit.invalidValues",
+  invalid_department: "validation.departmentRequired",
+  payments_unavailable: "submit.paymentsUnavailable",
+};
+
+// Someone registered in the same submission as the submitter, with the
+// submitter's values filled in with theirs
+export interface GroupMemberSubmission {
+  id: string;
+  values: RegistrationFormValues;
+  photoPath: string;
+}
+
+// Submits through submit-registration, which screens out bots before saving.
+// Database rejections are rethrown in the shape of the insert errors so
+// getDuplicateField, isConsentError and the like recognise them.
+export async function createRegistration(submission: {
+  id: string;
+  eventId: string;
+  values: RegistrationFormValues;
+  photoPath: string;
+  consentDocumentIds: string[];
+  challenge: SolvedChallenge;
+  honeypot: string;
+  // Defaults to the current one; queued submissions keep the one they were made in
+  language?: Language;
+  // Kiosks tag their registrations with the device's name
+  source?: RegistrationSource;
+  deviceId?: string | null;
+  // A group registration's other people, saved together with this one
+  members?: GroupMemberSubmission[];
+  // Needed for invite-only events; redeemed once per person registered
+  inviteCode?: string | null;
+  employeeId?: string | null;
+  // After the registrant confirmed a possible_duplicate warning
+  allowDuplicate?: boolean;
+}) {
+  const { id, eventId, values, photoPath, consentDocumentIds, challenge, honeypot } = submission;
+  const { error } = await supabase.functions.invoke("submit-registration", {
+    body: {
+      id,
+      eventId,
+      values,
+      photoPath,
+      consentDocumentIds,
+      challenge: challenge.challenge,
+      nonce: challenge.nonce,
+      website: honeypot,
+      // Later emails to the registrant go out in this language
+      language: submission.language ?? getLanguage(),
+      source: submission.source,
+      deviceId: submission.deviceId,
+      members: submission.members,
+      inviteCode: submission.inviteCode,
+      employeeId: submission.employeeId,
+      allowDuplicate: submission.allowDuplicate,
+    },
+  });
+
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => ({}));
+    const duplicates: DuplicateMatches | undefined = Array.isArray(body.fields)
+      ? { fields: body.fields, members: body.members ?? [] }
+      : undefined;
+    if (typeof body.code === "string") {
+      throw Object.assign(new Error(body.error), { code: body.code, duplicates });
+    }
+    if (body.error === "possible_duplicate") {
+      throw Object.assign(new Error(body.error), { duplicates });
+    }
+    const rejectedKey = SUBMISSION_REJECTED_MESSAGES[body.error];
+    throw new Error(body.issues?.[0]?.message ?? (rejectedKey ? t(rejectedKey) : t("submit.failed")));
+  }
+  if (error) throw error;
+}
+
+// Confirmation code, status and waitlist place of a registration submitted
+// from this browser
+export async function getRegistrationConfirmation(registrationId: string) {
+  const { data, error } = await supabase.rpc("get_registration_confirmation", {
+    _registration_id: registrationId,
+  });
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
+
+export async function isRegistrationSubmitted(registrationId: string) {
+  const { data, error } = await supabase.rpc("is_registration_submitted", {
+    _registration_id: registrationId,
+  });
+  if (error) throw error;
+  return !!data;
+}
+
+export function getStatusPagePath(confirmationCode?: string) {
+  return confirmationCode ? `/status?code=${encodeURIComponent(confirmationCode)}` : "/status";
+}
+
+// The email address or the mobile number the registration was made with, as
+// the status lookup matches it
+export function toLookupContact(contact: string) {
+  const trimmed = contact.trim();
+  return trimmed.includes("@") ? trimmed : toE164(trimmed);
+}
+
+export async function lookupRegistrationStatus(code: string, contact: string) {
+  const { data, error } = await supabase.rpc("lookup_registration_status", {
+    _code: code,
+    _contact: toLookupContact(contact),
+  });
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
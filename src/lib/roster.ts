@@ -0,0 +1,154 @@
+import * as XLSX from "xlsx";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { t } from "@/lib/i18n";
+import type { MessageKey } from "@/locales/en";
+import type { RegistrationEvent, RosterPolicy } from "@/types/event";
+import type { Registration } from "@/types/registration";
+import type { RosterEntry, RosterUploadEntry } from "@/types/roster";
+
+export const ROSTER_POLICY_OPTIONS: { value: RosterPolicy; labelKey: MessageKey; descriptionKey: MessageKey }[] = [
+  { value: "off", labelKey: "roster.policyOff", descriptionKey: "roster.policyOffDescription" },
+  { value: "flag", labelKey: "roster.policyFlag", descriptionKey: "roster.policyFlagDescription" },
+  { value: "block", labelKey: "roster.policyBlock", descriptionKey: "roster.policyBlockDescription" },
+];
+
+// Header names accepted for each column, compared without case, spaces or punctuation
+const ROSTER_COLUMNS: Record<keyof RosterUploadEntry, string[]> = {
+  employee_id: ["employeeid", "empid", "employeeno", "employeenumber", "empno", "staffid", "id"],
+  email: ["email", "emailaddress", "workemail", "mail"],
+  full_name: ["fullname", "name", "employeename"],
+  department: ["department", "dept"],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Reads the first sheet of an XLSX or CSV file. Rows with neither an email
+// nor an employee ID are skipped and counted.
+export async function parseRosterFile(file: File) {
+  const workbook = XLSX.read(await file.arrayBuffer());
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = sheet ? XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: "", raw: false }) : [];
+
+  const headers = Object.keys(rows[0] ?? {});
+  const columns = Object.fromEntries(
+    Object.entries(ROSTER_COLUMNS).map(([key, aliases]) => [
+      key,
+      headers.find((header) => aliases.includes(normalizeHeader(header))),
+    ])
+  ) as Record<keyof RosterUploadEntry, string | undefined>;
+
+  if (!columns.email && !columns.employee_id) {
+    throw new Error(t("roster.fileMissingColumns"));
+  }
+
+  const read = (row: Record<string, unknown>, column?: string) =>
+    column ? String(row[column] ?? "").trim() || null : null;
+
+  const entries: RosterUploadEntry[] = [];
+  let skipped = 0;
+  rows.forEach((row) => {
+    const entry = {
+      employee_id: read(row, columns.employee_id),
+      email: read(row, columns.email),
+      full_name: read(row, columns.full_name),
+      department: read(row, columns.department),
+    };
+    if (entry.employee_id || entry.email) {
+      entries.push(entry);
+    } else {
+      skipped += 1;
+    }
+  });
+
+  return { entries, skipped };
+}
+
+// Swaps the whole roster; returns how many people were saved, duplicates left out
+export async function replaceRoster(eventId: string, entries: RosterUploadEntry[]) {
+  const { data, error } = await supabase.rpc("replace_roster", { _event_id: eventId, _entries: entries });
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchRosterEntries(eventId: string) {
+  const { data, error } = await supabase
+    .from("roster_entries")
+    .select("*")
+    .eq("event_id", eventId)
+    .order("full_name", { ascending: true });
+
+  if (error) throw error;
+  return data as RosterEntry[];
+}
+
+// How many people are on the roster, without loading them
+export async function fetchRosterSize(eventId: string) {
+  const { count, error } = await supabase
+    .from("roster_entries")
+    .select("id", { count: "exact", head: true })
+    .eq("event_id", eventId);
+
+  if (error) throw error;
+  return count ?? 0;
+}
+
+// Whether the registrant is on the roster; only answered once their email
+// is verified, so it can't be used to look people up
+export async function checkRoster(eventId: string, email: string, employeeId: string) {
+  const { data, error } = await supabase.rpc("check_roster", {
+    _event_id: eventId,
+    _email: email,
+    _employee_id: employeeId,
+  });
+  if (error) throw error;
+  return !!data;
+}
+
+// Raised by verify_registration_roster when the event blocks people not on it
+export function isNotOnRosterError(error: { message?: string }) {
+  return error.message === "not_on_roster";
+}
+
+export function getRosterStatusLabel(status: Registration["roster_status"]) {
+  if (status === "matched") return t("roster.onRoster");
+  if (status === "unmatched") return t("table.notOnRoster");
+  return "";
+}
+
+// Roster people with a live registration, matched the way the database
+// matches them; cancelled registrations don't count
+export function getRosterCoverage(entries: RosterEntry[], registrations: Registration[]) {
+  const active = registrations.filter((registration) => registration.status !== "cancelled");
+  const emails = new Set(active.map((registration) => registration.email.trim().toLowerCase()));
+  const employeeIds = new Set(
+    active.flatMap((registration) =>
+      registration.employee_id ? [registration.employee_id.trim().toUpperCase()] : []
+    )
+  );
+  const missing = entries.filter(
+    (entry) =>
+      !(entry.employee_id && employeeIds.has(entry.employee_id)) && !(entry.email && emails.has(entry.email))
+  );
+  const registered = entries.length - missing.length;
+  return {
+    total: entries.length,
+    registered,
+    percent: entries.length > 0 ? Math.round((registered / entries.length) * 100) : 0,
+    missing,
+  };
+}
+
+export function downloadMissingRosterCsv(event: RegistrationEvent, missing: RosterEntry[]) {
+  const rows = missing.map((entry) => ({
+    Name: entry.full_name ?? "",
+    Email: entry.email ?? "",
+    "Employee ID": entry.employee_id ?? "",
+    Department: entry.department ?? "",
+  }));
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(rows), "Not Registered");
+  XLSX.writeFile(wb, `not-registered-${event.slug}-${format(new Date(), "yyyy-MM-dd-HHmm")}.csv`, {
+    bookType: "csv",
+  });
+}
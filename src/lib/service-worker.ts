@@ -0,0 +1,9 @@
+// Production only: in development the cached shell would hide Vite's updates
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register("/sw.js")
+      .catch((error) => console.error("Error registering service worker:", error));
+  });
+}
@@ -0,0 +1,39 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { t } from "@/lib/i18n";
+
+export type UploadKind = "photo" | "document";
+
+const UPLOAD_BUCKETS: Record<UploadKind, string> = {
+  photo: "registration-photos",
+  document: "registration-documents",
+};
+
+// The buckets take no anonymous uploads; registration-upload-url hands out a
+// signed URL (rate limited per IP) and picks the path. Returns that path.
+export async function uploadRegistrationFile(
+  kind: UploadKind,
+  file: File,
+  target: { folder?: "registrations" | "drafts"; registrationId?: string } = {}
+) {
+  const { data, error } = await supabase.functions.invoke("registration-upload-url", {
+    body: { kind, contentType: file.type, ...target },
+  });
+
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => ({}));
+    throw new Error(body.error === "rate_limited" ? t("upload.rateLimited") : t("upload.failed", { name: file.name }));
+  }
+  if (error) throw error;
+
+  const { path, token } = data as { path: string; token: string };
+  const { error: uploadError } = await supabase.storage
+    .from(UPLOAD_BUCKETS[kind])
+    .uploadToSignedUrl(path, token, file, { contentType: file.type });
+
+  if (uploadError) {
+    throw new Error(t("upload.failed", { name: file.name }));
+  }
+
+  return path;
+}
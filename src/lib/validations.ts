@@ -1,46 +1,170 @@
 import { z } from "zod";
+import { buildCustomFieldsSchema } from "@/lib/form-fields";
+import { getPhoneNumberError, toE164 } from "@/lib/phone";
+import { getPostalCodeLabel, isValidPostalCode } from "@/lib/address";
+import { t } from "@/lib/i18n";
+import type { MessageKey } from "@/locales/en";
+import type { FormField, CustomFieldValues } from "@/types/form-field";
 
-export const registrationSchema = z.object({
-  fullName: z
-    .string()
-    .trim()
-    .min(2, "Full name must be at least 2 characters")
-    .max(100, "Full name must be less than 100 characters"),
-  mobileNumber: z
-    .string()
-    .trim()
-    .regex(/^\d{10}$/, "Mobile number must be exactly 10 digits"),
-  email: z
-    .string()
-    .trim()
-    .email("Please enter a valid email address")
-    .max(255, "Email must be less than 255 characters"),
-  gender: z.enum(["male", "female", "other"], {
-    required_error: "Please select a gender",
-  }),
-  department: z.string().min(1, "Please select a department"),
-  address: z
-    .string()
-    .trim()
-    .min(10, "Address must be at least 10 characters")
-    .max(500, "Address must be less than 500 characters"),
-});
-
-export const loginSchema = z.object({
-  email: z
-    .string()
-    .trim()
-    .email("Please enter a valid email address")
-    .max(255, "Email must be less than 255 characters"),
-  password: z
-    .string()
-    .min(6, "Password must be at least 6 characters")
-    .max(100, "Password must be less than 100 characters"),
-});
-
-export type RegistrationFormData = z.infer<typeof registrationSchema>;
-export type LoginFormData = z.infer<typeof loginSchema>;
+// Schemas are built on demand so their messages are in the current language
 
+export function createAddressSchema() {
+  return z
+    .object({
+      line1: z
+        .string()
+        .trim()
+        .min(3, t("validation.addressLine1Required"))
+        .max(200, t("validation.addressLineTooLong")),
+      line2: z.string().trim().max(200, t("validation.addressLineTooLong")).optional(),
+      city: z
+        .string()
+        .trim()
+        .min(1, t("validation.cityRequired"))
+        .max(100, t("validation.cityTooLong")),
+      state: z
+        .string()
+        .trim()
+        .min(1, t("validation.stateRequired"))
+        .max(100, t("validation.stateTooLong")),
+      postalCode: z.string().trim().min(1, t("validation.postalCodeRequired")),
+      country: z.string().min(1, t("validation.countryRequired")),
+    })
+    .superRefine((address, ctx) => {
+      if (address.postalCode && !isValidPostalCode(address.country, address.postalCode)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["postalCode"],
+          message: t("validation.postalCodeInvalid", { label: getPostalCodeLabel(address.country) }),
+        });
+      }
+    });
+}
+
+function createBaseRegistrationSchema() {
+  return z.object({
+    fullName: z
+      .string()
+      .trim()
+      .min(2, t("validation.fullNameTooShort"))
+      .max(100, t("validation.fullNameTooLong")),
+    // Entered with a country code; stored in E.164 form
+    mobileNumber: z
+      .string()
+      .trim()
+      .min(1, t("validation.mobileRequired"))
+      .superRefine((value, ctx) => {
+        const message = getPhoneNumberError(value);
+        if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+      })
+      .transform(toE164),
+    email: z
+      .string()
+      .trim()
+      .email(t("validation.emailInvalid"))
+      .max(255, t("validation.emailTooLong")),
+    gender: z.enum(["male", "female", "other"], {
+      required_error: t("validation.genderRequired"),
+    }),
+    department: z.string().min(1, t("validation.departmentRequired")),
+    address: createAddressSchema(),
+  });
+}
+
+// People registered along with the submitter, besides the submitter
+export const MAX_GROUP_MEMBERS = 9;
+
+// Someone the submitter registers along with themselves. They share the
+// submitter's address and custom answers, and their department unless one
+// is picked here.
+function createGroupMemberSchema() {
+  return createBaseRegistrationSchema()
+    .pick({ fullName: true, mobileNumber: true, email: true, gender: true })
+    .extend({
+      department: z.string().optional(),
+      photo: z
+        .instanceof(File)
+        .nullable()
+        .refine((file) => file !== null, t("form.photoRequired"))
+        .refine((file) => !file || ACCEPTED_IMAGE_TYPES.includes(file.type), t("form.photoType"))
+        .refine((file) => !file || file.size <= MAX_FILE_SIZE, t("form.photoSize")),
+    });
+}
+
+// Extends the built-in fields with the event's database-defined custom
+// fields, and with the other people for a group registration
+export function createRegistrationSchema(fields: FormField[], { group = false } = {}) {
+  const schema = createBaseRegistrationSchema().extend({
+    customFields: buildCustomFieldsSchema(fields),
+  });
+  if (!group) return schema;
+  return schema.extend({
+    members: z
+      .array(createGroupMemberSchema())
+      .min(1, t("group.tooFew"))
+      .max(MAX_GROUP_MEMBERS, t("group.tooMany", { max: MAX_GROUP_MEMBERS })),
+  });
+}
+
+export function createLoginSchema() {
+  return z.object({
+    email: z
+      .string()
+      .trim()
+      .email(t("validation.emailInvalid"))
+      .max(255, t("validation.emailTooLong")),
+    password: z
+      .string()
+      .min(6, t("validation.passwordTooShort"))
+      .max(100, t("validation.passwordTooLong")),
+  });
+}
+
+const CONFIRMATION_CODE_PATTERN = /^[0-9A-Za-z]{4}-?[0-9A-Za-z]{4}$/;
+
+export function createStatusLookupSchema() {
+  return z.object({
+    code: z.string().trim().regex(CONFIRMATION_CODE_PATTERN, t("validation.confirmationCodeInvalid")),
+    contact: z
+      .string()
+      .trim()
+      .min(1, t("validation.contactRequired"))
+      .max(255, t("validation.contactInvalid")),
+  });
+}
+
+export function createEditLinkRequestSchema() {
+  return z.object({
+    code: z.string().trim().regex(CONFIRMATION_CODE_PATTERN, t("validation.confirmationCodeInvalid")),
+    email: z
+      .string()
+      .trim()
+      .email(t("validation.registeredEmailInvalid"))
+      .max(255, t("validation.emailTooLong")),
+  });
+}
+
+export type RegistrationFormData = z.infer<ReturnType<typeof createBaseRegistrationSchema>>;
+export type GroupMemberValues = z.infer<ReturnType<typeof createGroupMemberSchema>>;
+export type RegistrationFormValues = RegistrationFormData & {
+  customFields?: CustomFieldValues;
+  // Only in a group registration
+  members?: GroupMemberValues[];
+};
+export const EMPTY_GROUP_MEMBER: GroupMemberValues = {
+  fullName: "",
+  mobileNumber: "",
+  email: "",
+  gender: "" as GroupMemberValues["gender"],
+  department: "",
+  photo: null,
+};
+export type LoginFormData = z.infer<ReturnType<typeof createLoginSchema>>;
+export type StatusLookupFormData = z.infer<ReturnType<typeof createStatusLookupSchema>>;
+export type EditLinkRequestFormData = z.infer<ReturnType<typeof createEditLinkRequestSchema>>;
+
+// Registration functions turn away any other department; keep in sync with
+// supabase/functions/_shared/registration-schema.ts
 export const DEPARTMENTS = [
   "Engineering",
   "Marketing",
@@ -54,5 +178,27 @@ export const DEPARTMENTS = [
   "Other",
 ] as const;
 
+const DEPARTMENT_LABEL_KEYS: Record<(typeof DEPARTMENTS)[number], MessageKey> = {
+  Engineering: "department.engineering",
+  Marketing: "department.marketing",
+  Sales: "department.sales",
+  "Human Resources": "department.humanResources",
+  Finance: "department.finance",
+  Operations: "department.operations",
+  "Customer Support": "department.customerSupport",
+  "Research & Development": "department.researchDevelopment",
+  Legal: "department.legal",
+  Other: "department.other",
+};
+
+// Departments are stored in English; this is how they read in the current language
+export function getDepartmentLabel(department: string) {
+  const key = DEPARTMENT_LABEL_KEYS[department as (typeof DEPARTMENTS)[number]];
+  return key ? t(key) : department;
+}
+
+// Limits for the processed photo that gets uploaded
 export const MAX_FILE_SIZE = 2 * 1024 * 1024; // 2MB
-export const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/jpg", "image/png"];
+export const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/webp"];
+// Limit for the picked photo before it is cropped and compressed
+export const MAX_SOURCE_FILE_SIZE = 25 * 1024 * 1024; // 25MB
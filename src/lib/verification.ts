@@ -0,0 +1,81 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { getLanguage, t } from "@/lib/i18n";
+import type { MessageKey } from "@/locales/en";
+
+export type VerificationChannel = Database["public"]["Enums"]["verification_channel"];
+
+export const CODE_LENGTH = 6;
+
+export const CHANNEL_LABELS: Record<VerificationChannel, MessageKey> = {
+  email: "verification.emailAddress",
+  sms: "verification.mobileNumber",
+};
+
+// Errors raised by the registrations trigger when a required check is missing
+export const NOT_VERIFIED_ERRORS: Record<string, VerificationChannel> = {
+  email_not_verified: "email",
+  mobile_not_verified: "sms",
+};
+
+// Mirrors normalize_verification_target in the database
+export function normalizeVerificationTarget(channel: VerificationChannel, target: string) {
+  return channel === "email" ? target.trim().toLowerCase() : target.replace(/\D/g, "");
+}
+
+export type SendCodeResult =
+  | { status: "sent" }
+  | { status: "cooldown"; retryAfter: number };
+
+export type VerifyCodeResult = "verified" | "invalid" | "expired" | "too_many_attempts";
+
+export const VERIFY_CODE_MESSAGES: Record<Exclude<VerifyCodeResult, "verified">, MessageKey> = {
+  invalid: "verification.invalid",
+  expired: "verification.expired",
+  too_many_attempts: "verification.tooManyAttempts",
+};
+
+const SEND_CODE_ERRORS: Record<string, MessageKey> = {
+  delivery_failed: "verification.deliveryFailed",
+  rate_limited: "verification.rateLimited",
+};
+
+export async function sendVerificationCode(
+  eventId: string,
+  channel: VerificationChannel,
+  target: string
+): Promise<SendCodeResult> {
+  const { error } = await supabase.functions.invoke("send-verification-code", {
+    // The code goes out in the language the form is shown in
+    body: { eventId, channel, target, language: getLanguage() },
+  });
+
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => ({}));
+    if (body.error === "cooldown") {
+      return { status: "cooldown", retryAfter: body.retryAfter ?? 60 };
+    }
+    throw new Error(t(SEND_CODE_ERRORS[body.error] ?? "verification.sendFailed"));
+  }
+  if (error) throw error;
+
+  return { status: "sent" };
+}
+
+export async function verifyCode(
+  eventId: string,
+  channel: VerificationChannel,
+  target: string,
+  code: string
+) {
+  const { data, error } = await supabase.rpc("verify_code", {
+    _event_id: eventId,
+    _channel: channel,
+    _target: target,
+    _code: code,
+  });
+
+  if (error) throw error;
+  return data as VerifyCodeResult;
+}
@@ -0,0 +1,762 @@
+// Source texts. hi.ts and mr.ts must translate every key; "{name}" placeholders
+// are filled in by t() and stay untranslated.
+export const en = {
+  // Validation messages
+  "validation.addressLine1Required": "Please enter your address",
+  "validation.addressLineTooLong": "Address line must be less than 200 characters",
+  "validation.cityRequired": "Please enter your city",
+  "validation.cityTooLong": "City must be less than 100 characters",
+  "validation.stateRequired": "Please enter your state",
+  "validation.stateTooLong": "State must be less than 100 characters",
+  "validation.postalCodeRequired": "Please enter your postal code",
+  "validation.countryRequired": "Please select a country",
+  "validation.postalCodeInvalid": "Please enter a valid {label}",
+  "validation.fullNameTooShort": "Full name must be at least 2 characters",
+  "validation.fullNameTooLong": "Full name must be less than 100 characters",
+  "validation.mobileRequired": "Please enter your mobile number",
+  "validation.emailInvalid": "Please enter a valid email address",
+  "validation.emailTooLong": "Email must be less than 255 characters",
+  "validation.genderRequired": "Please select a gender",
+  "validation.departmentRequired": "Please select a department",
+  "validation.confirmationCodeInvalid": "Please enter your 8-character confirmation number",
+  "validation.contactRequired": "Please enter the email or mobile number you registered with",
+  "validation.contactInvalid": "Please enter a valid email or mobile number",
+  "validation.registeredEmailInvalid": "Please enter the email address you registered with",
+  "validation.mobileTooShort": "Mobile number is too short for the selected country",
+  "validation.mobileTooLong": "Mobile number is too long for the selected country",
+  "validation.countryCodeRequired": "Please select a country code",
+  "validation.mobileInvalid": "Please enter a valid mobile number",
+  "validation.mobileInvalidForCountry": "Please enter a valid mobile number for the selected country",
+  "validation.customChecked": "{label} must be checked",
+  "validation.customRequired": "{label} is required",
+  "validation.customNumber": "{label} must be a number",
+  "validation.customMin": "{label} must be at least {min}",
+  "validation.customMax": "{label} must be at most {max}",
+  "validation.customEmail": "{label} must be a valid email address",
+  "validation.customDate": "{label} must be a valid date",
+  "validation.customMinLength": "{label} must be at least {min} characters",
+  "validation.customMaxLength": "{label} must be less than {max} characters",
+  "validation.customPattern": "{label} is not in the expected format",
+  "validation.customSelect": "Please select {label}",
+  "validation.passwordTooShort": "Password must be at least 6 characters",
+  "validation.passwordTooLong": "Password must be less than 100 characters",
+  // Departments
+  "department.engineering": "Engineering",
+  "department.marketing": "Marketing",
+  "department.sales": "Sales",
+  "department.humanResources": "Human Resources",
+  "department.finance": "Finance",
+  "department.operations": "Operations",
+  "department.customerSupport": "Customer Support",
+  "department.researchDevelopment": "Research & Development",
+  "department.legal": "Legal",
+  "department.other": "Other",
+  // Shared
+  "common.yes": "Yes",
+  "common.no": "No",
+  "common.cancel": "Cancel",
+  "common.edit": "Edit",
+  "common.close": "Close",
+  "common.saving": "Saving...",
+  // Address fields
+  "address.pinCode": "PIN Code",
+  "address.postalCode": "Postal Code",
+  "address.label": "Address",
+  "address.line1Placeholder": "House / flat number, street",
+  "address.line2Label": "Address line 2",
+  "address.line2Placeholder": "Area, landmark (optional)",
+  "address.country": "Country",
+  "address.countryPlaceholder": "Select country",
+  "address.pinCodePlaceholder": "6-digit PIN code",
+  "address.postalCodePlaceholder": "Postal code",
+  "address.filledFromPinCode": "City and state filled in from the PIN code",
+  "address.pinCodeNotFound": "PIN code not found, please enter the city and state",
+  "address.city": "City / District",
+  "address.cityPlaceholder": "City",
+  "address.state": "State",
+  "address.statePlaceholder": "State",
+  // Registration fields
+  "field.fullName": "Full Name",
+  "field.fullNamePlaceholder": "Enter your full name",
+  "field.mobileNumber": "Mobile Number",
+  "field.mobileNumberPlaceholder": "Enter your mobile number",
+  "field.email": "Email Address",
+  "field.emailPlaceholder": "Enter your email",
+  "field.gender": "Gender",
+  "field.genderPlaceholder": "Select gender",
+  "gender.male": "Male",
+  "gender.female": "Female",
+  "gender.other": "Other",
+  "field.department": "Department",
+  "field.departmentPlaceholder": "Select department",
+  "field.departmentFull": "This department is full. You'll be added to the waitlist and moved up automatically when a seat frees up.",
+  "capacity.waitlistOnly": "Waitlist only",
+  "capacity.seatsLeft": "{count} seats left",
+  "capacity.oneSeatLeft": "1 seat left",
+  "field.selectPlaceholder": "Select {label}",
+  // Wizard
+  "wizard.personalDetails": "Personal Details",
+  "wizard.contact": "Contact",
+  "wizard.departmentAddress": "Department & Address",
+  "wizard.photoDocuments": "Photo & Documents",
+  "wizard.review": "Review",
+  "wizard.stepOf": "Step {step} of {total}",
+  "wizard.next": "Next",
+  "wizard.back": "Back",
+  "review.email": "Email",
+  "review.yourPhoto": "Your photo",
+  // Documents
+  "document.idProof": "ID proof",
+  "document.offerLetter": "Offer letter",
+  "document.certificate": "Certificate",
+  "document.other": "Other",
+  "document.typeNotAllowed": "{name}: only PDF, JPG, PNG or WebP files are allowed",
+  "document.tooLarge": "{name}: {type} files must be less than {size}",
+  "document.tooMany": "{name}: you can attach up to {max} documents",
+  "document.typeLabel": "Document type",
+  "document.remove": "Remove {name}",
+  "document.add": "Add documents",
+  "document.dragHere": "or drag them here",
+  "document.limits": "PDF up to 5MB, images up to 3MB · {remaining} of {max} remaining",
+  "upload.failed": "Failed to upload {name}",
+  "upload.rateLimited": "Too many uploads from your network, please try again later",
+  // Photo
+  "photo.chooseImage": "Please choose a JPG, PNG or WebP image",
+  "photo.tooLarge": "This image is too large, please choose one under 25MB",
+  "photo.preview": "Preview",
+  "photo.adjust": "Adjust",
+  "photo.adjustLabel": "Adjust photo",
+  "photo.remove": "Remove photo",
+  "photo.uploadTab": "Upload",
+  "photo.cameraTab": "Take photo",
+  "photo.clickToUpload": "Click to upload",
+  "photo.dragAndDrop": "or drag and drop",
+  "photo.formats": "JPG, PNG or WebP — cropped and compressed automatically",
+  "photo.cameraBlocked": "Camera access was blocked. Allow camera access in your browser settings, or upload a photo instead.",
+  "photo.noCamera": "No camera is available on this device.",
+  "photo.uploadInstead": "Upload a photo instead",
+  "photo.captured": "Captured photo",
+  "photo.retake": "Retake",
+  "photo.usePhoto": "Use Photo",
+  "photo.faceGuide": "Position your face inside the oval and look at the camera",
+  "photo.holdStill": "Hold still...",
+  "photo.takePhoto": "Take Photo",
+  "photo.editorTitle": "Adjust your photo",
+  "photo.editorDescription": "Drag to position your face in the square, then zoom or rotate if needed.",
+  "photo.zoom": "Zoom",
+  "photo.rotateLeft": "Rotate left",
+  "photo.rotateRight": "Rotate right",
+  "photo.processing": "Processing...",
+  "photo.unreadable": "Could not read this image",
+  "photo.processFailed": "Could not process this image",
+  // Phone
+  "phone.countryCode": "Country code",
+  "phone.searchCountry": "Search country...",
+  "phone.noCountry": "No country found.",
+  // Verification
+  "verification.emailAddress": "email address",
+  "verification.mobileNumber": "mobile number",
+  "verification.invalid": "That code is not correct, please try again",
+  "verification.expired": "This code has expired, please request a new one",
+  "verification.tooManyAttempts": "Too many incorrect attempts, please request a new code",
+  "verification.deliveryFailed": "We couldn't send the code, please check the address and try again",
+  "verification.rateLimited": "Too many codes requested from your network, please try again later",
+  "verification.sendFailed": "Failed to send verification code",
+  "verification.verifyFailed": "Failed to verify the code, please try again",
+  "verification.codeSent": "Verification code sent to {target}",
+  "verification.title": "Verify your {channel}",
+  "verification.description": "Enter the {length}-digit code we sent to",
+  "verification.resendIn": "Resend code in {seconds}s",
+  "verification.resend": "Resend code",
+  "verification.verifying": "Verifying...",
+  "verification.verify": "Verify",
+  // Consent
+  "consent.label": "Consent",
+  "consent.agreeTo": "I have read and agree to the {title}",
+  "consent.optional": "(optional)",
+  "consent.read": "Read",
+  "consent.version": "Version {version}",
+  // Registration window
+  "closed.pausedTitle": "Registration Paused",
+  "closed.pausedDescription": "Registration is temporarily paused. Please check back shortly.",
+  "closed.scheduledTitle": "Registration Opens Soon",
+  "closed.scheduledDescription": "This form isn't open yet.",
+  "closed.closedTitle": "Registration Closed",
+  "closed.closedDescription": "Registration for this event has closed.",
+  "closed.fullTitle": "Registration Full",
+  "closed.fullDescription": "This event has reached its maximum number of registrations.",
+  "closed.notFoundTitle": "Registration Not Found",
+  "closed.notFoundDescription": "This registration form does not exist or is no longer accepting entries.",
+  "closed.opensOn": "It opens on {date}.",
+  "closed.closedOn": "It closed on {date}.",
+  // Registration status
+  "status.submitted": "Submitted",
+  "status.submittedDescription": "Received and waiting for review.",
+  "status.underReview": "Under review",
+  "status.underReviewDescription": "The organisers are reviewing it.",
+  "status.waitlisted": "Waitlisted",
+  "status.waitlistedDescription": "The department is full. You'll move up automatically when a seat frees up.",
+  "status.approved": "Approved",
+  "status.approvedDescription": "The registration has been approved.",
+  "status.rejected": "Rejected",
+  "status.rejectedDescription": "The registration was not accepted.",
+  "status.cancelled": "Cancelled",
+  "status.cancelledDescription": "The registration was cancelled.",
+  // Submission
+  "submit.duplicateEmail": "This email is already registered for this event",
+  "submit.duplicateMobile": "This mobile number is already registered for this event",
+  "submit.rateLimited": "Too many registrations from your network or for this email, please try again later",
+  "submit.tooFast": "That was quick! Please check your details and submit again",
+  "submit.challengeInvalid": "We couldn't verify your browser, please submit again",
+  "submit.rejected": "Your registration could not be accepted",
+  "submit.invalidValues": "Some details are not valid, please check the form",
+  "submit.paymentsUnavailable": "This event can't take paid registrations right now. Please try again later or contact the organisers.",
+  "submit.failed": "Failed to submit registration",
+  // Admin: edit registration
+  "edit.title": "Edit Registration",
+  "edit.status": "Status",
+  "edit.adminMessage": "Message to Registrant",
+  "edit.adminMessagePlaceholder": "Shown on the status page, e.g. what to bring on the day",
+  "edit.saving": "Saving...",
+  "edit.save": "Save Changes",
+  // Registration form
+  "form.saveFailed": "Failed to save your progress",
+  "form.linkCopied": "Link copied",
+  "form.linkCopyFailed": "Could not copy the link, please copy it manually",
+  "form.photoRequired": "Please upload a photo",
+  "form.photoType": "Only JPG and PNG files are allowed",
+  "form.photoSize": "File size must be less than 2MB",
+  "form.acceptConsent": "Please accept the {title} to continue",
+  "form.checkStatus": "Check status",
+  "form.changesSaved": "Your changes have been saved",
+  "form.saveChangesFailed": "Failed to save your changes",
+  "form.documentsNotSaved": "Your registration was submitted, but the documents could not be saved",
+  "form.submitted": "Registration submitted successfully!",
+  "form.consentsUpdated": "The consent texts have been updated, please review and accept them again",
+  "form.consentsUpdatedToast": "The consent texts have been updated, please review them again",
+  "form.eventClosed": "Sorry, this event stopped taking registrations",
+  "form.codeCopied": "Confirmation number copied",
+  "form.codeCopyFailed": "Could not copy the confirmation number, please note it down",
+  "form.emailVerified": "Email verified",
+  "form.mobileVerified": "Mobile number verified",
+  "form.changesSavedTitle": "Changes Saved",
+  "form.waitlistTitle": "You're on the Waitlist",
+  "form.successTitle": "Registration Successful!",
+  "form.changesSavedDescription": "Your registration has been updated. The edit link can't be used again.",
+  "form.waitlistDescription": "Your department is full, so you're number {position} on the waitlist. We'll move you up automatically when a seat frees up.",
+  "form.successDescription": "Thank you for registering. We'll be in touch soon.",
+  "form.confirmationNumber": "Your confirmation number",
+  "form.copyConfirmationNumber": "Copy confirmation number",
+  "form.keepItTo": "Keep it to",
+  "form.checkYourStatus": "check your registration status",
+  "form.later": "later.",
+  "form.submitAnother": "Submit another registration",
+  "form.saveForLater": "Save and continue later",
+  "form.progressSaved": "Your progress is saved",
+  "form.resumeLinkDescription": "Use this link to continue your registration on any device",
+  "form.resumeLinkUntil": "until {date}",
+  "form.resumeLinkPrivate": "Anyone with the link can see what you have entered, so keep it private.",
+  "form.copyLink": "Copy link",
+  "form.alreadyRegistered": "Already registered?",
+  "form.submitAnyway": "Submit Anyway",
+  "form.submitAnywayQuestion": "Submit another registration anyway?",
+  "form.uploadPhoto": "Upload Photo",
+  "form.supportingDocuments": "Supporting Documents",
+  "form.supportingDocumentsHint": "(optional: ID proof, offer letter, certificates)",
+  "form.saving": "Saving...",
+  "form.submitting": "Submitting...",
+  "form.saveChanges": "Save Changes",
+  "form.submit": "Submit Registration",
+  // Drafts
+  "draft.photoLoadFailed": "Failed to load saved photo",
+  "draft.linkExpired": "This resume link has expired or is invalid",
+  "draft.restored": "Welcome back! Your saved progress has been restored.",
+  // Offline outbox
+  "outbox.queued": "You're offline. The registration is saved on this device and will be sent once you're back online",
+  "outbox.queueFailed": "The registration could not be saved on this device",
+  "outbox.verificationOffline": "Verifying contact details needs a connection, please try again once you're back online",
+  "outbox.offline": "You're offline. New registrations are saved on this device and sent later.",
+  "outbox.title": "Saved on this device",
+  "outbox.pending": "Waiting to send",
+  "outbox.synced": "Sent",
+  "outbox.failed": "Not sent",
+  "outbox.confirmationNumber": "Confirmation number {code}",
+  "outbox.sentWithoutCode": "Registration sent",
+  "outbox.retry": "Try again",
+  "outbox.dismiss": "Dismiss",
+  "outbox.updateFailed": "The saved registration could not be updated",
+  // Kiosk
+  "kiosk.noteCode": "Take a photo of this number or write it down",
+  "kiosk.done": "Done",
+  "kiosk.startingOver": "Starting over in {seconds}s",
+  "kiosk.exit": "Exit kiosk",
+  "kiosk.exitTitle": "Exit kiosk mode",
+  "kiosk.exitDescription": "Staff only. Enter the kiosk PIN set in the event settings.",
+  "kiosk.pin": "PIN",
+  "kiosk.pinInvalid": "The PIN is 4 to 8 digits",
+  "kiosk.pinWrong": "That PIN is not right. After five wrong tries, exiting is locked for five minutes.",
+  "kiosk.pinCheckFailed": "The PIN could not be checked, please try again when online",
+  // Group registration
+  "group.justMe": "Just me",
+  "group.withOthers": "Me and others",
+  "group.yourDetails": "Your details",
+  "group.title": "People you're registering",
+  "group.description": "Each person gets their own confirmation number. They share your address and answers, and your department unless you pick another.",
+  "group.person": "Person {number}",
+  "group.remove": "Remove this person",
+  "group.add": "Add a person",
+  "group.sameDepartment": "Same as mine",
+  "group.consentNote": "You are accepting these on behalf of everyone you register.",
+  "group.offline": "Registering a group needs a connection. Please try again when you're back online.",
+  "group.confirmationNumbers": "Confirmation numbers for the others",
+  "group.tooFew": "Add at least one other person, or register just yourself",
+  "group.tooMany": "You can register up to {max} other people at once",
+  // Invite codes
+  "invite.label": "Invite code",
+  "invite.placeholder": "e.g. AB2C-D3EF",
+  "invite.apply": "Apply",
+  "invite.required": "This event is by invitation only. Please enter your invite code.",
+  "invite.valid": "Invite code accepted",
+  "invite.validDepartment": "Invite code accepted for {department}",
+  "invite.invalid": "That invite code is not valid for this event",
+  "invite.expired": "That invite code has expired",
+  "invite.usedUp": "That invite code has already been used",
+  "invite.notEnoughUses": "This invite code is good for {count} more registrations only",
+  "invite.checkFailed": "The invite code could not be checked, please try again",
+  "invite.fixCode": "Please check the invite code at the top of the form",
+  // Employee roster
+  "roster.employeeId": "Employee ID",
+  "roster.employeeIdPlaceholder": "e.g. E10234",
+  "roster.employeeIdHint": "As on your HR records. Leave blank to be matched by your email.",
+  "roster.matched": "Found on the employee roster",
+  "roster.notFound": "We couldn't find you on the employee roster. Please check your email or employee ID.",
+  "roster.notFoundFlag": "We couldn't find you on the employee roster. You can still register and HR will check your details.",
+  "roster.coverageTitle": "Not registered yet",
+  "roster.coverageDescription": "{count} people on the roster haven't registered",
+  "roster.allRegistered": "Everyone on the roster has registered",
+  "roster.viewMissing": "See who hasn't registered",
+  "roster.download": "Download CSV",
+  "roster.onRoster": "On roster",
+  "roster.settingsLabel": "Employee roster",
+  "roster.policyOff": "Off",
+  "roster.policyOffDescription": "Anyone can register; the roster is only used for coverage.",
+  "roster.policyFlag": "Flag",
+  "roster.policyFlagDescription": "Accept people who aren't on the roster and mark them for review.",
+  "roster.policyBlock": "Block",
+  "roster.policyBlockDescription": "Only people on the roster can register.",
+  "roster.matchingNote": "Registrants are matched by employee ID or email, and put in their roster department.",
+  "roster.size": "{count} people on the roster. Upload an XLSX or CSV with Email and/or Employee ID columns, plus optional Name and Department.",
+  "roster.fileRead": "{count} people read from {file}. Saving replaces the current roster.",
+  "roster.fileReadSkipped": "{count} people read from {file}, {skipped} rows without an email or employee ID skipped. Saving replaces the current roster.",
+  "roster.fileMissingColumns": "The file needs an Email or Employee ID column",
+  "roster.fileEmpty": "No one with an email or employee ID was found in the file",
+  "roster.fileUnreadable": "The roster file could not be read",
+  // Payment
+  "payment.pending": "Payment pending",
+  "payment.paid": "Paid",
+  "payment.refunded": "Refunded",
+  "payment.title": "Pay the registration fee",
+  "payment.description": "You're registered. Pay the fee now to complete your registration.",
+  "payment.descriptionWithCode": "You're registered with confirmation number {code}. Pay the fee now to complete your registration.",
+  "payment.amountDue": "Amount due",
+  "payment.perPerson": "{fee} per person × {count}",
+  "payment.pay": "Pay {amount}",
+  "payment.retry": "Try again",
+  "payment.payLater": "Pay later at the venue",
+  "payment.payAtDesk": "Pay at the registration desk",
+  "payment.success": "Payment received",
+  "payment.cancelled": "The payment was cancelled. You can try again.",
+  "payment.notCompleted": "The payment didn't go through. Please try again.",
+  "payment.nothingToPay": "There is nothing left to pay for this registration.",
+  "payment.failed": "Payment failed. Please try again.",
+  "payment.unavailable": "Online payment isn't available right now. You can pay at the venue.",
+  "payment.paidNote": "Payment of {amount} received.",
+  "payment.laterNote": "Payment of {amount} is still due. Please pay at the venue.",
+  "payment.deskNote": "Please pay {amount} at the registration desk.",
+  "payment.deferredNote": "The fee for anyone on the waitlist is collected once they get a seat. They can pay then from the registration status page.",
+  // Pages
+  "language.label": "Language",
+  "header.checkStatus": "Check Status",
+  "header.admin": "Admin",
+  "index.heroTitle": "Quick & Easy",
+  "index.heroHighlight": "Registration",
+  "index.heroDescription": "Complete your registration in minutes. Fill in your details below and upload your photo to get started.",
+  "index.footer": "© {year} SmartReg. All rights reserved.",
+  "page.backToRegistration": "Back to Registration",
+  "statusPage.title": "Registration Status",
+  "statusPage.description": "Enter your confirmation number and the email or mobile number you registered with",
+  "statusPage.confirmationNumber": "Confirmation Number",
+  "statusPage.contact": "Email or Mobile Number",
+  "statusPage.contactPlaceholder": "you@example.com or +91 98765 43210",
+  "statusPage.checking": "Checking...",
+  "statusPage.notFound": "No registration matches these details. Check the confirmation number and use the same email or mobile number as on your registration.",
+  "statusPage.lookupFailed": "Failed to look up your registration, please try again",
+  "statusPage.submittedOn": "Submitted On",
+  "statusPage.fee": "Registration fee",
+  "statusPage.payNow": "Pay now",
+  "statusPage.feeAfterWaitlist": "You'll be able to pay here once you get a seat.",
+  "statusPage.organiserMessage": "Message from the organisers",
+  "statusPage.requestEdit": "Need to correct something? Request an edit link",
+  "editPage.checkEmail": "Check your email",
+  "editPage.linkSent": "If the confirmation number matches a registration made with {email}, we've sent a link to edit it. The link works once and expires in 24 hours.",
+  "editPage.title": "Edit Your Registration",
+  "editPage.linkExpired": "This edit link has expired or was already used. Request a new one below.",
+  "editPage.description": "We'll email you a secure link to correct your details.",
+  "editPage.sending": "Sending...",
+  "editPage.emailMeLink": "Email Me a Link",
+  "editPage.openFailed": "Failed to open your registration, please try again",
+  "editPage.confirmationNumber": "Confirmation number",
+  "editPage.linkUsableUntil": "This link can be used once, until {date}.",
+  "editPage.deliveryFailed": "We couldn't send the email, please try again later",
+  "editPage.requestFailed": "Failed to request an edit link",
+  "editPage.linkInvalid": "This edit link has expired or was already used, please request a new one",
+  // Admin
+  "admin.label": "Admin",
+  "admin.navDashboard": "Dashboard",
+  "admin.navFormBuilder": "Form Builder",
+  "admin.navConsents": "Consents",
+  "admin.navAttempts": "Blocked Attempts",
+  "admin.navInvites": "Invite Codes",
+  "admin.signOut": "Sign Out",
+  "dashboard.loadFailed": "Failed to load registrations",
+  "dashboard.deleted": "Registration deleted successfully",
+  "dashboard.deleteFailed": "Failed to delete registration",
+  "dashboard.updated": "Registration updated successfully",
+  "dashboard.updateFailed": "Failed to update registration",
+  "dashboard.exported": "Export completed",
+  "dashboard.title": "Dashboard",
+  "dashboard.description": "Manage and view all registration submissions",
+  "dashboard.eventRegistrations": "{event} Registrations",
+  "dashboard.allRegistrations": "All Registrations",
+  "export.sheetName": "Registrations",
+  "export.confirmationNo": "Confirmation No",
+  "export.name": "Name",
+  "export.mobile": "Mobile",
+  "export.email": "Email",
+  "export.gender": "Gender",
+  "export.department": "Department",
+  "export.address": "Address",
+  "export.city": "City",
+  "export.state": "State",
+  "export.postalCode": "Postal Code",
+  "export.country": "Country",
+  "export.status": "Status",
+  "export.waitlistPosition": "Waitlist Position",
+  "export.language": "Language",
+  "export.group": "Group",
+  "export.employeeId": "Employee ID",
+  "export.roster": "Roster",
+  "export.payment": "Payment",
+  "export.amount": "Amount",
+  "export.paymentReference": "Payment Reference",
+  "export.source": "Source",
+  "export.sourceWeb": "Web",
+  "export.sourceKiosk": "Kiosk ({device})",
+  "export.unknownDevice": "unknown device",
+  "export.registeredDate": "Registered Date",
+  "stats.total": "Total Registrations",
+  "stats.today": "Today's Submissions",
+  "stats.departments": "Departments",
+  "stats.growth": "Growth Rate",
+  "stats.capacity": "Capacity Used",
+  "stats.capacityDetail": "{taken} of {capacity} seats · {waitlisted} waitlisted",
+  "stats.roster": "Roster Coverage",
+  "stats.rosterDetail": "{registered} of {total} registered",
+  "table.searchPlaceholder": "Search by name, mobile, email or confirmation no...",
+  "table.department": "Department",
+  "table.allDepartments": "All Departments",
+  "table.state": "State",
+  "table.allStates": "All States",
+  "table.city": "City",
+  "table.allCities": "All Cities",
+  "table.status": "Status",
+  "table.allStatuses": "All Statuses",
+  "table.clear": "Clear",
+  "table.export": "Export",
+  "table.photo": "Photo",
+  "table.name": "Name",
+  "table.mobile": "Mobile",
+  "table.email": "Email",
+  "table.date": "Date",
+  "table.actions": "Actions",
+  "table.loading": "Loading...",
+  "table.empty": "No registrations found",
+  "table.possibleDuplicate": "Possible duplicate",
+  "table.groupOf": "Group of {count}",
+  "table.showGroup": "Show only this group",
+  "table.notOnRoster": "Not on roster",
+  "table.payment": "Payment",
+  "table.allPayments": "All Payments",
+  "table.noFee": "No fee",
+  "table.view": "View",
+  "table.edit": "Edit",
+  "table.delete": "Delete",
+  "table.showing": "Showing {from}-{to} of {total}",
+  "table.deleteTitle": "Delete Registration",
+  "table.deleteDescription": "Are you sure you want to delete this registration? This action cannot be undone and will also remove the associated photo.",
+  "view.title": "Registration Details",
+  "view.possibleDuplicate": "Possible duplicate: the email or mobile number was already registered",
+  "view.address": "Address",
+  "view.language": "Preferred Language",
+  "view.registeredOn": "Registered On",
+  "view.registeredVia": "Registered Via",
+  "view.sourceWeb": "Web form",
+  "view.sourceKiosk": "Kiosk {device}",
+  "view.groupMembers": "Registered Together With",
+  "view.groupSubmitter": "Submitted the group",
+  "view.employeeId": "Employee ID",
+  "view.roster": "Roster",
+  "view.rosterMatched": "On the roster",
+  "view.rosterUnmatched": "Not on the roster",
+  "view.payment": "Payment",
+  "view.paidOn": "Paid on {date} via {provider}",
+  "view.paymentManual": "a recorded payment",
+  "view.paymentReference": "Reference",
+  "view.paymentReferencePlaceholder": "Receipt or transaction no. (optional)",
+  "view.recordPayment": "Record payment",
+  "view.markRefunded": "Mark refunded",
+  "view.markRefundedHint": "Only updates the record; return the money through the payment gateway or in person.",
+  "view.additionalDetails": "Additional Details",
+  "verification.verifiedOn": "Verified {date}",
+  "verification.verified": "Verified",
+  "verification.unverified": "Unverified",
+  "consent.acceptedOn": "Accepted {date}",
+  "consent.noneRecorded": "No consent recorded",
+  "consent.issueNotAccepted": "{title}: not accepted (current v{current})",
+  "consent.issueOutdated": "{title}: v{accepted} (current v{current})",
+  "document.sectionTitle": "Documents",
+  "document.openFailed": "Failed to open the document",
+  "document.preview": "Preview {name}",
+  "document.download": "Download {name}",
+  "history.title": "Change History",
+  "history.admin": "Admin",
+  "history.registrant": "Registrant",
+  "history.system": "System",
+  "invites.title": "Invite Codes",
+  "invites.description": "Codes preset a department; turn on Invite only in the event settings to require one",
+  "invites.descriptionInviteOnly": "This event only takes registrations with one of these codes",
+  "invites.statCodes": "Codes",
+  "invites.statCodesDescription": "Generated for this event",
+  "invites.statRedemptions": "Redemptions",
+  "invites.statRedemptionsDescription": "Registrations made with a code",
+  "invites.statUsedUpDescription": "Codes with no uses left",
+  "invites.statExpiredDescription": "Codes past their expiry",
+  "invites.stateActive": "Active",
+  "invites.stateUsedUp": "Used up",
+  "invites.stateExpired": "Expired",
+  "invites.searchPlaceholder": "Search by code, label or department...",
+  "invites.generate": "Generate Codes",
+  "invites.code": "Code",
+  "invites.label": "Label",
+  "invites.uses": "Uses",
+  "invites.expires": "Expires",
+  "invites.never": "Never",
+  "invites.anyDepartment": "Any",
+  "invites.empty": "No invite codes",
+  "invites.copyLink": "Copy invite link",
+  "invites.linkCopied": "Invite link copied",
+  "invites.copyFailed": "Could not copy the link",
+  "invites.loadFailed": "Failed to load invite codes",
+  "invites.delete": "Delete invite code",
+  "invites.deleteTitle": "Delete Invite Code",
+  "invites.deleteDescription": "\"{code}\" will stop working. Registrations already made with it are kept.",
+  "invites.deleted": "Invite code deleted",
+  "invites.deleteFailed": "Failed to delete invite code",
+  "invites.generateTitle": "Generate Invite Codes",
+  "invites.generateDescription": "The new codes are downloaded as a CSV with a registration link for each, ready for a mail merge.",
+  "invites.count": "Number of codes",
+  "invites.maxUses": "Uses per code",
+  "invites.registrantChooses": "Registrant chooses",
+  "invites.departmentHint": "Registrations made with these codes are put in this department.",
+  "invites.expiresHint": "Leave blank for codes that don't expire.",
+  "invites.labelPlaceholder": "e.g. Partner colleges",
+  "invites.generateSubmit": "Generate",
+  "invites.countInvalid": "Generate between 1 and {max} codes at a time",
+  "invites.maxUsesInvalid": "Uses per code must be a whole number of at least 1",
+  "invites.expiryInPast": "The expiry must be in the future",
+  "invites.generated": "{count} invite codes generated",
+  "invites.generateFailed": "Failed to generate invite codes",
+  "events.select": "Select event",
+  "events.inactive": "(inactive)",
+  "events.copyLink": "Copy Link",
+  "events.linkCopied": "Form link copied",
+  "events.settings": "Settings",
+  "events.new": "New Event",
+  "events.newDescription": "Each event gets its own public registration form and its own list of submissions.",
+  "events.name": "Name",
+  "events.namePlaceholder": "e.g. Spring Hackathon 2026",
+  "events.slug": "URL Slug",
+  "events.description": "Description",
+  "events.descriptionPlaceholder": "Shown above the registration form",
+  "events.creating": "Creating...",
+  "events.create": "Create Event",
+  "events.nameRequired": "Event name and URL slug are required",
+  "events.slugTaken": "An event with this URL slug already exists",
+  "events.created": "Event created successfully",
+  "events.createFailed": "Failed to create event",
+  "eventSettings.title": "Event Settings",
+  "eventSettings.description": "Changes apply immediately to the public form at {path}.",
+  "eventSettings.active": "Active",
+  "eventSettings.activeHint": "Inactive events are hidden from the public.",
+  "eventSettings.paused": "Pause registration",
+  "eventSettings.pausedHint": "Close the form right away, whatever the schedule says.",
+  "eventSettings.opensAt": "Opens at",
+  "eventSettings.closesAt": "Closes at",
+  "eventSettings.scheduleHint": "Leave blank to open straight away or never close. Before opening, the public form shows a countdown.",
+  "eventSettings.maxRegistrations": "Maximum registrations",
+  "eventSettings.noLimit": "No limit",
+  "eventSettings.maxRegistrationsHint": "The form closes once this many registrations have been received.",
+  "eventSettings.fee": "Registration fee ({currency})",
+  "eventSettings.feePlaceholder": "Free",
+  "eventSettings.feeHint": "Charged per person right after registering. People who don't pay online stay pending until a payment is recorded from their details. A new fee only applies to new registrations.",
+  "eventSettings.wizard": "Step-by-step form",
+  "eventSettings.wizardHint": "Split the form into short steps with a review screen before submitting.",
+  "eventSettings.emailVerification": "Verify email address",
+  "eventSettings.emailVerificationHint": "Registrants must enter a code sent to their email before submitting.",
+  "eventSettings.mobileVerification": "Verify mobile number",
+  "eventSettings.mobileVerificationHint": "Registrants must enter a code sent by SMS before submitting.",
+  "eventSettings.inviteOnly": "Invite only",
+  "eventSettings.inviteOnlyHint": "Registrants need an invite code from the Invite Codes page.",
+  "eventSettings.duplicatePolicy": "Duplicate registrations",
+  "eventSettings.kioskPin": "Kiosk PIN",
+  "eventSettings.kioskPinUnchanged": "Unchanged",
+  "eventSettings.kioskPinPlaceholder": "4 to 8 digits",
+  "eventSettings.kioskPinHint": "Tablets at the venue run the form at {path}; add ?device=<name> once to name the tablet. Staff need this PIN to leave it.",
+  "eventSettings.kioskPinMissing": "No PIN is set yet, so kiosks can't be left.",
+  "eventSettings.capacity": "Department capacity",
+  "eventSettings.capacityHint": "Registrations beyond a department's seats are waitlisted and promoted in order as seats free up. Leave blank for no limit.",
+  "eventSettings.save": "Save Settings",
+  "eventSettings.saved": "Event settings saved",
+  "eventSettings.saveFailed": "Failed to save event settings",
+  "eventSettings.capacityLoadFailed": "Failed to load department capacities",
+  "eventSettings.nameRequired": "Event name is required",
+  "eventSettings.closesBeforeOpens": "The closing time must be after the opening time",
+  "eventSettings.maxRegistrationsInvalid": "Maximum registrations must be a whole number above zero, or blank for no limit",
+  "eventSettings.capacityInvalid": "Department capacities must be whole numbers, or blank for no limit",
+  "eventSettings.feeInvalid": "The registration fee must be an amount above zero, or blank for a free event",
+  "eventSettings.kioskPinInvalid": "The kiosk PIN must be 4 to 8 digits",
+  "duplicatePolicy.block": "Block",
+  "duplicatePolicy.blockDescription": "Reject a second registration with the same email or mobile number.",
+  "duplicatePolicy.warn": "Warn",
+  "duplicatePolicy.warnDescription": "Ask the registrant to confirm, then accept it and flag it for review.",
+  "duplicatePolicy.allow": "Allow",
+  "duplicatePolicy.allowDescription": "Accept repeat registrations without any checks.",
+  "fieldType.text": "Short text",
+  "fieldType.textarea": "Paragraph",
+  "fieldType.number": "Number",
+  "fieldType.email": "Email",
+  "fieldType.select": "Dropdown",
+  "fieldType.radio": "Multiple choice",
+  "fieldType.checkbox": "Checkbox",
+  "fieldType.date": "Date",
+  "formBuilder.description": "Add custom questions to the registration form of each event",
+  "formBuilder.customFields": "Custom Fields",
+  "formBuilder.addField": "Add Field",
+  "formBuilder.saveField": "Save Field",
+  "formBuilder.empty": "This event only uses the standard registration fields.",
+  "formBuilder.preview": "Live Preview",
+  "formBuilder.previewEmpty": "Custom fields you add will appear here below the standard registration fields.",
+  "formBuilder.previewValid": "All answers are valid",
+  "formBuilder.testValidation": "Test Validation",
+  "formBuilder.untitled": "Untitled field",
+  "formBuilder.label": "Label",
+  "formBuilder.labelPlaceholder": "e.g. T-shirt size",
+  "formBuilder.key": "Field Key",
+  "formBuilder.type": "Type",
+  "formBuilder.placeholder": "Placeholder",
+  "formBuilder.options": "Options (one per line)",
+  "formBuilder.minValue": "Minimum value",
+  "formBuilder.maxValue": "Maximum value",
+  "formBuilder.minLength": "Minimum length",
+  "formBuilder.maxLength": "Maximum length",
+  "formBuilder.pattern": "Pattern (regular expression)",
+  "formBuilder.required": "Required",
+  "formBuilder.showInTable": "Show as table column",
+  "formBuilder.labelRequired": "Label is required",
+  "formBuilder.keyInvalid": "Field key must start with a letter and contain only lowercase letters, digits and underscores",
+  "formBuilder.keyTaken": "Another field already uses this key",
+  "formBuilder.optionsTooFew": "Add at least two options",
+  "formBuilder.minAboveMax": "Minimum cannot be greater than maximum",
+  "formBuilder.patternInvalid": "Pattern is not a valid regular expression",
+  "formBuilder.saved": "Field saved",
+  "formBuilder.saveFailed": "Failed to save field",
+  "formBuilder.reorderFailed": "Failed to reorder fields",
+  "formBuilder.deleted": "Field deleted",
+  "formBuilder.deleteFailed": "Failed to delete field",
+  "formBuilder.deleteTitle": "Delete Field",
+  "formBuilder.deleteDescription": "\"{label}\" will be removed from the form. Answers already submitted are kept on each registration but will no longer be shown.",
+  "attemptReason.honeypot": "Honeypot",
+  "attemptReason.honeypotDescription": "Filled in the hidden field only bots see",
+  "attemptReason.tooFast": "Too fast",
+  "attemptReason.tooFastDescription": "Sent sooner after opening the form than a person could",
+  "attemptReason.challengeInvalid": "Failed challenge",
+  "attemptReason.challengeInvalidDescription": "Missing, expired or wrong proof-of-work solution",
+  "attemptReason.challengeReused": "Reused challenge",
+  "attemptReason.challengeReusedDescription": "Replayed an already used solution",
+  "attemptReason.ipRateLimited": "IP rate limit",
+  "attemptReason.ipRateLimitedDescription": "Too many calls from one IP address",
+  "attemptReason.emailRateLimited": "Email rate limit",
+  "attemptReason.emailRateLimitedDescription": "Too many submissions for one email",
+  "attempts.description": "Submissions, uploads and verification code requests the spam protection turned away, newest first (up to {limit})",
+  "attempts.loadFailed": "Failed to load blocked attempts",
+  "attempts.searchPlaceholder": "Search by IP address or email...",
+  "attempts.reason": "Reason",
+  "attempts.allReasons": "All Reasons",
+  "attempts.time": "Time",
+  "attempts.action": "Action",
+  "attempts.actionSubmit": "Submit",
+  "attempts.actionUpload": "Upload",
+  "attempts.actionVerify": "Verification code",
+  "attempts.ipAddress": "IP Address",
+  "attempts.event": "Event",
+  "attempts.unknownEvent": "Unknown event",
+  "attempts.empty": "No blocked attempts",
+  "consentKind.privacy": "Privacy policy",
+  "consentKind.terms": "Terms",
+  "consentKind.marketing": "Marketing",
+  "consents.description": "Publish privacy and terms texts and find registrations that need to consent again",
+  "consents.current": "Current Documents",
+  "consents.currentHint": "These apply to every event. Publishing a new version never changes what earlier registrations accepted.",
+  "consents.requiredPublished": "Required · published {date}",
+  "consents.optionalPublished": "Optional · published {date}",
+  "consents.notPublished": "Not published",
+  "consents.newVersion": "New Version",
+  "consents.publish": "Publish",
+  "consents.publishing": "Publishing...",
+  "consents.outdated": "Outdated Consents",
+  "consents.outdatedCount": "{count} of {total} registrations",
+  "consents.needsConsentFor": "Needs consent for",
+  "consents.allAccepted": "Every registration has accepted the current documents",
+  "consents.publishTitle": "Publish {kind}",
+  "consents.publishNext": "Publishes version {version}. New registrations must accept it; existing ones keep the version they accepted.",
+  "consents.publishFirst": "Publishes version 1. New registrations will be asked to accept it.",
+  "consents.title": "Title",
+  "consents.text": "Text",
+  "consents.required": "Required",
+  "consents.requiredHint": "Registrants can't submit without accepting it.",
+  "consents.textRequired": "Title and text are required",
+  "consents.published": "{title} v{version} published",
+  "consents.publishFailed": "Failed to publish the document",
+  "login.back": "Back to Registration",
+  "login.title": "Admin Login",
+  "login.description": "Sign in to access the admin dashboard",
+  "login.password": "Password",
+  "login.signIn": "Sign In",
+  "login.signingIn": "Signing in...",
+  "login.needAccess": "Need admin access?",
+  "login.createAccount": "Create an account",
+  "login.invalidCredentials": "Invalid email or password",
+  "login.unexpectedError": "An unexpected error occurred",
+  "signup.back": "Back to Login",
+  "signup.title": "Create Admin Account",
+  "signup.description": "Sign up to manage registrations",
+  "signup.creating": "Creating Account...",
+  "signup.haveAccount": "Already have an account?",
+  "signup.signIn": "Sign in",
+  "signup.alreadyRegistered": "This email is already registered. Please sign in.",
+  "signup.roleFailed": "Account created but failed to assign admin role",
+  "signup.created": "Admin account created successfully!",
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,765 @@
+import type { Messages } from "@/locales/en";
+
+export const hi: Messages = {
+  // Validation messages
+  "validation.addressLine1Required": "कृपया अपना पता दर्ज करें",
+  "validation.addressLineTooLong": "पते की पंक्ति 200 अक्षरों से कम होनी चाहिए",
+  "validation.cityRequired": "कृपया अपना शहर दर्ज करें",
+  "validation.cityTooLong": "शहर 100 अक्षरों से कम होना चाहिए",
+  "validation.stateRequired": "कृपया अपना राज्य दर्ज करें",
+  "validation.stateTooLong": "राज्य 100 अक्षरों से कम होना चाहिए",
+  "validation.postalCodeRequired": "कृपया अपना पोस्टल कोड दर्ज करें",
+  "validation.countryRequired": "कृपया देश चुनें",
+  "validation.postalCodeInvalid": "कृपया मान्य {label} दर्ज करें",
+  "validation.fullNameTooShort": "पूरा नाम कम से कम 2 अक्षरों का होना चाहिए",
+  "validation.fullNameTooLong": "पूरा नाम 100 अक्षरों से कम होना चाहिए",
+  "validation.mobileRequired": "कृपया अपना मोबाइल नंबर दर्ज करें",
+  "validation.emailInvalid": "कृपया मान्य ईमेल पता दर्ज करें",
+  "validation.emailTooLong": "ईमेल 255 अक्षरों से कम होना चाहिए",
+  "validation.genderRequired": "कृपया लिंग चुनें",
+  "validation.departmentRequired": "कृपया विभाग चुनें",
+  "validation.confirmationCodeInvalid": "कृपया अपना 8 अक्षरों का पुष्टि नंबर दर्ज करें",
+  "validation.contactRequired": "कृपया वह ईमेल या मोबाइल नंबर दर्ज करें जिससे आपने पंजीकरण किया था",
+  "validation.contactInvalid": "कृपया मान्य ईमेल या मोबाइल नंबर दर्ज करें",
+  "validation.registeredEmailInvalid": "कृपया वह ईमेल पता दर्ज करें जिससे आपने पंजीकरण किया था",
+  "validation.mobileTooShort": "चुने गए देश के लिए मोबाइल नंबर बहुत छोटा है",
+  "validation.mobileTooLong": "चुने गए देश के लिए मोबाइल नंबर बहुत लंबा है",
+  "validation.countryCodeRequired": "कृपया देश कोड चुनें",
+  "validation.mobileInvalid": "कृपया मान्य मोबाइल नंबर दर्ज करें",
+  "validation.mobileInvalidForCountry": "कृपया चुने गए देश के लिए मान्य मोबाइल नंबर दर्ज करें",
+  "validation.customChecked": "{label} पर सही का निशान लगाना आवश्यक है",
+  "validation.customRequired": "{label} आवश्यक है",
+  "validation.customNumber": "{label} एक संख्या होनी चाहिए",
+  "validation.customMin": "{label} कम से कम {min} होना चाहिए",
+  "validation.customMax": "{label} अधिकतम {max} होना चाहिए",
+  "validation.customEmail": "{label} एक मान्य ईमेल पता होना चाहिए",
+  "validation.customDate": "{label} एक मान्य तारीख होनी चाहिए",
+  "validation.customMinLength": "{label} कम से कम {min} अक्षरों का होना चाहिए",
+  "validation.customMaxLength": "{label} {max} अक्षरों से कम होना चाहिए",
+  "validation.customPattern": "{label} अपेक्षित प्रारूप में नहीं है",
+  "validation.customSelect": "कृपया {label} चुनें",
+  "validation.passwordTooShort": "पासवर्ड कम से कम 6 अक्षरों का होना चाहिए",
+  "validation.passwordTooLong": "पासवर्ड 100 अक्षरों से कम होना चाहिए",
+  // Departments
+  "department.engineering": "इंजीनियरिंग",
+  "department.marketing": "मार्केटिंग",
+  "department.sales": "बिक्री",
+  "department.humanResources": "मानव संसाधन",
+  "department.finance": "वित्त",
+  "department.operations": "संचालन",
+  "department.customerSupport": "ग्राहक सहायता",
+  "department.researchDevelopment": "अनुसंधान एवं विकास",
+  "department.legal": "विधि",
+  "department.other": "अन्य",
+  // Shared
+  "common.yes": "हाँ",
+  "common.no": "नहीं",
+  "common.cancel": "रद्द करें",
+  "common.edit": "बदलें",
+  "common.close": "बंद करें",
+  "common.saving": "सहेजा जा रहा है...",
+  // Address fields
+  "address.pinCode": "पिन कोड",
+  "address.postalCode": "पोस्टल कोड",
+  "address.label": "पता",
+  "address.line1Placeholder": "मकान / फ़्लैट नंबर, गली",
+  "address.line2Label": "पते की पंक्ति 2",
+  "address.line2Placeholder": "क्षेत्र, लैंडमार्क (वैकल्पिक)",
+  "address.country": "देश",
+  "address.countryPlaceholder": "देश चुनें",
+  "address.pinCodePlaceholder": "6 अंकों का पिन कोड",
+  "address.postalCodePlaceholder": "पोस्टल कोड",
+  "address.filledFromPinCode": "शहर और राज्य पिन कोड से भरे गए हैं",
+  "address.pinCodeNotFound": "पिन कोड नहीं मिला, कृपया शहर और राज्य दर्ज करें",
+  "address.city": "शहर / ज़िला",
+  "address.cityPlaceholder": "शहर",
+  "address.state": "राज्य",
+  "address.statePlaceholder": "राज्य",
+  // Registration fields
+  "field.fullName": "पूरा नाम",
+  "field.fullNamePlaceholder": "अपना पूरा नाम दर्ज करें",
+  "field.mobileNumber": "मोबाइल नंबर",
+  "field.mobileNumberPlaceholder": "अपना मोबाइल नंबर दर्ज करें",
+  "field.email": "ईमेल पता",
+  "field.emailPlaceholder": "अपना ईमेल दर्ज करें",
+  "field.gender": "लिंग",
+  "field.genderPlaceholder": "लिंग चुनें",
+  "gender.male": "पुरुष",
+  "gender.female": "महिला",
+  "gender.other": "अन्य",
+  "field.department": "विभाग",
+  "field.departmentPlaceholder": "विभाग चुनें",
+  "field.departmentFull":
+    "यह विभाग भर चुका है। आपको प्रतीक्षा सूची में जोड़ा जाएगा और सीट खाली होते ही अपने आप आगे बढ़ाया जाएगा।",
+  "capacity.waitlistOnly": "केवल प्रतीक्षा सूची",
+  "capacity.seatsLeft": "{count} सीटें बाकी",
+  "capacity.oneSeatLeft": "1 सीट बाकी",
+  "field.selectPlaceholder": "{label} चुनें",
+  // Wizard
+  "wizard.personalDetails": "व्यक्तिगत विवरण",
+  "wizard.contact": "संपर्क",
+  "wizard.departmentAddress": "विभाग और पता",
+  "wizard.photoDocuments": "फ़ोटो और दस्तावेज़",
+  "wizard.review": "समीक्षा",
+  "wizard.stepOf": "चरण {step} / {total}",
+  "wizard.next": "आगे",
+  "wizard.back": "पीछे",
+  "review.email": "ईमेल",
+  "review.yourPhoto": "आपकी फ़ोटो",
+  // Documents
+  "document.idProof": "पहचान प्रमाण",
+  "document.offerLetter": "ऑफ़र लेटर",
+  "document.certificate": "प्रमाणपत्र",
+  "document.other": "अन्य",
+  "document.typeNotAllowed": "{name}: केवल PDF, JPG, PNG या WebP फ़ाइलें स्वीकार्य हैं",
+  "document.tooLarge": "{name}: {type} फ़ाइलें {size} से छोटी होनी चाहिए",
+  "document.tooMany": "{name}: आप अधिकतम {max} दस्तावेज़ संलग्न कर सकते हैं",
+  "document.typeLabel": "दस्तावेज़ का प्रकार",
+  "document.remove": "{name} हटाएँ",
+  "document.add": "दस्तावेज़ जोड़ें",
+  "document.dragHere": "या उन्हें यहाँ खींचकर छोड़ें",
+  "document.limits": "PDF 5MB तक, चित्र 3MB तक · {max} में से {remaining} बाकी",
+  "upload.failed": "{name} अपलोड नहीं हो सका",
+  "upload.rateLimited": "आपके नेटवर्क से बहुत अधिक अपलोड हुए हैं, कृपया बाद में पुनः प्रयास करें",
+  // Photo
+  "photo.chooseImage": "कृपया JPG, PNG या WebP चित्र चुनें",
+  "photo.tooLarge": "यह चित्र बहुत बड़ा है, कृपया 25MB से छोटा चित्र चुनें",
+  "photo.preview": "पूर्वावलोकन",
+  "photo.adjust": "समायोजित करें",
+  "photo.adjustLabel": "फ़ोटो समायोजित करें",
+  "photo.remove": "फ़ोटो हटाएँ",
+  "photo.uploadTab": "अपलोड करें",
+  "photo.cameraTab": "फ़ोटो लें",
+  "photo.clickToUpload": "अपलोड करने के लिए क्लिक करें",
+  "photo.dragAndDrop": "या खींचकर छोड़ें",
+  "photo.formats": "JPG, PNG या WebP — अपने आप क्रॉप और कंप्रेस होती है",
+  "photo.cameraBlocked":
+    "कैमरा एक्सेस रोका गया है। ब्राउज़र सेटिंग्स में कैमरा एक्सेस की अनुमति दें, या इसके बजाय फ़ोटो अपलोड करें।",
+  "photo.noCamera": "इस डिवाइस पर कोई कैमरा उपलब्ध नहीं है।",
+  "photo.uploadInstead": "इसके बजाय फ़ोटो अपलोड करें",
+  "photo.captured": "ली गई फ़ोटो",
+  "photo.retake": "फिर से लें",
+  "photo.usePhoto": "फ़ोटो इस्तेमाल करें",
+  "photo.faceGuide": "अपना चेहरा अंडाकार के अंदर रखें और कैमरे की ओर देखें",
+  "photo.holdStill": "स्थिर रहें...",
+  "photo.takePhoto": "फ़ोटो लें",
+  "photo.editorTitle": "अपनी फ़ोटो समायोजित करें",
+  "photo.editorDescription": "अपना चेहरा वर्ग में लाने के लिए खींचें, फिर ज़रूरत हो तो ज़ूम करें या घुमाएँ।",
+  "photo.zoom": "ज़ूम",
+  "photo.rotateLeft": "बाएँ घुमाएँ",
+  "photo.rotateRight": "दाएँ घुमाएँ",
+  "photo.processing": "प्रोसेस हो रहा है...",
+  "photo.unreadable": "यह चित्र पढ़ा नहीं जा सका",
+  "photo.processFailed": "यह चित्र प्रोसेस नहीं हो सका",
+  // Phone
+  "phone.countryCode": "देश कोड",
+  "phone.searchCountry": "देश खोजें...",
+  "phone.noCountry": "कोई देश नहीं मिला।",
+  // Verification
+  "verification.emailAddress": "ईमेल पता",
+  "verification.mobileNumber": "मोबाइल नंबर",
+  "verification.invalid": "यह कोड सही नहीं है, कृपया पुनः प्रयास करें",
+  "verification.expired": "इस कोड की समय-सीमा समाप्त हो गई है, कृपया नया कोड मँगाएँ",
+  "verification.tooManyAttempts": "बहुत अधिक गलत प्रयास, कृपया नया कोड मँगाएँ",
+  "verification.deliveryFailed": "हम कोड नहीं भेज सके, कृपया पता जाँचकर पुनः प्रयास करें",
+  "verification.rateLimited": "आपके नेटवर्क से बहुत अधिक कोड मांगे गए हैं, कृपया बाद में पुनः प्रयास करें",
+  "verification.sendFailed": "सत्यापन कोड भेजा नहीं जा सका",
+  "verification.verifyFailed": "कोड सत्यापित नहीं हो सका, कृपया पुनः प्रयास करें",
+  "verification.codeSent": "सत्यापन कोड {target} पर भेजा गया",
+  "verification.title": "अपना {channel} सत्यापित करें",
+  "verification.description": "{length} अंकों का वह कोड दर्ज करें जो हमने यहाँ भेजा है:",
+  "verification.resendIn": "{seconds} सेकंड में कोड फिर से भेजें",
+  "verification.resend": "कोड फिर से भेजें",
+  "verification.verifying": "सत्यापित हो रहा है...",
+  "verification.verify": "सत्यापित करें",
+  // Consent
+  "consent.label": "सहमति",
+  "consent.agreeTo": "मैंने {title} पढ़ ली है और मैं इससे सहमत हूँ",
+  "consent.optional": "(वैकल्पिक)",
+  "consent.read": "पढ़ें",
+  "consent.version": "संस्करण {version}",
+  // Registration window
+  "closed.pausedTitle": "पंजीकरण रुका हुआ है",
+  "closed.pausedDescription": "पंजीकरण अस्थायी रूप से रोका गया है। कृपया थोड़ी देर बाद फिर देखें।",
+  "closed.scheduledTitle": "पंजीकरण जल्द शुरू होगा",
+  "closed.scheduledDescription": "यह फ़ॉर्म अभी खुला नहीं है।",
+  "closed.closedTitle": "पंजीकरण बंद",
+  "closed.closedDescription": "इस कार्यक्रम के लिए पंजीकरण बंद हो चुका है।",
+  "closed.fullTitle": "पंजीकरण पूर्ण",
+  "closed.fullDescription": "यह कार्यक्रम पंजीकरण की अधिकतम संख्या तक पहुँच गया है।",
+  "closed.notFoundTitle": "पंजीकरण नहीं मिला",
+  "closed.notFoundDescription": "यह पंजीकरण फ़ॉर्म मौजूद नहीं है या अब प्रविष्टियाँ स्वीकार नहीं कर रहा है।",
+  "closed.opensOn": "यह {date} को खुलेगा।",
+  "closed.closedOn": "यह {date} को बंद हुआ।",
+  // Registration status
+  "status.submitted": "जमा किया गया",
+  "status.submittedDescription": "प्राप्त हुआ और समीक्षा की प्रतीक्षा में है।",
+  "status.underReview": "समीक्षाधीन",
+  "status.underReviewDescription": "आयोजक इसकी समीक्षा कर रहे हैं।",
+  "status.waitlisted": "प्रतीक्षा सूची में",
+  "status.waitlistedDescription": "विभाग भर चुका है। सीट खाली होते ही आप अपने आप आगे बढ़ जाएँगे।",
+  "status.approved": "स्वीकृत",
+  "status.approvedDescription": "पंजीकरण स्वीकृत हो गया है।",
+  "status.rejected": "अस्वीकृत",
+  "status.rejectedDescription": "पंजीकरण स्वीकार नहीं किया गया।",
+  "status.cancelled": "रद्द",
+  "status.cancelledDescription": "पंजीकरण रद्द कर दिया गया।",
+  // Submission
+  "submit.duplicateEmail": "यह ईमेल इस कार्यक्रम के लिए पहले से पंजीकृत है",
+  "submit.duplicateMobile": "यह मोबाइल नंबर इस कार्यक्रम के लिए पहले से पंजीकृत है",
+  "submit.rateLimited": "आपके नेटवर्क से या इस ईमेल के लिए बहुत अधिक पंजीकरण हुए हैं, कृपया बाद में पुनः प्रयास करें",
+  "submit.tooFast": "बहुत जल्दी! कृपया अपना विवरण जाँचें और फिर से जमा करें",
+  "submit.challengeInvalid": "हम आपके ब्राउज़र को सत्यापित नहीं कर सके, कृपया फिर से जमा करें",
+  "submit.rejected": "आपका पंजीकरण स्वीकार नहीं किया जा सका",
+  "submit.invalidValues": "कुछ विवरण मान्य नहीं हैं, कृपया फ़ॉर्म जाँचें",
+  "submit.paymentsUnavailable": "यह कार्यक्रम अभी सशुल्क पंजीकरण नहीं ले सकता। कृपया बाद में प्रयास करें या आयोजकों से संपर्क करें।",
+  "submit.failed": "पंजीकरण जमा नहीं हो सका",
+  // Admin: edit registration
+  "edit.title": "पंजीकरण संपादित करें",
+  "edit.status": "स्थिति",
+  "edit.adminMessage": "पंजीकर्ता के लिए संदेश",
+  "edit.adminMessagePlaceholder": "स्थिति पृष्ठ पर दिखाया जाता है, जैसे कि उस दिन क्या साथ लाना है",
+  "edit.saving": "सहेजा जा रहा है...",
+  "edit.save": "बदलाव सहेजें",
+  // Registration form
+  "form.saveFailed": "आपकी प्रगति सहेजी नहीं जा सकी",
+  "form.linkCopied": "लिंक कॉपी हो गया",
+  "form.linkCopyFailed": "लिंक कॉपी नहीं हो सका, कृपया इसे स्वयं कॉपी करें",
+  "form.photoRequired": "कृपया फ़ोटो अपलोड करें",
+  "form.photoType": "केवल JPG और PNG फ़ाइलें स्वीकार्य हैं",
+  "form.photoSize": "फ़ाइल का आकार 2MB से कम होना चाहिए",
+  "form.acceptConsent": "आगे बढ़ने के लिए कृपया {title} स्वीकार करें",
+  "form.checkStatus": "स्थिति जाँचें",
+  "form.changesSaved": "आपके बदलाव सहेज लिए गए हैं",
+  "form.saveChangesFailed": "आपके बदलाव सहेजे नहीं जा सके",
+  "form.documentsNotSaved": "आपका पंजीकरण जमा हो गया, लेकिन दस्तावेज़ सहेजे नहीं जा सके",
+  "form.submitted": "पंजीकरण सफलतापूर्वक जमा हुआ!",
+  "form.consentsUpdated": "सहमति के पाठ अपडेट हुए हैं, कृपया उन्हें देखकर फिर से स्वीकार करें",
+  "form.consentsUpdatedToast": "सहमति के पाठ अपडेट हुए हैं, कृपया उन्हें फिर से देखें",
+  "form.eventClosed": "क्षमा करें, इस कार्यक्रम ने पंजीकरण लेना बंद कर दिया है",
+  "form.codeCopied": "पुष्टि नंबर कॉपी हो गया",
+  "form.codeCopyFailed": "पुष्टि नंबर कॉपी नहीं हो सका, कृपया इसे लिख लें",
+  "form.emailVerified": "ईमेल सत्यापित हुआ",
+  "form.mobileVerified": "मोबाइल नंबर सत्यापित हुआ",
+  "form.changesSavedTitle": "बदलाव सहेजे गए",
+  "form.waitlistTitle": "आप प्रतीक्षा सूची में हैं",
+  "form.successTitle": "पंजीकरण सफल!",
+  "form.changesSavedDescription": "आपका पंजीकरण अपडेट हो गया है। संपादन लिंक का फिर से उपयोग नहीं किया जा सकता।",
+  "form.waitlistDescription":
+    "आपका विभाग भर चुका है, इसलिए प्रतीक्षा सूची में आपका क्रमांक {position} है। सीट खाली होते ही हम आपको अपने आप आगे बढ़ा देंगे।",
+  "form.successDescription": "पंजीकरण के लिए धन्यवाद। हम जल्द ही आपसे संपर्क करेंगे।",
+  "form.confirmationNumber": "आपका पुष्टि नंबर",
+  "form.copyConfirmationNumber": "पुष्टि नंबर कॉपी करें",
+  "form.keepItTo": "इसे संभालकर रखें, ताकि बाद में",
+  "form.checkYourStatus": "अपने पंजीकरण की स्थिति जाँच सकें",
+  "form.later": "।",
+  "form.submitAnother": "एक और पंजीकरण जमा करें",
+  "form.saveForLater": "सहेजें और बाद में जारी रखें",
+  "form.progressSaved": "आपकी प्रगति सहेज ली गई है",
+  "form.resumeLinkDescription": "किसी भी डिवाइस पर अपना पंजीकरण जारी रखने के लिए इस लिंक का उपयोग करें",
+  "form.resumeLinkUntil": "{date} तक",
+  "form.resumeLinkPrivate": "लिंक वाला कोई भी व्यक्ति आपकी भरी जानकारी देख सकता है, इसलिए इसे निजी रखें।",
+  "form.copyLink": "लिंक कॉपी करें",
+  "form.alreadyRegistered": "पहले से पंजीकृत हैं?",
+  "form.submitAnyway": "फिर भी जमा करें",
+  "form.submitAnywayQuestion": "क्या फिर भी एक और पंजीकरण जमा करना है?",
+  "form.uploadPhoto": "फ़ोटो अपलोड करें",
+  "form.supportingDocuments": "सहायक दस्तावेज़",
+  "form.supportingDocumentsHint": "(वैकल्पिक: पहचान प्रमाण, ऑफ़र लेटर, प्रमाणपत्र)",
+  "form.saving": "सहेजा जा रहा है...",
+  "form.submitting": "जमा हो रहा है...",
+  "form.saveChanges": "बदलाव सहेजें",
+  "form.submit": "पंजीकरण जमा करें",
+  // Drafts
+  "draft.photoLoadFailed": "सहेजी गई फ़ोटो लोड नहीं हो सकी",
+  "draft.linkExpired": "यह लिंक समाप्त हो चुका है या अमान्य है",
+  "draft.restored": "फिर से स्वागत है! आपकी सहेजी गई प्रगति वापस ला दी गई है।",
+  // Offline outbox
+  "outbox.queued": "आप ऑफ़लाइन हैं। पंजीकरण इस डिवाइस पर सहेज लिया गया है और ऑनलाइन होते ही भेज दिया जाएगा",
+  "outbox.queueFailed": "पंजीकरण इस डिवाइस पर सहेजा नहीं जा सका",
+  "outbox.verificationOffline": "संपर्क विवरण सत्यापित करने के लिए कनेक्शन चाहिए, कृपया ऑनलाइन होने पर पुनः प्रयास करें",
+  "outbox.offline": "आप ऑफ़लाइन हैं। नए पंजीकरण इस डिवाइस पर सहेजे जाते हैं और बाद में भेजे जाते हैं।",
+  "outbox.title": "इस डिवाइस पर सहेजे गए",
+  "outbox.pending": "भेजे जाने की प्रतीक्षा में",
+  "outbox.synced": "भेजा गया",
+  "outbox.failed": "नहीं भेजा गया",
+  "outbox.confirmationNumber": "पुष्टि नंबर {code}",
+  "outbox.sentWithoutCode": "पंजीकरण भेजा गया",
+  "outbox.retry": "पुनः प्रयास करें",
+  "outbox.dismiss": "हटाएँ",
+  "outbox.updateFailed": "सहेजा गया पंजीकरण अपडेट नहीं हो सका",
+  // Kiosk
+  "kiosk.noteCode": "इस नंबर की फ़ोटो ले लें या इसे लिख लें",
+  "kiosk.done": "हो गया",
+  "kiosk.startingOver": "{seconds} सेकंड में फिर से शुरू होगा",
+  "kiosk.exit": "कियोस्क से बाहर निकलें",
+  "kiosk.exitTitle": "कियोस्क मोड से बाहर निकलें",
+  "kiosk.exitDescription": "केवल कर्मचारियों के लिए। कार्यक्रम सेटिंग्स में तय किया गया कियोस्क PIN दर्ज करें।",
+  "kiosk.pin": "PIN",
+  "kiosk.pinInvalid": "PIN 4 से 8 अंकों का होता है",
+  "kiosk.pinWrong": "यह PIN सही नहीं है। पाँच गलत प्रयासों के बाद पाँच मिनट के लिए बाहर निकलना बंद हो जाता है।",
+  "kiosk.pinCheckFailed": "PIN जाँचा नहीं जा सका, कृपया ऑनलाइन होने पर पुनः प्रयास करें",
+  // Group registration
+  "group.justMe": "सिर्फ़ मैं",
+  "group.withOthers": "मैं और अन्य लोग",
+  "group.yourDetails": "आपका विवरण",
+  "group.title": "जिन लोगों का आप पंजीकरण कर रहे हैं",
+  "group.description": "हर व्यक्ति को अपना पुष्टि नंबर मिलेगा। उनका पता और उत्तर आपके जैसे रहेंगे, और विभाग भी, जब तक आप कोई दूसरा न चुनें।",
+  "group.person": "व्यक्ति {number}",
+  "group.remove": "इस व्यक्ति को हटाएँ",
+  "group.add": "एक व्यक्ति जोड़ें",
+  "group.sameDepartment": "मेरे जैसा ही",
+  "group.consentNote": "आप इन्हें उन सभी की ओर से स्वीकार कर रहे हैं जिनका आप पंजीकरण कर रहे हैं।",
+  "group.offline": "समूह पंजीकरण के लिए कनेक्शन ज़रूरी है। ऑनलाइन होने पर फिर से प्रयास करें।",
+  "group.confirmationNumbers": "अन्य लोगों के पुष्टि नंबर",
+  "group.tooFew": "कम से कम एक और व्यक्ति जोड़ें, या सिर्फ़ अपना पंजीकरण करें",
+  "group.tooMany": "आप एक साथ अधिकतम {max} अन्य लोगों का पंजीकरण कर सकते हैं",
+  // Invite codes
+  "invite.label": "आमंत्रण कोड",
+  "invite.placeholder": "उदा. AB2C-D3EF",
+  "invite.apply": "लागू करें",
+  "invite.required": "यह कार्यक्रम केवल आमंत्रण से है। कृपया अपना आमंत्रण कोड दर्ज करें।",
+  "invite.valid": "आमंत्रण कोड स्वीकार किया गया",
+  "invite.validDepartment": "{department} के लिए आमंत्रण कोड स्वीकार किया गया",
+  "invite.invalid": "यह आमंत्रण कोड इस कार्यक्रम के लिए मान्य नहीं है",
+  "invite.expired": "इस आमंत्रण कोड की अवधि समाप्त हो गई है",
+  "invite.usedUp": "यह आमंत्रण कोड पहले ही इस्तेमाल हो चुका है",
+  "invite.notEnoughUses": "यह आमंत्रण कोड केवल {count} और पंजीकरणों के लिए मान्य है",
+  "invite.checkFailed": "आमंत्रण कोड जाँचा नहीं जा सका, कृपया फिर से प्रयास करें",
+  "invite.fixCode": "कृपया फ़ॉर्म के ऊपर दिया आमंत्रण कोड जाँचें",
+  // Employee roster
+  "roster.employeeId": "कर्मचारी आईडी",
+  "roster.employeeIdPlaceholder": "उदा. E10234",
+  "roster.employeeIdHint": "जैसा आपके HR रिकॉर्ड में है। ईमेल से मिलान के लिए खाली छोड़ें।",
+  "roster.matched": "कर्मचारी सूची में मिल गया",
+  "roster.notFound": "आप कर्मचारी सूची में नहीं मिले। कृपया अपना ईमेल या कर्मचारी आईडी जाँचें।",
+  "roster.notFoundFlag": "आप कर्मचारी सूची में नहीं मिले। आप फिर भी पंजीकरण कर सकते हैं, HR आपका विवरण जाँचेगा।",
+  "roster.coverageTitle": "अभी तक पंजीकरण नहीं हुआ",
+  "roster.coverageDescription": "सूची के {count} लोगों ने पंजीकरण नहीं किया है",
+  "roster.allRegistered": "सूची के सभी लोगों ने पंजीकरण कर लिया है",
+  "roster.viewMissing": "देखें किसने पंजीकरण नहीं किया",
+  "roster.download": "CSV डाउनलोड करें",
+  "roster.onRoster": "सूची में",
+  "roster.settingsLabel": "कर्मचारी सूची",
+  "roster.policyOff": "बंद",
+  "roster.policyOffDescription": "कोई भी पंजीकरण कर सकता है; सूची केवल कवरेज के लिए उपयोग होती है।",
+  "roster.policyFlag": "चिह्नित करें",
+  "roster.policyFlagDescription": "सूची में न होने वाले लोगों को स्वीकार करें और समीक्षा के लिए चिह्नित करें।",
+  "roster.policyBlock": "रोकें",
+  "roster.policyBlockDescription": "केवल सूची में शामिल लोग पंजीकरण कर सकते हैं।",
+  "roster.matchingNote": "पंजीकरण करने वालों का मिलान कर्मचारी आईडी या ईमेल से होता है, और उन्हें सूची वाले विभाग में रखा जाता है।",
+  "roster.size": "सूची में {count} लोग हैं। Email और/या Employee ID कॉलम वाली XLSX या CSV अपलोड करें, साथ में वैकल्पिक Name और Department।",
+  "roster.fileRead": "{file} से {count} लोग पढ़े गए। सहेजने पर मौजूदा सूची बदल दी जाएगी।",
+  "roster.fileReadSkipped": "{file} से {count} लोग पढ़े गए, ईमेल या कर्मचारी आईडी के बिना {skipped} पंक्तियाँ छोड़ी गईं। सहेजने पर मौजूदा सूची बदल दी जाएगी।",
+  "roster.fileMissingColumns": "फ़ाइल में Email या Employee ID कॉलम होना चाहिए",
+  "roster.fileEmpty": "फ़ाइल में ईमेल या कर्मचारी आईडी वाला कोई नहीं मिला",
+  "roster.fileUnreadable": "सूची फ़ाइल पढ़ी नहीं जा सकी",
+  // Payment
+  "payment.pending": "भुगतान बाकी",
+  "payment.paid": "भुगतान हो गया",
+  "payment.refunded": "धनवापसी हो गई",
+  "payment.title": "पंजीकरण शुल्क का भुगतान करें",
+  "payment.description": "आपका पंजीकरण हो गया है। पंजीकरण पूरा करने के लिए अभी शुल्क का भुगतान करें।",
+  "payment.descriptionWithCode": "आपका पंजीकरण पुष्टि संख्या {code} के साथ हो गया है। पंजीकरण पूरा करने के लिए अभी शुल्क का भुगतान करें।",
+  "payment.amountDue": "देय राशि",
+  "payment.perPerson": "{fee} प्रति व्यक्ति × {count}",
+  "payment.pay": "{amount} का भुगतान करें",
+  "payment.retry": "फिर से प्रयास करें",
+  "payment.payLater": "बाद में कार्यक्रम स्थल पर भुगतान करें",
+  "payment.payAtDesk": "पंजीकरण डेस्क पर भुगतान करें",
+  "payment.success": "भुगतान प्राप्त हुआ",
+  "payment.cancelled": "भुगतान रद्द कर दिया गया। आप फिर से प्रयास कर सकते हैं।",
+  "payment.notCompleted": "भुगतान पूरा नहीं हुआ। कृपया फिर से प्रयास करें।",
+  "payment.nothingToPay": "इस पंजीकरण के लिए कोई भुगतान बाकी नहीं है।",
+  "payment.failed": "भुगतान विफल रहा। कृपया फिर से प्रयास करें।",
+  "payment.unavailable": "ऑनलाइन भुगतान अभी उपलब्ध नहीं है। आप कार्यक्रम स्थल पर भुगतान कर सकते हैं।",
+  "payment.paidNote": "{amount} का भुगतान प्राप्त हुआ।",
+  "payment.laterNote": "{amount} का भुगतान अभी बाकी है। कृपया कार्यक्रम स्थल पर भुगतान करें।",
+  "payment.deskNote": "कृपया पंजीकरण डेस्क पर {amount} का भुगतान करें।",
+  "payment.deferredNote": "प्रतीक्षा सूची में शामिल लोगों से शुल्क सीट मिलने पर ही लिया जाएगा। तब वे पंजीकरण स्थिति पेज से भुगतान कर सकते हैं।",
+  // Pages
+  "language.label": "भाषा",
+  "header.checkStatus": "स्थिति जाँचें",
+  "header.admin": "एडमिन",
+  "index.heroTitle": "तेज़ और आसान",
+  "index.heroHighlight": "पंजीकरण",
+  "index.heroDescription": "कुछ ही मिनटों में अपना पंजीकरण पूरा करें। नीचे अपना विवरण भरें और शुरू करने के लिए अपनी फ़ोटो अपलोड करें।",
+  "index.footer": "© {year} SmartReg. सर्वाधिकार सुरक्षित।",
+  "page.backToRegistration": "पंजीकरण पर वापस जाएँ",
+  "statusPage.title": "पंजीकरण की स्थिति",
+  "statusPage.description": "अपना पुष्टि नंबर और वह ईमेल या मोबाइल नंबर दर्ज करें जिससे आपने पंजीकरण किया था",
+  "statusPage.confirmationNumber": "पुष्टि नंबर",
+  "statusPage.contact": "ईमेल या मोबाइल नंबर",
+  "statusPage.contactPlaceholder": "you@example.com या +91 98765 43210",
+  "statusPage.checking": "जाँच हो रही है...",
+  "statusPage.notFound":
+    "इन विवरणों से कोई पंजीकरण मेल नहीं खाता। पुष्टि नंबर जाँचें और वही ईमेल या मोबाइल नंबर इस्तेमाल करें जो आपके पंजीकरण में है।",
+  "statusPage.lookupFailed": "आपका पंजीकरण खोजा नहीं जा सका, कृपया पुनः प्रयास करें",
+  "statusPage.submittedOn": "जमा करने की तारीख",
+  "statusPage.fee": "पंजीकरण शुल्क",
+  "statusPage.payNow": "अभी भुगतान करें",
+  "statusPage.feeAfterWaitlist": "सीट मिलने पर आप यहाँ भुगतान कर सकेंगे।",
+  "statusPage.organiserMessage": "आयोजकों का संदेश",
+  "statusPage.requestEdit": "कुछ सुधारना है? संपादन लिंक मँगाएँ",
+  "editPage.checkEmail": "अपना ईमेल देखें",
+  "editPage.linkSent":
+    "यदि पुष्टि नंबर {email} से किए गए किसी पंजीकरण से मेल खाता है, तो हमने उसे संपादित करने का लिंक भेज दिया है। लिंक एक बार काम करता है और 24 घंटे में समाप्त हो जाता है।",
+  "editPage.title": "अपना पंजीकरण संपादित करें",
+  "editPage.linkExpired": "यह संपादन लिंक समाप्त हो चुका है या पहले ही इस्तेमाल हो चुका है। नीचे नया लिंक मँगाएँ।",
+  "editPage.description": "अपना विवरण सुधारने के लिए हम आपको एक सुरक्षित लिंक ईमेल करेंगे।",
+  "editPage.sending": "भेजा जा रहा है...",
+  "editPage.emailMeLink": "मुझे लिंक ईमेल करें",
+  "editPage.openFailed": "आपका पंजीकरण खोला नहीं जा सका, कृपया पुनः प्रयास करें",
+  "editPage.confirmationNumber": "पुष्टि नंबर",
+  "editPage.linkUsableUntil": "यह लिंक {date} तक एक बार इस्तेमाल किया जा सकता है।",
+  "editPage.deliveryFailed": "हम ईमेल नहीं भेज सके, कृपया बाद में पुनः प्रयास करें",
+  "editPage.requestFailed": "संपादन लिंक नहीं मँगाया जा सका",
+  "editPage.linkInvalid": "यह संपादन लिंक समाप्त हो चुका है या पहले ही इस्तेमाल हो चुका है, कृपया नया लिंक मँगाएँ",
+  // Admin
+  "admin.label": "एडमिन",
+  "admin.navDashboard": "डैशबोर्ड",
+  "admin.navFormBuilder": "फ़ॉर्म बिल्डर",
+  "admin.navConsents": "सहमतियाँ",
+  "admin.navAttempts": "रोके गए प्रयास",
+  "admin.navInvites": "आमंत्रण कोड",
+  "admin.signOut": "साइन आउट",
+  "dashboard.loadFailed": "पंजीकरण लोड नहीं हो सके",
+  "dashboard.deleted": "पंजीकरण सफलतापूर्वक हटाया गया",
+  "dashboard.deleteFailed": "पंजीकरण हटाया नहीं जा सका",
+  "dashboard.updated": "पंजीकरण सफलतापूर्वक अपडेट हुआ",
+  "dashboard.updateFailed": "पंजीकरण अपडेट नहीं हो सका",
+  "dashboard.exported": "निर्यात पूरा हुआ",
+  "dashboard.title": "डैशबोर्ड",
+  "dashboard.description": "सभी पंजीकरण प्रविष्टियाँ देखें और प्रबंधित करें",
+  "dashboard.eventRegistrations": "{event} के पंजीकरण",
+  "dashboard.allRegistrations": "सभी पंजीकरण",
+  "export.sheetName": "पंजीकरण",
+  "export.confirmationNo": "पुष्टि संख्या",
+  "export.name": "नाम",
+  "export.mobile": "मोबाइल",
+  "export.email": "ईमेल",
+  "export.gender": "लिंग",
+  "export.department": "विभाग",
+  "export.address": "पता",
+  "export.city": "शहर",
+  "export.state": "राज्य",
+  "export.postalCode": "पिन कोड",
+  "export.country": "देश",
+  "export.status": "स्थिति",
+  "export.waitlistPosition": "प्रतीक्षा सूची में स्थान",
+  "export.language": "भाषा",
+  "export.group": "समूह",
+  "export.employeeId": "कर्मचारी आईडी",
+  "export.roster": "रोस्टर",
+  "export.payment": "भुगतान",
+  "export.amount": "राशि",
+  "export.paymentReference": "भुगतान संदर्भ",
+  "export.source": "स्रोत",
+  "export.sourceWeb": "वेब",
+  "export.sourceKiosk": "कियोस्क ({device})",
+  "export.unknownDevice": "अज्ञात डिवाइस",
+  "export.registeredDate": "पंजीकरण तिथि",
+  "stats.total": "कुल पंजीकरण",
+  "stats.today": "आज की प्रविष्टियाँ",
+  "stats.departments": "विभाग",
+  "stats.growth": "वृद्धि दर",
+  "stats.capacity": "उपयोग की गई क्षमता",
+  "stats.capacityDetail": "{capacity} में से {taken} सीटें · {waitlisted} प्रतीक्षा सूची में",
+  "stats.roster": "सूची कवरेज",
+  "stats.rosterDetail": "{total} में से {registered} पंजीकृत",
+  "table.searchPlaceholder": "नाम, मोबाइल, ईमेल या पुष्टि नंबर से खोजें...",
+  "table.department": "विभाग",
+  "table.allDepartments": "सभी विभाग",
+  "table.state": "राज्य",
+  "table.allStates": "सभी राज्य",
+  "table.city": "शहर",
+  "table.allCities": "सभी शहर",
+  "table.status": "स्थिति",
+  "table.allStatuses": "सभी स्थितियाँ",
+  "table.clear": "साफ़ करें",
+  "table.export": "निर्यात करें",
+  "table.photo": "फ़ोटो",
+  "table.name": "नाम",
+  "table.mobile": "मोबाइल",
+  "table.email": "ईमेल",
+  "table.date": "तारीख",
+  "table.actions": "कार्रवाइयाँ",
+  "table.loading": "लोड हो रहा है...",
+  "table.empty": "कोई पंजीकरण नहीं मिला",
+  "table.possibleDuplicate": "संभावित डुप्लिकेट",
+  "table.groupOf": "{count} का समूह",
+  "table.showGroup": "सिर्फ़ यह समूह दिखाएँ",
+  "table.notOnRoster": "सूची में नहीं",
+  "table.payment": "भुगतान",
+  "table.allPayments": "सभी भुगतान",
+  "table.noFee": "कोई शुल्क नहीं",
+  "table.view": "देखें",
+  "table.edit": "संपादित करें",
+  "table.delete": "हटाएँ",
+  "table.showing": "{total} में से {from}-{to} दिखाए जा रहे हैं",
+  "table.deleteTitle": "पंजीकरण हटाएँ",
+  "table.deleteDescription":
+    "क्या आप वाकई यह पंजीकरण हटाना चाहते हैं? इसे वापस नहीं लाया जा सकता और इससे जुड़ी फ़ोटो भी हट जाएगी।",
+  "view.title": "पंजीकरण विवरण",
+  "view.possibleDuplicate": "संभावित डुप्लिकेट: यह ईमेल या मोबाइल नंबर पहले से पंजीकृत था",
+  "view.address": "पता",
+  "view.language": "पसंदीदा भाषा",
+  "view.registeredOn": "पंजीकरण की तारीख",
+  "view.registeredVia": "पंजीकरण का माध्यम",
+  "view.sourceWeb": "वेब फ़ॉर्म",
+  "view.sourceKiosk": "कियोस्क {device}",
+  "view.groupMembers": "साथ में पंजीकृत",
+  "view.groupSubmitter": "समूह जमा करने वाले",
+  "view.employeeId": "कर्मचारी आईडी",
+  "view.roster": "कर्मचारी सूची",
+  "view.rosterMatched": "सूची में है",
+  "view.rosterUnmatched": "सूची में नहीं है",
+  "view.payment": "भुगतान",
+  "view.paidOn": "{date} को {provider} से भुगतान हुआ",
+  "view.paymentManual": "दर्ज किए गए भुगतान",
+  "view.paymentReference": "संदर्भ",
+  "view.paymentReferencePlaceholder": "रसीद या लेन-देन संख्या (वैकल्पिक)",
+  "view.recordPayment": "भुगतान दर्ज करें",
+  "view.markRefunded": "धनवापसी के रूप में चिह्नित करें",
+  "view.markRefundedHint": "केवल रिकॉर्ड बदलता है; पैसे भुगतान गेटवे से या व्यक्तिगत रूप से लौटाएं।",
+  "view.additionalDetails": "अतिरिक्त विवरण",
+  "verification.verifiedOn": "{date} को सत्यापित",
+  "verification.verified": "सत्यापित",
+  "verification.unverified": "असत्यापित",
+  "consent.acceptedOn": "{date} को स्वीकार किया",
+  "consent.noneRecorded": "कोई सहमति दर्ज नहीं",
+  "consent.issueNotAccepted": "{title}: स्वीकार नहीं किया (वर्तमान v{current})",
+  "consent.issueOutdated": "{title}: v{accepted} (वर्तमान v{current})",
+  "document.sectionTitle": "दस्तावेज़",
+  "document.openFailed": "दस्तावेज़ खोला नहीं जा सका",
+  "document.preview": "{name} का पूर्वावलोकन",
+  "document.download": "{name} डाउनलोड करें",
+  "history.title": "बदलाव का इतिहास",
+  "history.admin": "एडमिन",
+  "history.registrant": "पंजीकर्ता",
+  "history.system": "सिस्टम",
+  "invites.title": "आमंत्रण कोड",
+  "invites.description": "कोड विभाग पहले से तय करते हैं; कोड अनिवार्य करने के लिए इवेंट सेटिंग्स में केवल आमंत्रण चालू करें",
+  "invites.descriptionInviteOnly": "यह इवेंट केवल इन कोड में से किसी एक के साथ पंजीकरण लेता है",
+  "invites.statCodes": "कोड",
+  "invites.statCodesDescription": "इस इवेंट के लिए बनाए गए",
+  "invites.statRedemptions": "उपयोग",
+  "invites.statRedemptionsDescription": "कोड से किए गए पंजीकरण",
+  "invites.statUsedUpDescription": "जिन कोड का कोई उपयोग बाकी नहीं",
+  "invites.statExpiredDescription": "जिन कोड की समय-सीमा बीत चुकी है",
+  "invites.stateActive": "सक्रिय",
+  "invites.stateUsedUp": "उपयोग हो चुका",
+  "invites.stateExpired": "समाप्त",
+  "invites.searchPlaceholder": "कोड, लेबल या विभाग से खोजें...",
+  "invites.generate": "कोड बनाएँ",
+  "invites.code": "कोड",
+  "invites.label": "लेबल",
+  "invites.uses": "उपयोग",
+  "invites.expires": "समाप्ति",
+  "invites.never": "कभी नहीं",
+  "invites.anyDepartment": "कोई भी",
+  "invites.empty": "कोई आमंत्रण कोड नहीं",
+  "invites.copyLink": "आमंत्रण लिंक कॉपी करें",
+  "invites.linkCopied": "आमंत्रण लिंक कॉपी हो गया",
+  "invites.copyFailed": "लिंक कॉपी नहीं हो सका",
+  "invites.loadFailed": "आमंत्रण कोड लोड नहीं हो सके",
+  "invites.delete": "आमंत्रण कोड हटाएँ",
+  "invites.deleteTitle": "आमंत्रण कोड हटाएँ",
+  "invites.deleteDescription": "\"{code}\" काम करना बंद कर देगा। इससे पहले किए गए पंजीकरण बने रहेंगे।",
+  "invites.deleted": "आमंत्रण कोड हटा दिया गया",
+  "invites.deleteFailed": "आमंत्रण कोड हटाया नहीं जा सका",
+  "invites.generateTitle": "आमंत्रण कोड बनाएँ",
+  "invites.generateDescription": "नए कोड हर एक के पंजीकरण लिंक के साथ CSV के रूप में डाउनलोड होते हैं, मेल मर्ज के लिए तैयार।",
+  "invites.count": "कोड की संख्या",
+  "invites.maxUses": "प्रति कोड उपयोग",
+  "invites.registrantChooses": "पंजीकरणकर्ता चुनेगा",
+  "invites.departmentHint": "इन कोड से किए गए पंजीकरण इसी विभाग में रखे जाते हैं।",
+  "invites.expiresHint": "कभी समाप्त न होने वाले कोड के लिए खाली छोड़ें।",
+  "invites.labelPlaceholder": "जैसे साझेदार कॉलेज",
+  "invites.generateSubmit": "बनाएँ",
+  "invites.countInvalid": "एक बार में 1 से {max} कोड बनाएँ",
+  "invites.maxUsesInvalid": "प्रति कोड उपयोग कम से कम 1 की पूर्ण संख्या होनी चाहिए",
+  "invites.expiryInPast": "समाप्ति भविष्य में होनी चाहिए",
+  "invites.generated": "{count} आमंत्रण कोड बनाए गए",
+  "invites.generateFailed": "आमंत्रण कोड नहीं बन सके",
+  "events.select": "कार्यक्रम चुनें",
+  "events.inactive": "(निष्क्रिय)",
+  "events.copyLink": "लिंक कॉपी करें",
+  "events.linkCopied": "फ़ॉर्म लिंक कॉपी हो गया",
+  "events.settings": "सेटिंग्स",
+  "events.new": "नया कार्यक्रम",
+  "events.newDescription": "हर कार्यक्रम का अपना सार्वजनिक पंजीकरण फ़ॉर्म और सबमिशन की अपनी सूची होती है।",
+  "events.name": "नाम",
+  "events.namePlaceholder": "जैसे स्प्रिंग हैकथॉन 2026",
+  "events.slug": "URL स्लग",
+  "events.description": "विवरण",
+  "events.descriptionPlaceholder": "पंजीकरण फ़ॉर्म के ऊपर दिखाया जाता है",
+  "events.creating": "बनाया जा रहा है...",
+  "events.create": "कार्यक्रम बनाएँ",
+  "events.nameRequired": "कार्यक्रम का नाम और URL स्लग आवश्यक हैं",
+  "events.slugTaken": "इस URL स्लग वाला कार्यक्रम पहले से मौजूद है",
+  "events.created": "कार्यक्रम सफलतापूर्वक बनाया गया",
+  "events.createFailed": "कार्यक्रम बनाने में विफल",
+  "eventSettings.title": "कार्यक्रम सेटिंग्स",
+  "eventSettings.description": "बदलाव {path} पर सार्वजनिक फ़ॉर्म पर तुरंत लागू होते हैं।",
+  "eventSettings.active": "सक्रिय",
+  "eventSettings.activeHint": "निष्क्रिय कार्यक्रम जनता से छिपे रहते हैं।",
+  "eventSettings.paused": "पंजीकरण रोकें",
+  "eventSettings.pausedHint": "समय-सारणी कुछ भी हो, फ़ॉर्म तुरंत बंद करें।",
+  "eventSettings.opensAt": "खुलने का समय",
+  "eventSettings.closesAt": "बंद होने का समय",
+  "eventSettings.scheduleHint": "तुरंत खोलने या कभी बंद न करने के लिए खाली छोड़ें। खुलने से पहले सार्वजनिक फ़ॉर्म उलटी गिनती दिखाता है।",
+  "eventSettings.maxRegistrations": "अधिकतम पंजीकरण",
+  "eventSettings.noLimit": "कोई सीमा नहीं",
+  "eventSettings.maxRegistrationsHint": "इतने पंजीकरण मिलने पर फ़ॉर्म बंद हो जाता है।",
+  "eventSettings.fee": "पंजीकरण शुल्क ({currency})",
+  "eventSettings.feePlaceholder": "निःशुल्क",
+  "eventSettings.feeHint": "पंजीकरण के तुरंत बाद प्रति व्यक्ति लिया जाता है। जो ऑनलाइन भुगतान नहीं करते, वे उनके विवरण से भुगतान दर्ज होने तक लंबित रहते हैं। नया शुल्क केवल नए पंजीकरणों पर लागू होता है।",
+  "eventSettings.wizard": "चरण-दर-चरण फ़ॉर्म",
+  "eventSettings.wizardHint": "फ़ॉर्म को छोटे चरणों में बाँटें, जमा करने से पहले समीक्षा स्क्रीन के साथ।",
+  "eventSettings.emailVerification": "ईमेल पता सत्यापित करें",
+  "eventSettings.emailVerificationHint": "पंजीकरण करने वालों को जमा करने से पहले अपने ईमेल पर भेजा गया कोड दर्ज करना होगा।",
+  "eventSettings.mobileVerification": "मोबाइल नंबर सत्यापित करें",
+  "eventSettings.mobileVerificationHint": "पंजीकरण करने वालों को जमा करने से पहले SMS से भेजा गया कोड दर्ज करना होगा।",
+  "eventSettings.inviteOnly": "केवल आमंत्रण",
+  "eventSettings.inviteOnlyHint": "पंजीकरण करने वालों को आमंत्रण कोड पेज से एक आमंत्रण कोड चाहिए।",
+  "eventSettings.duplicatePolicy": "दोहरे पंजीकरण",
+  "eventSettings.kioskPin": "कियोस्क PIN",
+  "eventSettings.kioskPinUnchanged": "अपरिवर्तित",
+  "eventSettings.kioskPinPlaceholder": "4 से 8 अंक",
+  "eventSettings.kioskPinHint": "स्थल पर टैबलेट {path} पर फ़ॉर्म चलाते हैं; टैबलेट को नाम देने के लिए एक बार ?device=<name> जोड़ें। इसे छोड़ने के लिए कर्मचारियों को यह PIN चाहिए।",
+  "eventSettings.kioskPinMissing": "अभी कोई PIN सेट नहीं है, इसलिए कियोस्क छोड़े नहीं जा सकते।",
+  "eventSettings.capacity": "विभाग क्षमता",
+  "eventSettings.capacityHint": "विभाग की सीटों से अधिक पंजीकरण प्रतीक्षा सूची में जाते हैं और सीटें खाली होने पर क्रम से आगे बढ़ाए जाते हैं। कोई सीमा न हो तो खाली छोड़ें।",
+  "eventSettings.save": "सेटिंग्स सहेजें",
+  "eventSettings.saved": "कार्यक्रम सेटिंग्स सहेजी गईं",
+  "eventSettings.saveFailed": "कार्यक्रम सेटिंग्स सहेजने में विफल",
+  "eventSettings.capacityLoadFailed": "विभाग क्षमताएँ लोड करने में विफल",
+  "eventSettings.nameRequired": "कार्यक्रम का नाम आवश्यक है",
+  "eventSettings.closesBeforeOpens": "बंद होने का समय खुलने के समय के बाद होना चाहिए",
+  "eventSettings.maxRegistrationsInvalid": "अधिकतम पंजीकरण शून्य से बड़ी पूर्ण संख्या होनी चाहिए, या कोई सीमा न हो तो खाली",
+  "eventSettings.capacityInvalid": "विभाग क्षमताएँ पूर्ण संख्याएँ होनी चाहिए, या कोई सीमा न हो तो खाली",
+  "eventSettings.feeInvalid": "पंजीकरण शुल्क शून्य से अधिक राशि होनी चाहिए, या निःशुल्क कार्यक्रम के लिए खाली",
+  "eventSettings.kioskPinInvalid": "कियोस्क PIN 4 से 8 अंकों का होना चाहिए",
+  "duplicatePolicy.block": "रोकें",
+  "duplicatePolicy.blockDescription": "उसी ईमेल या मोबाइल नंबर से दूसरा पंजीकरण अस्वीकार करें।",
+  "duplicatePolicy.warn": "चेतावनी दें",
+  "duplicatePolicy.warnDescription": "पंजीकरण करने वाले से पुष्टि करवाएँ, फिर इसे स्वीकार करें और समीक्षा के लिए चिह्नित करें।",
+  "duplicatePolicy.allow": "अनुमति दें",
+  "duplicatePolicy.allowDescription": "बिना किसी जाँच के दोहराए गए पंजीकरण स्वीकार करें।",
+  "fieldType.text": "छोटा पाठ",
+  "fieldType.textarea": "अनुच्छेद",
+  "fieldType.number": "संख्या",
+  "fieldType.email": "ईमेल",
+  "fieldType.select": "ड्रॉपडाउन",
+  "fieldType.radio": "बहुविकल्पी",
+  "fieldType.checkbox": "चेकबॉक्स",
+  "fieldType.date": "तारीख",
+  "formBuilder.description": "हर कार्यक्रम के पंजीकरण फ़ॉर्म में अपने प्रश्न जोड़ें",
+  "formBuilder.customFields": "कस्टम फ़ील्ड",
+  "formBuilder.addField": "फ़ील्ड जोड़ें",
+  "formBuilder.saveField": "फ़ील्ड सहेजें",
+  "formBuilder.empty": "यह कार्यक्रम केवल मानक पंजीकरण फ़ील्ड का उपयोग करता है।",
+  "formBuilder.preview": "लाइव पूर्वावलोकन",
+  "formBuilder.previewEmpty": "आपके जोड़े गए कस्टम फ़ील्ड यहाँ मानक पंजीकरण फ़ील्ड के नीचे दिखेंगे।",
+  "formBuilder.previewValid": "सभी उत्तर मान्य हैं",
+  "formBuilder.testValidation": "सत्यापन जाँचें",
+  "formBuilder.untitled": "बिना शीर्षक फ़ील्ड",
+  "formBuilder.label": "लेबल",
+  "formBuilder.labelPlaceholder": "जैसे टी-शर्ट का आकार",
+  "formBuilder.key": "फ़ील्ड कुंजी",
+  "formBuilder.type": "प्रकार",
+  "formBuilder.placeholder": "प्लेसहोल्डर",
+  "formBuilder.options": "विकल्प (प्रति पंक्ति एक)",
+  "formBuilder.minValue": "न्यूनतम मान",
+  "formBuilder.maxValue": "अधिकतम मान",
+  "formBuilder.minLength": "न्यूनतम लंबाई",
+  "formBuilder.maxLength": "अधिकतम लंबाई",
+  "formBuilder.pattern": "पैटर्न (रेगुलर एक्सप्रेशन)",
+  "formBuilder.required": "आवश्यक",
+  "formBuilder.showInTable": "तालिका कॉलम के रूप में दिखाएँ",
+  "formBuilder.labelRequired": "लेबल आवश्यक है",
+  "formBuilder.keyInvalid": "फ़ील्ड कुंजी अक्षर से शुरू होनी चाहिए और उसमें केवल छोटे अक्षर, अंक और अंडरस्कोर हों",
+  "formBuilder.keyTaken": "कोई दूसरा फ़ील्ड पहले से इस कुंजी का उपयोग करता है",
+  "formBuilder.optionsTooFew": "कम से कम दो विकल्प जोड़ें",
+  "formBuilder.minAboveMax": "न्यूनतम अधिकतम से बड़ा नहीं हो सकता",
+  "formBuilder.patternInvalid": "पैटर्न मान्य रेगुलर एक्सप्रेशन नहीं है",
+  "formBuilder.saved": "फ़ील्ड सहेजा गया",
+  "formBuilder.saveFailed": "फ़ील्ड सहेजने में विफल",
+  "formBuilder.reorderFailed": "फ़ील्ड का क्रम बदलने में विफल",
+  "formBuilder.deleted": "फ़ील्ड हटाया गया",
+  "formBuilder.deleteFailed": "फ़ील्ड हटाने में विफल",
+  "formBuilder.deleteTitle": "फ़ील्ड हटाएँ",
+  "formBuilder.deleteDescription": "\"{label}\" फ़ॉर्म से हटा दिया जाएगा। पहले से जमा उत्तर हर पंजीकरण पर रखे जाते हैं लेकिन अब दिखाए नहीं जाएँगे।",
+  "attemptReason.honeypot": "हनीपॉट",
+  "attemptReason.honeypotDescription": "केवल बॉट को दिखने वाला छिपा फ़ील्ड भरा",
+  "attemptReason.tooFast": "बहुत तेज़",
+  "attemptReason.tooFastDescription": "फ़ॉर्म खोलने के बाद किसी व्यक्ति से संभव समय से पहले भेजा",
+  "attemptReason.challengeInvalid": "विफल चुनौती",
+  "attemptReason.challengeInvalidDescription": "प्रूफ़-ऑफ़-वर्क समाधान गायब, समाप्त या गलत",
+  "attemptReason.challengeReused": "दोबारा उपयोग की गई चुनौती",
+  "attemptReason.challengeReusedDescription": "पहले से उपयोग किया गया समाधान दोबारा भेजा",
+  "attemptReason.ipRateLimited": "IP दर सीमा",
+  "attemptReason.ipRateLimitedDescription": "एक IP पते से बहुत अधिक अनुरोध",
+  "attemptReason.emailRateLimited": "ईमेल दर सीमा",
+  "attemptReason.emailRateLimitedDescription": "एक ईमेल के लिए बहुत अधिक सबमिशन",
+  "attempts.description": "स्पैम सुरक्षा द्वारा लौटाए गए सबमिशन, अपलोड और सत्यापन कोड अनुरोध, नवीनतम पहले ({limit} तक)",
+  "attempts.loadFailed": "रोके गए प्रयास लोड करने में विफल",
+  "attempts.searchPlaceholder": "IP पते या ईमेल से खोजें...",
+  "attempts.reason": "कारण",
+  "attempts.allReasons": "सभी कारण",
+  "attempts.time": "समय",
+  "attempts.action": "क्रिया",
+  "attempts.actionSubmit": "सबमिट",
+  "attempts.actionUpload": "अपलोड",
+  "attempts.actionVerify": "सत्यापन कोड",
+  "attempts.ipAddress": "IP पता",
+  "attempts.event": "कार्यक्रम",
+  "attempts.unknownEvent": "अज्ञात कार्यक्रम",
+  "attempts.empty": "कोई रोका गया प्रयास नहीं",
+  "consentKind.privacy": "गोपनीयता नीति",
+  "consentKind.terms": "शर्तें",
+  "consentKind.marketing": "मार्केटिंग",
+  "consents.description": "गोपनीयता और शर्तों के पाठ प्रकाशित करें और उन पंजीकरणों को खोजें जिन्हें फिर से सहमति देनी है",
+  "consents.current": "वर्तमान दस्तावेज़",
+  "consents.currentHint": "ये हर कार्यक्रम पर लागू होते हैं। नया संस्करण प्रकाशित करने से पहले के पंजीकरणों की स्वीकृति कभी नहीं बदलती।",
+  "consents.requiredPublished": "आवश्यक · {date} को प्रकाशित",
+  "consents.optionalPublished": "वैकल्पिक · {date} को प्रकाशित",
+  "consents.notPublished": "प्रकाशित नहीं",
+  "consents.newVersion": "नया संस्करण",
+  "consents.publish": "प्रकाशित करें",
+  "consents.publishing": "प्रकाशित हो रहा है...",
+  "consents.outdated": "पुरानी सहमतियाँ",
+  "consents.outdatedCount": "{total} में से {count} पंजीकरण",
+  "consents.needsConsentFor": "इसके लिए सहमति चाहिए",
+  "consents.allAccepted": "हर पंजीकरण ने वर्तमान दस्तावेज़ स्वीकार कर लिए हैं",
+  "consents.publishTitle": "{kind} प्रकाशित करें",
+  "consents.publishNext": "संस्करण {version} प्रकाशित करता है। नए पंजीकरणों को इसे स्वीकार करना होगा; मौजूदा पंजीकरण अपना स्वीकार किया संस्करण रखते हैं।",
+  "consents.publishFirst": "संस्करण 1 प्रकाशित करता है। नए पंजीकरणों से इसे स्वीकार करने को कहा जाएगा।",
+  "consents.title": "शीर्षक",
+  "consents.text": "पाठ",
+  "consents.required": "आवश्यक",
+  "consents.requiredHint": "पंजीकरण करने वाले इसे स्वीकार किए बिना जमा नहीं कर सकते।",
+  "consents.textRequired": "शीर्षक और पाठ आवश्यक हैं",
+  "consents.published": "{title} v{version} प्रकाशित",
+  "consents.publishFailed": "दस्तावेज़ प्रकाशित करने में विफल",
+  "login.back": "पंजीकरण पर वापस",
+  "login.title": "एडमिन लॉगिन",
+  "login.description": "एडमिन डैशबोर्ड के लिए साइन इन करें",
+  "login.password": "पासवर्ड",
+  "login.signIn": "साइन इन करें",
+  "login.signingIn": "साइन इन हो रहा है...",
+  "login.needAccess": "एडमिन एक्सेस चाहिए?",
+  "login.createAccount": "खाता बनाएँ",
+  "login.invalidCredentials": "अमान्य ईमेल या पासवर्ड",
+  "login.unexpectedError": "एक अनपेक्षित त्रुटि हुई",
+  "signup.back": "लॉगिन पर वापस",
+  "signup.title": "एडमिन खाता बनाएँ",
+  "signup.description": "पंजीकरण प्रबंधित करने के लिए साइन अप करें",
+  "signup.creating": "खाता बनाया जा रहा है...",
+  "signup.haveAccount": "पहले से खाता है?",
+  "signup.signIn": "साइन इन करें",
+  "signup.alreadyRegistered": "यह ईमेल पहले से पंजीकृत है। कृपया साइन इन करें।",
+  "signup.roleFailed": "खाता बन गया लेकिन एडमिन भूमिका देने में विफल",
+  "signup.created": "एडमिन खाता सफलतापूर्वक बनाया गया!",
+};
@@ -0,0 +1,765 @@
+import type { Messages } from "@/locales/en";
+
+export const mr: Messages = {
+  // Validation messages
+  "validation.addressLine1Required": "कृपया तुमचा पत्ता प्रविष्ट करा",
+  "validation.addressLineTooLong": "पत्त्याची ओळ 200 अक्षरांपेक्षा कमी असावी",
+  "validation.cityRequired": "कृपया तुमचे शहर प्रविष्ट करा",
+  "validation.cityTooLong": "शहर 100 अक्षरांपेक्षा कमी असावे",
+  "validation.stateRequired": "कृपया तुमचे राज्य प्रविष्ट करा",
+  "validation.stateTooLong": "राज्य 100 अक्षरांपेक्षा कमी असावे",
+  "validation.postalCodeRequired": "कृपया तुमचा पोस्टल कोड प्रविष्ट करा",
+  "validation.countryRequired": "कृपया देश निवडा",
+  "validation.postalCodeInvalid": "कृपया वैध {label} प्रविष्ट करा",
+  "validation.fullNameTooShort": "पूर्ण नाव किमान 2 अक्षरांचे असावे",
+  "validation.fullNameTooLong": "पूर्ण नाव 100 अक्षरांपेक्षा कमी असावे",
+  "validation.mobileRequired": "कृपया तुमचा मोबाइल नंबर प्रविष्ट करा",
+  "validation.emailInvalid": "कृपया वैध ईमेल पत्ता प्रविष्ट करा",
+  "validation.emailTooLong": "ईमेल 255 अक्षरांपेक्षा कमी असावा",
+  "validation.genderRequired": "कृपया लिंग निवडा",
+  "validation.departmentRequired": "कृपया विभाग निवडा",
+  "validation.confirmationCodeInvalid": "कृपया तुमचा 8 अक्षरी पुष्टीकरण क्रमांक प्रविष्ट करा",
+  "validation.contactRequired": "कृपया ज्या ईमेल किंवा मोबाइल नंबरने नोंदणी केली तो प्रविष्ट करा",
+  "validation.contactInvalid": "कृपया वैध ईमेल किंवा मोबाइल नंबर प्रविष्ट करा",
+  "validation.registeredEmailInvalid": "कृपया ज्या ईमेल पत्त्याने नोंदणी केली तो प्रविष्ट करा",
+  "validation.mobileTooShort": "निवडलेल्या देशासाठी मोबाइल नंबर खूप लहान आहे",
+  "validation.mobileTooLong": "निवडलेल्या देशासाठी मोबाइल नंबर खूप मोठा आहे",
+  "validation.countryCodeRequired": "कृपया देश कोड निवडा",
+  "validation.mobileInvalid": "कृपया वैध मोबाइल नंबर प्रविष्ट करा",
+  "validation.mobileInvalidForCountry": "कृपया निवडलेल्या देशासाठी वैध मोबाइल नंबर प्रविष्ट करा",
+  "validation.customChecked": "{label} वर खूण करणे आवश्यक आहे",
+  "validation.customRequired": "{label} आवश्यक आहे",
+  "validation.customNumber": "{label} संख्या असावी",
+  "validation.customMin": "{label} किमान {min} असावे",
+  "validation.customMax": "{label} जास्तीत जास्त {max} असावे",
+  "validation.customEmail": "{label} वैध ईमेल पत्ता असावा",
+  "validation.customDate": "{label} वैध तारीख असावी",
+  "validation.customMinLength": "{label} किमान {min} अक्षरांचे असावे",
+  "validation.customMaxLength": "{label} {max} अक्षरांपेक्षा कमी असावे",
+  "validation.customPattern": "{label} अपेक्षित स्वरूपात नाही",
+  "validation.customSelect": "कृपया {label} निवडा",
+  "validation.passwordTooShort": "पासवर्ड किमान 6 अक्षरांचा असावा",
+  "validation.passwordTooLong": "पासवर्ड 100 अक्षरांपेक्षा कमी असावा",
+  // Departments
+  "department.engineering": "अभियांत्रिकी",
+  "department.marketing": "विपणन",
+  "department.sales": "विक्री",
+  "department.humanResources": "मनुष्यबळ",
+  "department.finance": "वित्त",
+  "department.operations": "कामकाज",
+  "department.customerSupport": "ग्राहक सहाय्य",
+  "department.researchDevelopment": "संशोधन व विकास",
+  "department.legal": "कायदा",
+  "department.other": "इतर",
+  // Shared
+  "common.yes": "होय",
+  "common.no": "नाही",
+  "common.cancel": "रद्द करा",
+  "common.edit": "बदला",
+  "common.close": "बंद करा",
+  "common.saving": "जतन करत आहे...",
+  // Address fields
+  "address.pinCode": "पिन कोड",
+  "address.postalCode": "पोस्टल कोड",
+  "address.label": "पत्ता",
+  "address.line1Placeholder": "घर / फ्लॅट क्रमांक, रस्ता",
+  "address.line2Label": "पत्त्याची ओळ 2",
+  "address.line2Placeholder": "परिसर, खूण (पर्यायी)",
+  "address.country": "देश",
+  "address.countryPlaceholder": "देश निवडा",
+  "address.pinCodePlaceholder": "6 अंकी पिन कोड",
+  "address.postalCodePlaceholder": "पोस्टल कोड",
+  "address.filledFromPinCode": "शहर आणि राज्य पिन कोडवरून भरले आहेत",
+  "address.pinCodeNotFound": "पिन कोड सापडला नाही, कृपया शहर आणि राज्य प्रविष्ट करा",
+  "address.city": "शहर / जिल्हा",
+  "address.cityPlaceholder": "शहर",
+  "address.state": "राज्य",
+  "address.statePlaceholder": "राज्य",
+  // Registration fields
+  "field.fullName": "पूर्ण नाव",
+  "field.fullNamePlaceholder": "तुमचे पूर्ण नाव प्रविष्ट करा",
+  "field.mobileNumber": "मोबाइल नंबर",
+  "field.mobileNumberPlaceholder": "तुमचा मोबाइल नंबर प्रविष्ट करा",
+  "field.email": "ईमेल पत्ता",
+  "field.emailPlaceholder": "तुमचा ईमेल प्रविष्ट करा",
+  "field.gender": "लिंग",
+  "field.genderPlaceholder": "लिंग निवडा",
+  "gender.male": "पुरुष",
+  "gender.female": "स्त्री",
+  "gender.other": "इतर",
+  "field.department": "विभाग",
+  "field.departmentPlaceholder": "विभाग निवडा",
+  "field.departmentFull":
+    "हा विभाग भरला आहे. तुम्हाला प्रतीक्षा यादीत जोडले जाईल आणि जागा रिकामी होताच आपोआप पुढे घेतले जाईल.",
+  "capacity.waitlistOnly": "फक्त प्रतीक्षा यादी",
+  "capacity.seatsLeft": "{count} जागा शिल्लक",
+  "capacity.oneSeatLeft": "1 जागा शिल्लक",
+  "field.selectPlaceholder": "{label} निवडा",
+  // Wizard
+  "wizard.personalDetails": "वैयक्तिक तपशील",
+  "wizard.contact": "संपर्क",
+  "wizard.departmentAddress": "विभाग आणि पत्ता",
+  "wizard.photoDocuments": "फोटो आणि कागदपत्रे",
+  "wizard.review": "पुनरावलोकन",
+  "wizard.stepOf": "पायरी {step} / {total}",
+  "wizard.next": "पुढे",
+  "wizard.back": "मागे",
+  "review.email": "ईमेल",
+  "review.yourPhoto": "तुमचा फोटो",
+  // Documents
+  "document.idProof": "ओळखपत्र",
+  "document.offerLetter": "ऑफर लेटर",
+  "document.certificate": "प्रमाणपत्र",
+  "document.other": "इतर",
+  "document.typeNotAllowed": "{name}: फक्त PDF, JPG, PNG किंवा WebP फाइल्स स्वीकारल्या जातात",
+  "document.tooLarge": "{name}: {type} फाइल्स {size} पेक्षा लहान असाव्यात",
+  "document.tooMany": "{name}: तुम्ही जास्तीत जास्त {max} कागदपत्रे जोडू शकता",
+  "document.typeLabel": "कागदपत्राचा प्रकार",
+  "document.remove": "{name} काढा",
+  "document.add": "कागदपत्रे जोडा",
+  "document.dragHere": "किंवा ती येथे ओढून सोडा",
+  "document.limits": "PDF 5MB पर्यंत, प्रतिमा 3MB पर्यंत · {max} पैकी {remaining} शिल्लक",
+  "upload.failed": "{name} अपलोड करता आले नाही",
+  "upload.rateLimited": "तुमच्या नेटवर्कवरून खूप जास्त अपलोड झाले आहेत, कृपया नंतर पुन्हा प्रयत्न करा",
+  // Photo
+  "photo.chooseImage": "कृपया JPG, PNG किंवा WebP प्रतिमा निवडा",
+  "photo.tooLarge": "ही प्रतिमा खूप मोठी आहे, कृपया 25MB पेक्षा लहान प्रतिमा निवडा",
+  "photo.preview": "पूर्वावलोकन",
+  "photo.adjust": "समायोजित करा",
+  "photo.adjustLabel": "फोटो समायोजित करा",
+  "photo.remove": "फोटो काढा",
+  "photo.uploadTab": "अपलोड करा",
+  "photo.cameraTab": "फोटो काढा",
+  "photo.clickToUpload": "अपलोड करण्यासाठी क्लिक करा",
+  "photo.dragAndDrop": "किंवा ओढून सोडा",
+  "photo.formats": "JPG, PNG किंवा WebP — आपोआप क्रॉप आणि कॉम्प्रेस होते",
+  "photo.cameraBlocked":
+    "कॅमेरा प्रवेश अवरोधित आहे. ब्राउझर सेटिंग्जमध्ये कॅमेरा प्रवेशाची परवानगी द्या, किंवा त्याऐवजी फोटो अपलोड करा.",
+  "photo.noCamera": "या डिव्हाइसवर कॅमेरा उपलब्ध नाही.",
+  "photo.uploadInstead": "त्याऐवजी फोटो अपलोड करा",
+  "photo.captured": "काढलेला फोटो",
+  "photo.retake": "पुन्हा काढा",
+  "photo.usePhoto": "फोटो वापरा",
+  "photo.faceGuide": "तुमचा चेहरा अंडाकृतीच्या आत ठेवा आणि कॅमेऱ्याकडे पाहा",
+  "photo.holdStill": "स्थिर राहा...",
+  "photo.takePhoto": "फोटो काढा",
+  "photo.editorTitle": "तुमचा फोटो समायोजित करा",
+  "photo.editorDescription": "तुमचा चेहरा चौकोनात आणण्यासाठी ओढा, नंतर गरज असल्यास झूम करा किंवा फिरवा.",
+  "photo.zoom": "झूम",
+  "photo.rotateLeft": "डावीकडे फिरवा",
+  "photo.rotateRight": "उजवीकडे फिरवा",
+  "photo.processing": "प्रक्रिया सुरू आहे...",
+  "photo.unreadable": "ही प्रतिमा वाचता आली नाही",
+  "photo.processFailed": "या प्रतिमेवर प्रक्रिया करता आली नाही",
+  // Phone
+  "phone.countryCode": "देश कोड",
+  "phone.searchCountry": "देश शोधा...",
+  "phone.noCountry": "कोणताही देश सापडला नाही.",
+  // Verification
+  "verification.emailAddress": "ईमेल पत्ता",
+  "verification.mobileNumber": "मोबाइल नंबर",
+  "verification.invalid": "हा कोड बरोबर नाही, कृपया पुन्हा प्रयत्न करा",
+  "verification.expired": "या कोडची मुदत संपली आहे, कृपया नवीन कोड मागवा",
+  "verification.tooManyAttempts": "खूप जास्त चुकीचे प्रयत्न, कृपया नवीन कोड मागवा",
+  "verification.deliveryFailed": "आम्ही कोड पाठवू शकलो नाही, कृपया पत्ता तपासून पुन्हा प्रयत्न करा",
+  "verification.rateLimited": "तुमच्या नेटवर्कवरून खूप जास्त कोड मागवले गेले आहेत, कृपया नंतर पुन्हा प्रयत्न करा",
+  "verification.sendFailed": "पडताळणी कोड पाठवता आला नाही",
+  "verification.verifyFailed": "कोडची पडताळणी करता आली नाही, कृपया पुन्हा प्रयत्न करा",
+  "verification.codeSent": "पडताळणी कोड {target} वर पाठवला",
+  "verification.title": "तुमचा {channel} पडताळा",
+  "verification.description": "आम्ही येथे पाठवलेला {length} अंकी कोड प्रविष्ट करा:",
+  "verification.resendIn": "{seconds} सेकंदांत कोड पुन्हा पाठवा",
+  "verification.resend": "कोड पुन्हा पाठवा",
+  "verification.verifying": "पडताळणी सुरू आहे...",
+  "verification.verify": "पडताळा",
+  // Consent
+  "consent.label": "संमती",
+  "consent.agreeTo": "मी {title} वाचले आहे आणि मला ते मान्य आहे",
+  "consent.optional": "(पर्यायी)",
+  "consent.read": "वाचा",
+  "consent.version": "आवृत्ती {version}",
+  // Registration window
+  "closed.pausedTitle": "नोंदणी थांबवली आहे",
+  "closed.pausedDescription": "नोंदणी तात्पुरती थांबवली आहे. कृपया थोड्या वेळाने पुन्हा पाहा.",
+  "closed.scheduledTitle": "नोंदणी लवकरच सुरू होईल",
+  "closed.scheduledDescription": "हा फॉर्म अद्याप उघडलेला नाही.",
+  "closed.closedTitle": "नोंदणी बंद",
+  "closed.closedDescription": "या कार्यक्रमासाठी नोंदणी बंद झाली आहे.",
+  "closed.fullTitle": "नोंदणी पूर्ण",
+  "closed.fullDescription": "या कार्यक्रमाने नोंदणींची कमाल संख्या गाठली आहे.",
+  "closed.notFoundTitle": "नोंदणी सापडली नाही",
+  "closed.notFoundDescription": "हा नोंदणी फॉर्म अस्तित्वात नाही किंवा आता नोंदी स्वीकारत नाही.",
+  "closed.opensOn": "तो {date} रोजी उघडेल.",
+  "closed.closedOn": "तो {date} रोजी बंद झाला.",
+  // Registration status
+  "status.submitted": "सादर केली",
+  "status.submittedDescription": "मिळाली असून पुनरावलोकनाची प्रतीक्षा आहे.",
+  "status.underReview": "पुनरावलोकनाधीन",
+  "status.underReviewDescription": "आयोजक याचे पुनरावलोकन करत आहेत.",
+  "status.waitlisted": "प्रतीक्षा यादीत",
+  "status.waitlistedDescription": "विभाग भरला आहे. जागा रिकामी होताच तुम्ही आपोआप पुढे घेतले जाल.",
+  "status.approved": "मंजूर",
+  "status.approvedDescription": "नोंदणी मंजूर झाली आहे.",
+  "status.rejected": "नाकारली",
+  "status.rejectedDescription": "नोंदणी स्वीकारली गेली नाही.",
+  "status.cancelled": "रद्द",
+  "status.cancelledDescription": "नोंदणी रद्द करण्यात आली.",
+  // Submission
+  "submit.duplicateEmail": "हा ईमेल या कार्यक्रमासाठी आधीच नोंदणीकृत आहे",
+  "submit.duplicateMobile": "हा मोबाइल नंबर या कार्यक्रमासाठी आधीच नोंदणीकृत आहे",
+  "submit.rateLimited": "तुमच्या नेटवर्कवरून किंवा या ईमेलसाठी खूप जास्त नोंदण्या झाल्या आहेत, कृपया नंतर पुन्हा प्रयत्न करा",
+  "submit.tooFast": "खूप घाई! कृपया तुमचे तपशील तपासा आणि पुन्हा सादर करा",
+  "submit.challengeInvalid": "आम्ही तुमच्या ब्राउझरची पडताळणी करू शकलो नाही, कृपया पुन्हा सादर करा",
+  "submit.rejected": "तुमची नोंदणी स्वीकारता आली नाही",
+  "submit.invalidValues": "काही तपशील वैध नाहीत, कृपया फॉर्म तपासा",
+  "submit.paymentsUnavailable": "हा कार्यक्रम सध्या सशुल्क नोंदणी घेऊ शकत नाही. कृपया नंतर प्रयत्न करा किंवा आयोजकांशी संपर्क साधा.",
+  "submit.failed": "नोंदणी सादर करता आली नाही",
+  // Admin: edit registration
+  "edit.title": "नोंदणी संपादित करा",
+  "edit.status": "स्थिती",
+  "edit.adminMessage": "नोंदणीकर्त्यासाठी संदेश",
+  "edit.adminMessagePlaceholder": "स्थिती पृष्ठावर दाखवला जातो, उदा. त्या दिवशी काय सोबत आणायचे",
+  "edit.saving": "जतन होत आहे...",
+  "edit.save": "बदल जतन करा",
+  // Registration form
+  "form.saveFailed": "तुमची प्रगती जतन करता आली नाही",
+  "form.linkCopied": "लिंक कॉपी झाली",
+  "form.linkCopyFailed": "लिंक कॉपी करता आली नाही, कृपया ती स्वतः कॉपी करा",
+  "form.photoRequired": "कृपया फोटो अपलोड करा",
+  "form.photoType": "फक्त JPG आणि PNG फाइल्स स्वीकारल्या जातात",
+  "form.photoSize": "फाइलचा आकार 2MB पेक्षा कमी असावा",
+  "form.acceptConsent": "पुढे जाण्यासाठी कृपया {title} स्वीकारा",
+  "form.checkStatus": "स्थिती तपासा",
+  "form.changesSaved": "तुमचे बदल जतन झाले आहेत",
+  "form.saveChangesFailed": "तुमचे बदल जतन करता आले नाहीत",
+  "form.documentsNotSaved": "तुमची नोंदणी सादर झाली, पण कागदपत्रे जतन करता आली नाहीत",
+  "form.submitted": "नोंदणी यशस्वीरित्या सादर झाली!",
+  "form.consentsUpdated": "संमतीचे मजकूर अद्ययावत झाले आहेत, कृपया ते पाहून पुन्हा स्वीकारा",
+  "form.consentsUpdatedToast": "संमतीचे मजकूर अद्ययावत झाले आहेत, कृपया ते पुन्हा पाहा",
+  "form.eventClosed": "क्षमस्व, या कार्यक्रमाने नोंदणी स्वीकारणे बंद केले आहे",
+  "form.codeCopied": "पुष्टीकरण क्रमांक कॉपी झाला",
+  "form.codeCopyFailed": "पुष्टीकरण क्रमांक कॉपी करता आला नाही, कृपया तो लिहून ठेवा",
+  "form.emailVerified": "ईमेलची पडताळणी झाली",
+  "form.mobileVerified": "मोबाइल नंबरची पडताळणी झाली",
+  "form.changesSavedTitle": "बदल जतन झाले",
+  "form.waitlistTitle": "तुम्ही प्रतीक्षा यादीत आहात",
+  "form.successTitle": "नोंदणी यशस्वी!",
+  "form.changesSavedDescription": "तुमची नोंदणी अद्ययावत झाली आहे. संपादन लिंक पुन्हा वापरता येणार नाही.",
+  "form.waitlistDescription":
+    "तुमचा विभाग भरला आहे, त्यामुळे प्रतीक्षा यादीत तुमचा क्रमांक {position} आहे. जागा रिकामी होताच आम्ही तुम्हाला आपोआप पुढे घेऊ.",
+  "form.successDescription": "नोंदणी केल्याबद्दल धन्यवाद. आम्ही लवकरच तुमच्याशी संपर्क साधू.",
+  "form.confirmationNumber": "तुमचा पुष्टीकरण क्रमांक",
+  "form.copyConfirmationNumber": "पुष्टीकरण क्रमांक कॉपी करा",
+  "form.keepItTo": "तो जपून ठेवा, म्हणजे नंतर",
+  "form.checkYourStatus": "तुमच्या नोंदणीची स्थिती तपासता येईल",
+  "form.later": ".",
+  "form.submitAnother": "आणखी एक नोंदणी सादर करा",
+  "form.saveForLater": "जतन करा आणि नंतर सुरू ठेवा",
+  "form.progressSaved": "तुमची प्रगती जतन झाली आहे",
+  "form.resumeLinkDescription": "कोणत्याही डिव्हाइसवर तुमची नोंदणी पुढे सुरू ठेवण्यासाठी ही लिंक वापरा",
+  "form.resumeLinkUntil": "{date} पर्यंत",
+  "form.resumeLinkPrivate": "लिंक असलेली कोणतीही व्यक्ती तुम्ही भरलेली माहिती पाहू शकते, म्हणून ती खाजगी ठेवा.",
+  "form.copyLink": "लिंक कॉपी करा",
+  "form.alreadyRegistered": "आधीच नोंदणी केली आहे?",
+  "form.submitAnyway": "तरीही सादर करा",
+  "form.submitAnywayQuestion": "तरीही आणखी एक नोंदणी सादर करायची?",
+  "form.uploadPhoto": "फोटो अपलोड करा",
+  "form.supportingDocuments": "सहाय्यक कागदपत्रे",
+  "form.supportingDocumentsHint": "(पर्यायी: ओळखपत्र, ऑफर लेटर, प्रमाणपत्रे)",
+  "form.saving": "जतन होत आहे...",
+  "form.submitting": "सादर होत आहे...",
+  "form.saveChanges": "बदल जतन करा",
+  "form.submit": "नोंदणी सादर करा",
+  // Drafts
+  "draft.photoLoadFailed": "जतन केलेला फोटो लोड करता आला नाही",
+  "draft.linkExpired": "ही लिंक कालबाह्य किंवा अवैध आहे",
+  "draft.restored": "पुन्हा स्वागत आहे! तुमची जतन केलेली प्रगती परत आणली आहे.",
+  // Offline outbox
+  "outbox.queued": "तुम्ही ऑफलाइन आहात. नोंदणी या डिव्हाइसवर जतन केली आहे आणि ऑनलाइन होताच पाठवली जाईल",
+  "outbox.queueFailed": "नोंदणी या डिव्हाइसवर जतन करता आली नाही",
+  "outbox.verificationOffline": "संपर्क तपशीलांच्या पडताळणीसाठी कनेक्शन आवश्यक आहे, कृपया ऑनलाइन झाल्यावर पुन्हा प्रयत्न करा",
+  "outbox.offline": "तुम्ही ऑफलाइन आहात. नवीन नोंदण्या या डिव्हाइसवर जतन होतात आणि नंतर पाठवल्या जातात.",
+  "outbox.title": "या डिव्हाइसवर जतन केलेल्या",
+  "outbox.pending": "पाठवण्याच्या प्रतीक्षेत",
+  "outbox.synced": "पाठवली",
+  "outbox.failed": "पाठवली नाही",
+  "outbox.confirmationNumber": "पुष्टीकरण क्रमांक {code}",
+  "outbox.sentWithoutCode": "नोंदणी पाठवली",
+  "outbox.retry": "पुन्हा प्रयत्न करा",
+  "outbox.dismiss": "काढा",
+  "outbox.updateFailed": "जतन केलेली नोंदणी अद्ययावत करता आली नाही",
+  // Kiosk
+  "kiosk.noteCode": "या क्रमांकाचा फोटो काढा किंवा तो लिहून ठेवा",
+  "kiosk.done": "झाले",
+  "kiosk.startingOver": "{seconds} सेकंदांत पुन्हा सुरू होईल",
+  "kiosk.exit": "किऑस्कमधून बाहेर पडा",
+  "kiosk.exitTitle": "किऑस्क मोडमधून बाहेर पडा",
+  "kiosk.exitDescription": "फक्त कर्मचाऱ्यांसाठी. कार्यक्रम सेटिंग्जमध्ये ठरवलेला किऑस्क PIN प्रविष्ट करा.",
+  "kiosk.pin": "PIN",
+  "kiosk.pinInvalid": "PIN 4 ते 8 अंकांचा असतो",
+  "kiosk.pinWrong": "हा PIN बरोबर नाही. पाच चुकीच्या प्रयत्नांनंतर पाच मिनिटांसाठी बाहेर पडणे बंद होते.",
+  "kiosk.pinCheckFailed": "PIN तपासता आला नाही, कृपया ऑनलाइन झाल्यावर पुन्हा प्रयत्न करा",
+  // Group registration
+  "group.justMe": "फक्त मी",
+  "group.withOthers": "मी आणि इतर",
+  "group.yourDetails": "तुमचे तपशील",
+  "group.title": "तुम्ही नोंदणी करत असलेले लोक",
+  "group.description": "प्रत्येक व्यक्तीला स्वतःचा पुष्टीकरण क्रमांक मिळेल. त्यांचा पत्ता आणि उत्तरे तुमच्यासारखीच राहतील, आणि विभागही, जोपर्यंत तुम्ही दुसरा निवडत नाही.",
+  "group.person": "व्यक्ती {number}",
+  "group.remove": "ही व्यक्ती काढा",
+  "group.add": "व्यक्ती जोडा",
+  "group.sameDepartment": "माझ्यासारखाच",
+  "group.consentNote": "तुम्ही नोंदणी करत असलेल्या सर्वांच्या वतीने तुम्ही हे स्वीकारत आहात.",
+  "group.offline": "गट नोंदणीसाठी कनेक्शन आवश्यक आहे. ऑनलाइन आल्यावर पुन्हा प्रयत्न करा.",
+  "group.confirmationNumbers": "इतरांचे पुष्टीकरण क्रमांक",
+  "group.tooFew": "किमान आणखी एक व्यक्ती जोडा, किंवा फक्त स्वतःची नोंदणी करा",
+  "group.tooMany": "तुम्ही एकाच वेळी जास्तीत जास्त {max} इतर लोकांची नोंदणी करू शकता",
+  // Invite codes
+  "invite.label": "आमंत्रण कोड",
+  "invite.placeholder": "उदा. AB2C-D3EF",
+  "invite.apply": "लागू करा",
+  "invite.required": "हा कार्यक्रम केवळ आमंत्रणाने आहे. कृपया तुमचा आमंत्रण कोड प्रविष्ट करा.",
+  "invite.valid": "आमंत्रण कोड स्वीकारला",
+  "invite.validDepartment": "{department} साठी आमंत्रण कोड स्वीकारला",
+  "invite.invalid": "हा आमंत्रण कोड या कार्यक्रमासाठी वैध नाही",
+  "invite.expired": "या आमंत्रण कोडची मुदत संपली आहे",
+  "invite.usedUp": "हा आमंत्रण कोड आधीच वापरला गेला आहे",
+  "invite.notEnoughUses": "हा आमंत्रण कोड फक्त आणखी {count} नोंदणींसाठी वैध आहे",
+  "invite.checkFailed": "आमंत्रण कोड तपासता आला नाही, कृपया पुन्हा प्रयत्न करा",
+  "invite.fixCode": "कृपया फॉर्मच्या वरचा आमंत्रण कोड तपासा",
+  // Employee roster
+  "roster.employeeId": "कर्मचारी आयडी",
+  "roster.employeeIdPlaceholder": "उदा. E10234",
+  "roster.employeeIdHint": "तुमच्या HR नोंदीप्रमाणे. ईमेलने जुळवण्यासाठी रिकामे ठेवा.",
+  "roster.matched": "कर्मचारी यादीत सापडले",
+  "roster.notFound": "तुम्ही कर्मचारी यादीत सापडला नाहीत. कृपया तुमचा ईमेल किंवा कर्मचारी आयडी तपासा.",
+  "roster.notFoundFlag": "तुम्ही कर्मचारी यादीत सापडला नाहीत. तरीही तुम्ही नोंदणी करू शकता, HR तुमचे तपशील तपासेल.",
+  "roster.coverageTitle": "अद्याप नोंदणी केलेली नाही",
+  "roster.coverageDescription": "यादीतील {count} लोकांनी नोंदणी केलेली नाही",
+  "roster.allRegistered": "यादीतील सर्वांनी नोंदणी केली आहे",
+  "roster.viewMissing": "कोणी नोंदणी केली नाही ते पाहा",
+  "roster.download": "CSV डाउनलोड करा",
+  "roster.onRoster": "यादीत",
+  "roster.settingsLabel": "कर्मचारी यादी",
+  "roster.policyOff": "बंद",
+  "roster.policyOffDescription": "कोणीही नोंदणी करू शकते; यादी फक्त कव्हरेजसाठी वापरली जाते.",
+  "roster.policyFlag": "चिन्हांकित करा",
+  "roster.policyFlagDescription": "यादीत नसलेल्या लोकांना स्वीकारा आणि पुनरावलोकनासाठी चिन्हांकित करा.",
+  "roster.policyBlock": "रोखा",
+  "roster.policyBlockDescription": "फक्त यादीतील लोकच नोंदणी करू शकतात.",
+  "roster.matchingNote": "नोंदणी करणाऱ्यांची जुळणी कर्मचारी आयडी किंवा ईमेलने होते, आणि त्यांना यादीतील विभागात ठेवले जाते.",
+  "roster.size": "यादीत {count} लोक आहेत. Email आणि/किंवा Employee ID कॉलम असलेली XLSX किंवा CSV अपलोड करा, सोबत पर्यायी Name आणि Department.",
+  "roster.fileRead": "{file} मधून {count} लोक वाचले. जतन केल्यावर सध्याची यादी बदलली जाईल.",
+  "roster.fileReadSkipped": "{file} मधून {count} लोक वाचले, ईमेल किंवा कर्मचारी आयडी नसलेल्या {skipped} ओळी वगळल्या. जतन केल्यावर सध्याची यादी बदलली जाईल.",
+  "roster.fileMissingColumns": "फाइलमध्ये Email किंवा Employee ID कॉलम असणे आवश्यक आहे",
+  "roster.fileEmpty": "फाइलमध्ये ईमेल किंवा कर्मचारी आयडी असलेले कोणीही सापडले नाही",
+  "roster.fileUnreadable": "यादी फाइल वाचता आली नाही",
+  // Payment
+  "payment.pending": "पेमेंट बाकी",
+  "payment.paid": "पेमेंट झाले",
+  "payment.refunded": "परतावा झाला",
+  "payment.title": "नोंदणी शुल्क भरा",
+  "payment.description": "तुमची नोंदणी झाली आहे. नोंदणी पूर्ण करण्यासाठी आता शुल्क भरा.",
+  "payment.descriptionWithCode": "तुमची नोंदणी पुष्टी क्रमांक {code} सह झाली आहे. नोंदणी पूर्ण करण्यासाठी आता शुल्क भरा.",
+  "payment.amountDue": "देय रक्कम",
+  "payment.perPerson": "{fee} प्रति व्यक्ती × {count}",
+  "payment.pay": "{amount} भरा",
+  "payment.retry": "पुन्हा प्रयत्न करा",
+  "payment.payLater": "नंतर कार्यक्रमस्थळी भरा",
+  "payment.payAtDesk": "नोंदणी डेस्कवर पेमेंट करा",
+  "payment.success": "पेमेंट मिळाले",
+  "payment.cancelled": "पेमेंट रद्द झाले. तुम्ही पुन्हा प्रयत्न करू शकता.",
+  "payment.notCompleted": "पेमेंट पूर्ण झाले नाही. कृपया पुन्हा प्रयत्न करा.",
+  "payment.nothingToPay": "या नोंदणीसाठी भरण्यासारखे काही बाकी नाही.",
+  "payment.failed": "पेमेंट अयशस्वी झाले. कृपया पुन्हा प्रयत्न करा.",
+  "payment.unavailable": "ऑनलाइन पेमेंट सध्या उपलब्ध नाही. तुम्ही कार्यक्रमस्थळी पेमेंट करू शकता.",
+  "payment.paidNote": "{amount} चे पेमेंट मिळाले.",
+  "payment.laterNote": "{amount} चे पेमेंट अजून बाकी आहे. कृपया कार्यक्रमस्थळी भरा.",
+  "payment.deskNote": "कृपया नोंदणी डेस्कवर {amount} भरा.",
+  "payment.deferredNote": "प्रतीक्षा यादीतील व्यक्तींचे शुल्क जागा मिळाल्यावरच घेतले जाईल. तेव्हा ते नोंदणी स्थिती पेजवरून पेमेंट करू शकतात.",
+  // Pages
+  "language.label": "भाषा",
+  "header.checkStatus": "स्थिती तपासा",
+  "header.admin": "प्रशासक",
+  "index.heroTitle": "जलद आणि सोपी",
+  "index.heroHighlight": "नोंदणी",
+  "index.heroDescription": "काही मिनिटांत तुमची नोंदणी पूर्ण करा. सुरुवात करण्यासाठी खाली तुमचे तपशील भरा आणि तुमचा फोटो अपलोड करा.",
+  "index.footer": "© {year} SmartReg. सर्व हक्क राखीव.",
+  "page.backToRegistration": "नोंदणीकडे परत जा",
+  "statusPage.title": "नोंदणीची स्थिती",
+  "statusPage.description": "तुमचा पुष्टीकरण क्रमांक आणि ज्या ईमेल किंवा मोबाइल नंबरने नोंदणी केली तो प्रविष्ट करा",
+  "statusPage.confirmationNumber": "पुष्टीकरण क्रमांक",
+  "statusPage.contact": "ईमेल किंवा मोबाइल नंबर",
+  "statusPage.contactPlaceholder": "you@example.com किंवा +91 98765 43210",
+  "statusPage.checking": "तपासत आहे...",
+  "statusPage.notFound":
+    "या तपशीलांशी कोणतीही नोंदणी जुळत नाही. पुष्टीकरण क्रमांक तपासा आणि तुमच्या नोंदणीतील ईमेल किंवा मोबाइल नंबरच वापरा.",
+  "statusPage.lookupFailed": "तुमची नोंदणी शोधता आली नाही, कृपया पुन्हा प्रयत्न करा",
+  "statusPage.submittedOn": "सादर केल्याची तारीख",
+  "statusPage.fee": "नोंदणी शुल्क",
+  "statusPage.payNow": "आता पेमेंट करा",
+  "statusPage.feeAfterWaitlist": "जागा मिळाल्यावर तुम्ही येथे पेमेंट करू शकाल.",
+  "statusPage.organiserMessage": "आयोजकांचा संदेश",
+  "statusPage.requestEdit": "काही दुरुस्त करायचे आहे? संपादन लिंक मागवा",
+  "editPage.checkEmail": "तुमचा ईमेल तपासा",
+  "editPage.linkSent":
+    "पुष्टीकरण क्रमांक {email} ने केलेल्या नोंदणीशी जुळत असल्यास, आम्ही ती संपादित करण्याची लिंक पाठवली आहे. लिंक एकदाच वापरता येते आणि 24 तासांत कालबाह्य होते.",
+  "editPage.title": "तुमची नोंदणी संपादित करा",
+  "editPage.linkExpired": "ही संपादन लिंक कालबाह्य झाली आहे किंवा आधीच वापरली गेली आहे. खाली नवीन लिंक मागवा.",
+  "editPage.description": "तुमचे तपशील दुरुस्त करण्यासाठी आम्ही तुम्हाला एक सुरक्षित लिंक ईमेल करू.",
+  "editPage.sending": "पाठवत आहे...",
+  "editPage.emailMeLink": "मला लिंक ईमेल करा",
+  "editPage.openFailed": "तुमची नोंदणी उघडता आली नाही, कृपया पुन्हा प्रयत्न करा",
+  "editPage.confirmationNumber": "पुष्टीकरण क्रमांक",
+  "editPage.linkUsableUntil": "ही लिंक {date} पर्यंत एकदा वापरता येईल.",
+  "editPage.deliveryFailed": "आम्ही ईमेल पाठवू शकलो नाही, कृपया नंतर पुन्हा प्रयत्न करा",
+  "editPage.requestFailed": "संपादन लिंक मागवता आली नाही",
+  "editPage.linkInvalid": "ही संपादन लिंक कालबाह्य झाली आहे किंवा आधीच वापरली गेली आहे, कृपया नवीन लिंक मागवा",
+  // Admin
+  "admin.label": "प्रशासक",
+  "admin.navDashboard": "डॅशबोर्ड",
+  "admin.navFormBuilder": "फॉर्म बिल्डर",
+  "admin.navConsents": "संमती",
+  "admin.navAttempts": "रोखलेले प्रयत्न",
+  "admin.navInvites": "आमंत्रण कोड",
+  "admin.signOut": "साइन आउट",
+  "dashboard.loadFailed": "नोंदण्या लोड करता आल्या नाहीत",
+  "dashboard.deleted": "नोंदणी यशस्वीरित्या हटवली",
+  "dashboard.deleteFailed": "नोंदणी हटवता आली नाही",
+  "dashboard.updated": "नोंदणी यशस्वीरित्या अद्ययावत झाली",
+  "dashboard.updateFailed": "नोंदणी अद्ययावत करता आली नाही",
+  "dashboard.exported": "निर्यात पूर्ण झाली",
+  "dashboard.title": "डॅशबोर्ड",
+  "dashboard.description": "सर्व नोंदणी प्रविष्ट्या पाहा आणि व्यवस्थापित करा",
+  "dashboard.eventRegistrations": "{event} च्या नोंदण्या",
+  "dashboard.allRegistrations": "सर्व नोंदण्या",
+  "export.sheetName": "नोंदण्या",
+  "export.confirmationNo": "पुष्टी क्रमांक",
+  "export.name": "नाव",
+  "export.mobile": "मोबाइल",
+  "export.email": "ईमेल",
+  "export.gender": "लिंग",
+  "export.department": "विभाग",
+  "export.address": "पत्ता",
+  "export.city": "शहर",
+  "export.state": "राज्य",
+  "export.postalCode": "पिन कोड",
+  "export.country": "देश",
+  "export.status": "स्थिती",
+  "export.waitlistPosition": "प्रतीक्षा यादीतील स्थान",
+  "export.language": "भाषा",
+  "export.group": "गट",
+  "export.employeeId": "कर्मचारी आयडी",
+  "export.roster": "रोस्टर",
+  "export.payment": "पेमेंट",
+  "export.amount": "रक्कम",
+  "export.paymentReference": "पेमेंट संदर्भ",
+  "export.source": "स्रोत",
+  "export.sourceWeb": "वेब",
+  "export.sourceKiosk": "किऑस्क ({device})",
+  "export.unknownDevice": "अज्ञात डिव्हाइस",
+  "export.registeredDate": "नोंदणी दिनांक",
+  "stats.total": "एकूण नोंदण्या",
+  "stats.today": "आजच्या नोंदी",
+  "stats.departments": "विभाग",
+  "stats.growth": "वाढीचा दर",
+  "stats.capacity": "वापरलेली क्षमता",
+  "stats.capacityDetail": "{capacity} पैकी {taken} जागा · {waitlisted} प्रतीक्षा यादीत",
+  "stats.roster": "यादी कव्हरेज",
+  "stats.rosterDetail": "{total} पैकी {registered} नोंदणीकृत",
+  "table.searchPlaceholder": "नाव, मोबाइल, ईमेल किंवा पुष्टीकरण क्रमांकाने शोधा...",
+  "table.department": "विभाग",
+  "table.allDepartments": "सर्व विभाग",
+  "table.state": "राज्य",
+  "table.allStates": "सर्व राज्ये",
+  "table.city": "शहर",
+  "table.allCities": "सर्व शहरे",
+  "table.status": "स्थिती",
+  "table.allStatuses": "सर्व स्थिती",
+  "table.clear": "साफ करा",
+  "table.export": "निर्यात करा",
+  "table.photo": "फोटो",
+  "table.name": "नाव",
+  "table.mobile": "मोबाइल",
+  "table.email": "ईमेल",
+  "table.date": "तारीख",
+  "table.actions": "क्रिया",
+  "table.loading": "लोड होत आहे...",
+  "table.empty": "कोणतीही नोंदणी सापडली नाही",
+  "table.possibleDuplicate": "संभाव्य डुप्लिकेट",
+  "table.groupOf": "{count} जणांचा गट",
+  "table.showGroup": "फक्त हा गट दाखवा",
+  "table.notOnRoster": "यादीत नाही",
+  "table.payment": "पेमेंट",
+  "table.allPayments": "सर्व पेमेंट",
+  "table.noFee": "शुल्क नाही",
+  "table.view": "पाहा",
+  "table.edit": "संपादित करा",
+  "table.delete": "हटवा",
+  "table.showing": "{total} पैकी {from}-{to} दाखवत आहे",
+  "table.deleteTitle": "नोंदणी हटवा",
+  "table.deleteDescription":
+    "तुम्हाला खात्री आहे की ही नोंदणी हटवायची आहे? हे पूर्ववत करता येणार नाही आणि संबंधित फोटोही हटवला जाईल.",
+  "view.title": "नोंदणीचे तपशील",
+  "view.possibleDuplicate": "संभाव्य डुप्लिकेट: हा ईमेल किंवा मोबाइल नंबर आधीच नोंदणीकृत होता",
+  "view.address": "पत्ता",
+  "view.language": "पसंतीची भाषा",
+  "view.registeredOn": "नोंदणीची तारीख",
+  "view.registeredVia": "नोंदणीचे माध्यम",
+  "view.sourceWeb": "वेब फॉर्म",
+  "view.sourceKiosk": "कियोस्क {device}",
+  "view.groupMembers": "सोबत नोंदणी केलेले",
+  "view.groupSubmitter": "गट सादर करणारे",
+  "view.employeeId": "कर्मचारी आयडी",
+  "view.roster": "कर्मचारी यादी",
+  "view.rosterMatched": "यादीत आहे",
+  "view.rosterUnmatched": "यादीत नाही",
+  "view.payment": "पेमेंट",
+  "view.paidOn": "{date} रोजी {provider} द्वारे भरले",
+  "view.paymentManual": "नोंदवलेल्या पेमेंट",
+  "view.paymentReference": "संदर्भ",
+  "view.paymentReferencePlaceholder": "पावती किंवा व्यवहार क्रमांक (पर्यायी)",
+  "view.recordPayment": "पेमेंट नोंदवा",
+  "view.markRefunded": "परतावा झाला म्हणून चिन्हांकित करा",
+  "view.markRefundedHint": "फक्त नोंद बदलते; पैसे पेमेंट गेटवेद्वारे किंवा प्रत्यक्ष परत करा.",
+  "view.additionalDetails": "अतिरिक्त तपशील",
+  "verification.verifiedOn": "{date} रोजी पडताळले",
+  "verification.verified": "पडताळलेले",
+  "verification.unverified": "न पडताळलेले",
+  "consent.acceptedOn": "{date} रोजी स्वीकारले",
+  "consent.noneRecorded": "कोणतीही संमती नोंदलेली नाही",
+  "consent.issueNotAccepted": "{title}: स्वीकारलेले नाही (सध्याची v{current})",
+  "consent.issueOutdated": "{title}: v{accepted} (सध्याची v{current})",
+  "document.sectionTitle": "कागदपत्रे",
+  "document.openFailed": "कागदपत्र उघडता आले नाही",
+  "document.preview": "{name} चे पूर्वावलोकन",
+  "document.download": "{name} डाउनलोड करा",
+  "history.title": "बदलांचा इतिहास",
+  "history.admin": "प्रशासक",
+  "history.registrant": "नोंदणीकर्ता",
+  "history.system": "प्रणाली",
+  "invites.title": "आमंत्रण कोड",
+  "invites.description": "कोड विभाग आधीच ठरवतात; कोड आवश्यक करण्यासाठी इव्हेंट सेटिंग्जमध्ये फक्त आमंत्रण सुरू करा",
+  "invites.descriptionInviteOnly": "हा इव्हेंट फक्त यापैकी एका कोडसह नोंदणी स्वीकारतो",
+  "invites.statCodes": "कोड",
+  "invites.statCodesDescription": "या इव्हेंटसाठी तयार केलेले",
+  "invites.statRedemptions": "वापर",
+  "invites.statRedemptionsDescription": "कोडने केलेल्या नोंदणी",
+  "invites.statUsedUpDescription": "ज्यांचा वापर शिल्लक नाही असे कोड",
+  "invites.statExpiredDescription": "मुदत संपलेले कोड",
+  "invites.stateActive": "सक्रिय",
+  "invites.stateUsedUp": "वापरून झाले",
+  "invites.stateExpired": "मुदत संपली",
+  "invites.searchPlaceholder": "कोड, लेबल किंवा विभागाने शोधा...",
+  "invites.generate": "कोड तयार करा",
+  "invites.code": "कोड",
+  "invites.label": "लेबल",
+  "invites.uses": "वापर",
+  "invites.expires": "मुदत",
+  "invites.never": "कधीच नाही",
+  "invites.anyDepartment": "कोणताही",
+  "invites.empty": "आमंत्रण कोड नाहीत",
+  "invites.copyLink": "आमंत्रण लिंक कॉपी करा",
+  "invites.linkCopied": "आमंत्रण लिंक कॉपी झाली",
+  "invites.copyFailed": "लिंक कॉपी करता आली नाही",
+  "invites.loadFailed": "आमंत्रण कोड लोड करता आले नाहीत",
+  "invites.delete": "आमंत्रण कोड हटवा",
+  "invites.deleteTitle": "आमंत्रण कोड हटवा",
+  "invites.deleteDescription": "\"{code}\" काम करणे थांबवेल. त्याने आधी केलेल्या नोंदणी कायम राहतील.",
+  "invites.deleted": "आमंत्रण कोड हटवला",
+  "invites.deleteFailed": "आमंत्रण कोड हटवता आला नाही",
+  "invites.generateTitle": "आमंत्रण कोड तयार करा",
+  "invites.generateDescription": "नवीन कोड प्रत्येकाच्या नोंदणी लिंकसह CSV म्हणून डाउनलोड होतात, मेल मर्जसाठी तयार.",
+  "invites.count": "कोडची संख्या",
+  "invites.maxUses": "प्रति कोड वापर",
+  "invites.registrantChooses": "नोंदणी करणारा निवडेल",
+  "invites.departmentHint": "या कोडने केलेल्या नोंदणी याच विभागात ठेवल्या जातात.",
+  "invites.expiresHint": "कधीही मुदत न संपणाऱ्या कोडसाठी रिकामे ठेवा.",
+  "invites.labelPlaceholder": "उदा. भागीदार महाविद्यालये",
+  "invites.generateSubmit": "तयार करा",
+  "invites.countInvalid": "एका वेळी 1 ते {max} कोड तयार करा",
+  "invites.maxUsesInvalid": "प्रति कोड वापर किमान 1 ची पूर्ण संख्या असावी",
+  "invites.expiryInPast": "मुदत भविष्यातील असावी",
+  "invites.generated": "{count} आमंत्रण कोड तयार झाले",
+  "invites.generateFailed": "आमंत्रण कोड तयार करता आले नाहीत",
+  "events.select": "कार्यक्रम निवडा",
+  "events.inactive": "(निष्क्रिय)",
+  "events.copyLink": "लिंक कॉपी करा",
+  "events.linkCopied": "फॉर्म लिंक कॉपी झाली",
+  "events.settings": "सेटिंग्ज",
+  "events.new": "नवीन कार्यक्रम",
+  "events.newDescription": "प्रत्येक कार्यक्रमाचा स्वतःचा सार्वजनिक नोंदणी फॉर्म आणि सबमिशनची स्वतःची यादी असते.",
+  "events.name": "नाव",
+  "events.namePlaceholder": "उदा. स्प्रिंग हॅकेथॉन 2026",
+  "events.slug": "URL स्लग",
+  "events.description": "वर्णन",
+  "events.descriptionPlaceholder": "नोंदणी फॉर्मच्या वर दाखवले जाते",
+  "events.creating": "तयार करत आहे...",
+  "events.create": "कार्यक्रम तयार करा",
+  "events.nameRequired": "कार्यक्रमाचे नाव आणि URL स्लग आवश्यक आहेत",
+  "events.slugTaken": "या URL स्लगचा कार्यक्रम आधीच अस्तित्वात आहे",
+  "events.created": "कार्यक्रम यशस्वीरित्या तयार झाला",
+  "events.createFailed": "कार्यक्रम तयार करण्यात अयशस्वी",
+  "eventSettings.title": "कार्यक्रम सेटिंग्ज",
+  "eventSettings.description": "बदल {path} येथील सार्वजनिक फॉर्मवर लगेच लागू होतात.",
+  "eventSettings.active": "सक्रिय",
+  "eventSettings.activeHint": "निष्क्रिय कार्यक्रम लोकांपासून लपवले जातात.",
+  "eventSettings.paused": "नोंदणी थांबवा",
+  "eventSettings.pausedHint": "वेळापत्रक काहीही असले तरी फॉर्म लगेच बंद करा.",
+  "eventSettings.opensAt": "उघडण्याची वेळ",
+  "eventSettings.closesAt": "बंद होण्याची वेळ",
+  "eventSettings.scheduleHint": "लगेच उघडण्यासाठी किंवा कधीही बंद न करण्यासाठी रिकामे ठेवा. उघडण्यापूर्वी सार्वजनिक फॉर्म उलटी गणती दाखवतो.",
+  "eventSettings.maxRegistrations": "कमाल नोंदण्या",
+  "eventSettings.noLimit": "मर्यादा नाही",
+  "eventSettings.maxRegistrationsHint": "इतक्या नोंदण्या मिळाल्यावर फॉर्म बंद होतो.",
+  "eventSettings.fee": "नोंदणी शुल्क ({currency})",
+  "eventSettings.feePlaceholder": "विनामूल्य",
+  "eventSettings.feeHint": "नोंदणीनंतर लगेच प्रति व्यक्ती आकारले जाते. जे ऑनलाइन भरत नाहीत ते त्यांच्या तपशिलातून पेमेंट नोंदवले जाईपर्यंत प्रलंबित राहतात. नवीन शुल्क फक्त नवीन नोंदण्यांना लागू होते.",
+  "eventSettings.wizard": "टप्प्याटप्प्याचा फॉर्म",
+  "eventSettings.wizardHint": "फॉर्म छोट्या टप्प्यांत विभागा, सबमिट करण्यापूर्वी पुनरावलोकन स्क्रीनसह.",
+  "eventSettings.emailVerification": "ईमेल पत्ता सत्यापित करा",
+  "eventSettings.emailVerificationHint": "नोंदणी करणाऱ्यांनी सबमिट करण्यापूर्वी त्यांच्या ईमेलवर पाठवलेला कोड टाकला पाहिजे.",
+  "eventSettings.mobileVerification": "मोबाइल नंबर सत्यापित करा",
+  "eventSettings.mobileVerificationHint": "नोंदणी करणाऱ्यांनी सबमिट करण्यापूर्वी SMS ने पाठवलेला कोड टाकला पाहिजे.",
+  "eventSettings.inviteOnly": "फक्त निमंत्रण",
+  "eventSettings.inviteOnlyHint": "नोंदणी करणाऱ्यांना निमंत्रण कोड पेजवरील निमंत्रण कोड लागतो.",
+  "eventSettings.duplicatePolicy": "दुहेरी नोंदण्या",
+  "eventSettings.kioskPin": "कियोस्क PIN",
+  "eventSettings.kioskPinUnchanged": "न बदललेला",
+  "eventSettings.kioskPinPlaceholder": "4 ते 8 अंक",
+  "eventSettings.kioskPinHint": "ठिकाणावरील टॅब्लेट {path} येथे फॉर्म चालवतात; टॅब्लेटला नाव देण्यासाठी एकदा ?device=<name> जोडा. तो सोडण्यासाठी कर्मचाऱ्यांना हा PIN लागतो.",
+  "eventSettings.kioskPinMissing": "अजून PIN सेट केलेला नाही, त्यामुळे कियोस्क सोडता येत नाहीत.",
+  "eventSettings.capacity": "विभाग क्षमता",
+  "eventSettings.capacityHint": "विभागाच्या जागांपेक्षा जास्त नोंदण्या प्रतीक्षा यादीत जातात आणि जागा रिकाम्या होताच क्रमाने पुढे नेल्या जातात. मर्यादा नको असल्यास रिकामे ठेवा.",
+  "eventSettings.save": "सेटिंग्ज जतन करा",
+  "eventSettings.saved": "कार्यक्रम सेटिंग्ज जतन झाल्या",
+  "eventSettings.saveFailed": "कार्यक्रम सेटिंग्ज जतन करण्यात अयशस्वी",
+  "eventSettings.capacityLoadFailed": "विभाग क्षमता लोड करण्यात अयशस्वी",
+  "eventSettings.nameRequired": "कार्यक्रमाचे नाव आवश्यक आहे",
+  "eventSettings.closesBeforeOpens": "बंद होण्याची वेळ उघडण्याच्या वेळेनंतर असावी",
+  "eventSettings.maxRegistrationsInvalid": "कमाल नोंदण्या शून्यापेक्षा मोठी पूर्ण संख्या असावी, किंवा मर्यादा नको असल्यास रिकामी",
+  "eventSettings.capacityInvalid": "विभाग क्षमता पूर्ण संख्या असाव्यात, किंवा मर्यादा नको असल्यास रिकाम्या",
+  "eventSettings.feeInvalid": "नोंदणी शुल्क शून्यापेक्षा जास्त रक्कम असावी, किंवा विनामूल्य कार्यक्रमासाठी रिकामे",
+  "eventSettings.kioskPinInvalid": "कियोस्क PIN 4 ते 8 अंकांचा असावा",
+  "duplicatePolicy.block": "रोखा",
+  "duplicatePolicy.blockDescription": "त्याच ईमेल किंवा मोबाइल नंबरची दुसरी नोंदणी नाकारा.",
+  "duplicatePolicy.warn": "इशारा द्या",
+  "duplicatePolicy.warnDescription": "नोंदणी करणाऱ्याला पुष्टी करण्यास सांगा, मग ती स्वीकारा आणि पुनरावलोकनासाठी चिन्हांकित करा.",
+  "duplicatePolicy.allow": "परवानगी द्या",
+  "duplicatePolicy.allowDescription": "कोणत्याही तपासणीशिवाय पुन्हा झालेल्या नोंदण्या स्वीकारा.",
+  "fieldType.text": "लहान मजकूर",
+  "fieldType.textarea": "परिच्छेद",
+  "fieldType.number": "संख्या",
+  "fieldType.email": "ईमेल",
+  "fieldType.select": "ड्रॉपडाउन",
+  "fieldType.radio": "बहुपर्यायी",
+  "fieldType.checkbox": "चेकबॉक्स",
+  "fieldType.date": "तारीख",
+  "formBuilder.description": "प्रत्येक कार्यक्रमाच्या नोंदणी फॉर्ममध्ये स्वतःचे प्रश्न जोडा",
+  "formBuilder.customFields": "सानुकूल फील्ड",
+  "formBuilder.addField": "फील्ड जोडा",
+  "formBuilder.saveField": "फील्ड जतन करा",
+  "formBuilder.empty": "हा कार्यक्रम फक्त मानक नोंदणी फील्ड वापरतो.",
+  "formBuilder.preview": "थेट पूर्वावलोकन",
+  "formBuilder.previewEmpty": "तुम्ही जोडलेली सानुकूल फील्ड येथे मानक नोंदणी फील्डच्या खाली दिसतील.",
+  "formBuilder.previewValid": "सर्व उत्तरे वैध आहेत",
+  "formBuilder.testValidation": "प्रमाणीकरण तपासा",
+  "formBuilder.untitled": "शीर्षक नसलेले फील्ड",
+  "formBuilder.label": "लेबल",
+  "formBuilder.labelPlaceholder": "उदा. टी-शर्ट आकार",
+  "formBuilder.key": "फील्ड की",
+  "formBuilder.type": "प्रकार",
+  "formBuilder.placeholder": "प्लेसहोल्डर",
+  "formBuilder.options": "पर्याय (प्रत्येक ओळीत एक)",
+  "formBuilder.minValue": "किमान मूल्य",
+  "formBuilder.maxValue": "कमाल मूल्य",
+  "formBuilder.minLength": "किमान लांबी",
+  "formBuilder.maxLength": "कमाल लांबी",
+  "formBuilder.pattern": "पॅटर्न (रेग्युलर एक्सप्रेशन)",
+  "formBuilder.required": "आवश्यक",
+  "formBuilder.showInTable": "टेबल कॉलम म्हणून दाखवा",
+  "formBuilder.labelRequired": "लेबल आवश्यक आहे",
+  "formBuilder.keyInvalid": "फील्ड की अक्षराने सुरू व्हावी आणि त्यात फक्त लहान अक्षरे, अंक आणि अंडरस्कोर असावेत",
+  "formBuilder.keyTaken": "दुसरे फील्ड आधीच ही की वापरते",
+  "formBuilder.optionsTooFew": "किमान दोन पर्याय जोडा",
+  "formBuilder.minAboveMax": "किमान हे कमालपेक्षा मोठे असू शकत नाही",
+  "formBuilder.patternInvalid": "पॅटर्न वैध रेग्युलर एक्सप्रेशन नाही",
+  "formBuilder.saved": "फील्ड जतन झाले",
+  "formBuilder.saveFailed": "फील्ड जतन करण्यात अयशस्वी",
+  "formBuilder.reorderFailed": "फील्डचा क्रम बदलण्यात अयशस्वी",
+  "formBuilder.deleted": "फील्ड हटवले",
+  "formBuilder.deleteFailed": "फील्ड हटवण्यात अयशस्वी",
+  "formBuilder.deleteTitle": "फील्ड हटवा",
+  "formBuilder.deleteDescription": "\"{label}\" फॉर्ममधून काढले जाईल. आधीच सबमिट केलेली उत्तरे प्रत्येक नोंदणीवर ठेवली जातात पण यापुढे दाखवली जाणार नाहीत.",
+  "attemptReason.honeypot": "हनीपॉट",
+  "attemptReason.honeypotDescription": "फक्त बॉटना दिसणारे लपवलेले फील्ड भरले",
+  "attemptReason.tooFast": "खूप वेगाने",
+  "attemptReason.tooFastDescription": "फॉर्म उघडल्यानंतर माणसाला शक्य त्यापेक्षा लवकर पाठवले",
+  "attemptReason.challengeInvalid": "अयशस्वी आव्हान",
+  "attemptReason.challengeInvalidDescription": "प्रूफ-ऑफ-वर्क उत्तर नाही, कालबाह्य किंवा चुकीचे",
+  "attemptReason.challengeReused": "पुन्हा वापरलेले आव्हान",
+  "attemptReason.challengeReusedDescription": "आधीच वापरलेले उत्तर पुन्हा पाठवले",
+  "attemptReason.ipRateLimited": "IP दर मर्यादा",
+  "attemptReason.ipRateLimitedDescription": "एका IP पत्त्यावरून खूप जास्त विनंत्या",
+  "attemptReason.emailRateLimited": "ईमेल दर मर्यादा",
+  "attemptReason.emailRateLimitedDescription": "एका ईमेलसाठी खूप जास्त सबमिशन",
+  "attempts.description": "स्पॅम संरक्षणाने नाकारलेली सबमिशन, अपलोड आणि पडताळणी कोड विनंत्या, नवीन आधी ({limit} पर्यंत)",
+  "attempts.loadFailed": "रोखलेले प्रयत्न लोड करण्यात अयशस्वी",
+  "attempts.searchPlaceholder": "IP पत्ता किंवा ईमेलने शोधा...",
+  "attempts.reason": "कारण",
+  "attempts.allReasons": "सर्व कारणे",
+  "attempts.time": "वेळ",
+  "attempts.action": "क्रिया",
+  "attempts.actionSubmit": "सबमिट",
+  "attempts.actionUpload": "अपलोड",
+  "attempts.actionVerify": "पडताळणी कोड",
+  "attempts.ipAddress": "IP पत्ता",
+  "attempts.event": "कार्यक्रम",
+  "attempts.unknownEvent": "अज्ञात कार्यक्रम",
+  "attempts.empty": "रोखलेले प्रयत्न नाहीत",
+  "consentKind.privacy": "गोपनीयता धोरण",
+  "consentKind.terms": "अटी",
+  "consentKind.marketing": "मार्केटिंग",
+  "consents.description": "गोपनीयता आणि अटींचे मजकूर प्रकाशित करा आणि पुन्हा संमती द्यावी लागणाऱ्या नोंदण्या शोधा",
+  "consents.current": "सध्याचे दस्तऐवज",
+  "consents.currentHint": "हे प्रत्येक कार्यक्रमाला लागू होतात. नवीन आवृत्ती प्रकाशित केल्याने आधीच्या नोंदण्यांनी स्वीकारलेले कधीही बदलत नाही.",
+  "consents.requiredPublished": "आवश्यक · {date} रोजी प्रकाशित",
+  "consents.optionalPublished": "ऐच्छिक · {date} रोजी प्रकाशित",
+  "consents.notPublished": "प्रकाशित नाही",
+  "consents.newVersion": "नवीन आवृत्ती",
+  "consents.publish": "प्रकाशित करा",
+  "consents.publishing": "प्रकाशित करत आहे...",
+  "consents.outdated": "जुन्या संमती",
+  "consents.outdatedCount": "{total} पैकी {count} नोंदण्या",
+  "consents.needsConsentFor": "यासाठी संमती हवी",
+  "consents.allAccepted": "प्रत्येक नोंदणीने सध्याचे दस्तऐवज स्वीकारले आहेत",
+  "consents.publishTitle": "{kind} प्रकाशित करा",
+  "consents.publishNext": "आवृत्ती {version} प्रकाशित करते. नवीन नोंदण्यांनी ती स्वीकारली पाहिजे; सध्याच्या नोंदण्या त्यांनी स्वीकारलेली आवृत्ती ठेवतात.",
+  "consents.publishFirst": "आवृत्ती 1 प्रकाशित करते. नवीन नोंदण्यांना ती स्वीकारण्यास सांगितले जाईल.",
+  "consents.title": "शीर्षक",
+  "consents.text": "मजकूर",
+  "consents.required": "आवश्यक",
+  "consents.requiredHint": "नोंदणी करणारे हे स्वीकारल्याशिवाय सबमिट करू शकत नाहीत.",
+  "consents.textRequired": "शीर्षक आणि मजकूर आवश्यक आहेत",
+  "consents.published": "{title} v{version} प्रकाशित झाले",
+  "consents.publishFailed": "दस्तऐवज प्रकाशित करण्यात अयशस्वी",
+  "login.back": "नोंदणीकडे परत",
+  "login.title": "अॅडमिन लॉगिन",
+  "login.description": "अॅडमिन डॅशबोर्डसाठी साइन इन करा",
+  "login.password": "पासवर्ड",
+  "login.signIn": "साइन इन करा",
+  "login.signingIn": "साइन इन करत आहे...",
+  "login.needAccess": "अॅडमिन प्रवेश हवा आहे?",
+  "login.createAccount": "खाते तयार करा",
+  "login.invalidCredentials": "अवैध ईमेल किंवा पासवर्ड",
+  "login.unexpectedError": "अनपेक्षित त्रुटी आली",
+  "signup.back": "लॉगिनकडे परत",
+  "signup.title": "अॅडमिन खाते तयार करा",
+  "signup.description": "नोंदण्या व्यवस्थापित करण्यासाठी साइन अप करा",
+  "signup.creating": "खाते तयार करत आहे...",
+  "signup.haveAccount": "आधीच खाते आहे?",
+  "signup.signIn": "साइन इन करा",
+  "signup.alreadyRegistered": "हा ईमेल आधीच नोंदणीकृत आहे. कृपया साइन इन करा.",
+  "signup.roleFailed": "खाते तयार झाले पण अॅडमिन भूमिका देण्यात अयशस्वी",
+  "signup.created": "अॅडमिन खाते यशस्वीरित्या तयार झाले!",
+};
@@ -1,5 +1,10 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
+import { startOutboxSync } from "./lib/outbox";
+import { registerServiceWorker } from "./lib/service-worker";
 import "./index.css";
 
+registerServiceWorker();
+startOutboxSync();
+
 createRoot(document.getElementById("root")!).render(<App />);
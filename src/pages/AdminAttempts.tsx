@@ -0,0 +1,207 @@
+import { useEffect, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { toast } from "sonner";
+import { Search, ShieldBan } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useEvents } from "@/hooks/useEvents";
+import { useLanguage } from "@/hooks/useLanguage";
+import { formatDate, t } from "@/lib/i18n";
+import {
+  ATTEMPT_ACTION_LABELS,
+  ATTEMPT_REASON_OPTIONS,
+  REJECTED_ATTEMPTS_LIMIT,
+  fetchRejectedAttempts,
+  getAttemptReasonLabel,
+} from "@/lib/registration-attempts";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { RegistrationAttempt, RegistrationAttemptReason } from "@/types/registration";
+
+export default function AdminAttempts() {
+  useLanguage();
+  const { user, isAdmin } = useAuth();
+  const { events } = useEvents(!!user && isAdmin);
+  const [attempts, setAttempts] = useState<RegistrationAttempt[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reasonFilter, setReasonFilter] = useState<RegistrationAttemptReason | "all">("all");
+  const [searchQuery, setSearchQuery] = useState("");
+
+  const canLoad = !!user && isAdmin;
+
+  useEffect(() => {
+    if (!canLoad) return;
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetchRejectedAttempts()
+      .then((data) => {
+        if (!cancelled) setAttempts(data);
+      })
+      .catch((error) => {
+        console.error("Error fetching registration attempts:", error);
+        if (!cancelled) toast.error(t("attempts.loadFailed"));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [canLoad]);
+
+  const eventNames = useMemo(() => new Map(events.map((event) => [event.id, event.name])), [events]);
+
+  const reasonCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    attempts.forEach((attempt) => {
+      if (attempt.reason) counts.set(attempt.reason, (counts.get(attempt.reason) ?? 0) + 1);
+    });
+    return counts;
+  }, [attempts]);
+
+  const filteredAttempts = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return attempts.filter(
+      (attempt) =>
+        (reasonFilter === "all" || attempt.reason === reasonFilter) &&
+        (!query || attempt.ip_address.includes(query) || attempt.email?.includes(query))
+    );
+  }, [attempts, reasonFilter, searchQuery]);
+
+  return (
+    <AdminLayout>
+      <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+        <h1 className="text-3xl font-bold text-foreground mb-2">{t("admin.navAttempts")}</h1>
+        <p className="text-muted-foreground">
+          {t("attempts.description", { limit: REJECTED_ATTEMPTS_LIMIT })}
+        </p>
+      </motion.div>
+
+      <motion.ul
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3"
+      >
+        {ATTEMPT_REASON_OPTIONS.map((option) => (
+          <li key={option.value} className="form-card p-4">
+            <p className="text-sm font-medium">{t(option.labelKey)}</p>
+            <p className="text-2xl font-bold text-foreground">
+              {isLoading ? "—" : reasonCounts.get(option.value) ?? 0}
+            </p>
+            <p className="text-xs text-muted-foreground">{t(option.descriptionKey)}</p>
+          </li>
+        ))}
+      </motion.ul>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+        className="space-y-4"
+      >
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder={t("attempts.searchPlaceholder")}
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Select
+            value={reasonFilter}
+            onValueChange={(value) => setReasonFilter(value as RegistrationAttemptReason | "all")}
+          >
+            <SelectTrigger className="w-full sm:w-[200px]">
+              <SelectValue placeholder={t("attempts.reason")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t("attempts.allReasons")}</SelectItem>
+              {ATTEMPT_REASON_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {t(option.labelKey)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="form-card overflow-hidden">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50">
+                  <TableHead>{t("attempts.time")}</TableHead>
+                  <TableHead>{t("attempts.reason")}</TableHead>
+                  <TableHead className="hidden sm:table-cell">{t("attempts.action")}</TableHead>
+                  <TableHead>{t("attempts.ipAddress")}</TableHead>
+                  <TableHead className="hidden md:table-cell">{t("table.email")}</TableHead>
+                  <TableHead className="hidden lg:table-cell">{t("attempts.event")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-10">
+                      <div className="flex items-center justify-center gap-2">
+                        <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                        {t("table.loading")}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : filteredAttempts.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-10 text-muted-foreground">
+                      <ShieldBan className="w-6 h-6 mx-auto mb-2" />
+                      {t("attempts.empty")}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  filteredAttempts.map((attempt) => (
+                    <TableRow key={attempt.id}>
+                      <TableCell className="whitespace-nowrap text-muted-foreground">
+                        {formatDate(attempt.created_at, "MMM dd, HH:mm:ss")}
+                      </TableCell>
+                      <TableCell>
+                        {attempt.reason && (
+                          <Badge variant="outline">{getAttemptReasonLabel(attempt.reason)}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="hidden sm:table-cell">{t(ATTEMPT_ACTION_LABELS[attempt.action])}</TableCell>
+                      <TableCell className="font-mono text-sm" title={attempt.user_agent ?? undefined}>
+                        {attempt.ip_address}
+                      </TableCell>
+                      <TableCell className="hidden md:table-cell">{attempt.email ?? "—"}</TableCell>
+                      <TableCell className="hidden lg:table-cell text-muted-foreground">
+                        {attempt.event_id ? eventNames.get(attempt.event_id) ?? t("attempts.unknownEvent") : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </motion.div>
+    </AdminLayout>
+  );
+}
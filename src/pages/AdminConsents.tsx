@@ -0,0 +1,231 @@
+import { useEffect, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { toast } from "sonner";
+import { FileCheck2, Plus, ShieldAlert } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useSelectedEvent } from "@/hooks/useEvents";
+import { useConsentDocuments } from "@/hooks/useConsentDocuments";
+import { useLanguage } from "@/hooks/useLanguage";
+import { formatDate, t } from "@/lib/i18n";
+import {
+  CONSENT_KIND_OPTIONS,
+  formatConsentIssue,
+  getConsentIssues,
+  getCurrentConsentDocuments,
+} from "@/lib/consents";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { EventSwitcher } from "@/components/admin/EventSwitcher";
+import { PublishConsentDialog } from "@/components/admin/PublishConsentDialog";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { ConsentKind } from "@/types/consent";
+import type { Registration } from "@/types/registration";
+
+type ConsentReportRow = Pick<
+  Registration,
+  "id" | "full_name" | "email" | "confirmation_code" | "consent_document_ids" | "created_at"
+>;
+
+export default function AdminConsents() {
+  useLanguage();
+  const { user, isAdmin } = useAuth();
+  const { events, selectedEvent, selectedEventId, setSelectedEventId, addEvent, updateEvent } =
+    useSelectedEvent(!!user && isAdmin);
+  const { documents, setDocuments, isLoading: documentsLoading } = useConsentDocuments({ allVersions: true });
+  const [registrations, setRegistrations] = useState<ConsentReportRow[]>([]);
+  const [registrationsLoading, setRegistrationsLoading] = useState(true);
+  const [publishKind, setPublishKind] = useState<ConsentKind | null>(null);
+
+  const activeEventId = selectedEvent?.id;
+
+  useEffect(() => {
+    if (!activeEventId) return;
+    let cancelled = false;
+    setRegistrationsLoading(true);
+
+    supabase
+      .from("registrations")
+      .select("id, full_name, email, confirmation_code, consent_document_ids, created_at")
+      .eq("event_id", activeEventId)
+      .order("created_at", { ascending: false })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error("Error fetching registrations:", error);
+          toast.error(t("dashboard.loadFailed"));
+        } else {
+          setRegistrations(data as ConsentReportRow[]);
+        }
+        setRegistrationsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeEventId]);
+
+  const currentDocuments = useMemo(() => getCurrentConsentDocuments(documents), [documents]);
+
+  const outdated = useMemo(
+    () =>
+      registrations
+        .map((registration) => ({ registration, issues: getConsentIssues(registration, documents) }))
+        .filter(({ issues }) => issues.length > 0),
+    [registrations, documents]
+  );
+
+  const isLoading = documentsLoading || registrationsLoading;
+
+  return (
+    <AdminLayout>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex flex-col lg:flex-row lg:items-end justify-between gap-4"
+      >
+        <div>
+          <h1 className="text-3xl font-bold text-foreground mb-2">{t("admin.navConsents")}</h1>
+          <p className="text-muted-foreground">{t("consents.description")}</p>
+        </div>
+        <EventSwitcher
+          events={events}
+          selectedEventId={selectedEventId}
+          onSelect={setSelectedEventId}
+          onCreated={addEvent}
+          onUpdated={updateEvent}
+        />
+      </motion.div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="form-card p-6 space-y-4"
+      >
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <FileCheck2 className="w-5 h-5 text-primary" />
+          {t("consents.current")}
+        </h2>
+        <p className="text-sm text-muted-foreground">{t("consents.currentHint")}</p>
+        <ul className="grid gap-3 md:grid-cols-3">
+          {CONSENT_KIND_OPTIONS.map((option) => {
+            const current = currentDocuments.find((document) => document.kind === option.value);
+            return (
+              <li key={option.value} className="rounded-lg border border-border p-4 space-y-2">
+                <p className="text-xs uppercase tracking-wide text-muted-foreground">{t(option.labelKey)}</p>
+                {current ? (
+                  <>
+                    <p className="font-medium">
+                      {current.title} <span className="text-muted-foreground">v{current.version}</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {t(current.required ? "consents.requiredPublished" : "consents.optionalPublished", {
+                        date: formatDate(current.created_at, "MMM dd, yyyy"),
+                      })}
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">{t("consents.notPublished")}</p>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="gap-2"
+                  onClick={() => setPublishKind(option.value)}
+                >
+                  <Plus className="w-4 h-4" />
+                  {t(current ? "consents.newVersion" : "consents.publish")}
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      </motion.div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+        className="space-y-4"
+      >
+        <h2 className="text-xl font-semibold text-foreground flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5 text-warning" />
+          {t("consents.outdated")}
+          {!isLoading && (
+            <span className="text-sm font-normal text-muted-foreground">
+              {t("consents.outdatedCount", { count: outdated.length, total: registrations.length })}
+            </span>
+          )}
+        </h2>
+        <div className="form-card overflow-hidden">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50">
+                  <TableHead>{t("table.name")}</TableHead>
+                  <TableHead className="hidden md:table-cell">{t("table.email")}</TableHead>
+                  <TableHead className="hidden sm:table-cell">{t("statusPage.confirmationNumber")}</TableHead>
+                  <TableHead>{t("consents.needsConsentFor")}</TableHead>
+                  <TableHead className="hidden lg:table-cell">{t("table.date")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-10">
+                      <div className="flex items-center justify-center gap-2">
+                        <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                        {t("table.loading")}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : outdated.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-10 text-muted-foreground">
+                      {t("consents.allAccepted")}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  outdated.map(({ registration, issues }) => (
+                    <TableRow key={registration.id}>
+                      <TableCell className="font-medium">{registration.full_name}</TableCell>
+                      <TableCell className="hidden md:table-cell">{registration.email}</TableCell>
+                      <TableCell className="hidden sm:table-cell font-mono">
+                        {registration.confirmation_code}
+                      </TableCell>
+                      <TableCell>
+                        <ul className="text-sm">
+                          {issues.map((issue) => (
+                            <li key={issue.kind}>{formatConsentIssue(issue)}</li>
+                          ))}
+                        </ul>
+                      </TableCell>
+                      <TableCell className="hidden lg:table-cell text-muted-foreground">
+                        {formatDate(registration.created_at, "MMM dd, yyyy")}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </motion.div>
+
+      <PublishConsentDialog
+        kind={publishKind}
+        current={currentDocuments.find((document) => document.kind === publishKind) ?? null}
+        onClose={() => setPublishKind(null)}
+        onPublished={(document) => setDocuments((prev) => [document, ...prev])}
+      />
+    </AdminLayout>
+  );
+}
@@ -1,63 +1,91 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
 import { motion } from "framer-motion";
-import { LogOut, ClipboardList, Loader2 } from "lucide-react";
 import { toast } from "sonner";
 import * as XLSX from "xlsx";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
-import { Button } from "@/components/ui/button";
+import { useLanguage } from "@/hooks/useLanguage";
+import { AdminLayout } from "@/components/admin/AdminLayout";
 import { StatsCards } from "@/components/admin/StatsCards";
 import { RegistrationsTable } from "@/components/admin/RegistrationsTable";
 import { ViewModal } from "@/components/admin/ViewModal";
 import { EditModal } from "@/components/admin/EditModal";
+import { EventSwitcher } from "@/components/admin/EventSwitcher";
+import { RosterCoverageDialog } from "@/components/admin/RosterCoverageDialog";
+import { useSelectedEvent } from "@/hooks/useEvents";
+import { useFormFields } from "@/hooks/useFormFields";
+import { useDepartmentAvailability } from "@/hooks/useDepartmentAvailability";
+import { useConsentDocuments } from "@/hooks/useConsentDocuments";
+import { useRosterEntries } from "@/hooks/useRosterEntries";
+import { formatCustomFieldValue } from "@/lib/form-fields";
+import { formatPhoneNumber } from "@/lib/phone";
+import { getCountryName } from "@/lib/address";
+import { formatDate, getLanguageLabel, t } from "@/lib/i18n";
+import { PHOTO_BUCKET, getPhotoPath, getRegistrationStatusLabel } from "@/lib/registrations";
+import { removeAttachmentFiles } from "@/lib/attachments";
+import { getCapacityUtilisation } from "@/lib/capacity";
+import { getRosterCoverage, getRosterStatusLabel } from "@/lib/roster";
+import { formatMoney, getPaymentStatusLabel } from "@/lib/payments";
+import { getDepartmentLabel } from "@/lib/validations";
 import type { Registration } from "@/types/registration";
 
 export default function AdminDashboard() {
-  const navigate = useNavigate();
-  const { user, isAdmin, isLoading: authLoading, signOut } = useAuth();
+  const { user, isAdmin } = useAuth();
+  // Re-renders the dashboard on a language switch
+  useLanguage();
   const [registrations, setRegistrations] = useState<Registration[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [viewRegistration, setViewRegistration] = useState<Registration | null>(null);
   const [editRegistration, setEditRegistration] = useState<Registration | null>(null);
+  const [isRosterMissingOpen, setIsRosterMissingOpen] = useState(false);
+  const { events, selectedEvent, selectedEventId, setSelectedEventId, addEvent, updateEvent } =
+    useSelectedEvent(!!user && isAdmin);
 
-  useEffect(() => {
-    if (!authLoading && (!user || !isAdmin)) {
-      navigate("/admin/login");
-    }
-  }, [user, isAdmin, authLoading, navigate]);
+  const activeEventId = selectedEvent?.id;
+  const { fields: formFields } = useFormFields(activeEventId);
+  const { availability, refetch: refetchAvailability } = useDepartmentAvailability(activeEventId);
+  const { documents: consentDocuments } = useConsentDocuments({ allVersions: true });
+  const { entries: rosterEntries, refetch: refetchRoster } = useRosterEntries(activeEventId);
 
   useEffect(() => {
-    if (user && isAdmin) {
-      fetchRegistrations();
+    if (user && isAdmin && activeEventId) {
+      fetchRegistrations(activeEventId);
     }
-  }, [user, isAdmin]);
+  }, [user, isAdmin, activeEventId]);
 
-  const fetchRegistrations = async () => {
+  const fetchRegistrations = async (eventId: string, showLoading = true) => {
+    if (showLoading) setIsLoading(true);
     try {
       const { data, error } = await supabase
         .from("registrations")
         .select("*")
+        .eq("event_id", eventId)
         .order("created_at", { ascending: false });
 
       if (error) throw error;
       setRegistrations(data as Registration[]);
     } catch (error: any) {
       console.error("Error fetching registrations:", error);
-      toast.error("Failed to load registrations");
+      toast.error(t("dashboard.loadFailed"));
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Deletes and status or department changes can promote from the waitlist
+  // and renumber it, so reload what the database decided
+  const refreshSeats = () => {
+    if (!activeEventId) return;
+    fetchRegistrations(activeEventId, false);
+    refetchAvailability();
+  };
+
   const handleDelete = async (id: string, photoUrl: string) => {
     try {
-      // Extract file path from URL
-      const urlParts = photoUrl.split("/");
-      const filePath = urlParts.slice(-2).join("/");
-
-      // Delete from storage
-      await supabase.storage.from("registration-photos").remove([filePath]);
+      // Delete from storage; attachments are looked up before their rows
+      // cascade away with the registration
+      await removeAttachmentFiles(id);
+      await supabase.storage.from(PHOTO_BUCKET).remove([getPhotoPath(photoUrl)]);
 
       // Delete from database
       const { error } = await supabase.from("registrations").delete().eq("id", id);
@@ -65,10 +93,11 @@ export default function AdminDashboard() {
       if (error) throw error;
 
       setRegistrations((prev) => prev.filter((r) => r.id !== id));
-      toast.success("Registration deleted successfully");
+      refreshSeats();
+      toast.success(t("dashboard.deleted"));
     } catch (error: any) {
       console.error("Error deleting registration:", error);
-      toast.error("Failed to delete registration");
+      toast.error(t("dashboard.deleteFailed"));
     }
   };
 
@@ -81,34 +110,75 @@ export default function AdminDashboard() {
       setRegistrations((prev) =>
         prev.map((r) => (r.id === id ? { ...r, ...data } : r))
       );
-      toast.success("Registration updated successfully");
+      refreshSeats();
+      toast.success(t("dashboard.updated"));
+      return true;
     } catch (error: any) {
       console.error("Error updating registration:", error);
-      toast.error("Failed to update registration");
+      toast.error(t("dashboard.updateFailed"));
+      return false;
     }
   };
 
+  // The open details show the payment as soon as it is recorded
+  const handleUpdatePayment = async (id: string, data: Partial<Registration>) => {
+    const updated = await handleUpdate(id, data);
+    if (updated) {
+      setViewRegistration((prev) => (prev?.id === id ? { ...prev, ...data } : prev));
+    }
+    return updated;
+  };
+
   const handleExport = () => {
+    // Headers and values in the language the dashboard is shown in
     const exportData = registrations.map((reg) => ({
-      Name: reg.full_name,
-      Mobile: reg.mobile_number,
-      Email: reg.email,
-      Gender: reg.gender,
-      Department: reg.department,
-      Address: reg.address,
-      "Registered Date": new Date(reg.created_at).toLocaleDateString(),
+      [t("export.confirmationNo")]: reg.confirmation_code,
+      [t("export.name")]: reg.full_name,
+      [t("export.mobile")]: formatPhoneNumber(reg.mobile_number),
+      [t("export.email")]: reg.email,
+      [t("export.gender")]: t(`gender.${reg.gender}`),
+      [t("export.department")]: getDepartmentLabel(reg.department),
+      [t("export.address")]: reg.address,
+      [t("export.city")]: reg.city ?? "",
+      [t("export.state")]: reg.state ?? "",
+      [t("export.postalCode")]: reg.postal_code ?? "",
+      [t("export.country")]: getCountryName(reg.country),
+      ...Object.fromEntries(
+        formFields.map((field) => [
+          field.label,
+          formatCustomFieldValue(field, reg.custom_fields?.[field.field_key]),
+        ])
+      ),
+      [t("export.status")]: getRegistrationStatusLabel(reg.status),
+      [t("export.waitlistPosition")]: reg.waitlist_position ?? "",
+      [t("export.language")]: getLanguageLabel(reg.language),
+      // The submitter's confirmation number, shared by everyone they registered
+      [t("export.group")]: reg.group_id
+        ? registrations.find((other) => other.id === reg.group_id)?.confirmation_code ?? reg.group_id
+        : "",
+      [t("export.employeeId")]: reg.employee_id ?? "",
+      [t("export.roster")]: getRosterStatusLabel(reg.roster_status),
+      [t("export.payment")]: reg.payment_status ? getPaymentStatusLabel(reg.payment_status) : "",
+      [t("export.amount")]:
+        reg.payment_amount != null && reg.payment_currency
+          ? formatMoney(reg.payment_amount, reg.payment_currency)
+          : "",
+      [t("export.paymentReference")]: reg.payment_reference ?? "",
+      [t("export.source")]:
+        reg.source === "kiosk"
+          ? t("export.sourceKiosk", { device: reg.device_id ?? t("export.unknownDevice") })
+          : t("export.sourceWeb"),
+      [t("export.registeredDate")]: formatDate(new Date(reg.created_at), "P"),
     }));
 
     const ws = XLSX.utils.json_to_sheet(exportData);
     const wb = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(wb, ws, "Registrations");
-    XLSX.writeFile(wb, `registrations-${new Date().toISOString().split("T")[0]}.xlsx`);
-    toast.success("Export completed");
-  };
-
-  const handleSignOut = async () => {
-    await signOut();
-    navigate("/admin/login");
+    XLSX.utils.book_append_sheet(wb, ws, t("export.sheetName"));
+    XLSX.writeFile(
+      wb,
+      `registrations-${selectedEvent?.slug ?? "all"}-${new Date().toISOString().split("T")[0]}.xlsx`
+    );
+    toast.success(t("dashboard.exported"));
   };
 
   // Calculate stats
@@ -117,89 +187,93 @@ export default function AdminDashboard() {
     (r) => new Date(r.created_at).toDateString() === today
   ).length;
   const uniqueDepartments = new Set(registrations.map((r) => r.department)).size;
-
-  if (authLoading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <Loader2 className="w-8 h-8 animate-spin text-primary" />
-      </div>
-    );
-  }
-
-  if (!user || !isAdmin) {
-    return null;
-  }
+  const rosterCoverage = rosterEntries.length > 0 ? getRosterCoverage(rosterEntries, registrations) : null;
 
   return (
-    <div className="min-h-screen bg-background">
-      {/* Header */}
-      <header className="border-b border-border/50 bg-card/50 backdrop-blur-sm sticky top-0 z-40">
-        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
-          <div className="flex items-center gap-3">
-            <div className="w-10 h-10 rounded-lg bg-primary flex items-center justify-center">
-              <ClipboardList className="w-5 h-5 text-primary-foreground" />
-            </div>
-            <div>
-              <span className="text-xl font-bold text-foreground">SmartReg</span>
-              <span className="text-sm text-muted-foreground ml-2">Admin</span>
-            </div>
-          </div>
-          <Button variant="outline" size="sm" onClick={handleSignOut} className="gap-2">
-            <LogOut className="w-4 h-4" />
-            Sign Out
-          </Button>
+    <AdminLayout>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex flex-col lg:flex-row lg:items-end justify-between gap-4"
+      >
+        <div>
+          <h1 className="text-3xl font-bold text-foreground mb-2">{t("dashboard.title")}</h1>
+          <p className="text-muted-foreground">{t("dashboard.description")}</p>
         </div>
-      </header>
-
-      {/* Main Content */}
-      <main className="container mx-auto px-4 py-8 space-y-8">
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-        >
-          <h1 className="text-3xl font-bold text-foreground mb-2">Dashboard</h1>
-          <p className="text-muted-foreground">
-            Manage and view all registration submissions
-          </p>
-        </motion.div>
-
-        <StatsCards
-          totalSubmissions={registrations.length}
-          todaySubmissions={todaySubmissions}
-          departments={uniqueDepartments}
+        <EventSwitcher
+          events={events}
+          selectedEventId={selectedEventId}
+          onSelect={setSelectedEventId}
+          onCreated={addEvent}
+          onUpdated={(event) => {
+            updateEvent(event);
+            // Capacity changes may have promoted registrations off the waitlist
+            refreshSeats();
+            // Saving the settings may have uploaded a new roster
+            refetchRoster();
+          }}
         />
+      </motion.div>
 
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.2 }}
-        >
-          <h2 className="text-xl font-semibold text-foreground mb-4">
-            All Registrations
-          </h2>
-          <RegistrationsTable
-            registrations={registrations}
-            isLoading={isLoading}
-            onView={setViewRegistration}
-            onEdit={setEditRegistration}
-            onDelete={handleDelete}
-            onExport={handleExport}
-          />
-        </motion.div>
-      </main>
+      <StatsCards
+        totalSubmissions={registrations.length}
+        todaySubmissions={todaySubmissions}
+        departments={uniqueDepartments}
+        capacity={availability.length > 0 ? getCapacityUtilisation(availability) : null}
+        roster={rosterCoverage}
+        onShowRosterMissing={() => setIsRosterMissingOpen(true)}
+      />
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+      >
+        <h2 className="text-xl font-semibold text-foreground mb-4">
+          {selectedEvent
+            ? t("dashboard.eventRegistrations", { event: selectedEvent.name })
+            : t("dashboard.allRegistrations")}
+        </h2>
+        <RegistrationsTable
+          registrations={registrations}
+          formFields={formFields}
+          isLoading={isLoading}
+          onView={setViewRegistration}
+          onEdit={setEditRegistration}
+          onDelete={handleDelete}
+          onExport={handleExport}
+        />
+      </motion.div>
 
       {/* Modals */}
       <ViewModal
         registration={viewRegistration}
+        formFields={formFields}
+        consentDocuments={consentDocuments}
+        groupMembers={registrations.filter(
+          (reg) =>
+            !!viewRegistration?.group_id &&
+            reg.group_id === viewRegistration.group_id &&
+            reg.id !== viewRegistration.id
+        )}
+        onSelectMember={setViewRegistration}
+        onUpdatePayment={handleUpdatePayment}
         isOpen={!!viewRegistration}
         onClose={() => setViewRegistration(null)}
       />
       <EditModal
         registration={editRegistration}
+        formFields={formFields}
         isOpen={!!editRegistration}
         onClose={() => setEditRegistration(null)}
         onSave={handleUpdate}
       />
-    </div>
+      <RosterCoverageDialog
+        event={selectedEvent}
+        missing={rosterCoverage?.missing ?? []}
+        isOpen={isRosterMissingOpen}
+        onClose={() => setIsRosterMissingOpen(false)}
+      />
+    </AdminLayout>
   );
 }
@@ -0,0 +1,452 @@
+import { useState, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { motion } from "framer-motion";
+import { toast } from "sonner";
+import { Plus, Pencil, Trash2, ArrowUp, ArrowDown, Eye, Table2, Asterisk } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useSelectedEvent } from "@/hooks/useEvents";
+import { useFormFields, toFormField } from "@/hooks/useFormFields";
+import {
+  FIELD_KEY_PATTERN,
+  FIELD_TYPE_LABELS,
+  buildCustomFieldsSchema,
+  getCustomFieldDefaults,
+  hasLengthLimits,
+  hasOptions,
+  isValidPattern,
+} from "@/lib/form-fields";
+import type { RegistrationFormValues } from "@/lib/validations";
+import { t } from "@/lib/i18n";
+import { useLanguage } from "@/hooks/useLanguage";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { EventSwitcher } from "@/components/admin/EventSwitcher";
+import { FormFieldEditor, FormFieldDraft } from "@/components/admin/FormFieldEditor";
+import { CustomFieldInputs } from "@/components/registration/CustomFieldInputs";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { FormField } from "@/types/form-field";
+
+const PREVIEW_FIELD_ID = "__preview__";
+
+const EMPTY_FIELD_DRAFT: FormFieldDraft = {
+  label: "",
+  field_key: "",
+  field_type: "text",
+  optionsText: "",
+  placeholder: "",
+  required: false,
+  min_value: "",
+  max_value: "",
+  pattern: "",
+  show_in_table: false,
+};
+
+function toDraft(field: FormField): FormFieldDraft {
+  return {
+    label: field.label,
+    field_key: field.field_key,
+    field_type: field.field_type,
+    optionsText: field.options.join("\n"),
+    placeholder: field.placeholder ?? "",
+    required: field.required,
+    min_value: field.min_value?.toString() ?? "",
+    max_value: field.max_value?.toString() ?? "",
+    pattern: field.pattern ?? "",
+    show_in_table: field.show_in_table,
+  };
+}
+
+function parseOptions(optionsText: string) {
+  return Array.from(
+    new Set(
+      optionsText
+        .split("\n")
+        .map((option) => option.trim())
+        .filter(Boolean)
+    )
+  );
+}
+
+function toFieldValues(draft: FormFieldDraft) {
+  const supportsLimits = hasLengthLimits(draft.field_type) || draft.field_type === "number";
+  const supportsPattern = draft.field_type === "text" || draft.field_type === "textarea";
+  return {
+    label: draft.label.trim(),
+    field_key: draft.field_key.trim(),
+    field_type: draft.field_type,
+    options: hasOptions(draft.field_type) ? parseOptions(draft.optionsText) : [],
+    placeholder: draft.placeholder.trim() || null,
+    required: draft.required,
+    min_value: supportsLimits && draft.min_value !== "" ? Number(draft.min_value) : null,
+    max_value: supportsLimits && draft.max_value !== "" ? Number(draft.max_value) : null,
+    pattern: supportsPattern && draft.pattern.trim() ? draft.pattern.trim() : null,
+    show_in_table: draft.show_in_table,
+  };
+}
+
+function validateDraft(draft: FormFieldDraft, fields: FormField[], editingId: string | null) {
+  const values = toFieldValues(draft);
+  if (!values.label) return t("formBuilder.labelRequired");
+  if (!FIELD_KEY_PATTERN.test(values.field_key)) {
+    return t("formBuilder.keyInvalid");
+  }
+  if (fields.some((f) => f.field_key === values.field_key && f.id !== editingId)) {
+    return t("formBuilder.keyTaken");
+  }
+  if (hasOptions(values.field_type) && values.options.length < 2) {
+    return t("formBuilder.optionsTooFew");
+  }
+  if (
+    values.min_value !== null &&
+    values.max_value !== null &&
+    values.min_value > values.max_value
+  ) {
+    return t("formBuilder.minAboveMax");
+  }
+  if (values.pattern && !isValidPattern(values.pattern)) {
+    return t("formBuilder.patternInvalid");
+  }
+  return null;
+}
+
+function FormPreview({ fields }: { fields: FormField[] }) {
+  const schema = useMemo(
+    () => z.object({ customFields: buildCustomFieldsSchema(fields) }),
+    [fields]
+  );
+  const { control, handleSubmit } = useForm<RegistrationFormValues>({
+    resolver: zodResolver(schema),
+    values: { customFields: getCustomFieldDefaults(fields) } as RegistrationFormValues,
+    resetOptions: { keepDirtyValues: true },
+  });
+
+  if (fields.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-10">
+        {t("formBuilder.previewEmpty")}
+      </p>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit(() => toast.success(t("formBuilder.previewValid")))}
+      className="space-y-6"
+    >
+      <div className="grid gap-6 md:grid-cols-2">
+        <CustomFieldInputs fields={fields} control={control} idPrefix="preview" />
+      </div>
+      <Button type="submit" variant="outline" className="w-full">
+        {t("formBuilder.testValidation")}
+      </Button>
+    </form>
+  );
+}
+
+export default function AdminFormBuilder() {
+  useLanguage();
+  const { user, isAdmin } = useAuth();
+  const { events, selectedEvent, selectedEventId, setSelectedEventId, addEvent, updateEvent } =
+    useSelectedEvent(!!user && isAdmin);
+  const { fields, setFields, isLoading } = useFormFields(selectedEvent?.id);
+  const [draft, setDraft] = useState<FormFieldDraft | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deleteField, setDeleteField] = useState<FormField | null>(null);
+
+  // Live preview: saved fields with the field being edited applied on top
+  const previewFields = useMemo(() => {
+    if (!draft || !selectedEvent) return fields;
+    const preview: FormField = {
+      ...(fields.find((f) => f.id === editingId) ?? ({} as FormField)),
+      ...toFieldValues(draft),
+      id: editingId ?? PREVIEW_FIELD_ID,
+      event_id: selectedEvent.id,
+      field_key: draft.field_key || PREVIEW_FIELD_ID,
+      label: draft.label || t("formBuilder.untitled"),
+    };
+    return editingId
+      ? fields.map((f) => (f.id === editingId ? preview : f))
+      : [...fields, preview];
+  }, [fields, draft, editingId, selectedEvent]);
+
+  const startCreate = () => {
+    setEditingId(null);
+    setDraft({ ...EMPTY_FIELD_DRAFT });
+  };
+
+  const startEdit = (field: FormField) => {
+    setEditingId(field.id);
+    setDraft(toDraft(field));
+  };
+
+  const closeEditor = () => {
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const handleSave = async () => {
+    if (!draft || !selectedEvent) return;
+
+    const validationError = validateDraft(draft, fields, editingId);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const values = toFieldValues(draft);
+      if (editingId) {
+        const { data, error } = await supabase
+          .from("form_fields")
+          .update(values)
+          .eq("id", editingId)
+          .select()
+          .single();
+
+        if (error) throw error;
+        setFields((prev) => prev.map((f) => (f.id === editingId ? toFormField(data) : f)));
+      } else {
+        const position = fields.reduce((max, f) => Math.max(max, f.position), -1) + 1;
+        const { data, error } = await supabase
+          .from("form_fields")
+          .insert({ ...values, event_id: selectedEvent.id, position })
+          .select()
+          .single();
+
+        if (error) throw error;
+        setFields((prev) => [...prev, toFormField(data)]);
+      }
+      toast.success(t("formBuilder.saved"));
+      closeEditor();
+    } catch (error) {
+      console.error("Error saving form field:", error);
+      toast.error(t("formBuilder.saveFailed"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const current = fields[index];
+    const target = fields[index + direction];
+    if (!current || !target) return;
+
+    // Swap positions; if both share a position fall back to their indexes
+    const currentPosition = current.position === target.position ? index : current.position;
+    const targetPosition = current.position === target.position ? index + direction : target.position;
+
+    const reordered = [...fields];
+    reordered[index] = { ...target, position: currentPosition };
+    reordered[index + direction] = { ...current, position: targetPosition };
+    setFields(reordered);
+
+    const results = await Promise.all([
+      supabase.from("form_fields").update({ position: targetPosition }).eq("id", current.id),
+      supabase.from("form_fields").update({ position: currentPosition }).eq("id", target.id),
+    ]);
+    if (results.some((r) => r.error)) {
+      toast.error(t("formBuilder.reorderFailed"));
+      setFields(fields);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleteField) return;
+    const field = deleteField;
+    setDeleteField(null);
+
+    const { error } = await supabase.from("form_fields").delete().eq("id", field.id);
+    if (error) {
+      console.error("Error deleting form field:", error);
+      toast.error(t("formBuilder.deleteFailed"));
+      return;
+    }
+    setFields((prev) => prev.filter((f) => f.id !== field.id));
+    if (editingId === field.id) closeEditor();
+    toast.success(t("formBuilder.deleted"));
+  };
+
+  return (
+    <AdminLayout>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex flex-col lg:flex-row lg:items-end justify-between gap-4"
+      >
+        <div>
+          <h1 className="text-3xl font-bold text-foreground mb-2">{t("admin.navFormBuilder")}</h1>
+          <p className="text-muted-foreground">{t("formBuilder.description")}</p>
+        </div>
+        <EventSwitcher
+          events={events}
+          selectedEventId={selectedEventId}
+          onSelect={(id) => {
+            closeEditor();
+            setSelectedEventId(id);
+          }}
+          onCreated={addEvent}
+          onUpdated={updateEvent}
+        />
+      </motion.div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="form-card p-6 space-y-4"
+        >
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold">{t("formBuilder.customFields")}</h2>
+            {!draft && (
+              <Button size="sm" onClick={startCreate} className="gap-2" disabled={!selectedEvent}>
+                <Plus className="w-4 h-4" />
+                {t("formBuilder.addField")}
+              </Button>
+            )}
+          </div>
+
+          {draft && !editingId && (
+            <div className="rounded-lg border border-primary/30 p-4">
+              <FormFieldEditor
+                draft={draft}
+                isNew
+                isSaving={isSaving}
+                onChange={setDraft}
+                onSave={handleSave}
+                onCancel={closeEditor}
+              />
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center gap-2 py-10">
+              <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+              {t("table.loading")}
+            </div>
+          ) : fields.length === 0 && !draft ? (
+            <p className="text-sm text-muted-foreground text-center py-10">
+              {t("formBuilder.empty")}
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {fields.map((field, index) => (
+                <li key={field.id} className="rounded-lg border border-border">
+                  {editingId === field.id && draft ? (
+                    <div className="p-4">
+                      <FormFieldEditor
+                        draft={draft}
+                        isNew={false}
+                        isSaving={isSaving}
+                        onChange={setDraft}
+                        onSave={handleSave}
+                        onCancel={closeEditor}
+                      />
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-3 p-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate flex items-center gap-1">
+                          {field.label}
+                          {field.required && <Asterisk className="w-3 h-3 text-destructive" />}
+                        </p>
+                        <p className="text-xs text-muted-foreground flex items-center gap-2">
+                          <span className="font-mono">{field.field_key}</span>
+                          <span>·</span>
+                          <span>{t(FIELD_TYPE_LABELS[field.field_type])}</span>
+                          {field.show_in_table && <Table2 className="w-3 h-3" />}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleMove(index, -1)}
+                          disabled={index === 0 || !!draft}
+                        >
+                          <ArrowUp className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleMove(index, 1)}
+                          disabled={index === fields.length - 1 || !!draft}
+                        >
+                          <ArrowDown className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => startEdit(field)}
+                          disabled={!!draft}
+                          className="hover:bg-warning/10 hover:text-warning"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setDeleteField(field)}
+                          className="hover:bg-destructive/10 hover:text-destructive"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2 }}
+          className="form-card p-6 space-y-4 lg:sticky lg:top-24 self-start"
+        >
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Eye className="w-5 h-5 text-primary" />
+            {t("formBuilder.preview")}
+          </h2>
+          <FormPreview fields={previewFields} />
+        </motion.div>
+      </div>
+
+      <AlertDialog open={!!deleteField} onOpenChange={() => setDeleteField(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("formBuilder.deleteTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("formBuilder.deleteDescription", { label: deleteField?.label ?? "" })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {t("table.delete")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AdminLayout>
+  );
+}
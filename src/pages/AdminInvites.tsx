@@ -0,0 +1,329 @@
+import { useEffect, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { toast } from "sonner";
+import { Copy, Download, KeyRound, Plus, Search, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useSelectedEvent } from "@/hooks/useEvents";
+import { useLanguage } from "@/hooks/useLanguage";
+import {
+  deleteInviteCode,
+  downloadInviteCodesCsv,
+  fetchInviteCodes,
+  getInviteCodeState,
+  getInviteLink,
+} from "@/lib/invites";
+import { formatDate, t } from "@/lib/i18n";
+import { getDepartmentLabel } from "@/lib/validations";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { EventSwitcher } from "@/components/admin/EventSwitcher";
+import { GenerateInvitesDialog } from "@/components/admin/GenerateInvitesDialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { InviteCode } from "@/types/invite";
+import type { MessageKey } from "@/locales/en";
+
+const STATE_BADGES: Record<ReturnType<typeof getInviteCodeState>, { labelKey: MessageKey; className: string }> = {
+  valid: { labelKey: "invites.stateActive", className: "bg-success/10 text-success border-success/20" },
+  used_up: { labelKey: "invites.stateUsedUp", className: "bg-muted text-muted-foreground" },
+  expired: { labelKey: "invites.stateExpired", className: "bg-destructive/10 text-destructive border-destructive/20" },
+};
+
+export default function AdminInvites() {
+  const { user, isAdmin } = useAuth();
+  // Re-renders the page on a language switch
+  useLanguage();
+  const { events, selectedEvent, selectedEventId, setSelectedEventId, addEvent, updateEvent } =
+    useSelectedEvent(!!user && isAdmin);
+  const [codes, setCodes] = useState<InviteCode[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [isGenerateOpen, setIsGenerateOpen] = useState(false);
+  const [deleteCode, setDeleteCode] = useState<InviteCode | null>(null);
+
+  const eventId = selectedEvent?.id;
+
+  useEffect(() => {
+    if (!eventId) return;
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetchInviteCodes(eventId)
+      .then((data) => {
+        if (!cancelled) setCodes(data);
+      })
+      .catch((error) => {
+        console.error("Error fetching invite codes:", error);
+        if (!cancelled) toast.error(t("invites.loadFailed"));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [eventId]);
+
+  const stats = useMemo(() => {
+    const states = codes.map(getInviteCodeState);
+    const stats: { labelKey: MessageKey; value: number; descriptionKey: MessageKey }[] = [
+      { labelKey: "invites.statCodes", value: codes.length, descriptionKey: "invites.statCodesDescription" },
+      {
+        labelKey: "invites.statRedemptions",
+        value: codes.reduce((sum, code) => sum + code.uses, 0),
+        descriptionKey: "invites.statRedemptionsDescription",
+      },
+      {
+        labelKey: "invites.stateUsedUp",
+        value: states.filter((state) => state === "used_up").length,
+        descriptionKey: "invites.statUsedUpDescription",
+      },
+      {
+        labelKey: "invites.stateExpired",
+        value: states.filter((state) => state === "expired").length,
+        descriptionKey: "invites.statExpiredDescription",
+      },
+    ];
+    return stats;
+  }, [codes]);
+
+  const filteredCodes = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return codes;
+    return codes.filter(
+      (code) =>
+        code.code.toLowerCase().includes(query) ||
+        code.label?.toLowerCase().includes(query) ||
+        code.department?.toLowerCase().includes(query)
+    );
+  }, [codes, searchQuery]);
+
+  const handleGenerated = (generated: InviteCode[]) => {
+    setCodes((prev) => [...generated, ...prev]);
+    if (selectedEvent) downloadInviteCodesCsv(selectedEvent, generated);
+  };
+
+  const copyLink = async (code: InviteCode) => {
+    if (!selectedEvent) return;
+    try {
+      await navigator.clipboard.writeText(getInviteLink(selectedEvent, code.code));
+      toast.success(t("invites.linkCopied"));
+    } catch {
+      toast.error(t("invites.copyFailed"));
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleteCode) return;
+    const code = deleteCode;
+    setDeleteCode(null);
+
+    try {
+      await deleteInviteCode(code.id);
+      setCodes((prev) => prev.filter((c) => c.id !== code.id));
+      toast.success(t("invites.deleted"));
+    } catch (error) {
+      console.error("Error deleting invite code:", error);
+      toast.error(t("invites.deleteFailed"));
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex flex-col lg:flex-row lg:items-end justify-between gap-4"
+      >
+        <div>
+          <h1 className="text-3xl font-bold text-foreground mb-2">{t("invites.title")}</h1>
+          <p className="text-muted-foreground">
+            {selectedEvent?.invite_only ? t("invites.descriptionInviteOnly") : t("invites.description")}
+          </p>
+        </div>
+        <EventSwitcher
+          events={events}
+          selectedEventId={selectedEventId}
+          onSelect={setSelectedEventId}
+          onCreated={addEvent}
+          onUpdated={updateEvent}
+        />
+      </motion.div>
+
+      <motion.ul
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4"
+      >
+        {stats.map((stat) => (
+          <li key={stat.labelKey} className="form-card p-4">
+            <p className="text-sm font-medium">{t(stat.labelKey)}</p>
+            <p className="text-2xl font-bold text-foreground">{isLoading ? "—" : stat.value}</p>
+            <p className="text-xs text-muted-foreground">{t(stat.descriptionKey)}</p>
+          </li>
+        ))}
+      </motion.ul>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+        className="space-y-4"
+      >
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder={t("invites.searchPlaceholder")}
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={() => selectedEvent && downloadInviteCodesCsv(selectedEvent, codes)}
+            disabled={!selectedEvent || codes.length === 0}
+          >
+            <Download className="w-4 h-4" />
+            {t("roster.download")}
+          </Button>
+          <Button className="gap-2" onClick={() => setIsGenerateOpen(true)} disabled={!selectedEvent}>
+            <Plus className="w-4 h-4" />
+            {t("invites.generate")}
+          </Button>
+        </div>
+
+        <div className="form-card overflow-hidden">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50">
+                  <TableHead>{t("invites.code")}</TableHead>
+                  <TableHead className="hidden md:table-cell">{t("invites.label")}</TableHead>
+                  <TableHead className="hidden sm:table-cell">{t("table.department")}</TableHead>
+                  <TableHead>{t("invites.uses")}</TableHead>
+                  <TableHead className="hidden lg:table-cell">{t("invites.expires")}</TableHead>
+                  <TableHead>{t("table.status")}</TableHead>
+                  <TableHead className="text-right">{t("table.actions")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-10">
+                      <div className="flex items-center justify-center gap-2">
+                        <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                        {t("table.loading")}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : filteredCodes.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-10 text-muted-foreground">
+                      <KeyRound className="w-6 h-6 mx-auto mb-2" />
+                      {t("invites.empty")}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  filteredCodes.map((code) => {
+                    const badge = STATE_BADGES[getInviteCodeState(code)];
+                    return (
+                      <TableRow key={code.id}>
+                        <TableCell className="font-mono font-medium">{code.code}</TableCell>
+                        <TableCell className="hidden md:table-cell text-muted-foreground">
+                          {code.label ?? "—"}
+                        </TableCell>
+                        <TableCell className="hidden sm:table-cell">
+                          {code.department ? getDepartmentLabel(code.department) : t("invites.anyDepartment")}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {code.uses} / {code.max_uses}
+                        </TableCell>
+                        <TableCell className="hidden lg:table-cell whitespace-nowrap text-muted-foreground">
+                          {code.expires_at ? formatDate(code.expires_at, "MMM dd, yyyy HH:mm") : t("invites.never")}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={badge.className}>
+                            {t(badge.labelKey)}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label={t("invites.copyLink")}
+                            onClick={() => copyLink(code)}
+                          >
+                            <Copy className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label={t("invites.delete")}
+                            onClick={() => setDeleteCode(code)}
+                            className="hover:bg-destructive/10 hover:text-destructive"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </motion.div>
+
+      <GenerateInvitesDialog
+        eventId={selectedEvent?.id ?? null}
+        isOpen={isGenerateOpen}
+        onClose={() => setIsGenerateOpen(false)}
+        onGenerated={handleGenerated}
+      />
+
+      <AlertDialog open={!!deleteCode} onOpenChange={() => setDeleteCode(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("invites.deleteTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("invites.deleteDescription", { code: deleteCode?.code ?? "" })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {t("table.delete")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AdminLayout>
+  );
+}
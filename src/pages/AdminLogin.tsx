@@ -6,7 +6,8 @@ import { motion } from "framer-motion";
 import { Shield, Loader2, ArrowLeft, Eye, EyeOff } from "lucide-react";
 import { toast } from "sonner";
 import { useAuth } from "@/hooks/useAuth";
-import { loginSchema, LoginFormData } from "@/lib/validations";
+import { useLanguage } from "@/hooks/useLanguage";
+import { createLoginSchema, LoginFormData } from "@/lib/validations";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -16,13 +17,15 @@ export default function AdminLogin() {
   const { signIn, user, isAdmin, isLoading: authLoading } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  const { t } = useLanguage();
+  const schema = createLoginSchema();
 
   const {
     register,
     handleSubmit,
     formState: { errors },
   } = useForm<LoginFormData>({
-    resolver: zodResolver(loginSchema),
+    resolver: zodResolver(schema),
   });
 
   useEffect(() => {
@@ -37,7 +40,7 @@ export default function AdminLogin() {
       const { error } = await signIn(data.email, data.password);
       if (error) {
         if (error.message.includes("Invalid login credentials")) {
-          toast.error("Invalid email or password");
+          toast.error(t("login.invalidCredentials"));
         } else {
           toast.error(error.message);
         }
@@ -45,7 +48,7 @@ export default function AdminLogin() {
       }
       // Auth state change will handle navigation
     } catch (error: any) {
-      toast.error("An unexpected error occurred");
+      toast.error(t("login.unexpectedError"));
     } finally {
       setIsLoading(false);
     }
@@ -64,7 +67,7 @@ export default function AdminLogin() {
       <div className="container mx-auto px-4 py-4">
         <Link to="/" className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors">
           <ArrowLeft className="w-4 h-4" />
-          Back to Registration
+          {t("login.back")}
         </Link>
       </div>
 
@@ -79,15 +82,13 @@ export default function AdminLogin() {
               <div className="w-16 h-16 rounded-2xl bg-primary/10 flex items-center justify-center mx-auto mb-4">
                 <Shield className="w-8 h-8 text-primary" />
               </div>
-              <h1 className="text-2xl font-bold text-foreground">Admin Login</h1>
-              <p className="text-muted-foreground mt-2">
-                Sign in to access the admin dashboard
-              </p>
+              <h1 className="text-2xl font-bold text-foreground">{t("login.title")}</h1>
+              <p className="text-muted-foreground mt-2">{t("login.description")}</p>
             </div>
 
             <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
               <div className="space-y-2">
-                <Label htmlFor="email">Email Address</Label>
+                <Label htmlFor="email">{t("field.email")}</Label>
                 <Input
                   id="email"
                   type="email"
@@ -101,7 +102,7 @@ export default function AdminLogin() {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="password">Password</Label>
+                <Label htmlFor="password">{t("login.password")}</Label>
                 <div className="relative">
                   <Input
                     id="password"
@@ -131,18 +132,18 @@ export default function AdminLogin() {
                 {isLoading ? (
                   <>
                     <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Signing in...
+                    {t("login.signingIn")}
                   </>
                 ) : (
-                  "Sign In"
+                  t("login.signIn")
                 )}
               </Button>
             </form>
 
             <p className="text-center text-sm text-muted-foreground mt-6">
-              Need admin access?{" "}
+              {t("login.needAccess")}{" "}
               <Link to="/admin/signup" className="text-primary hover:underline">
-                Create an account
+                {t("login.createAccount")}
               </Link>
             </p>
           </div>
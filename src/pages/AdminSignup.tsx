@@ -6,7 +6,8 @@ import { motion } from "framer-motion";
 import { UserPlus, Loader2, ArrowLeft, Eye, EyeOff } from "lucide-react";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
-import { loginSchema, LoginFormData } from "@/lib/validations";
+import { useLanguage } from "@/hooks/useLanguage";
+import { createLoginSchema, LoginFormData } from "@/lib/validations";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -15,13 +16,15 @@ export default function AdminSignup() {
   const navigate = useNavigate();
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  const { t } = useLanguage();
+  const schema = createLoginSchema();
 
   const {
     register,
     handleSubmit,
     formState: { errors },
   } = useForm<LoginFormData>({
-    resolver: zodResolver(loginSchema),
+    resolver: zodResolver(schema),
   });
 
   const onSubmit = async (data: LoginFormData) => {
@@ -39,7 +42,7 @@ export default function AdminSignup() {
 
       if (signUpError) {
         if (signUpError.message.includes("already registered")) {
-          toast.error("This email is already registered. Please sign in.");
+          toast.error(t("signup.alreadyRegistered"));
         } else {
           toast.error(signUpError.message);
         }
@@ -55,15 +58,15 @@ export default function AdminSignup() {
 
         if (roleError) {
           console.error("Error adding admin role:", roleError);
-          toast.error("Account created but failed to assign admin role");
+          toast.error(t("signup.roleFailed"));
           return;
         }
 
-        toast.success("Admin account created successfully!");
+        toast.success(t("signup.created"));
         navigate("/admin");
       }
     } catch (error: any) {
-      toast.error("An unexpected error occurred");
+      toast.error(t("login.unexpectedError"));
     } finally {
       setIsLoading(false);
     }
@@ -74,7 +77,7 @@ export default function AdminSignup() {
       <div className="container mx-auto px-4 py-4">
         <Link to="/admin/login" className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors">
           <ArrowLeft className="w-4 h-4" />
-          Back to Login
+          {t("signup.back")}
         </Link>
       </div>
 
@@ -89,15 +92,13 @@ export default function AdminSignup() {
               <div className="w-16 h-16 rounded-2xl bg-primary/10 flex items-center justify-center mx-auto mb-4">
                 <UserPlus className="w-8 h-8 text-primary" />
               </div>
-              <h1 className="text-2xl font-bold text-foreground">Create Admin Account</h1>
-              <p className="text-muted-foreground mt-2">
-                Sign up to manage registrations
-              </p>
+              <h1 className="text-2xl font-bold text-foreground">{t("signup.title")}</h1>
+              <p className="text-muted-foreground mt-2">{t("signup.description")}</p>
             </div>
 
             <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
               <div className="space-y-2">
-                <Label htmlFor="email">Email Address</Label>
+                <Label htmlFor="email">{t("field.email")}</Label>
                 <Input
                   id="email"
                   type="email"
@@ -111,7 +112,7 @@ export default function AdminSignup() {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="password">Password</Label>
+                <Label htmlFor="password">{t("login.password")}</Label>
                 <div className="relative">
                   <Input
                     id="password"
@@ -141,18 +142,18 @@ export default function AdminSignup() {
                 {isLoading ? (
                   <>
                     <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Creating Account...
+                    {t("signup.creating")}
                   </>
                 ) : (
-                  "Create Admin Account"
+                  t("signup.title")
                 )}
               </Button>
             </form>
 
             <p className="text-center text-sm text-muted-foreground mt-6">
-              Already have an account?{" "}
+              {t("signup.haveAccount")}{" "}
               <Link to="/admin/login" className="text-primary hover:underline">
-                Sign in
+                {t("signup.signIn")}
               </Link>
             </p>
           </div>
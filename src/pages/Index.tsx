@@ -1,10 +1,27 @@
+import { useState } from "react";
 import { motion } from "framer-motion";
-import { Link } from "react-router-dom";
-import { Shield, ClipboardList } from "lucide-react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import { Shield, ClipboardList, Loader2, SearchCheck } from "lucide-react";
 import { RegistrationForm } from "@/components/RegistrationForm";
+import { RegistrationClosed } from "@/components/registration/RegistrationClosed";
+import { OutboxList } from "@/components/registration/OutboxList";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
 import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useEvent, useRegistrationWindow } from "@/hooks/useEvents";
+import { useLanguage } from "@/hooks/useLanguage";
+import { DEFAULT_EVENT_SLUG } from "@/lib/events";
 
 const Index = () => {
+  const { slug = DEFAULT_EVENT_SLUG } = useParams<{ slug: string }>();
+  const { event, isLoading } = useEvent(slug);
+  const { state: windowState, refetch: refetchWindow } = useRegistrationWindow(event);
+  const [searchParams] = useSearchParams();
+  const isDefaultEvent = slug === DEFAULT_EVENT_SLUG;
+  // Registering other people along with yourself
+  const [isGroup, setIsGroup] = useState(false);
+  const { t } = useLanguage();
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -16,12 +33,21 @@ const Index = () => {
             </div>
             <span className="text-xl font-bold text-foreground">SmartReg</span>
           </div>
-          <Link to="/admin/login">
-            <Button variant="outline" size="sm" className="gap-2">
-              <Shield className="w-4 h-4" />
-              Admin
-            </Button>
-          </Link>
+          <div className="flex items-center gap-2">
+            <LanguageSwitcher />
+            <Link to="/status">
+              <Button variant="ghost" size="sm" className="gap-2">
+                <SearchCheck className="w-4 h-4" />
+                {t("header.checkStatus")}
+              </Button>
+            </Link>
+            <Link to="/admin/login">
+              <Button variant="outline" size="sm" className="gap-2">
+                <Shield className="w-4 h-4" />
+                {t("header.admin")}
+              </Button>
+            </Link>
+          </div>
         </div>
       </header>
 
@@ -35,25 +61,75 @@ const Index = () => {
             transition={{ duration: 0.5 }}
             className="text-center max-w-2xl mx-auto mb-12"
           >
-            <h1 className="text-4xl md:text-5xl font-bold text-foreground mb-4">
-              Quick & Easy{" "}
-              <span className="text-primary">Registration</span>
-            </h1>
-            <p className="text-lg text-muted-foreground">
-              Complete your registration in minutes. Fill in your details below
-              and upload your photo to get started.
-            </p>
+            {event && !isDefaultEvent ? (
+              <>
+                <h1 className="text-4xl md:text-5xl font-bold text-foreground mb-4">
+                  {event.name}
+                </h1>
+                <p className="text-lg text-muted-foreground">
+                  {event.description || t("index.heroDescription")}
+                </p>
+              </>
+            ) : (
+              <>
+                <h1 className="text-4xl md:text-5xl font-bold text-foreground mb-4">
+                  {t("index.heroTitle")}{" "}
+                  <span className="text-primary">{t("index.heroHighlight")}</span>
+                </h1>
+                <p className="text-lg text-muted-foreground">
+                  {t("index.heroDescription")}
+                </p>
+              </>
+            )}
           </motion.div>
 
           <motion.div
             initial={{ opacity: 0, y: 30 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, delay: 0.1 }}
-            className="max-w-2xl mx-auto"
+            className="max-w-2xl mx-auto space-y-6"
           >
             <div className="form-card p-6 md:p-10">
-              <RegistrationForm />
+              {isLoading || (event && !windowState) ? (
+                <div className="flex items-center justify-center py-16">
+                  <Loader2 className="w-8 h-8 animate-spin text-primary" />
+                </div>
+              ) : event && windowState === "open" ? (
+                <>
+                  <Tabs
+                    value={isGroup ? "group" : "single"}
+                    onValueChange={(value) => setIsGroup(value === "group")}
+                    className="mb-6"
+                  >
+                    <TabsList className="grid w-full grid-cols-2">
+                      <TabsTrigger value="single">{t("group.justMe")}</TabsTrigger>
+                      <TabsTrigger value="group">{t("group.withOthers")}</TabsTrigger>
+                    </TabsList>
+                  </Tabs>
+                  <RegistrationForm
+                    key={`${event.id}-${isGroup ? "group" : "single"}`}
+                    eventId={event.id}
+                    wizard={event.wizard_mode}
+                    requireEmailVerification={event.require_email_verification}
+                    requireMobileVerification={event.require_mobile_verification}
+                    resumeToken={isGroup ? null : searchParams.get("resume")}
+                    onClosed={refetchWindow}
+                    group={isGroup}
+                    inviteOnly={event.invite_only}
+                    rosterPolicy={event.roster_policy}
+                    fee={event.fee_amount ? { amount: event.fee_amount, currency: event.fee_currency } : null}
+                    inviteCode={searchParams.get("invite")}
+                  />
+                </>
+              ) : (
+                <RegistrationClosed
+                  state={event && windowState && windowState !== "open" ? windowState : "not_found"}
+                  opensAt={event?.opens_at}
+                  closesAt={event?.closes_at}
+                />
+              )}
             </div>
+            <OutboxList />
           </motion.div>
         </div>
       </section>
@@ -62,7 +138,7 @@ const Index = () => {
       <footer className="border-t border-border/50 py-8">
         <div className="container mx-auto px-4 text-center">
           <p className="text-sm text-muted-foreground">
-            © {new Date().getFullYear()} SmartReg. All rights reserved.
+            {t("index.footer", { year: new Date().getFullYear() })}
           </p>
         </div>
       </footer>
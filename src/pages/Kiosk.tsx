@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { ClipboardList, Loader2, Lock } from "lucide-react";
+import { RegistrationForm } from "@/components/RegistrationForm";
+import { RegistrationClosed } from "@/components/registration/RegistrationClosed";
+import { KioskExitDialog } from "@/components/kiosk/KioskExitDialog";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { Button } from "@/components/ui/button";
+import { useEvent, useRegistrationWindow } from "@/hooks/useEvents";
+import { useIdleTimer } from "@/hooks/useIdleTimer";
+import { useLanguage } from "@/hooks/useLanguage";
+import { DEFAULT_EVENT_SLUG } from "@/lib/events";
+import { KIOSK_IDLE_SECONDS, getKioskDeviceId } from "@/lib/kiosk";
+
+// Full-screen form for tablets at the venue, with no way to the rest of the
+// app short of the event's kiosk PIN
+const Kiosk = () => {
+  const { slug = DEFAULT_EVENT_SLUG } = useParams<{ slug: string }>();
+  const { event, isLoading } = useEvent(slug);
+  const { state: windowState, refetch: refetchWindow } = useRegistrationWindow(event);
+  const [searchParams] = useSearchParams();
+  const [deviceId] = useState(() => getKioskDeviceId(searchParams.get("device")));
+  // Bumped to remount the form empty for the next person
+  const [formKey, setFormKey] = useState(0);
+  const [isExitOpen, setIsExitOpen] = useState(false);
+  const navigate = useNavigate();
+  const { t } = useLanguage();
+
+  const startOver = useCallback(() => {
+    setFormKey((key) => key + 1);
+    setIsExitOpen(false);
+    window.scrollTo({ top: 0 });
+  }, []);
+
+  useIdleTimer(KIOSK_IDLE_SECONDS * 1000, startOver);
+
+  // Browsers only allow full screen from a user gesture, so ask on the first one
+  useEffect(() => {
+    const enterFullscreen = () => {
+      if (document.fullscreenElement || !document.documentElement.requestFullscreen) return;
+      document.documentElement.requestFullscreen().catch(() => {
+        // Declined or unsupported; the page still fills the window
+      });
+    };
+    window.addEventListener("pointerdown", enterFullscreen, { once: true });
+    return () => window.removeEventListener("pointerdown", enterFullscreen);
+  }, []);
+
+  const exitKiosk = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    }
+    navigate("/admin");
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="border-b border-border/50 bg-card/50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 rounded-lg bg-primary flex items-center justify-center shrink-0">
+              <ClipboardList className="w-5 h-5 text-primary-foreground" />
+            </div>
+            <span className="text-xl font-bold text-foreground truncate">{event?.name ?? "SmartReg"}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <LanguageSwitcher />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setIsExitOpen(true)}
+              aria-label={t("kiosk.exit")}
+              className="text-muted-foreground"
+            >
+              <Lock className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 container mx-auto px-4 py-8">
+        <div className="form-card p-6 md:p-10 max-w-3xl mx-auto">
+          {isLoading || (event && !windowState) ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          ) : event && windowState === "open" ? (
+            <RegistrationForm
+              key={`${event.id}-${formKey}`}
+              eventId={event.id}
+              wizard={event.wizard_mode}
+              requireEmailVerification={event.require_email_verification}
+              requireMobileVerification={event.require_mobile_verification}
+              onClosed={refetchWindow}
+              inviteOnly={event.invite_only}
+              rosterPolicy={event.roster_policy}
+              fee={event.fee_amount ? { amount: event.fee_amount, currency: event.fee_currency } : null}
+              kiosk={{ deviceId, onDone: startOver }}
+            />
+          ) : (
+            <RegistrationClosed
+              state={event && windowState && windowState !== "open" ? windowState : "not_found"}
+              opensAt={event?.opens_at}
+              closesAt={event?.closes_at}
+            />
+          )}
+        </div>
+      </main>
+
+      {event && (
+        <KioskExitDialog
+          eventId={event.id}
+          isOpen={isExitOpen}
+          onClose={() => setIsExitOpen(false)}
+          onExit={exitKiosk}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Kiosk;
@@ -0,0 +1,194 @@
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { motion } from "framer-motion";
+import { ArrowLeft, Loader2, MailCheck, PencilLine } from "lucide-react";
+import { toast } from "sonner";
+import { RegistrationForm } from "@/components/RegistrationForm";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useLanguage } from "@/hooks/useLanguage";
+import { fetchEditSession, requestEditLink, type EditSession } from "@/lib/registration-edits";
+import { createEditLinkRequestSchema, type EditLinkRequestFormData } from "@/lib/validations";
+
+function EditLinkRequestForm({ defaultCode, linkExpired }: { defaultCode: string; linkExpired: boolean }) {
+  const [isSending, setIsSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const { t } = useLanguage();
+  const schema = createEditLinkRequestSchema();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<EditLinkRequestFormData>({
+    resolver: zodResolver(schema),
+    defaultValues: { code: defaultCode, email: "" },
+  });
+
+  const onSubmit = async (data: EditLinkRequestFormData) => {
+    setIsSending(true);
+    try {
+      await requestEditLink(data.code, data.email);
+      setSentTo(data.email);
+    } catch (error) {
+      console.error("Error requesting edit link:", error);
+      toast.error(error instanceof Error ? error.message : t("editPage.requestFailed"));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (sentTo) {
+    return (
+      <div className="text-center">
+        <div className="w-16 h-16 rounded-2xl bg-success/10 flex items-center justify-center mx-auto mb-4">
+          <MailCheck className="w-8 h-8 text-success" />
+        </div>
+        <h1 className="text-2xl font-bold text-foreground">{t("editPage.checkEmail")}</h1>
+        <p className="text-muted-foreground mt-2">
+          {t("editPage.linkSent", { email: sentTo })}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="text-center mb-8">
+        <div className="w-16 h-16 rounded-2xl bg-primary/10 flex items-center justify-center mx-auto mb-4">
+          <PencilLine className="w-8 h-8 text-primary" />
+        </div>
+        <h1 className="text-2xl font-bold text-foreground">{t("editPage.title")}</h1>
+        <p className="text-muted-foreground mt-2">
+          {linkExpired ? t("editPage.linkExpired") : t("editPage.description")}
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+        <div className="space-y-2">
+          <Label htmlFor="code">{t("statusPage.confirmationNumber")}</Label>
+          <Input
+            id="code"
+            placeholder="ABCD-2345"
+            autoComplete="off"
+            {...register("code")}
+            className="input-focus font-mono uppercase"
+          />
+          {errors.code && <p className="text-sm text-destructive">{errors.code.message}</p>}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="email">{t("field.email")}</Label>
+          <Input
+            id="email"
+            type="email"
+            placeholder="you@example.com"
+            {...register("email")}
+            className="input-focus"
+          />
+          {errors.email && <p className="text-sm text-destructive">{errors.email.message}</p>}
+        </div>
+
+        <Button type="submit" className="w-full btn-primary h-11" disabled={isSending}>
+          {isSending ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              {t("editPage.sending")}
+            </>
+          ) : (
+            t("editPage.emailMeLink")
+          )}
+        </Button>
+      </form>
+    </>
+  );
+}
+
+export default function RegistrationEdit() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const [session, setSession] = useState<EditSession | null>(null);
+  const [isLoading, setIsLoading] = useState(!!token);
+  const [linkExpired, setLinkExpired] = useState(false);
+  const { t, formatDate } = useLanguage();
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetchEditSession(token)
+      .then((result) => {
+        if (cancelled) return;
+        setSession(result);
+        setLinkExpired(!result);
+      })
+      .catch((error) => {
+        console.error("Error opening edit link:", error);
+        if (!cancelled) toast.error(t("editPage.openFailed"));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, t]);
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <div className="container mx-auto px-4 py-4 flex items-center justify-between gap-2">
+        <Link to="/" className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors">
+          <ArrowLeft className="w-4 h-4" />
+          {t("page.backToRegistration")}
+        </Link>
+        <LanguageSwitcher />
+      </div>
+
+      <div className="flex-1 flex items-center justify-center px-4 pb-8">
+        {isLoading ? (
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        ) : session ? (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="w-full max-w-2xl"
+          >
+            <div className="text-center mb-8">
+              <h1 className="text-3xl font-bold text-foreground">{t("editPage.title")}</h1>
+              <p className="text-muted-foreground mt-2">
+                {t("editPage.confirmationNumber")}{" "}
+                <span className="font-mono font-medium text-foreground">
+                  {session.registration.confirmation_code}
+                </span>
+                .{" "}
+                {t("editPage.linkUsableUntil", { date: formatDate(session.expiresAt, "MMM dd, yyyy HH:mm") })}
+              </p>
+            </div>
+            <div className="form-card p-6 md:p-10">
+              <RegistrationForm eventId={session.registration.event_id} editSession={session} />
+            </div>
+          </motion.div>
+        ) : (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="w-full max-w-md"
+          >
+            <div className="form-card p-8">
+              <EditLinkRequestForm
+                defaultCode={searchParams.get("code") ?? ""}
+                linkExpired={linkExpired}
+              />
+            </div>
+          </motion.div>
+        )}
+      </div>
+    </div>
+  );
+}
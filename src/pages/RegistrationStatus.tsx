@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { motion } from "framer-motion";
+import { ArrowLeft, Loader2, MessageSquare, PencilLine, SearchCheck } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { StatusBadge } from "@/components/registration/StatusBadge";
+import { PaymentBadge } from "@/components/admin/PaymentBadge";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { useLanguage } from "@/hooks/useLanguage";
+import {
+  REGISTRATION_STATUS_OPTIONS,
+  holdsSeat,
+  lookupRegistrationStatus,
+  toLookupContact,
+} from "@/lib/registrations";
+import { getPaymentErrorMessage, payRegistration } from "@/lib/payments";
+import { getEditPagePath } from "@/lib/registration-edits";
+import { createStatusLookupSchema, type StatusLookupFormData } from "@/lib/validations";
+
+type StatusResult = NonNullable<Awaited<ReturnType<typeof lookupRegistrationStatus>>>;
+
+export default function RegistrationStatus() {
+  const [searchParams] = useSearchParams();
+  const [isLoading, setIsLoading] = useState(false);
+  const [result, setResult] = useState<StatusResult | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  // What the result was looked up with, to pay for it
+  const [lookupContact, setLookupContact] = useState("");
+  const [isPaying, setIsPaying] = useState(false);
+  const { t, formatDate } = useLanguage();
+  const schema = createStatusLookupSchema();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<StatusLookupFormData>({
+    resolver: zodResolver(schema),
+    defaultValues: { code: searchParams.get("code") ?? "", contact: "" },
+  });
+
+  const onSubmit = async (data: StatusLookupFormData) => {
+    setIsLoading(true);
+    setNotFound(false);
+    try {
+      const registration = await lookupRegistrationStatus(data.code, data.contact);
+      setResult(registration);
+      setLookupContact(toLookupContact(data.contact));
+      setNotFound(!registration);
+    } catch (error) {
+      console.error("Error looking up registration:", error);
+      toast.error(t("statusPage.lookupFailed"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Fees left unpaid while waitlisted are collected here once there's a seat
+  const pay = async () => {
+    if (!result) return;
+    setIsPaying(true);
+    try {
+      if (await payRegistration({ confirmationCode: result.confirmation_code, contact: lookupContact })) {
+        toast.success(t("payment.success"));
+        setResult({ ...result, payment_status: "paid" });
+      } else {
+        toast.error(t("payment.cancelled"));
+      }
+    } catch (payError) {
+      console.error("Payment error:", payError);
+      toast.error(t(getPaymentErrorMessage(payError as Error)));
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <div className="container mx-auto px-4 py-4 flex items-center justify-between gap-2">
+        <Link to="/" className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors">
+          <ArrowLeft className="w-4 h-4" />
+          {t("page.backToRegistration")}
+        </Link>
+        <LanguageSwitcher />
+      </div>
+
+      <div className="flex-1 flex items-center justify-center px-4 pb-8">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="w-full max-w-md space-y-6"
+        >
+          <div className="form-card p-8">
+            <div className="text-center mb-8">
+              <div className="w-16 h-16 rounded-2xl bg-primary/10 flex items-center justify-center mx-auto mb-4">
+                <SearchCheck className="w-8 h-8 text-primary" />
+              </div>
+              <h1 className="text-2xl font-bold text-foreground">{t("statusPage.title")}</h1>
+              <p className="text-muted-foreground mt-2">
+                {t("statusPage.description")}
+              </p>
+            </div>
+
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+              <div className="space-y-2">
+                <Label htmlFor="code">{t("statusPage.confirmationNumber")}</Label>
+                <Input
+                  id="code"
+                  placeholder="ABCD-2345"
+                  autoComplete="off"
+                  {...register("code")}
+                  className="input-focus font-mono uppercase"
+                />
+                {errors.code && <p className="text-sm text-destructive">{errors.code.message}</p>}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="contact">{t("statusPage.contact")}</Label>
+                <Input
+                  id="contact"
+                  placeholder={t("statusPage.contactPlaceholder")}
+                  {...register("contact")}
+                  className="input-focus"
+                />
+                {errors.contact && (
+                  <p className="text-sm text-destructive">{errors.contact.message}</p>
+                )}
+              </div>
+
+              <Button type="submit" className="w-full btn-primary h-11" disabled={isLoading}>
+                {isLoading ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    {t("statusPage.checking")}
+                  </>
+                ) : (
+                  t("header.checkStatus")
+                )}
+              </Button>
+            </form>
+
+            {notFound && (
+              <p className="mt-5 text-sm text-destructive text-center">
+                {t("statusPage.notFound")}
+              </p>
+            )}
+          </div>
+
+          {result && (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="form-card p-6 space-y-4"
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <p className="text-sm text-muted-foreground">{result.event_name}</p>
+                  <p className="font-semibold text-foreground">{result.full_name}</p>
+                </div>
+                <StatusBadge status={result.status} waitlistPosition={result.waitlist_position} />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {t(REGISTRATION_STATUS_OPTIONS.find((option) => option.value === result.status)!.descriptionKey)}
+              </p>
+              <dl className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  <dt className="text-muted-foreground">{t("statusPage.confirmationNumber")}</dt>
+                  <dd className="font-mono font-medium">{result.confirmation_code}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">{t("statusPage.submittedOn")}</dt>
+                  <dd className="font-medium">{formatDate(result.created_at, "MMM dd, yyyy")}</dd>
+                </div>
+              </dl>
+              {result.payment_status && (
+                <div className="rounded-lg border border-border p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <div>
+                      <p className="text-xs text-muted-foreground">{t("statusPage.fee")}</p>
+                      <PaymentBadge
+                        status={result.payment_status}
+                        amount={result.payment_amount}
+                        currency={result.payment_currency}
+                      />
+                    </div>
+                    {result.payment_status === "pending_payment" && holdsSeat(result.status) && (
+                      <Button size="sm" onClick={pay} disabled={isPaying} className="gap-2">
+                        {isPaying && <Loader2 className="w-4 h-4 animate-spin" />}
+                        {t("statusPage.payNow")}
+                      </Button>
+                    )}
+                  </div>
+                  {result.payment_status === "pending_payment" && result.status === "waitlisted" && (
+                    <p className="text-xs text-muted-foreground">{t("statusPage.feeAfterWaitlist")}</p>
+                  )}
+                </div>
+              )}
+              {result.admin_message && (
+                <div className="flex items-start gap-3 rounded-lg bg-muted p-3">
+                  <MessageSquare className="w-4 h-4 mt-0.5 shrink-0 text-primary" />
+                  <div>
+                    <p className="text-xs text-muted-foreground">{t("statusPage.organiserMessage")}</p>
+                    <p className="text-sm whitespace-pre-line">{result.admin_message}</p>
+                  </div>
+                </div>
+              )}
+              <Link
+                to={getEditPagePath(result.confirmation_code)}
+                className="inline-flex items-center gap-2 text-sm text-primary hover:underline"
+              >
+                <PencilLine className="w-4 h-4" />
+                {t("statusPage.requestEdit")}
+              </Link>
+            </motion.div>
+          )}
+        </motion.div>
+      </div>
+    </div>
+  );
+}
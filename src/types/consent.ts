@@ -0,0 +1,21 @@
+export type ConsentKind = "privacy" | "terms" | "marketing";
+
+export interface ConsentDocument {
+  id: string;
+  kind: ConsentKind;
+  version: number;
+  title: string;
+  body: string;
+  required: boolean;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Where a registration's consent record falls behind the current documents
+export interface ConsentIssue {
+  kind: ConsentKind;
+  title: string;
+  // null when the registration never accepted this kind
+  acceptedVersion: number | null;
+  currentVersion: number;
+}
@@ -0,0 +1,31 @@
+export type DuplicatePolicy = "block" | "warn" | "allow";
+
+export type RosterPolicy = "off" | "flag" | "block";
+
+// Whether an event takes registrations right now, as decided by the database
+export type RegistrationWindowState = "open" | "paused" | "scheduled" | "closed" | "full" | "not_found";
+
+export interface RegistrationEvent {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  is_active: boolean;
+  wizard_mode: boolean;
+  duplicate_policy: DuplicatePolicy;
+  require_email_verification: boolean;
+  require_mobile_verification: boolean;
+  opens_at: string | null;
+  closes_at: string | null;
+  max_registrations: number | null;
+  is_paused: boolean;
+  // Registration needs an invite code from the admin area
+  invite_only: boolean;
+  // What happens to registrants who aren't on the uploaded HR roster
+  roster_policy: RosterPolicy;
+  // Fee per person in the currency's minor units; null when registration is free
+  fee_amount: number | null;
+  fee_currency: string;
+  created_at: string;
+  updated_at: string;
+}
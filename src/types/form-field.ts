@@ -0,0 +1,30 @@
+export type FormFieldType =
+  | "text"
+  | "textarea"
+  | "number"
+  | "email"
+  | "select"
+  | "radio"
+  | "checkbox"
+  | "date";
+
+export interface FormField {
+  id: string;
+  event_id: string;
+  field_key: string;
+  label: string;
+  field_type: FormFieldType;
+  options: string[];
+  placeholder: string | null;
+  required: boolean;
+  min_value: number | null;
+  max_value: number | null;
+  pattern: string | null;
+  show_in_table: boolean;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CustomFieldValue = string | number | boolean | null;
+export type CustomFieldValues = Record<string, CustomFieldValue>;
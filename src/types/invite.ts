@@ -0,0 +1,24 @@
+export interface InviteCode {
+  id: string;
+  event_id: string;
+  code: string;
+  // 1 for a single-use code
+  max_uses: number;
+  uses: number;
+  // Registrations made with the code are put in this department
+  department: string | null;
+  expires_at: string | null;
+  label: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// What check_invite_code says about a typed code
+export type InviteCodeState = "valid" | "invalid" | "expired" | "used_up";
+
+export interface InviteCheck {
+  code: string;
+  state: InviteCodeState;
+  department: string | null;
+  usesLeft: number;
+}
@@ -1,12 +1,137 @@
+import type { Language } from "@/lib/i18n";
+import type { CustomFieldValues } from "@/types/form-field";
+
+export type RegistrationStatus =
+  | "submitted"
+  | "under_review"
+  | "waitlisted"
+  | "approved"
+  | "rejected"
+  | "cancelled";
+
+export type RegistrationSource = "web" | "kiosk";
+
+// Whether the registrant was found on the event's roster when they registered
+export type RosterStatus = "matched" | "unmatched";
+
+// Set on registrations for events with a fee; null when registration is free
+export type PaymentStatus = "pending_payment" | "paid" | "refunded";
+
 export interface Registration {
   id: string;
+  event_id: string;
+  confirmation_code: string;
   full_name: string;
   mobile_number: string;
+  mobile_verified_at: string | null;
   email: string;
+  email_verified_at: string | null;
   gender: "male" | "female" | "other";
   department: string;
   address: string;
+  address_line1: string | null;
+  address_line2: string | null;
+  city: string | null;
+  state: string | null;
+  postal_code: string | null;
+  country: string | null;
   photo_url: string;
+  custom_fields: CustomFieldValues;
+  is_possible_duplicate: boolean;
+  status: RegistrationStatus;
+  // Place in the department's waitlist, 1 being next; null unless waitlisted
+  waitlist_position: number | null;
+  admin_message: string | null;
+  // Consent document versions accepted when registering, and when
+  consent_document_ids: string[];
+  consented_at: string | null;
+  // Language the form was filled in; follow-up emails use it
+  language: Language;
+  // The public form or a kiosk at the venue, and which kiosk
+  source: RegistrationSource;
+  device_id: string | null;
+  // Shared by registrations submitted together: the submitter's own id
+  group_id: string | null;
+  // Invite code the registration was made with, if any
+  invite_code_id: string | null;
+  // Given on the form for events checked against an HR roster
+  employee_id: string | null;
+  roster_status: RosterStatus | null;
+  // The fee owed, in the currency's minor units, fixed when registering
+  payment_status: PaymentStatus | null;
+  payment_amount: number | null;
+  payment_currency: string | null;
+  // The gateway that took the payment, or "manual" when an admin recorded it
+  payment_provider: string | null;
+  payment_reference: string | null;
+  paid_at: string | null;
   created_at: string;
   updated_at: string;
 }
+
+export type AttachmentDocumentType = "id_proof" | "offer_letter" | "certificate" | "other";
+
+export interface RegistrationAttachment {
+  id: string;
+  registration_id: string;
+  document_type: AttachmentDocumentType;
+  file_path: string;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  created_at: string;
+}
+
+export type RegistrationChangeSource = "admin" | "registrant" | "system";
+
+export interface RegistrationChange {
+  id: string;
+  registration_id: string;
+  source: RegistrationChangeSource;
+  actor_id: string | null;
+  actor_email: string | null;
+  // Changed columns with their values before and after
+  changes: Record<string, { old: unknown; new: unknown }>;
+  created_at: string;
+}
+
+export interface DepartmentCapacity {
+  id: string;
+  event_id: string;
+  department: string;
+  capacity: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Seats of a department with a capacity, as counted by the database
+export interface DepartmentAvailability {
+  department: string;
+  capacity: number;
+  seats_taken: number;
+  waitlisted: number;
+}
+
+export type RegistrationAttemptAction = "submit" | "upload" | "verify";
+
+// Why submit-registration or registration-upload-url turned a call away
+export type RegistrationAttemptReason =
+  | "honeypot"
+  | "too_fast"
+  | "challenge_invalid"
+  | "challenge_reused"
+  | "ip_rate_limited"
+  | "email_rate_limited";
+
+export interface RegistrationAttempt {
+  id: string;
+  event_id: string | null;
+  action: RegistrationAttemptAction;
+  outcome: "accepted" | "rejected";
+  reason: RegistrationAttemptReason | null;
+  ip_address: string;
+  email: string | null;
+  challenge_id: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
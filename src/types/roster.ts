@@ -0,0 +1,14 @@
+export interface RosterEntry {
+  id: string;
+  event_id: string;
+  // Stored upper case; matched against what registrants type, ignoring case
+  employee_id: string | null;
+  // Stored lower case
+  email: string | null;
+  full_name: string | null;
+  department: string | null;
+  created_at: string;
+}
+
+// A roster row as read from an uploaded file, before it is saved
+export type RosterUploadEntry = Pick<RosterEntry, "employee_id" | "email" | "full_name" | "department">;
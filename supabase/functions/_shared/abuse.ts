@@ -0,0 +1,124 @@
+// Rate limits and the attempt log behind the public submission, upload and
+// verification code endpoints. Every call is written to registration_attempts; the limits count
+// rejected calls too, so a bot that keeps hammering stays locked out.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type AttemptAction = "submit" | "upload" | "verify";
+
+export type RejectionReason =
+  | "honeypot"
+  | "too_fast"
+  | "challenge_invalid"
+  | "challenge_reused"
+  | "ip_rate_limited"
+  | "email_rate_limited";
+
+interface RateLimit {
+  max: number;
+  windowMinutes: number;
+}
+
+export const RATE_LIMITS: Record<"submitPerIp" | "submitPerEmail" | "uploadPerIp" | "verifyPerIp", RateLimit> = {
+  submitPerIp: { max: 10, windowMinutes: 60 },
+  submitPerEmail: { max: 3, windowMinutes: 60 },
+  // A photo and up to five documents per registration, with room for retries
+  uploadPerIp: { max: 30, windowMinutes: 60 },
+  // An email and an SMS code per registration, with room for resends
+  verifyPerIp: { max: 20, windowMinutes: 60 },
+};
+
+// Seconds a person needs at least to fill in the form
+export const MIN_FILL_SECONDS = 5;
+
+export interface AttemptContext {
+  ipAddress: string;
+  userAgent: string | null;
+}
+
+// The platform's proxy appends the address it was called from to
+// x-forwarded-for, so only the last entry is trustworthy; anything before it
+// came from the caller and could be made up to dodge the per-IP limits
+export function getAttemptContext(req: Request): AttemptContext {
+  const forwardedFor = req.headers.get("x-forwarded-for")?.split(",").pop()?.trim();
+  return {
+    ipAddress: forwardedFor || req.headers.get("x-real-ip") || "unknown",
+    userAgent: req.headers.get("user-agent")?.slice(0, 500) ?? null,
+  };
+}
+
+// Stored and compared lower-cased, like the duplicate checks do
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase().slice(0, 320);
+}
+
+function windowStart(limit: RateLimit) {
+  return new Date(Date.now() - limit.windowMinutes * 60 * 1000).toISOString();
+}
+
+export async function isIpRateLimited(
+  supabase: SupabaseClient,
+  action: AttemptAction,
+  ipAddress: string,
+  limit: RateLimit
+) {
+  const { count, error } = await supabase
+    .from("registration_attempts")
+    .select("id", { count: "exact", head: true })
+    .eq("action", action)
+    .eq("ip_address", ipAddress)
+    .gte("created_at", windowStart(limit));
+  if (error) throw error;
+  return (count ?? 0) >= limit.max;
+}
+
+export async function isEmailRateLimited(supabase: SupabaseClient, email: string, limit: RateLimit) {
+  const { count, error } = await supabase
+    .from("registration_attempts")
+    .select("id", { count: "exact", head: true })
+    .eq("action", "submit")
+    .eq("email", normalizeEmail(email))
+    .gte("created_at", windowStart(limit));
+  if (error) throw error;
+  return (count ?? 0) >= limit.max;
+}
+
+interface Attempt {
+  action: AttemptAction;
+  eventId?: string | null;
+  email?: string | null;
+  challengeId?: string | null;
+  reason?: RejectionReason;
+}
+
+function insertAttempt(supabase: SupabaseClient, context: AttemptContext, attempt: Attempt) {
+  return supabase.from("registration_attempts").insert({
+    event_id: attempt.eventId ?? null,
+    action: attempt.action,
+    outcome: attempt.reason ? "rejected" : "accepted",
+    reason: attempt.reason ?? null,
+    ip_address: context.ipAddress,
+    email: attempt.email ? normalizeEmail(attempt.email) : null,
+    challenge_id: attempt.challengeId ?? null,
+    user_agent: context.userAgent,
+  });
+}
+
+// Logging never fails the request it describes
+export async function logAttempt(supabase: SupabaseClient, context: AttemptContext, attempt: Attempt) {
+  const { error } = await insertAttempt(supabase, context, attempt);
+  if (error) console.error("Error logging registration attempt:", error);
+}
+
+// Logs a submission that passed the checks. The unique index on accepted
+// challenge ids makes this the single point where a challenge is spent, so
+// false means it was already used.
+export async function claimChallenge(
+  supabase: SupabaseClient,
+  context: AttemptContext,
+  attempt: Omit<Attempt, "action" | "reason"> & { challengeId: string }
+) {
+  const { error } = await insertAttempt(supabase, context, { ...attempt, action: "submit" });
+  if (error?.code === "23505") return false;
+  if (error) throw error;
+  return true;
+}
@@ -0,0 +1,40 @@
+// Signed self-service edit links. A token is "<payload>.<signature>", both
+// base64url; the payload names the registration, the version of the row the
+// link was issued for and an expiry. Any change to the row (including the
+// edit made with the link) invalidates it. Signed with EDIT_LINK_SECRET.
+
+import { readSignedPayload, signPayload } from "./signing.ts";
+
+export const EDIT_LINK_TTL_SECONDS = 24 * 60 * 60;
+
+export interface EditTokenPayload {
+  // Registration id
+  r: string;
+  // updated_at of the row when the link was issued
+  u: string;
+  // Expiry, seconds since the epoch
+  e: number;
+}
+
+export async function signEditToken(registrationId: string, updatedAt: string) {
+  const payload: EditTokenPayload = {
+    r: registrationId,
+    u: updatedAt,
+    e: Math.floor(Date.now() / 1000) + EDIT_LINK_TTL_SECONDS,
+  };
+  return signPayload(payload, "EDIT_LINK_SECRET");
+}
+
+// The payload of a genuine, unexpired token, or null
+export async function verifyEditToken(token: string): Promise<EditTokenPayload | null> {
+  const payload = (await readSignedPayload(token, "EDIT_LINK_SECRET")) as EditTokenPayload | null;
+  if (
+    !payload ||
+    typeof payload.r !== "string" ||
+    typeof payload.u !== "string" ||
+    typeof payload.e !== "number"
+  ) {
+    return null;
+  }
+  return payload.e > Date.now() / 1000 ? payload : null;
+}
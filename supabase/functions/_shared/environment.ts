@@ -0,0 +1,13 @@
+// Hosts SUPABASE_URL points at when the functions run on the Supabase CLI's
+// local stack: "kong" from inside its containers, localhost from outside
+const LOCAL_HOSTS = ["localhost", "127.0.0.1", "kong", "host.docker.internal"];
+
+// Whether this is local development, where stand-ins that send or charge
+// nothing are safe to use
+export function isLocalDevelopment() {
+  try {
+    return LOCAL_HOSTS.includes(new URL(Deno.env.get("SUPABASE_URL") ?? "").hostname);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,72 @@
+// Emails and text messages to registrants, in the languages the public form
+// offers (src/lib/i18n.ts). Registrations store the language they were made
+// in; anything else falls back to English.
+
+export type Language = "en" | "hi" | "mr";
+
+const LANGUAGES: Language[] = ["en", "hi", "mr"];
+
+export function toLanguage(value: unknown): Language {
+  return LANGUAGES.includes(value as Language) ? (value as Language) : "en";
+}
+
+interface Templates {
+  defaultEventName: string;
+  verificationEmailSubject: (eventName: string) => string;
+  verificationEmailText: (code: string) => string;
+  verificationSms: (code: string, eventName: string) => string;
+  editLinkSubject: (eventName: string) => string;
+  editLinkText: (details: { name: string; code: string; link: string; hours: number }) => string;
+}
+
+const TEMPLATES: Record<Language, Templates> = {
+  en: {
+    defaultEventName: "your event",
+    verificationEmailSubject: (eventName) => `Your verification code for ${eventName}`,
+    verificationEmailText: (code) =>
+      `Your verification code is ${code}.\n\n` +
+      "It expires in 10 minutes. If you didn't request it, you can ignore this email.",
+    verificationSms: (code, eventName) =>
+      `${code} is your ${eventName} verification code. It expires in 10 minutes.`,
+    editLinkSubject: (eventName) => `Edit your registration for ${eventName}`,
+    editLinkText: ({ name, code, link, hours }) =>
+      `Hi ${name},\n\n` +
+      `Use this link to correct your registration (${code}):\n${link}\n\n` +
+      `It works once and expires in ${hours} hours. ` +
+      "If you didn't ask for it, you can ignore this email.",
+  },
+  hi: {
+    defaultEventName: "आपका कार्यक्रम",
+    verificationEmailSubject: (eventName) => `${eventName} के लिए आपका सत्यापन कोड`,
+    verificationEmailText: (code) =>
+      `आपका सत्यापन कोड ${code} है।\n\n` +
+      "यह 10 मिनट में समाप्त हो जाएगा। यदि आपने इसका अनुरोध नहीं किया है, तो इस ईमेल को अनदेखा करें।",
+    verificationSms: (code, eventName) =>
+      `${code} आपका ${eventName} सत्यापन कोड है। यह 10 मिनट में समाप्त हो जाएगा।`,
+    editLinkSubject: (eventName) => `${eventName} के लिए अपना पंजीकरण संपादित करें`,
+    editLinkText: ({ name, code, link, hours }) =>
+      `नमस्ते ${name},\n\n` +
+      `अपने पंजीकरण (${code}) में सुधार करने के लिए इस लिंक का उपयोग करें:\n${link}\n\n` +
+      `यह केवल एक बार काम करता है और ${hours} घंटे में समाप्त हो जाता है। ` +
+      "यदि आपने इसका अनुरोध नहीं किया है, तो इस ईमेल को अनदेखा करें।",
+  },
+  mr: {
+    defaultEventName: "तुमचा कार्यक्रम",
+    verificationEmailSubject: (eventName) => `${eventName} साठी तुमचा पडताळणी कोड`,
+    verificationEmailText: (code) =>
+      `तुमचा पडताळणी कोड ${code} आहे.\n\n` +
+      "तो 10 मिनिटांत कालबाह्य होईल. तुम्ही याची विनंती केली नसल्यास, या ईमेलकडे दुर्लक्ष करा.",
+    verificationSms: (code, eventName) =>
+      `${code} हा तुमचा ${eventName} पडताळणी कोड आहे. तो 10 मिनिटांत कालबाह्य होईल.`,
+    editLinkSubject: (eventName) => `${eventName} साठी तुमची नोंदणी संपादित करा`,
+    editLinkText: ({ name, code, link, hours }) =>
+      `नमस्कार ${name},\n\n` +
+      `तुमच्या नोंदणीमध्ये (${code}) दुरुस्ती करण्यासाठी ही लिंक वापरा:\n${link}\n\n` +
+      `ती फक्त एकदाच वापरता येते आणि ${hours} तासांत कालबाह्य होते. ` +
+      "तुम्ही याची विनंती केली नसल्यास, या ईमेलकडे दुर्लक्ष करा.",
+  },
+};
+
+export function getTemplates(language: unknown) {
+  return TEMPLATES[toLanguage(language)];
+}
@@ -0,0 +1,85 @@
+// Pluggable outgoing mail. MAIL_SENDER picks the implementation:
+//   smtp    - any SMTP server; in local development point SMTP_HOST/SMTP_PORT
+//             at the Supabase CLI's Inbucket (or Mailpit/MailHog) catcher
+//   console - logs the message instead of sending it (default); refused
+//             unless SUPABASE_URL is the local stack, so codes and links are
+//             never silently dropped in production
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import { isLocalDevelopment } from "./environment.ts";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailSender {
+  send(message: MailMessage): Promise<void>;
+}
+
+class ConsoleMailSender implements MailSender {
+  async send(message: MailMessage) {
+    console.log(`[mail] to=${message.to} subject=${message.subject}\n${message.text}`);
+  }
+}
+
+class SmtpMailSender implements MailSender {
+  constructor(
+    private readonly from: string,
+    private readonly options: {
+      hostname: string;
+      port: number;
+      tls: boolean;
+      username?: string;
+      password?: string;
+    }
+  ) {}
+
+  async send(message: MailMessage) {
+    const { hostname, port, tls, username, password } = this.options;
+    const client = new SMTPClient({
+      connection: {
+        hostname,
+        port,
+        tls,
+        auth: username ? { username, password: password ?? "" } : undefined,
+      },
+      debug: { allowUnsecure: !tls, noStartTLS: !tls },
+    });
+
+    try {
+      await client.send({
+        from: this.from,
+        to: message.to,
+        subject: message.subject,
+        content: message.text,
+        html: message.html,
+      });
+    } finally {
+      await client.close();
+    }
+  }
+}
+
+export function createMailSender(): MailSender {
+  const kind = Deno.env.get("MAIL_SENDER") ?? "console";
+
+  switch (kind) {
+    case "smtp":
+      return new SmtpMailSender(Deno.env.get("MAIL_FROM") ?? "Smart Registration <no-reply@localhost>", {
+        hostname: Deno.env.get("SMTP_HOST") ?? "localhost",
+        port: Number(Deno.env.get("SMTP_PORT") ?? 2500),
+        tls: Deno.env.get("SMTP_TLS") === "true",
+        username: Deno.env.get("SMTP_USER"),
+        password: Deno.env.get("SMTP_PASS"),
+      });
+    case "console":
+      if (!isLocalDevelopment()) {
+        throw new Error("The console mail sender only runs against the local Supabase stack; set MAIL_SENDER");
+      }
+      return new ConsoleMailSender();
+    default:
+      throw new Error(`Unknown MAIL_SENDER "${kind}"`);
+  }
+}
@@ -0,0 +1,82 @@
+// Pluggable payment collection. PAYMENT_PROVIDER picks the gateway and must
+// be set for events with a fee to take registrations:
+//   mock - takes no money and approves every payment it started, without
+//          any network calls; refused unless SUPABASE_URL is the local stack
+// To add a real gateway, implement PaymentProvider and register a factory in
+// PROVIDERS; read its credentials from function secrets inside the factory.
+// The browser half of the gateway, its checkout, goes in src/lib/payments.ts
+// under the same name.
+
+import { isLocalDevelopment } from "./environment.ts";
+
+export interface PaymentRequest {
+  // In the currency's minor units
+  amount: number;
+  currency: string;
+  // The registration being paid for, for the gateway's records
+  registrationId: string;
+  description: string;
+}
+
+export interface StartedPayment {
+  // The gateway's id for the payment, checked again when it is confirmed
+  paymentId: string;
+  // Whatever the browser needs to open the gateway's checkout
+  checkout: Record<string, unknown>;
+}
+
+export interface PaymentProvider {
+  start(request: PaymentRequest): Promise<StartedPayment>;
+  // Whether the payment went through for the full amount
+  isPaid(paymentId: string, request: PaymentRequest): Promise<boolean>;
+}
+
+class MockPaymentProvider implements PaymentProvider {
+  async start(request: PaymentRequest) {
+    console.log(
+      `[payments] mock payment of ${request.amount} ${request.currency} for ${request.registrationId}`
+    );
+    return { paymentId: `mock_${crypto.randomUUID()}`, checkout: {} };
+  }
+
+  async isPaid(paymentId: string) {
+    return paymentId.startsWith("mock_");
+  }
+}
+
+const PROVIDERS: Record<string, () => PaymentProvider> = {
+  mock: () => {
+    if (!isLocalDevelopment()) {
+      throw new Error("The mock payment provider only runs against the local Supabase stack");
+    }
+    return new MockPaymentProvider();
+  },
+};
+
+export function getPaymentProviderName() {
+  return Deno.env.get("PAYMENT_PROVIDER") ?? null;
+}
+
+export function createPaymentProvider(): PaymentProvider {
+  const kind = getPaymentProviderName();
+  if (!kind) {
+    throw new Error("PAYMENT_PROVIDER is not set");
+  }
+  const factory = PROVIDERS[kind];
+  if (!factory) {
+    throw new Error(`Unknown PAYMENT_PROVIDER "${kind}"`);
+  }
+  return factory();
+}
+
+// Whether fees can be collected at all; paid events turn registrations away
+// until they can, rather than saving people who can never pay online
+export function canCollectPayments() {
+  try {
+    createPaymentProvider();
+    return true;
+  } catch (error) {
+    console.error(error);
+    return false;
+  }
+}
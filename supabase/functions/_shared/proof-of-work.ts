@@ -0,0 +1,65 @@
+// Self-hosted proof-of-work challenge for the public registration form. A
+// challenge is "<payload>.<signature>", both base64url, signed with
+// CHALLENGE_SECRET; the payload carries an id, when it was issued and the
+// difficulty. The browser looks for a nonce such that
+// SHA-256("<challenge>:<nonce>") starts with `difficulty` zero bits, which
+// takes a second or two once but adds up quickly for a bot. The issue time
+// doubles as the moment the form was opened, for the minimum fill time.
+
+import { readSignedPayload, signPayload } from "./signing.ts";
+
+// Expected work is 2^difficulty hashes
+export const CHALLENGE_DIFFICULTY = 16;
+// Long enough for the wizard, short enough that solved challenges can't be stockpiled
+export const CHALLENGE_TTL_SECONDS = 2 * 60 * 60;
+
+export interface ChallengePayload {
+  // Challenge id; each id is good for one accepted submission
+  n: string;
+  // Issue time, milliseconds since the epoch
+  i: number;
+  // Difficulty in leading zero bits
+  d: number;
+}
+
+const encoder = new TextEncoder();
+
+function countLeadingZeroBits(bytes: Uint8Array) {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+export async function issueChallenge() {
+  const payload: ChallengePayload = {
+    n: crypto.randomUUID(),
+    i: Date.now(),
+    d: CHALLENGE_DIFFICULTY,
+  };
+  return { challenge: await signPayload(payload, "CHALLENGE_SECRET"), difficulty: payload.d };
+}
+
+// The payload of a genuine, unexpired challenge solved by `nonce`, or null
+export async function verifyChallenge(challenge: string, nonce: string): Promise<ChallengePayload | null> {
+  if (!nonce || nonce.length > 32) return null;
+
+  const payload = (await readSignedPayload(challenge, "CHALLENGE_SECRET")) as ChallengePayload | null;
+  if (
+    !payload ||
+    typeof payload.n !== "string" ||
+    typeof payload.i !== "number" ||
+    typeof payload.d !== "number"
+  ) {
+    return null;
+  }
+  if (payload.i + CHALLENGE_TTL_SECONDS * 1000 < Date.now()) return null;
+
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(`${challenge}:${nonce}`));
+  return countLeadingZeroBits(new Uint8Array(digest)) >= payload.d ? payload : null;
+}
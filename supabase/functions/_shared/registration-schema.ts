@@ -0,0 +1,190 @@
+// Server-side copy of the registration form's validation, used where values
+// from the browser are written with the service role. Mirrors
+// registrationSchema in src/lib/validations.ts and buildCustomFieldsSchema in
+// src/lib/form-fields.ts; keep them in sync.
+import { z } from "https://esm.sh/zod@3.25.76";
+import {
+  parsePhoneNumberFromString,
+  validatePhoneNumberLength,
+} from "https://esm.sh/libphonenumber-js@1.13.14/max";
+
+const DEFAULT_PHONE_COUNTRY = "IN";
+
+// The departments the form offers, as in src/lib/validations.ts. Department
+// capacities and the admin filters only know these.
+const DEPARTMENTS = [
+  "Engineering",
+  "Marketing",
+  "Sales",
+  "Human Resources",
+  "Finance",
+  "Operations",
+  "Customer Support",
+  "Research & Development",
+  "Legal",
+  "Other",
+];
+
+export interface FormFieldRow {
+  field_key: string;
+  label: string;
+  field_type: string;
+  options: unknown;
+  required: boolean;
+  min_value: number | null;
+  max_value: number | null;
+  pattern: string | null;
+}
+
+export type CustomFieldValue = string | number | boolean | null;
+
+const POSTAL_CODE_PATTERNS: Record<string, RegExp> = {
+  IN: /^[1-9]\d{5}$/,
+};
+const GENERIC_POSTAL_CODE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 -]{1,9}$/;
+
+const regionNames = new Intl.DisplayNames(["en"], { type: "region" });
+
+function isValidPhoneNumber(value: string) {
+  if (validatePhoneNumberLength(value, DEFAULT_PHONE_COUNTRY)) return false;
+  return parsePhoneNumberFromString(value, DEFAULT_PHONE_COUNTRY)?.isValid() ?? false;
+}
+
+const addressSchema = z
+  .object({
+    line1: z.string().trim().min(3, "Please enter your address").max(200),
+    line2: z.string().trim().max(200).optional(),
+    city: z.string().trim().min(1, "Please enter your city").max(100),
+    state: z.string().trim().min(1, "Please enter your state").max(100),
+    postalCode: z.string().trim().min(1, "Please enter your postal code"),
+    country: z.string().min(1, "Please select a country"),
+  })
+  .superRefine((address, ctx) => {
+    const pattern = POSTAL_CODE_PATTERNS[address.country] ?? GENERIC_POSTAL_CODE_PATTERN;
+    if (!pattern.test(address.postalCode)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["postalCode"], message: "Invalid postal code" });
+    }
+  });
+
+const registrationSchema = z.object({
+  fullName: z.string().trim().min(2).max(100),
+  mobileNumber: z
+    .string()
+    .trim()
+    .refine(isValidPhoneNumber, "Please enter a valid mobile number")
+    .transform((value) => parsePhoneNumberFromString(value, DEFAULT_PHONE_COUNTRY)!.number as string),
+  email: z.string().trim().email().max(255),
+  gender: z.enum(["male", "female", "other"]),
+  department: z.string().min(1),
+  address: addressSchema,
+});
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+
+function isValidPattern(pattern: string) {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function buildFieldSchema(field: FormFieldRow): z.ZodTypeAny {
+  const { required, min_value: min, max_value: max } = field;
+  const options = Array.isArray(field.options) ? field.options.map(String) : [];
+
+  if (field.field_type === "checkbox") {
+    const schema = z.boolean();
+    return required ? schema.refine((v) => v === true) : schema.optional();
+  }
+
+  if (field.field_type === "number") {
+    let schema = z.number();
+    if (min !== null) schema = schema.min(min);
+    if (max !== null) schema = schema.max(max);
+    return z.preprocess(
+      (v) => (isBlank(v) ? undefined : Number(v)),
+      required ? schema : schema.optional()
+    );
+  }
+
+  let schema = z.string().trim();
+  if (field.field_type === "email") schema = schema.email();
+  if (field.field_type === "date") schema = schema.regex(/^\d{4}-\d{2}-\d{2}$/);
+  if (["text", "textarea", "email"].includes(field.field_type)) {
+    if (min !== null) schema = schema.min(min);
+    if (max !== null) schema = schema.max(max);
+  }
+  if (field.pattern && isValidPattern(field.pattern)) {
+    schema = schema.regex(new RegExp(field.pattern));
+  }
+
+  let refined: z.ZodTypeAny = schema;
+  if ((field.field_type === "select" || field.field_type === "radio") && options.length > 0) {
+    refined = schema.refine((v) => options.includes(v));
+  }
+
+  return z.preprocess((v) => (isBlank(v) ? undefined : v), required ? refined : refined.optional());
+}
+
+// Checked before the values are parsed, so a made-up department is turned
+// away with its own error rather than slipping past the capacity limits
+export function isKnownDepartment(values: unknown) {
+  const department = (values as { department?: unknown } | null)?.department;
+  return typeof department === "string" && DEPARTMENTS.includes(department);
+}
+
+export function createRegistrationSchema(fields: FormFieldRow[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const field of fields) {
+    shape[field.field_key] = buildFieldSchema(field);
+  }
+  // Left out, it still has to pass the required custom fields; unknown keys
+  // are dropped
+  return registrationSchema.extend({ customFields: z.object(shape).default({}) });
+}
+
+export type RegistrationValues = z.infer<ReturnType<typeof createRegistrationSchema>>;
+
+function formatAddress(address: RegistrationValues["address"]) {
+  const locality = [address.city, [address.state, address.postalCode].filter(Boolean).join(" ")]
+    .filter(Boolean)
+    .join(", ");
+  const country = regionNames.of(address.country) ?? address.country;
+  return [address.line1, address.line2, locality, country]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(", ");
+}
+
+// Column values for the registrations table, as the form itself would save them
+export function toRegistrationColumns(
+  fields: FormFieldRow[],
+  values: RegistrationValues,
+  existingCustomFields: Record<string, CustomFieldValue>
+) {
+  const answers: Record<string, CustomFieldValue> = {};
+  for (const field of fields) {
+    const value = values.customFields[field.field_key];
+    answers[field.field_key] = isBlank(value) ? null : (value as CustomFieldValue);
+  }
+
+  return {
+    full_name: values.fullName,
+    mobile_number: values.mobileNumber,
+    email: values.email,
+    gender: values.gender,
+    department: values.department,
+    address: formatAddress(values.address),
+    address_line1: values.address.line1,
+    address_line2: values.address.line2 || null,
+    city: values.address.city,
+    state: values.address.state,
+    postal_code: values.address.postalCode,
+    country: values.address.country,
+    // Keep answers to fields that were removed from the form since
+    custom_fields: { ...existingCustomFields, ...answers },
+  };
+}
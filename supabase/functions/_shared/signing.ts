@@ -0,0 +1,58 @@
+// Signed tokens behind the edit links and the proof-of-work challenges. A
+// token is "<payload>.<signature>", both base64url: the payload is JSON and
+// the signature an HMAC-SHA-256 of it, keyed with the named secret.
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string) {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+async function getKey(secretName: string) {
+  const secret = Deno.env.get(secretName);
+  if (!secret) {
+    throw new Error(`${secretName} is not set`);
+  }
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+export async function signPayload(payload: unknown, secretName: string) {
+  const encoded = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign("HMAC", await getKey(secretName), encoder.encode(encoded));
+  return `${encoded}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// The payload of a token signed with the secret, or null; callers still check
+// its fields and expiry
+export async function readSignedPayload(token: string, secretName: string): Promise<unknown> {
+  const [encoded, signature, ...rest] = token.split(".");
+  if (!encoded || !signature || rest.length > 0) return null;
+
+  const key = await getKey(secretName);
+  try {
+    const isValid = await crypto.subtle.verify(
+      "HMAC",
+      key,
+      fromBase64Url(signature),
+      encoder.encode(encoded)
+    );
+    if (!isValid) return null;
+    return JSON.parse(new TextDecoder().decode(fromBase64Url(encoded)));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,41 @@
+// Pluggable SMS delivery. SMS_PROVIDER picks the gateway:
+//   console - logs the message instead of sending it (default); refused
+//             unless SUPABASE_URL is the local stack
+// To add a real gateway, implement SmsProvider and register a factory in
+// PROVIDERS; read its credentials from function secrets inside the factory.
+
+import { isLocalDevelopment } from "./environment.ts";
+
+export interface SmsMessage {
+  // Digits only, including the country code when known
+  to: string;
+  text: string;
+}
+
+export interface SmsProvider {
+  send(message: SmsMessage): Promise<void>;
+}
+
+class ConsoleSmsProvider implements SmsProvider {
+  async send(message: SmsMessage) {
+    console.log(`[sms] to=${message.to}\n${message.text}`);
+  }
+}
+
+const PROVIDERS: Record<string, () => SmsProvider> = {
+  console: () => {
+    if (!isLocalDevelopment()) {
+      throw new Error("The console SMS provider only runs against the local Supabase stack; set SMS_PROVIDER");
+    }
+    return new ConsoleSmsProvider();
+  },
+};
+
+export function createSmsProvider(): SmsProvider {
+  const kind = Deno.env.get("SMS_PROVIDER") ?? "console";
+  const factory = PROVIDERS[kind];
+  if (!factory) {
+    throw new Error(`Unknown SMS_PROVIDER "${kind}"`);
+  }
+  return factory();
+}
@@ -0,0 +1,50 @@
+// Purges expired "save and continue later" drafts together with the photos
+// they uploaded, and documents uploaded for registrations that never saved
+// them. Meant to be invoked on a schedule (e.g. a daily pg_cron job calling
+// this function with the service role key). Any other caller is turned away,
+// as the anon key alone passes the platform's JWT check.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const PHOTO_BUCKET = "registration-photos";
+const DOCUMENT_BUCKET = "registration-documents";
+
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  if (req.headers.get("authorization") !== `Bearer ${serviceRoleKey}`) {
+    return Response.json({ error: "unauthorized" }, { status: 401 });
+  }
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+  const { data, error } = await supabase.rpc("purge_expired_registration_drafts");
+  if (error) {
+    console.error("Error purging drafts:", error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  const photoPaths = (data as { photo_path: string }[]).map((row) => row.photo_path);
+  if (photoPaths.length > 0) {
+    const { error: storageError } = await supabase.storage.from(PHOTO_BUCKET).remove(photoPaths);
+    if (storageError) {
+      console.error("Error removing draft photos:", storageError);
+      return Response.json({ error: storageError.message }, { status: 500 });
+    }
+  }
+
+  const { data: orphans, error: orphansError } = await supabase.rpc("orphaned_registration_documents");
+  if (orphansError) {
+    console.error("Error finding orphaned documents:", orphansError);
+    return Response.json({ error: orphansError.message }, { status: 500 });
+  }
+
+  const documentPaths = (orphans as { file_path: string }[]).map((row) => row.file_path);
+  if (documentPaths.length > 0) {
+    const { error: storageError } = await supabase.storage.from(DOCUMENT_BUCKET).remove(documentPaths);
+    if (storageError) {
+      console.error("Error removing orphaned documents:", storageError);
+      return Response.json({ error: storageError.message }, { status: 500 });
+    }
+  }
+
+  return Response.json({ purgedPhotos: photoPaths.length, purgedDocuments: documentPaths.length });
+});
@@ -0,0 +1,18 @@
+// Hands the public registration form a signed proof-of-work challenge (see
+// _shared/proof-of-work.ts). Issuing one is cheap and stores nothing; the
+// work and the checks happen when submit-registration receives the solution.
+import { corsHeaders } from "../_shared/cors.ts";
+import { issueChallenge } from "../_shared/proof-of-work.ts";
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    return Response.json(await issueChallenge(), { headers: corsHeaders });
+  } catch (error) {
+    console.error("Error issuing challenge:", error);
+    return Response.json({ error: "server_error" }, { status: 500, headers: corsHeaders });
+  }
+});
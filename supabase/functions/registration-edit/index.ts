@@ -0,0 +1,166 @@
+// Loads and saves a registrant's own registration through a signed edit link
+// (see request-edit-link). Values are validated against the same rules as
+// the registration form before apply_registration_edit writes them, which
+// also records the change as the registrant's.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { verifyEditToken } from "../_shared/edit-token.ts";
+import {
+  createRegistrationSchema,
+  isKnownDepartment,
+  toRegistrationColumns,
+  type FormFieldRow,
+} from "../_shared/registration-schema.ts";
+
+const PHOTO_BUCKET = "registration-photos";
+const PHOTO_PATH_PATTERN = /^registrations\/[^/]+$/;
+
+const EDITABLE_COLUMNS =
+  "id, event_id, confirmation_code, full_name, mobile_number, email, gender, department, " +
+  "address, address_line1, address_line2, city, state, postal_code, country, photo_url, " +
+  "custom_fields, updated_at";
+
+interface RegistrationEditRequest {
+  action?: "get" | "apply";
+  token?: string;
+  values?: unknown;
+  photoPath?: string;
+}
+
+const json = (body: unknown, status = 200) =>
+  Response.json(body, { status, headers: corsHeaders });
+
+function getPhotoPath(photoUrl: string) {
+  const marker = `/${PHOTO_BUCKET}/`;
+  const index = photoUrl.indexOf(marker);
+  return index === -1 ? null : decodeURIComponent(photoUrl.slice(index + marker.length));
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  let body: RegistrationEditRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "invalid_request" }, 400);
+  }
+
+  if ((body.action !== "get" && body.action !== "apply") || !body.token) {
+    return json({ error: "invalid_request" }, 400);
+  }
+
+  const payload = await verifyEditToken(body.token);
+  if (!payload) {
+    return json({ error: "invalid_link" }, 401);
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const { data: registration, error } = await supabase
+    .from("registrations")
+    .select(EDITABLE_COLUMNS)
+    .eq("id", payload.r)
+    .maybeSingle();
+  if (error) {
+    console.error("Error loading registration:", error);
+    return json({ error: "server_error" }, 500);
+  }
+  // Gone, or changed since the link was sent (the link was already used)
+  if (!registration || new Date(registration.updated_at).getTime() !== new Date(payload.u).getTime()) {
+    return json({ error: "invalid_link" }, 401);
+  }
+
+  if (body.action === "get") {
+    // A department from a roster match or an invite code can't be changed here
+    const { data: lock, error: lockError } = await supabase
+      .from("registrations")
+      .select("roster_status, invite_codes(department)")
+      .eq("id", registration.id)
+      .single();
+    if (lockError) {
+      console.error("Error loading registration department lock:", lockError);
+      return json({ error: "server_error" }, 500);
+    }
+    const inviteCode = lock.invite_codes as { department: string | null } | null;
+    return json({
+      registration,
+      expiresAt: new Date(payload.e * 1000).toISOString(),
+      departmentLocked: lock.roster_status === "matched" || !!inviteCode?.department,
+    });
+  }
+
+  const { data: fields, error: fieldsError } = await supabase
+    .from("form_fields")
+    .select("field_key, label, field_type, options, required, min_value, max_value, pattern")
+    .eq("event_id", registration.event_id);
+  if (fieldsError) {
+    console.error("Error loading form fields:", fieldsError);
+    return json({ error: "server_error" }, 500);
+  }
+
+  // A department set from the roster may be one the form doesn't offer; it
+  // can be kept, as it is locked on the form
+  const department = (body.values as { department?: unknown } | null)?.department;
+  if (department !== registration.department && !isKnownDepartment(body.values)) {
+    return json({ error: "invalid_department" }, 400);
+  }
+
+  const parsed = createRegistrationSchema(fields as FormFieldRow[]).safeParse(body.values);
+  if (!parsed.success) {
+    return json(
+      {
+        error: "invalid_values",
+        issues: parsed.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message })),
+      },
+      422
+    );
+  }
+
+  const values: Record<string, unknown> = toRegistrationColumns(
+    fields as FormFieldRow[],
+    parsed.data,
+    registration.custom_fields ?? {}
+  );
+
+  if (body.photoPath) {
+    if (!PHOTO_PATH_PATTERN.test(body.photoPath)) {
+      return json({ error: "invalid_request" }, 400);
+    }
+    values.photo_url = supabase.storage.from(PHOTO_BUCKET).getPublicUrl(body.photoPath).data.publicUrl;
+  }
+
+  const { error: applyError } = await supabase.rpc("apply_registration_edit", {
+    _registration_id: registration.id,
+    _expected_updated_at: registration.updated_at,
+    _values: values,
+    _actor_email: registration.email,
+  });
+  if (applyError) {
+    if (applyError.message === "edit_link_expired") {
+      return json({ error: "invalid_link" }, 401);
+    }
+    if (applyError.code === "23505") {
+      return json({ error: applyError.message }, 409);
+    }
+    if (applyError.message === "not_on_roster") {
+      return json({ error: "not_on_roster" }, 422);
+    }
+    console.error("Error applying registration edit:", applyError);
+    return json({ error: "server_error" }, 500);
+  }
+
+  // The replaced photo is no longer referenced by anything
+  const oldPhotoPath = body.photoPath ? getPhotoPath(registration.photo_url) : null;
+  if (oldPhotoPath && oldPhotoPath !== body.photoPath) {
+    const { error: removeError } = await supabase.storage.from(PHOTO_BUCKET).remove([oldPhotoPath]);
+    if (removeError) console.error("Error removing replaced photo:", removeError);
+  }
+
+  return json({ saved: true });
+});
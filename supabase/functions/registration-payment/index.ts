@@ -0,0 +1,176 @@
+// Collects the fee of a paid event. "start" opens a payment with the gateway
+// for everything the registration still owes, and "confirm" asks the gateway
+// whether it went through before marking it paid. Only the latest started
+// payment can be confirmed. Right after registering the browser pays by
+// registration id, for the other people of a group registration too; like
+// get_registration_confirmation, this trusts whoever knows the id, which only
+// the submitting browser does. Later, from the status page, it pays by
+// confirmation code and email or mobile number, for that one registration.
+// People on the waitlist, or turned away, are never charged; they pay from
+// the status page once they get a seat.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  createPaymentProvider,
+  getPaymentProviderName,
+  type PaymentRequest,
+} from "../_shared/payments.ts";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface RegistrationPaymentRequest {
+  action?: "start" | "confirm";
+  registrationId?: string;
+  // Instead of registrationId, from the status page
+  confirmationCode?: string;
+  contact?: string;
+  // From "start"; required to confirm
+  paymentId?: string;
+}
+
+interface OwedRow {
+  id: string;
+  event_id: string;
+  payment_amount: number;
+  payment_currency: string;
+}
+
+const json = (body: unknown, status = 200) =>
+  Response.json(body, { status, headers: corsHeaders });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  let body: RegistrationPaymentRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "invalid_request" }, 400);
+  }
+
+  const byCode = typeof body.confirmationCode === "string" && typeof body.contact === "string";
+  if (
+    (body.action !== "start" && body.action !== "confirm") ||
+    (!byCode && !(body.registrationId && UUID_PATTERN.test(body.registrationId))) ||
+    (body.action === "confirm" && typeof body.paymentId !== "string")
+  ) {
+    return json({ error: "invalid_request" }, 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  let registrationId = body.registrationId!;
+  if (byCode) {
+    const { data: found, error: findError } = await supabase.rpc("find_registration_by_code", {
+      _code: body.confirmationCode!,
+      _contact: body.contact!,
+    });
+    if (findError) {
+      console.error("Error finding registration:", findError);
+      return json({ error: "server_error" }, 500);
+    }
+    if (!found) {
+      return json({ error: "nothing_to_pay" }, 404);
+    }
+    registrationId = found;
+  }
+
+  // The registration and, right after a group registration, everyone
+  // registered with it. Only rows holding a seat, as in holds_department_seat.
+  let query = supabase
+    .from("registrations")
+    .select("id, event_id, payment_amount, payment_currency")
+    .eq("payment_status", "pending_payment")
+    .not("status", "in", "(waitlisted,rejected,cancelled)");
+  query = byCode
+    ? query.eq("id", registrationId)
+    : query.or(`id.eq.${registrationId},group_id.eq.${registrationId}`);
+  if (body.action === "confirm") {
+    query = query.eq("payment_reference", body.paymentId!);
+  }
+  const { data, error } = await query;
+  if (error) {
+    console.error("Error loading registration payment:", error);
+    return json({ error: "server_error" }, 500);
+  }
+  const rows = (data ?? []) as OwedRow[];
+  if (rows.length === 0) {
+    return json({ error: "nothing_to_pay" }, 404);
+  }
+
+  const { data: event } = await supabase
+    .from("events")
+    .select("name")
+    .eq("id", rows[0].event_id)
+    .maybeSingle();
+  const request: PaymentRequest = {
+    amount: rows.reduce((sum, row) => sum + row.payment_amount, 0),
+    currency: rows[0].payment_currency,
+    registrationId,
+    description: event?.name ?? "Registration fee",
+  };
+  const ids = rows.map((row) => row.id);
+
+  let provider;
+  try {
+    provider = createPaymentProvider();
+  } catch (providerError) {
+    console.error(providerError);
+    return json({ error: "payments_unavailable" }, 503);
+  }
+  const providerName = getPaymentProviderName()!;
+
+  if (body.action === "start") {
+    let started;
+    try {
+      started = await provider.start(request);
+    } catch (startError) {
+      console.error("Error starting payment:", startError);
+      return json({ error: "payment_failed" }, 502);
+    }
+
+    const { error: updateError } = await supabase
+      .from("registrations")
+      .update({ payment_provider: providerName, payment_reference: started.paymentId })
+      .in("id", ids);
+    if (updateError) {
+      console.error("Error saving payment:", updateError);
+      return json({ error: "server_error" }, 500);
+    }
+
+    return json({
+      provider: providerName,
+      paymentId: started.paymentId,
+      amount: request.amount,
+      currency: request.currency,
+      checkout: started.checkout,
+    });
+  }
+
+  let paid;
+  try {
+    paid = await provider.isPaid(body.paymentId!, request);
+  } catch (checkError) {
+    console.error("Error checking payment:", checkError);
+    return json({ error: "payment_failed" }, 502);
+  }
+  if (!paid) {
+    return json({ error: "payment_not_completed" }, 402);
+  }
+
+  const { error: updateError } = await supabase
+    .from("registrations")
+    .update({ payment_status: "paid", paid_at: new Date().toISOString() })
+    .in("id", ids);
+  if (updateError) {
+    console.error("Error marking registration paid:", updateError);
+    return json({ error: "server_error" }, 500);
+  }
+
+  return json({ paid: ids.length });
+});
@@ -0,0 +1,106 @@
+// Signed upload URLs for registration photos and documents. The buckets no
+// longer take anonymous uploads, so every file goes through here and counts
+// against the per-IP upload limit. The path is chosen here, not by the caller.
+// Documents are only taken for a registration that is about to be submitted
+// or can still take documents.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { RATE_LIMITS, getAttemptContext, isIpRateLimited, logAttempt } from "../_shared/abuse.ts";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const BUCKETS = {
+  photo: "registration-photos",
+  document: "registration-documents",
+} as const;
+
+// Mirrors the buckets' allowed_mime_types
+const EXTENSIONS: Record<keyof typeof BUCKETS, Record<string, string>> = {
+  photo: { "image/jpeg": "jpg", "image/jpg": "jpg", "image/png": "png", "image/webp": "webp" },
+  document: { "application/pdf": "pdf", "image/jpeg": "jpg", "image/png": "png", "image/webp": "webp" },
+};
+
+interface UploadUrlRequest {
+  eventId?: string;
+  kind?: keyof typeof BUCKETS;
+  contentType?: string;
+  // Photos: "registrations", or "drafts" for saved progress
+  folder?: "registrations" | "drafts";
+  // Documents are filed under the registration they belong to
+  registrationId?: string;
+}
+
+const json = (body: unknown, status = 200) =>
+  Response.json(body, { status, headers: corsHeaders });
+
+function getFolder(body: UploadUrlRequest) {
+  if (body.kind === "photo") {
+    return body.folder === "drafts" ? "drafts" : "registrations";
+  }
+  return body.registrationId && UUID_PATTERN.test(body.registrationId)
+    ? `registrations/${body.registrationId}`
+    : null;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  let body: UploadUrlRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "invalid_request" }, 400);
+  }
+
+  if (body.kind !== "photo" && body.kind !== "document") {
+    return json({ error: "invalid_request" }, 400);
+  }
+  const extension = body.contentType ? EXTENSIONS[body.kind][body.contentType] : undefined;
+  const folder = getFolder(body);
+  if (!extension || !folder) {
+    return json({ error: "invalid_request" }, 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+  const context = getAttemptContext(req);
+  const eventId = body.eventId && UUID_PATTERN.test(body.eventId) ? body.eventId : null;
+
+  try {
+    if (await isIpRateLimited(supabase, "upload", context.ipAddress, RATE_LIMITS.uploadPerIp)) {
+      await logAttempt(supabase, context, { action: "upload", eventId, reason: "ip_rate_limited" });
+      return json({ error: "rate_limited" }, 429);
+    }
+  } catch (error) {
+    console.error("Error checking upload limit:", error);
+    return json({ error: "server_error" }, 500);
+  }
+
+  if (body.kind === "document") {
+    const { data: canUpload, error: uploadCheckError } = await supabase.rpc(
+      "can_upload_registration_document",
+      { _registration_id: body.registrationId! }
+    );
+    if (uploadCheckError) {
+      console.error("Error checking registration documents:", uploadCheckError);
+      return json({ error: "server_error" }, 500);
+    }
+    if (!canUpload) {
+      return json({ error: "attachments_closed" }, 403);
+    }
+  }
+
+  const path = `${folder}/${Date.now()}-${crypto.randomUUID()}.${extension}`;
+  const { data, error } = await supabase.storage.from(BUCKETS[body.kind]).createSignedUploadUrl(path);
+  if (error || !data) {
+    console.error("Error creating upload URL:", error);
+    return json({ error: "server_error" }, 500);
+  }
+
+  await logAttempt(supabase, context, { action: "upload", eventId });
+  return json({ path: data.path, token: data.token });
+});
@@ -0,0 +1,88 @@
+// Emails a registrant a signed link to correct their registration. Asks for
+// the confirmation number and the registered email, and answers the same way
+// whether or not they match so it can't be used to probe for registrations.
+// The link always points at SITE_URL, never at a host taken from the request,
+// which anyone can forge to send a registrant's token to their own site.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { getTemplates } from "../_shared/i18n.ts";
+import { createMailSender } from "../_shared/mail.ts";
+import { EDIT_LINK_TTL_SECONDS, signEditToken } from "../_shared/edit-token.ts";
+
+const CODE_PATTERN = /^([0-9A-Za-z]{4})-?([0-9A-Za-z]{4})$/;
+
+interface RequestEditLinkRequest {
+  code?: string;
+  email?: string;
+}
+
+const json = (body: unknown, status = 200) =>
+  Response.json(body, { status, headers: corsHeaders });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  let body: RequestEditLinkRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "invalid_request" }, 400);
+  }
+
+  const match = body.code?.trim().match(CODE_PATTERN);
+  const email = body.email?.trim();
+  if (!match || !email) {
+    return json({ error: "invalid_request" }, 400);
+  }
+  const code = `${match[1]}-${match[2]}`.toUpperCase();
+
+  const siteUrl = Deno.env.get("SITE_URL");
+  if (!siteUrl) {
+    console.error("SITE_URL is not set");
+    return json({ error: "server_error" }, 500);
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const { data: registration, error } = await supabase
+    .from("registrations")
+    .select("id, email, full_name, language, updated_at, events(name)")
+    .eq("confirmation_code", code)
+    .ilike("email", email.replace(/[\\%_]/g, "\\$&"))
+    .maybeSingle();
+  if (error) {
+    console.error("Error looking up registration:", error);
+    return json({ error: "server_error" }, 500);
+  }
+
+  if (registration) {
+    const token = await signEditToken(registration.id, registration.updated_at);
+    const link = `${siteUrl.replace(/\/$/, "")}/edit?token=${encodeURIComponent(token)}`;
+    // Written in the language the registration was made in
+    const templates = getTemplates(registration.language);
+    const eventName = (registration.events as { name: string } | null)?.name ?? templates.defaultEventName;
+
+    try {
+      await createMailSender().send({
+        to: registration.email,
+        subject: templates.editLinkSubject(eventName),
+        text: templates.editLinkText({
+          name: registration.full_name,
+          code,
+          link,
+          hours: EDIT_LINK_TTL_SECONDS / 3600,
+        }),
+      });
+    } catch (error) {
+      console.error("Error sending edit link:", error);
+      return json({ error: "delivery_failed" }, 502);
+    }
+  }
+
+  return json({ sent: true });
+});
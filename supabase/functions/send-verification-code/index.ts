@@ -0,0 +1,118 @@
+// Issues a one-time code for the public registration form and delivers it.
+// Codes are generated and rate limited by create_verification_code; this
+// function only does the delivery, which needs secrets the browser can't see.
+// Those limits are per address or number, so every request also counts
+// against a per-IP limit, keeping one caller from cycling through many of
+// them to run up SMS costs.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { RATE_LIMITS, getAttemptContext, isIpRateLimited, logAttempt } from "../_shared/abuse.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { getTemplates } from "../_shared/i18n.ts";
+import { createMailSender } from "../_shared/mail.ts";
+import { createSmsProvider } from "../_shared/sms.ts";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MOBILE_PATTERN = /^\d{8,15}$/;
+
+type Channel = "email" | "sms";
+
+interface SendCodeRequest {
+  eventId?: string;
+  channel?: string;
+  target?: string;
+  // Language the form is shown in; the code goes out in it
+  language?: string;
+}
+
+function normalizeTarget(channel: Channel, target: string) {
+  return channel === "email" ? target.trim() : target.replace(/\D/g, "");
+}
+
+const json = (body: unknown, status = 200) =>
+  Response.json(body, { status, headers: corsHeaders });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  let body: SendCodeRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "invalid_request" }, 400);
+  }
+
+  const { eventId, channel } = body;
+  if (!eventId || (channel !== "email" && channel !== "sms") || !body.target) {
+    return json({ error: "invalid_request" }, 400);
+  }
+  const target = normalizeTarget(channel, body.target);
+  if (!(channel === "email" ? EMAIL_PATTERN : MOBILE_PATTERN).test(target)) {
+    return json({ error: "invalid_request" }, 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const { data: event } = await supabase
+    .from("events")
+    .select("name")
+    .eq("id", eventId)
+    .eq("is_active", true)
+    .maybeSingle();
+  if (!event) {
+    return json({ error: "invalid_request" }, 400);
+  }
+
+  const context = getAttemptContext(req);
+  const attempt = { action: "verify" as const, eventId, email: channel === "email" ? target : null };
+  try {
+    if (await isIpRateLimited(supabase, "verify", context.ipAddress, RATE_LIMITS.verifyPerIp)) {
+      await logAttempt(supabase, context, { ...attempt, reason: "ip_rate_limited" });
+      return json({ error: "rate_limited" }, 429);
+    }
+  } catch (error) {
+    console.error("Error checking verification limit:", error);
+    return json({ error: "server_error" }, 500);
+  }
+  await logAttempt(supabase, context, attempt);
+
+  const { data, error } = await supabase.rpc("create_verification_code", {
+    _event_id: eventId,
+    _channel: channel,
+    _target: target,
+  });
+  if (error) {
+    console.error("Error creating verification code:", error);
+    return json({ error: "server_error" }, 500);
+  }
+
+  const { code, retry_after } = data[0] as { code: string | null; retry_after: number };
+  if (!code) {
+    return json({ error: "cooldown", retryAfter: retry_after }, 429);
+  }
+
+  const templates = getTemplates(body.language);
+  try {
+    if (channel === "email") {
+      await createMailSender().send({
+        to: target,
+        subject: templates.verificationEmailSubject(event.name),
+        text: templates.verificationEmailText(code),
+      });
+    } else {
+      await createSmsProvider().send({
+        to: target,
+        text: templates.verificationSms(code, event.name),
+      });
+    }
+  } catch (error) {
+    console.error(`Error sending verification ${channel}:`, error);
+    return json({ error: "delivery_failed" }, 502);
+  }
+
+  return json({ sent: true });
+});
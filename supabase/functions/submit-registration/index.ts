@@ -0,0 +1,326 @@
+// The only way in for new registrations. Before anything is written it turns
+// away bots: a filled-in honeypot field, a missing or wrong proof-of-work
+// solution, a form sent back faster than a person could fill it, a reused
+// challenge, and too many submissions from one IP address or for one email.
+// Every rejection is logged to registration_attempts for admins to review.
+// Database rejections (duplicate, closed, consent, verification) come back as
+// { error: <message>, code: <SQLSTATE> }, the shape the form already handles.
+// A group registration sends the other people as members; they are saved
+// in the same insert as the submitter, so all of them go in or none do.
+// An invite code is looked up here and redeemed by the insert trigger, which
+// also turns away invite-only registrations without one. Another trigger
+// matches the submitter's email or employee ID against the event's roster.
+// Registrations for paid events are saved owing the fee, which the form then
+// collects through registration-payment; without a usable payment provider
+// they are turned away instead.
+// Emails and mobile numbers already registered are checked here, behind the
+// bot screening, and reported for everyone in the submission: the block
+// policy turns them away, and the warn policy asks the registrant to confirm
+// (by sending again with allowDuplicate) before the insert trigger flags them.
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { toLanguage } from "../_shared/i18n.ts";
+import { verifyChallenge } from "../_shared/proof-of-work.ts";
+import { canCollectPayments } from "../_shared/payments.ts";
+import {
+  MIN_FILL_SECONDS,
+  RATE_LIMITS,
+  claimChallenge,
+  getAttemptContext,
+  isEmailRateLimited,
+  isIpRateLimited,
+  logAttempt,
+  type RejectionReason,
+} from "../_shared/abuse.ts";
+import {
+  createRegistrationSchema,
+  isKnownDepartment,
+  toRegistrationColumns,
+  type FormFieldRow,
+} from "../_shared/registration-schema.ts";
+
+const PHOTO_BUCKET = "registration-photos";
+// Fresh uploads, or the photo a saved draft already uploaded
+const PHOTO_PATH_PATTERN = /^(registrations|drafts)\/[^/]+$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_DEVICE_ID_LENGTH = 64;
+const MAX_EMPLOYEE_ID_LENGTH = 50;
+// People registered along with the submitter; mirrors MAX_GROUP_MEMBERS
+const MAX_GROUP_MEMBERS = 9;
+
+interface GroupMemberRequest {
+  id?: unknown;
+  // The submitter's values with this person's details filled in
+  values?: unknown;
+  photoPath?: unknown;
+}
+
+interface SubmitRegistrationRequest {
+  id?: string;
+  eventId?: string;
+  values?: { email?: unknown } & Record<string, unknown>;
+  photoPath?: string;
+  consentDocumentIds?: unknown;
+  challenge?: string;
+  nonce?: string;
+  // Honeypot: hidden from people, so only bots fill it in
+  website?: string;
+  // Language the form was filled in; later emails to the registrant use it
+  language?: string;
+  // Set by the kiosk page, along with the name the device was set up with
+  source?: string;
+  deviceId?: unknown;
+  members?: GroupMemberRequest[];
+  inviteCode?: unknown;
+  // Matched against the roster; the others in a group are matched by email
+  employeeId?: unknown;
+  // Confirmed by the registrant after a possible_duplicate warning
+  allowDuplicate?: boolean;
+}
+
+// Form field names, as the form shows the errors
+type DuplicateField = "email" | "mobileNumber";
+
+const REJECTION_RESPONSES: Record<RejectionReason, { error: string; status: number }> = {
+  honeypot: { error: "rejected", status: 400 },
+  too_fast: { error: "too_fast", status: 429 },
+  challenge_invalid: { error: "challenge_invalid", status: 403 },
+  challenge_reused: { error: "challenge_invalid", status: 403 },
+  ip_rate_limited: { error: "rate_limited", status: 429 },
+  email_rate_limited: { error: "rate_limited", status: 429 },
+};
+
+const json = (body: unknown, status = 200) =>
+  Response.json(body, { status, headers: corsHeaders });
+
+function isUuidList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string" && UUID_PATTERN.test(item));
+}
+
+// Same as normalize_invite_code in the database
+function normalizeInviteCode(code: string) {
+  const compact = code.replace(/[^0-9A-Za-z]/g, "").toUpperCase();
+  return compact.length === 8 ? `${compact.slice(0, 4)}-${compact.slice(4)}` : compact;
+}
+
+// Fields already registered for the event, for the submitter and for each of
+// the others by their index in members
+async function findDuplicates(
+  supabase: SupabaseClient,
+  eventId: string,
+  rows: { email: string; mobile_number: string }[]
+) {
+  const results = await Promise.all(
+    rows.map((row) =>
+      supabase.rpc("check_registration_duplicate", {
+        _event_id: eventId,
+        _email: row.email,
+        _mobile_number: row.mobile_number,
+      })
+    )
+  );
+  const matches = results.map(({ data, error }) => {
+    if (error) throw error;
+    const result = data?.[0];
+    const fields: DuplicateField[] = [];
+    if (result?.email_taken) fields.push("email");
+    if (result?.mobile_taken) fields.push("mobileNumber");
+    return fields;
+  });
+  return {
+    fields: matches[0],
+    members: matches.slice(1).flatMap((fields, index) => fields.map((field) => ({ index, field }))),
+  };
+}
+
+function toSourceColumns({ source, deviceId }: SubmitRegistrationRequest) {
+  if (source !== "kiosk") return { source: "web" };
+  const device = typeof deviceId === "string" ? deviceId.trim().slice(0, MAX_DEVICE_ID_LENGTH) : "";
+  return { source: "kiosk", device_id: device || null };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  let body: SubmitRegistrationRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "invalid_request" }, 400);
+  }
+
+  if (!body.id || !UUID_PATTERN.test(body.id) || !body.eventId || !UUID_PATTERN.test(body.eventId)) {
+    return json({ error: "invalid_request" }, 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+  const context = getAttemptContext(req);
+  const eventId = body.eventId;
+  const email = typeof body.values?.email === "string" ? body.values.email : null;
+
+  const reject = async (reason: RejectionReason, challengeId?: string) => {
+    await logAttempt(supabase, context, { action: "submit", eventId, email, challengeId, reason });
+    const { error, status } = REJECTION_RESPONSES[reason];
+    return json({ error }, status);
+  };
+
+  try {
+    if (await isIpRateLimited(supabase, "submit", context.ipAddress, RATE_LIMITS.submitPerIp)) {
+      return await reject("ip_rate_limited");
+    }
+    if (body.website) {
+      return await reject("honeypot");
+    }
+
+    const challenge = await verifyChallenge(body.challenge ?? "", body.nonce ?? "");
+    if (!challenge) {
+      return await reject("challenge_invalid");
+    }
+    if (Date.now() - challenge.i < MIN_FILL_SECONDS * 1000) {
+      return await reject("too_fast", challenge.n);
+    }
+    if (email && (await isEmailRateLimited(supabase, email, RATE_LIMITS.submitPerEmail))) {
+      return await reject("email_rate_limited", challenge.n);
+    }
+    if (!(await claimChallenge(supabase, context, { eventId, email, challengeId: challenge.n }))) {
+      return await reject("challenge_reused", challenge.n);
+    }
+  } catch (error) {
+    console.error("Error checking submission:", error);
+    return json({ error: "server_error" }, 500);
+  }
+
+  const { data: fields, error: fieldsError } = await supabase
+    .from("form_fields")
+    .select("field_key, label, field_type, options, required, min_value, max_value, pattern")
+    .eq("event_id", eventId);
+  if (fieldsError) {
+    console.error("Error loading form fields:", fieldsError);
+    return json({ error: "server_error" }, 500);
+  }
+
+  const { data: event, error: eventError } = await supabase
+    .from("events")
+    .select("fee_amount, duplicate_policy")
+    .eq("id", eventId)
+    .maybeSingle();
+  if (eventError) {
+    console.error("Error loading event:", eventError);
+    return json({ error: "server_error" }, 500);
+  }
+  if (event?.fee_amount && !canCollectPayments()) {
+    return json({ error: "payments_unavailable" }, 503);
+  }
+
+  const members = body.members ?? [];
+  const consentDocumentIds = body.consentDocumentIds ?? [];
+  if (
+    !Array.isArray(members) ||
+    members.length > MAX_GROUP_MEMBERS ||
+    !members.every((member) => typeof member === "object" && member !== null) ||
+    !isUuidList(members.map((member) => member.id)) ||
+    new Set([body.id, ...members.map((member) => member.id)]).size !== members.length + 1 ||
+    !isUuidList(consentDocumentIds)
+  ) {
+    return json({ error: "invalid_request" }, 400);
+  }
+
+  let inviteCodeId: string | null = null;
+  if (typeof body.inviteCode === "string" && body.inviteCode.trim()) {
+    const { data: invite, error: inviteError } = await supabase
+      .from("invite_codes")
+      .select("id")
+      .eq("event_id", eventId)
+      .eq("code", normalizeInviteCode(body.inviteCode))
+      .maybeSingle();
+    if (inviteError) {
+      console.error("Error looking up invite code:", inviteError);
+      return json({ error: "server_error" }, 500);
+    }
+    if (!invite) {
+      return json({ error: "invite_invalid", code: "P0001" }, 409);
+    }
+    inviteCodeId = invite.id;
+  }
+
+  const employeeId =
+    typeof body.employeeId === "string" ? body.employeeId.trim().slice(0, MAX_EMPLOYEE_ID_LENGTH) || null : null;
+
+  // The submitter first: the database checks the others against their row
+  const people = [
+    { id: body.id, values: body.values, photoPath: body.photoPath, issuePrefix: "" },
+    ...members.map((member, index) => ({ ...member, issuePrefix: `members.${index}.` })),
+  ];
+  const schema = createRegistrationSchema(fields as FormFieldRow[]);
+  const groupId = members.length > 0 ? body.id : null;
+  const rows = [];
+  for (const person of people) {
+    if (!isKnownDepartment(person.values)) {
+      return json({ error: "invalid_department" }, 400);
+    }
+    const parsed = schema.safeParse(person.values);
+    if (!parsed.success) {
+      return json(
+        {
+          error: "invalid_values",
+          issues: parsed.error.issues.map((issue) => ({
+            path: person.issuePrefix + issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        422
+      );
+    }
+    if (typeof person.photoPath !== "string" || !PHOTO_PATH_PATTERN.test(person.photoPath)) {
+      return json({ error: "invalid_request" }, 400);
+    }
+    rows.push({
+      id: person.id as string,
+      event_id: eventId,
+      ...toRegistrationColumns(fields as FormFieldRow[], parsed.data, {}),
+      photo_url: supabase.storage.from(PHOTO_BUCKET).getPublicUrl(person.photoPath).data.publicUrl,
+      consent_document_ids: consentDocumentIds,
+      language: toLanguage(body.language),
+      ...toSourceColumns(body),
+      group_id: groupId,
+      invite_code_id: inviteCodeId,
+      employee_id: person.id === body.id ? employeeId : null,
+    });
+  }
+
+  if (event?.duplicate_policy === "block" || (event?.duplicate_policy === "warn" && body.allowDuplicate !== true)) {
+    let duplicates;
+    try {
+      duplicates = await findDuplicates(supabase, eventId, rows);
+    } catch (duplicateError) {
+      console.error("Error checking duplicates:", duplicateError);
+      return json({ error: "server_error" }, 500);
+    }
+    const first = duplicates.fields[0] ?? duplicates.members[0]?.field;
+    if (first && event.duplicate_policy === "warn") {
+      return json({ error: "possible_duplicate", ...duplicates }, 409);
+    }
+    if (first) {
+      // The same error the insert trigger raises, with every match
+      const message = first === "email" ? "duplicate_email" : "duplicate_mobile_number";
+      return json({ error: message, code: "23505", ...duplicates }, 409);
+    }
+  }
+
+  const { error } = await supabase.from("registrations").insert(rows);
+  if (error) {
+    // Raised by the registration triggers; the form knows these by message
+    if (error.code === "P0001" || error.code === "23505") {
+      return json({ error: error.message, code: error.code }, 409);
+    }
+    console.error("Error saving registration:", error);
+    return json({ error: "server_error" }, 500);
+  }
+
+  return json({ id: body.id });
+});
@@ -0,0 +1,61 @@
+-- Create events table (registration campaigns: onboarding batches, workshops, hackathons...)
+CREATE TABLE public.events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name TEXT NOT NULL,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on events
+ALTER TABLE public.events ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read active events (public form routes resolve them by slug)
+CREATE POLICY "Anyone can view active events"
+ON public.events
+FOR SELECT
+USING (is_active OR public.has_role(auth.uid(), 'admin'));
+
+-- Only admins can manage events
+CREATE POLICY "Admins can create events"
+ON public.events
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update events"
+ON public.events
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete events"
+ON public.events
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Create trigger for events
+CREATE TRIGGER update_events_updated_at
+BEFORE UPDATE ON public.events
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Default event backing the form on "/" and all existing registrations
+INSERT INTO public.events (slug, name, description)
+VALUES ('general', 'General Registration', 'Default registration form');
+
+-- Link registrations to events
+ALTER TABLE public.registrations
+ADD COLUMN event_id UUID REFERENCES public.events(id) ON DELETE RESTRICT;
+
+UPDATE public.registrations
+SET event_id = (SELECT id FROM public.events WHERE slug = 'general');
+
+ALTER TABLE public.registrations
+ALTER COLUMN event_id SET NOT NULL;
+
+CREATE INDEX registrations_event_id_created_at_idx
+ON public.registrations (event_id, created_at DESC);
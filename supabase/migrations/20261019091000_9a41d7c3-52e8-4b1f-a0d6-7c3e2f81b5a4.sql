@@ -0,0 +1,73 @@
+-- Create enum for custom form field types
+CREATE TYPE public.form_field_type AS ENUM (
+  'text',
+  'textarea',
+  'number',
+  'email',
+  'select',
+  'radio',
+  'checkbox',
+  'date'
+);
+
+-- Create form_fields table (per-event custom field definitions)
+CREATE TABLE public.form_fields (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  field_key TEXT NOT NULL CHECK (field_key ~ '^[a-z][a-z0-9_]{0,49}$'),
+  label TEXT NOT NULL,
+  field_type form_field_type NOT NULL DEFAULT 'text',
+  options JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(options) = 'array'),
+  placeholder TEXT,
+  required BOOLEAN NOT NULL DEFAULT false,
+  min_value NUMERIC,
+  max_value NUMERIC,
+  pattern TEXT,
+  show_in_table BOOLEAN NOT NULL DEFAULT false,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (event_id, field_key)
+);
+
+CREATE INDEX form_fields_event_id_position_idx
+ON public.form_fields (event_id, position);
+
+-- Enable RLS on form_fields
+ALTER TABLE public.form_fields ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read field definitions (the public form renders from them)
+CREATE POLICY "Anyone can view form fields"
+ON public.form_fields
+FOR SELECT
+USING (true);
+
+-- Only admins can manage field definitions
+CREATE POLICY "Admins can create form fields"
+ON public.form_fields
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update form fields"
+ON public.form_fields
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete form fields"
+ON public.form_fields
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Create trigger for form_fields
+CREATE TRIGGER update_form_fields_updated_at
+BEFORE UPDATE ON public.form_fields
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Answers to custom fields, keyed by field_key
+ALTER TABLE public.registrations
+ADD COLUMN custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb
+CHECK (jsonb_typeof(custom_fields) = 'object');
@@ -0,0 +1,3 @@
+-- Optional multi-step wizard layout for an event's public form
+ALTER TABLE public.events
+ADD COLUMN wizard_mode BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,118 @@
+-- Create registration_drafts table for "save and continue later"
+CREATE TABLE public.registration_drafts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  form_data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  photo_path TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '7 days',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX registration_drafts_expires_at_idx
+ON public.registration_drafts (expires_at);
+
+-- Enable RLS on registration_drafts; no policies, drafts are only reachable
+-- through the token-based functions below
+ALTER TABLE public.registration_drafts ENABLE ROW LEVEL SECURITY;
+
+-- Create trigger for registration_drafts
+CREATE TRIGGER update_registration_drafts_updated_at
+BEFORE UPDATE ON public.registration_drafts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create or update a draft; returns the resume token
+CREATE OR REPLACE FUNCTION public.save_registration_draft(
+  _event_id UUID,
+  _form_data JSONB,
+  _photo_path TEXT DEFAULT NULL,
+  _token TEXT DEFAULT NULL
+)
+RETURNS TABLE (token TEXT, expires_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _photo_path IS NOT NULL AND _photo_path !~ '^drafts/[^/]+$' THEN
+    RAISE EXCEPTION 'Invalid draft photo path';
+  END IF;
+
+  IF _token IS NOT NULL THEN
+    RETURN QUERY
+    UPDATE public.registration_drafts d
+    SET form_data = _form_data,
+        photo_path = COALESCE(_photo_path, d.photo_path),
+        expires_at = now() + interval '7 days'
+    WHERE d.token = _token
+      AND d.event_id = _event_id
+      AND d.expires_at > now()
+    RETURNING d.token, d.expires_at;
+
+    IF FOUND THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.registration_drafts (event_id, form_data, photo_path)
+  VALUES (_event_id, _form_data, _photo_path)
+  RETURNING registration_drafts.token, registration_drafts.expires_at;
+END;
+$$;
+
+-- Look up an unexpired draft by its resume token
+CREATE OR REPLACE FUNCTION public.get_registration_draft(_token TEXT)
+RETURNS TABLE (
+  event_id UUID,
+  form_data JSONB,
+  photo_path TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.event_id, d.form_data, d.photo_path, d.expires_at
+  FROM public.registration_drafts d
+  WHERE d.token = _token
+    AND d.expires_at > now()
+$$;
+
+-- Discard a draft once its registration has been submitted
+CREATE OR REPLACE FUNCTION public.delete_registration_draft(_token TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.registration_drafts WHERE token = _token
+$$;
+
+-- Delete expired drafts and return the draft photos no registration uses,
+-- so the caller can remove them from storage
+CREATE OR REPLACE FUNCTION public.purge_expired_registration_drafts()
+RETURNS TABLE (photo_path TEXT)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH expired AS (
+    DELETE FROM public.registration_drafts d
+    WHERE d.expires_at <= now()
+    RETURNING d.photo_path
+  )
+  SELECT e.photo_path
+  FROM expired e
+  WHERE e.photo_path IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.registrations r
+      WHERE r.photo_url LIKE '%/registration-photos/' || e.photo_path
+    )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_registration_drafts() FROM PUBLIC, anon, authenticated;
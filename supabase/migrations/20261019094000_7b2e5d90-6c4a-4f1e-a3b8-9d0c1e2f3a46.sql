@@ -0,0 +1,100 @@
+-- How an event treats a second registration with the same email or mobile number
+CREATE TYPE public.duplicate_policy AS ENUM ('block', 'warn', 'allow');
+
+ALTER TABLE public.events
+ADD COLUMN duplicate_policy public.duplicate_policy NOT NULL DEFAULT 'block';
+
+-- Registrations accepted under the 'warn' policy despite a match
+ALTER TABLE public.registrations
+ADD COLUMN is_possible_duplicate BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX registrations_event_email_idx
+ON public.registrations (event_id, lower(email));
+
+CREATE INDEX registrations_event_mobile_idx
+ON public.registrations (event_id, mobile_number);
+
+-- Whether an email or mobile number is already registered for an event.
+-- Only reports matches for events that block or warn about duplicates.
+CREATE OR REPLACE FUNCTION public.check_registration_duplicate(
+  _event_id UUID,
+  _email TEXT,
+  _mobile_number TEXT
+)
+RETURNS TABLE (
+  policy public.duplicate_policy,
+  email_taken BOOLEAN,
+  mobile_taken BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.duplicate_policy,
+    e.duplicate_policy <> 'allow' AND EXISTS (
+      SELECT 1 FROM public.registrations r
+      WHERE r.event_id = e.id AND lower(r.email) = lower(trim(_email))
+    ),
+    e.duplicate_policy <> 'allow' AND EXISTS (
+      SELECT 1 FROM public.registrations r
+      WHERE r.event_id = e.id AND r.mobile_number = trim(_mobile_number)
+    )
+  FROM public.events e
+  WHERE e.id = _event_id
+$$;
+
+-- Enforce the event's duplicate policy on every insert, whatever the client does
+CREATE OR REPLACE FUNCTION public.enforce_registration_duplicate_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.duplicate_policy;
+  _email_taken BOOLEAN;
+  _mobile_taken BOOLEAN;
+BEGIN
+  NEW.email := trim(NEW.email);
+  NEW.mobile_number := trim(NEW.mobile_number);
+  NEW.is_possible_duplicate := false;
+
+  SELECT duplicate_policy INTO _policy
+  FROM public.events
+  WHERE id = NEW.event_id;
+
+  IF _policy IS NULL OR _policy = 'allow' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialize concurrent submissions for the same email/mobile so two
+  -- requests can't both pass the check
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.event_id::text || ':' || lower(NEW.email)));
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.event_id::text || ':' || NEW.mobile_number));
+
+  SELECT c.email_taken, c.mobile_taken INTO _email_taken, _mobile_taken
+  FROM public.check_registration_duplicate(NEW.event_id, NEW.email, NEW.mobile_number) c;
+
+  IF _policy = 'block' THEN
+    IF _email_taken THEN
+      RAISE EXCEPTION 'duplicate_email'
+        USING ERRCODE = '23505', DETAIL = 'This email is already registered for this event';
+    END IF;
+    IF _mobile_taken THEN
+      RAISE EXCEPTION 'duplicate_mobile_number'
+        USING ERRCODE = '23505', DETAIL = 'This mobile number is already registered for this event';
+    END IF;
+  ELSE
+    NEW.is_possible_duplicate := _email_taken OR _mobile_taken;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_registrations_duplicate_policy
+BEFORE INSERT ON public.registrations
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_registration_duplicate_policy();
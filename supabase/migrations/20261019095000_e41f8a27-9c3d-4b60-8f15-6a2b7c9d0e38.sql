@@ -0,0 +1,206 @@
+-- One-time codes proving the registrant controls their email address
+CREATE TYPE public.verification_channel AS ENUM ('email');
+
+CREATE TABLE public.verification_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  channel public.verification_channel NOT NULL,
+  target TEXT NOT NULL,
+  code_hash TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '10 minutes',
+  verified_at TIMESTAMP WITH TIME ZONE,
+  consumed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX verification_codes_lookup_idx
+ON public.verification_codes (event_id, channel, target, created_at DESC);
+
+-- Enable RLS on verification_codes; no policies, codes are only reachable
+-- through the functions below
+ALTER TABLE public.verification_codes ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.events
+ADD COLUMN require_email_verification BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE public.registrations
+ADD COLUMN email_verified_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.normalize_verification_target(
+  _channel public.verification_channel,
+  _target TEXT
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _channel
+    WHEN 'email' THEN lower(trim(_target))
+    ELSE trim(_target)
+  END
+$$;
+
+-- Issue a new code, replacing any outstanding one. Called by the
+-- send-verification-code edge function, which delivers the plain code.
+-- Returns NULL code with the seconds left while the resend cooldown runs.
+CREATE OR REPLACE FUNCTION public.create_verification_code(
+  _event_id UUID,
+  _channel public.verification_channel,
+  _target TEXT
+)
+RETURNS TABLE (code TEXT, retry_after INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _normalized TEXT := public.normalize_verification_target(_channel, _target);
+  _last_sent TIMESTAMP WITH TIME ZONE;
+  _code TEXT;
+BEGIN
+  SELECT max(v.created_at) INTO _last_sent
+  FROM public.verification_codes v
+  WHERE v.event_id = _event_id
+    AND v.channel = _channel
+    AND v.target = _normalized;
+
+  IF _last_sent > now() - interval '60 seconds' THEN
+    RETURN QUERY
+    SELECT NULL::TEXT, ceil(extract(epoch FROM _last_sent + interval '60 seconds' - now()))::INTEGER;
+    RETURN;
+  END IF;
+
+  UPDATE public.verification_codes v
+  SET expires_at = now()
+  WHERE v.event_id = _event_id
+    AND v.channel = _channel
+    AND v.target = _normalized
+    AND v.verified_at IS NULL
+    AND v.expires_at > now();
+
+  _code := lpad(
+    (('x' || encode(extensions.gen_random_bytes(4), 'hex'))::BIT(32)::BIGINT % 1000000)::TEXT,
+    6,
+    '0'
+  );
+
+  INSERT INTO public.verification_codes (event_id, channel, target, code_hash)
+  VALUES (_event_id, _channel, _normalized, encode(extensions.digest(_code, 'sha256'), 'hex'));
+
+  RETURN QUERY SELECT _code, 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_verification_code(UUID, public.verification_channel, TEXT)
+FROM PUBLIC, anon, authenticated;
+
+-- Check a code entered by the registrant. Returns 'verified', 'invalid',
+-- 'expired' or 'too_many_attempts'.
+CREATE OR REPLACE FUNCTION public.verify_code(
+  _event_id UUID,
+  _channel public.verification_channel,
+  _target TEXT,
+  _code TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _row public.verification_codes%ROWTYPE;
+BEGIN
+  SELECT * INTO _row
+  FROM public.verification_codes v
+  WHERE v.event_id = _event_id
+    AND v.channel = _channel
+    AND v.target = public.normalize_verification_target(_channel, _target)
+    AND v.verified_at IS NULL
+  ORDER BY v.created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND OR _row.expires_at <= now() THEN
+    RETURN 'expired';
+  END IF;
+
+  IF _row.attempts >= 5 THEN
+    RETURN 'too_many_attempts';
+  END IF;
+
+  IF _row.code_hash <> encode(extensions.digest(trim(_code), 'sha256'), 'hex') THEN
+    UPDATE public.verification_codes SET attempts = attempts + 1 WHERE id = _row.id;
+    RETURN CASE WHEN _row.attempts + 1 >= 5 THEN 'too_many_attempts' ELSE 'invalid' END;
+  END IF;
+
+  UPDATE public.verification_codes SET verified_at = now() WHERE id = _row.id;
+  RETURN 'verified';
+END;
+$$;
+
+-- Stamp email_verified_at from a recent verified code; clients can't set it
+CREATE OR REPLACE FUNCTION public.apply_registration_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _code_id UUID;
+  _verified_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  NEW.email_verified_at := NULL;
+
+  UPDATE public.verification_codes v
+  SET consumed_at = now()
+  WHERE v.id = (
+    SELECT c.id FROM public.verification_codes c
+    WHERE c.event_id = NEW.event_id
+      AND c.channel = 'email'
+      AND c.target = public.normalize_verification_target('email', NEW.email)
+      AND c.verified_at > now() - interval '30 minutes'
+      AND c.consumed_at IS NULL
+    ORDER BY c.verified_at DESC
+    LIMIT 1
+  )
+  RETURNING v.id, v.verified_at INTO _code_id, _verified_at;
+
+  NEW.email_verified_at := _verified_at;
+
+  IF _code_id IS NULL AND EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = NEW.event_id AND e.require_email_verification
+  ) THEN
+    RAISE EXCEPTION 'email_not_verified'
+      USING DETAIL = 'Please verify your email address before submitting';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_registrations_verification
+BEFORE INSERT ON public.registrations
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_registration_verification();
+
+-- An admin changing the email invalidates its verification
+CREATE OR REPLACE FUNCTION public.reset_registration_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF lower(NEW.email) IS DISTINCT FROM lower(OLD.email) THEN
+    NEW.email_verified_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_registrations_verification
+BEFORE UPDATE ON public.registrations
+FOR EACH ROW
+EXECUTE FUNCTION public.reset_registration_verification();
@@ -0,0 +1,171 @@
+-- SMS one-time codes for the mobile number, alongside the email check
+ALTER TYPE public.verification_channel ADD VALUE IF NOT EXISTS 'sms';
+
+ALTER TABLE public.events
+ADD COLUMN require_mobile_verification BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.registrations
+ADD COLUMN mobile_verified_at TIMESTAMP WITH TIME ZONE;
+
+-- Mobile numbers are compared by their digits only
+CREATE OR REPLACE FUNCTION public.normalize_verification_target(
+  _channel public.verification_channel,
+  _target TEXT
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _channel::TEXT
+    WHEN 'email' THEN lower(trim(_target))
+    WHEN 'sms' THEN regexp_replace(_target, '[^0-9]', '', 'g')
+    ELSE trim(_target)
+  END
+$$;
+
+-- Consume the latest verified code for a channel; returns when it was verified
+CREATE OR REPLACE FUNCTION public.consume_verification(
+  _event_id UUID,
+  _channel public.verification_channel,
+  _target TEXT
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _verified_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  UPDATE public.verification_codes v
+  SET consumed_at = now()
+  WHERE v.id = (
+    SELECT c.id FROM public.verification_codes c
+    WHERE c.event_id = _event_id
+      AND c.channel = _channel
+      AND c.target = public.normalize_verification_target(_channel, _target)
+      AND c.verified_at > now() - interval '30 minutes'
+      AND c.consumed_at IS NULL
+    ORDER BY c.verified_at DESC
+    LIMIT 1
+  )
+  RETURNING v.verified_at INTO _verified_at;
+
+  RETURN _verified_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_verification(UUID, public.verification_channel, TEXT)
+FROM PUBLIC, anon, authenticated;
+
+-- Stamp email_verified_at and mobile_verified_at from recent verified codes;
+-- clients can't set either
+CREATE OR REPLACE FUNCTION public.apply_registration_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events%ROWTYPE;
+BEGIN
+  SELECT * INTO _event FROM public.events WHERE id = NEW.event_id;
+
+  NEW.email_verified_at := public.consume_verification(NEW.event_id, 'email', NEW.email);
+  NEW.mobile_verified_at := public.consume_verification(NEW.event_id, 'sms', NEW.mobile_number);
+
+  IF NEW.email_verified_at IS NULL AND _event.require_email_verification THEN
+    RAISE EXCEPTION 'email_not_verified'
+      USING DETAIL = 'Please verify your email address before submitting';
+  END IF;
+
+  IF NEW.mobile_verified_at IS NULL AND _event.require_mobile_verification THEN
+    RAISE EXCEPTION 'mobile_not_verified'
+      USING DETAIL = 'Please verify your mobile number before submitting';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- An admin changing the email or mobile number invalidates its verification
+CREATE OR REPLACE FUNCTION public.reset_registration_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF lower(NEW.email) IS DISTINCT FROM lower(OLD.email) THEN
+    NEW.email_verified_at := NULL;
+  END IF;
+  IF NEW.mobile_number IS DISTINCT FROM OLD.mobile_number THEN
+    NEW.mobile_verified_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Issue a new code, replacing any outstanding one. Besides the 60 second
+-- resend cooldown, at most 5 codes per target are sent per hour so a single
+-- number can't run up SMS costs.
+CREATE OR REPLACE FUNCTION public.create_verification_code(
+  _event_id UUID,
+  _channel public.verification_channel,
+  _target TEXT
+)
+RETURNS TABLE (code TEXT, retry_after INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _normalized TEXT := public.normalize_verification_target(_channel, _target);
+  _last_sent TIMESTAMP WITH TIME ZONE;
+  _first_in_window TIMESTAMP WITH TIME ZONE;
+  _sent_in_window INTEGER;
+  _code TEXT;
+BEGIN
+  SELECT max(v.created_at), min(v.created_at), count(*)
+  INTO _last_sent, _first_in_window, _sent_in_window
+  FROM public.verification_codes v
+  WHERE v.event_id = _event_id
+    AND v.channel = _channel
+    AND v.target = _normalized
+    AND v.created_at > now() - interval '1 hour';
+
+  IF _last_sent > now() - interval '60 seconds' THEN
+    RETURN QUERY
+    SELECT NULL::TEXT, ceil(extract(epoch FROM _last_sent + interval '60 seconds' - now()))::INTEGER;
+    RETURN;
+  END IF;
+
+  IF _sent_in_window >= 5 THEN
+    RETURN QUERY
+    SELECT NULL::TEXT, ceil(extract(epoch FROM _first_in_window + interval '1 hour' - now()))::INTEGER;
+    RETURN;
+  END IF;
+
+  UPDATE public.verification_codes v
+  SET expires_at = now()
+  WHERE v.event_id = _event_id
+    AND v.channel = _channel
+    AND v.target = _normalized
+    AND v.verified_at IS NULL
+    AND v.expires_at > now();
+
+  _code := lpad(
+    (('x' || encode(extensions.gen_random_bytes(4), 'hex'))::BIT(32)::BIGINT % 1000000)::TEXT,
+    6,
+    '0'
+  );
+
+  INSERT INTO public.verification_codes (event_id, channel, target, code_hash)
+  VALUES (_event_id, _channel, _normalized, encode(extensions.digest(_code, 'sha256'), 'hex'));
+
+  RETURN QUERY SELECT _code, 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_verification_code(UUID, public.verification_channel, TEXT)
+FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,12 @@
+-- Mobile numbers are stored in E.164 form ("+919876543210"). Rows from before
+-- international numbers were supported hold 10 national digits and are
+-- assigned the default country, India (+91).
+UPDATE public.registrations
+SET mobile_number = '+91' || mobile_number
+WHERE mobile_number ~ '^[0-9]{10}$';
+
+-- NOT VALID so any legacy rows in another shape don't block the migration;
+-- every new or edited row is checked
+ALTER TABLE public.registrations
+ADD CONSTRAINT registrations_mobile_number_e164
+CHECK (mobile_number ~ '^\+[1-9][0-9]{6,14}$') NOT VALID;
@@ -0,0 +1,21 @@
+-- Structured address parts. `address` stays as the full one-line address so
+-- existing readers and exports keep working.
+ALTER TABLE public.registrations
+ADD COLUMN address_line1 TEXT,
+ADD COLUMN address_line2 TEXT,
+ADD COLUMN city TEXT,
+ADD COLUMN state TEXT,
+ADD COLUMN postal_code TEXT,
+ADD COLUMN country TEXT;
+
+-- Legacy rows: the free-text address becomes the first line, and a 6-digit
+-- PIN code found in it is kept. City and state are left for admins to fill
+-- in when they next edit the row.
+UPDATE public.registrations
+SET address_line1 = address,
+    postal_code = substring(address FROM '\m([1-9][0-9]{5})\M'),
+    country = 'IN'
+WHERE address_line1 IS NULL;
+
+CREATE INDEX registrations_event_state_city_idx
+ON public.registrations (event_id, state, city);
@@ -0,0 +1,88 @@
+-- Supporting documents attached to a registration (ID proof, offer letter, ...)
+CREATE TYPE public.attachment_document_type AS ENUM ('id_proof', 'offer_letter', 'certificate', 'other');
+
+CREATE TABLE public.registration_attachments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  registration_id UUID NOT NULL REFERENCES public.registrations(id) ON DELETE CASCADE,
+  document_type public.attachment_document_type NOT NULL DEFAULT 'other',
+  file_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT registration_attachments_file_path_check
+    CHECK (file_path LIKE 'registrations/' || registration_id::text || '/%'),
+  CONSTRAINT registration_attachments_content_type_check
+    CHECK (content_type IN ('application/pdf', 'image/jpeg', 'image/png', 'image/webp')),
+  CONSTRAINT registration_attachments_size_check
+    CHECK (size_bytes > 0 AND size_bytes <= 5242880)
+);
+
+CREATE INDEX registration_attachments_registration_id_idx
+ON public.registration_attachments (registration_id);
+
+ALTER TABLE public.registration_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Attachments can only be added right after submitting, and only up to the limit.
+-- Security definer because registrants cannot read registrations.
+CREATE OR REPLACE FUNCTION public.can_attach_to_registration(_registration_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.registrations r
+    WHERE r.id = _registration_id
+      AND r.created_at > now() - interval '1 hour'
+  )
+  AND (
+    SELECT count(*) FROM public.registration_attachments a
+    WHERE a.registration_id = _registration_id
+  ) < 5
+$$;
+
+CREATE POLICY "Anyone can attach documents to a new registration"
+ON public.registration_attachments
+FOR INSERT
+WITH CHECK (public.can_attach_to_registration(registration_id));
+
+CREATE POLICY "Admins can view registration attachments"
+ON public.registration_attachments
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete registration attachments"
+ON public.registration_attachments
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Private bucket: documents are only reachable through signed URLs
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'registration-documents',
+  'registration-documents',
+  false,
+  5242880,
+  ARRAY['application/pdf', 'image/jpeg', 'image/png', 'image/webp']
+);
+
+CREATE POLICY "Anyone can upload registration documents"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'registration-documents');
+
+CREATE POLICY "Admins can view registration documents"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'registration-documents' AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete registration documents"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (bucket_id = 'registration-documents' AND public.has_role(auth.uid(), 'admin'));
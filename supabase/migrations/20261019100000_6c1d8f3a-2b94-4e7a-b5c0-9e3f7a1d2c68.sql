@@ -0,0 +1,99 @@
+-- Review status of a registration, shown to the registrant on /status
+CREATE TYPE public.registration_status AS ENUM ('submitted', 'under_review', 'approved', 'rejected');
+
+-- Human-readable code without look-alike characters (0/O, 1/I/L)
+CREATE OR REPLACE FUNCTION public.generate_confirmation_code()
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SET search_path = public
+AS $$
+DECLARE
+  _alphabet CONSTANT TEXT := '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+  _bytes BYTEA := extensions.gen_random_bytes(8);
+  _code TEXT := '';
+BEGIN
+  FOR i IN 0..7 LOOP
+    _code := _code || substr(_alphabet, get_byte(_bytes, i) % length(_alphabet) + 1, 1);
+  END LOOP;
+  RETURN substr(_code, 1, 4) || '-' || substr(_code, 5, 4);
+END;
+$$;
+
+ALTER TABLE public.registrations
+ADD COLUMN confirmation_code TEXT,
+ADD COLUMN status public.registration_status NOT NULL DEFAULT 'submitted',
+ADD COLUMN admin_message TEXT;
+
+UPDATE public.registrations
+SET confirmation_code = public.generate_confirmation_code()
+WHERE confirmation_code IS NULL;
+
+ALTER TABLE public.registrations
+ALTER COLUMN confirmation_code SET DEFAULT public.generate_confirmation_code(),
+ALTER COLUMN confirmation_code SET NOT NULL,
+ADD CONSTRAINT registrations_confirmation_code_key UNIQUE (confirmation_code);
+
+-- Registrants cannot choose their own code, status or message
+CREATE OR REPLACE FUNCTION public.protect_registrations_review_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    NEW.confirmation_code := public.generate_confirmation_code();
+    NEW.status := 'submitted';
+    NEW.admin_message := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_registrations_review_fields
+BEFORE INSERT ON public.registrations
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_registrations_review_fields();
+
+-- Confirmation code for the success screen. The registration id is generated
+-- by the submitting browser and is not guessable; only fresh rows are served.
+CREATE OR REPLACE FUNCTION public.get_registration_confirmation(_registration_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.confirmation_code
+  FROM public.registrations r
+  WHERE r.id = _registration_id
+    AND r.created_at > now() - interval '1 hour'
+$$;
+
+-- Public status lookup; needs the code plus the email or mobile number it was
+-- registered with, and only returns what the registrant already knows or
+-- should see
+CREATE OR REPLACE FUNCTION public.lookup_registration_status(_code TEXT, _contact TEXT)
+RETURNS TABLE (
+  confirmation_code TEXT,
+  event_name TEXT,
+  full_name TEXT,
+  status public.registration_status,
+  admin_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.confirmation_code, e.name, r.full_name, r.status, r.admin_message, r.created_at, r.updated_at
+  FROM public.registrations r
+  JOIN public.events e ON e.id = r.event_id
+  WHERE r.confirmation_code = upper(regexp_replace(trim(_code), '^([0-9A-Za-z]{4})-?([0-9A-Za-z]{4})$', '\1-\2'))
+    AND (
+      lower(r.email) = lower(trim(_contact))
+      OR r.mobile_number = regexp_replace(trim(_contact), '[^0-9+]', '', 'g')
+    )
+$$;
@@ -0,0 +1,150 @@
+-- Change history of registrations: who changed which fields, and from what
+CREATE TABLE public.registration_changes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  registration_id UUID NOT NULL REFERENCES public.registrations(id) ON DELETE CASCADE,
+  -- 'admin', 'registrant' (through an edit link) or 'system'
+  source TEXT NOT NULL CHECK (source IN ('admin', 'registrant', 'system')),
+  actor_id UUID,
+  actor_email TEXT,
+  changes JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX registration_changes_registration_id_idx
+ON public.registration_changes (registration_id, created_at DESC);
+
+ALTER TABLE public.registration_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view registration changes"
+ON public.registration_changes
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Records every update with the changed fields as {"field": {"old": .., "new": ..}}.
+-- apply_registration_edit marks its updates as the registrant's through
+-- transaction-local settings; everything else is an admin or the system.
+CREATE OR REPLACE FUNCTION public.record_registration_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _changes JSONB;
+  _source TEXT := nullif(current_setting('app.change_source', true), '');
+BEGIN
+  SELECT jsonb_object_agg(n.key, jsonb_build_object('old', o.value, 'new', n.value))
+  INTO _changes
+  FROM jsonb_each(to_jsonb(NEW)) n
+  JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+  WHERE n.value IS DISTINCT FROM o.value
+    AND n.key NOT IN ('updated_at');
+
+  IF _changes IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.registration_changes (registration_id, source, actor_id, actor_email, changes)
+  VALUES (
+    NEW.id,
+    COALESCE(_source, CASE WHEN auth.uid() IS NULL THEN 'system' ELSE 'admin' END),
+    CASE WHEN _source IS NULL THEN auth.uid() END,
+    COALESCE(nullif(current_setting('app.change_actor', true), ''), auth.jwt() ->> 'email'),
+    _changes
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_registration_change
+AFTER UPDATE ON public.registrations
+FOR EACH ROW
+EXECUTE FUNCTION public.record_registration_change();
+
+-- Applies a registrant's edit from a verified edit link. The edge function
+-- validates the values; this function only guards what it must: the link is
+-- stale once the row changed, and the event's duplicate policy still holds.
+CREATE OR REPLACE FUNCTION public.apply_registration_edit(
+  _registration_id UUID,
+  _expected_updated_at TIMESTAMP WITH TIME ZONE,
+  _values JSONB,
+  _actor_email TEXT
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _registration public.registrations;
+  _policy public.duplicate_policy;
+  _email TEXT := trim(_values ->> 'email');
+  _mobile_number TEXT := trim(_values ->> 'mobile_number');
+  _updated_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO _registration
+  FROM public.registrations
+  WHERE id = _registration_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _registration.updated_at <> _expected_updated_at THEN
+    RAISE EXCEPTION 'edit_link_expired';
+  END IF;
+
+  SELECT duplicate_policy INTO _policy FROM public.events WHERE id = _registration.event_id;
+
+  IF _policy = 'block' THEN
+    PERFORM pg_advisory_xact_lock(hashtext(_registration.event_id::text || ':' || lower(_email)));
+    PERFORM pg_advisory_xact_lock(hashtext(_registration.event_id::text || ':' || _mobile_number));
+
+    IF EXISTS (
+      SELECT 1 FROM public.registrations r
+      WHERE r.event_id = _registration.event_id AND r.id <> _registration_id
+        AND lower(r.email) = lower(_email)
+    ) THEN
+      RAISE EXCEPTION 'duplicate_email'
+        USING ERRCODE = '23505', DETAIL = 'This email is already registered for this event';
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM public.registrations r
+      WHERE r.event_id = _registration.event_id AND r.id <> _registration_id
+        AND r.mobile_number = _mobile_number
+    ) THEN
+      RAISE EXCEPTION 'duplicate_mobile_number'
+        USING ERRCODE = '23505', DETAIL = 'This mobile number is already registered for this event';
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.change_source', 'registrant', true);
+  PERFORM set_config('app.change_actor', _actor_email, true);
+
+  UPDATE public.registrations
+  SET full_name = _values ->> 'full_name',
+      mobile_number = _mobile_number,
+      email = _email,
+      gender = (_values ->> 'gender')::public.gender_type,
+      department = _values ->> 'department',
+      address = _values ->> 'address',
+      address_line1 = _values ->> 'address_line1',
+      address_line2 = _values ->> 'address_line2',
+      city = _values ->> 'city',
+      state = _values ->> 'state',
+      postal_code = _values ->> 'postal_code',
+      country = _values ->> 'country',
+      custom_fields = COALESCE(_values -> 'custom_fields', custom_fields),
+      photo_url = COALESCE(_values ->> 'photo_url', photo_url)
+  WHERE id = _registration_id
+  RETURNING updated_at INTO _updated_at;
+
+  PERFORM set_config('app.change_source', '', true);
+  PERFORM set_config('app.change_actor', '', true);
+
+  RETURN _updated_at;
+END;
+$$;
+
+-- Only the edge function (service role) may apply edits
+REVOKE EXECUTE ON FUNCTION public.apply_registration_edit(UUID, TIMESTAMP WITH TIME ZONE, JSONB, TEXT)
+FROM PUBLIC, anon, authenticated;
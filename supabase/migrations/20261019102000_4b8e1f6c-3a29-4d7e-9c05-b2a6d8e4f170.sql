@@ -0,0 +1,4 @@
+-- Waitlisted registrations are over their department's capacity; cancelled
+-- ones gave up their seat. Added on their own so the next migration can use them.
+ALTER TYPE public.registration_status ADD VALUE IF NOT EXISTS 'waitlisted' BEFORE 'approved';
+ALTER TYPE public.registration_status ADD VALUE IF NOT EXISTS 'cancelled';
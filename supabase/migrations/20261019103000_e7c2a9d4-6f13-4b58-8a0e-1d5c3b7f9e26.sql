@@ -0,0 +1,331 @@
+-- Seats per department for an event. Departments without a row are unlimited.
+CREATE TABLE public.department_capacities (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  department TEXT NOT NULL,
+  capacity INTEGER NOT NULL CHECK (capacity >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (event_id, department)
+);
+
+ALTER TABLE public.department_capacities ENABLE ROW LEVEL SECURITY;
+
+-- The public form reads availability through get_department_availability
+CREATE POLICY "Admins can view department capacities"
+ON public.department_capacities
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can create department capacities"
+ON public.department_capacities
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update department capacities"
+ON public.department_capacities
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete department capacities"
+ON public.department_capacities
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_department_capacities_updated_at
+BEFORE UPDATE ON public.department_capacities
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Place in the department's waitlist, 1 being next in line; NULL unless waitlisted
+ALTER TABLE public.registrations
+ADD COLUMN waitlist_position INTEGER CHECK (waitlist_position > 0);
+
+CREATE INDEX registrations_event_id_department_status_idx
+ON public.registrations (event_id, department, status);
+
+-- Whether a registration in this status takes up a seat
+CREATE OR REPLACE FUNCTION public.holds_department_seat(_status public.registration_status)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT _status NOT IN ('waitlisted', 'rejected', 'cancelled')
+$$;
+
+-- Serializes seat decisions for one department of one event
+CREATE OR REPLACE FUNCTION public.lock_department_seats(_event_id UUID, _department TEXT)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  SELECT pg_advisory_xact_lock(hashtext('capacity:' || _event_id::text || ':' || _department))
+$$;
+
+-- Waitlists registrations that would go over capacity, on insert and when an
+-- existing one moves to another department, and keeps waitlist_position in
+-- step with the status. Admins can still approve a waitlisted registration
+-- directly, which takes a seat regardless of capacity.
+CREATE OR REPLACE FUNCTION public.waitlist_registration_over_capacity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _moved BOOLEAN := TG_OP = 'INSERT'
+    OR NEW.event_id IS DISTINCT FROM OLD.event_id
+    OR NEW.department IS DISTINCT FROM OLD.department;
+  _capacity INTEGER;
+  _taken INTEGER;
+BEGIN
+  IF _moved THEN
+    PERFORM public.lock_department_seats(NEW.event_id, NEW.department);
+
+    IF public.holds_department_seat(NEW.status) THEN
+      SELECT capacity INTO _capacity
+      FROM public.department_capacities
+      WHERE event_id = NEW.event_id AND department = NEW.department;
+
+      IF _capacity IS NOT NULL THEN
+        SELECT count(*) INTO _taken
+        FROM public.registrations r
+        WHERE r.event_id = NEW.event_id
+          AND r.department = NEW.department
+          AND r.id <> NEW.id
+          AND public.holds_department_seat(r.status);
+
+        IF _taken >= _capacity THEN
+          NEW.status := 'waitlisted';
+        END IF;
+      END IF;
+    END IF;
+  END IF;
+
+  IF NEW.status <> 'waitlisted' THEN
+    NEW.waitlist_position := NULL;
+  ELSIF _moved OR OLD.status <> 'waitlisted' THEN
+    SELECT COALESCE(max(r.waitlist_position), 0) + 1 INTO NEW.waitlist_position
+    FROM public.registrations r
+    WHERE r.event_id = NEW.event_id
+      AND r.department = NEW.department
+      AND r.id <> NEW.id
+      AND r.status = 'waitlisted';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Sorts after protect_registrations_review_fields, which resets the status
+CREATE TRIGGER waitlist_registrations_over_capacity
+BEFORE INSERT OR UPDATE ON public.registrations
+FOR EACH ROW
+EXECUTE FUNCTION public.waitlist_registration_over_capacity();
+
+-- Promotes waitlisted registrations, in order, into any free seats, then
+-- closes the gaps left in the queue. The history records these as system
+-- changes, whoever set them off.
+CREATE OR REPLACE FUNCTION public.refresh_department_waitlist(_event_id UUID, _department TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _capacity INTEGER;
+  _taken INTEGER;
+  _next UUID;
+  _source TEXT := current_setting('app.change_source', true);
+  _actor TEXT := current_setting('app.change_actor', true);
+BEGIN
+  PERFORM public.lock_department_seats(_event_id, _department);
+  PERFORM set_config('app.change_source', 'system', true);
+  PERFORM set_config('app.change_actor', '', true);
+
+  SELECT capacity INTO _capacity
+  FROM public.department_capacities
+  WHERE event_id = _event_id AND department = _department;
+
+  LOOP
+    IF _capacity IS NOT NULL THEN
+      SELECT count(*) INTO _taken
+      FROM public.registrations r
+      WHERE r.event_id = _event_id
+        AND r.department = _department
+        AND public.holds_department_seat(r.status);
+      EXIT WHEN _taken >= _capacity;
+    END IF;
+
+    SELECT r.id INTO _next
+    FROM public.registrations r
+    WHERE r.event_id = _event_id
+      AND r.department = _department
+      AND r.status = 'waitlisted'
+    ORDER BY r.waitlist_position, r.created_at
+    LIMIT 1
+    FOR UPDATE;
+    EXIT WHEN _next IS NULL;
+
+    UPDATE public.registrations
+    SET status = 'submitted'
+    WHERE id = _next;
+  END LOOP;
+
+  UPDATE public.registrations r
+  SET waitlist_position = q.position
+  FROM (
+    SELECT w.id, row_number() OVER (ORDER BY w.waitlist_position, w.created_at)::INTEGER AS position
+    FROM public.registrations w
+    WHERE w.event_id = _event_id
+      AND w.department = _department
+      AND w.status = 'waitlisted'
+  ) q
+  WHERE r.id = q.id
+    AND r.waitlist_position IS DISTINCT FROM q.position;
+
+  PERFORM set_config('app.change_source', COALESCE(_source, ''), true);
+  PERFORM set_config('app.change_actor', COALESCE(_actor, ''), true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_department_waitlist(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- A seat frees up (or the queue changes) when a registration is deleted,
+-- cancelled, rejected or moved. Updates made by the refresh itself are skipped.
+CREATE OR REPLACE FUNCTION public.promote_registrations_waitlist()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.status IS NOT DISTINCT FROM OLD.status
+    AND NEW.event_id IS NOT DISTINCT FROM OLD.event_id
+    AND NEW.department IS NOT DISTINCT FROM OLD.department THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.refresh_department_waitlist(OLD.event_id, OLD.department);
+
+  IF TG_OP = 'UPDATE'
+    AND (NEW.event_id IS DISTINCT FROM OLD.event_id OR NEW.department IS DISTINCT FROM OLD.department) THEN
+    PERFORM public.refresh_department_waitlist(NEW.event_id, NEW.department);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER promote_registrations_waitlist
+AFTER UPDATE OR DELETE ON public.registrations
+FOR EACH ROW
+EXECUTE FUNCTION public.promote_registrations_waitlist();
+
+-- Raising (or removing) a capacity promotes from the waitlist straight away
+CREATE OR REPLACE FUNCTION public.promote_department_capacity_waitlist()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_department_waitlist(OLD.event_id, OLD.department);
+  ELSE
+    PERFORM public.refresh_department_waitlist(NEW.event_id, NEW.department);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER promote_department_capacities_waitlist
+AFTER INSERT OR UPDATE OR DELETE ON public.department_capacities
+FOR EACH ROW
+EXECUTE FUNCTION public.promote_department_capacity_waitlist();
+
+-- Seats for the public form and the dashboard; only counts, no registrant data
+CREATE OR REPLACE FUNCTION public.get_department_availability(_event_id UUID)
+RETURNS TABLE (
+  department TEXT,
+  capacity INTEGER,
+  seats_taken INTEGER,
+  waitlisted INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.department,
+    c.capacity,
+    (count(r.id) FILTER (WHERE public.holds_department_seat(r.status)))::INTEGER,
+    (count(r.id) FILTER (WHERE r.status = 'waitlisted'))::INTEGER
+  FROM public.department_capacities c
+  LEFT JOIN public.registrations r
+    ON r.event_id = c.event_id AND r.department = c.department
+  WHERE c.event_id = _event_id
+  GROUP BY c.department, c.capacity
+  ORDER BY c.department
+$$;
+
+-- The success screen and status page also say whether the registration was
+-- waitlisted, and where it stands in the queue
+DROP FUNCTION public.get_registration_confirmation(UUID);
+
+CREATE OR REPLACE FUNCTION public.get_registration_confirmation(_registration_id UUID)
+RETURNS TABLE (
+  confirmation_code TEXT,
+  status public.registration_status,
+  waitlist_position INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.confirmation_code, r.status, r.waitlist_position
+  FROM public.registrations r
+  WHERE r.id = _registration_id
+    AND r.created_at > now() - interval '1 hour'
+$$;
+
+DROP FUNCTION public.lookup_registration_status(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.lookup_registration_status(_code TEXT, _contact TEXT)
+RETURNS TABLE (
+  confirmation_code TEXT,
+  event_name TEXT,
+  full_name TEXT,
+  status public.registration_status,
+  waitlist_position INTEGER,
+  admin_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.confirmation_code, e.name, r.full_name, r.status, r.waitlist_position, r.admin_message,
+    r.created_at, r.updated_at
+  FROM public.registrations r
+  JOIN public.events e ON e.id = r.event_id
+  WHERE r.confirmation_code = upper(regexp_replace(trim(_code), '^([0-9A-Za-z]{4})-?([0-9A-Za-z]{4})$', '\1-\2'))
+    AND (
+      lower(r.email) = lower(trim(_contact))
+      OR r.mobile_number = regexp_replace(trim(_contact), '[^0-9+]', '', 'g')
+    )
+$$;
@@ -0,0 +1,81 @@
+-- Intake window of an event: optional opening and closing times, an optional
+-- cap on the total number of registrations and a manual pause
+ALTER TABLE public.events
+ADD COLUMN opens_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN closes_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN max_registrations INTEGER CHECK (max_registrations > 0),
+ADD COLUMN is_paused BOOLEAN NOT NULL DEFAULT false,
+ADD CONSTRAINT events_intake_window_check CHECK (closes_at > opens_at);
+
+-- Whether an event takes registrations right now: 'open', 'paused',
+-- 'scheduled' (not open yet), 'closed' (past closing), 'full' or 'not_found'
+-- (missing or inactive). The public form shows the same state it is held to.
+CREATE OR REPLACE FUNCTION public.get_registration_window_state(_event_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN e.id IS NULL OR NOT e.is_active THEN 'not_found'
+    WHEN e.is_paused THEN 'paused'
+    WHEN e.opens_at IS NOT NULL AND now() < e.opens_at THEN 'scheduled'
+    WHEN e.closes_at IS NOT NULL AND now() >= e.closes_at THEN 'closed'
+    WHEN e.max_registrations IS NOT NULL
+      AND (SELECT count(*) FROM public.registrations r WHERE r.event_id = e.id) >= e.max_registrations
+      THEN 'full'
+    ELSE 'open'
+  END
+  FROM (SELECT _event_id AS id) requested
+  LEFT JOIN public.events e ON e.id = requested.id
+$$;
+
+-- Submissions outside the window are rejected, including ones made directly
+-- through the API
+DROP POLICY "Anyone can submit registrations" ON public.registrations;
+
+CREATE POLICY "Anyone can submit registrations while the event is open"
+ON public.registrations
+FOR INSERT
+WITH CHECK (public.get_registration_window_state(event_id) = 'open');
+
+-- The policy counts with the statement's snapshot, so two last submissions
+-- could both pass it; this re-counts under a lock to hold the cap exactly
+CREATE OR REPLACE FUNCTION public.enforce_registration_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _max INTEGER;
+  _count INTEGER;
+BEGIN
+  SELECT max_registrations INTO _max
+  FROM public.events
+  WHERE id = NEW.event_id;
+
+  IF _max IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('intake:' || NEW.event_id::text));
+
+  SELECT count(*) INTO _count
+  FROM public.registrations
+  WHERE event_id = NEW.event_id;
+
+  IF _count >= _max THEN
+    RAISE EXCEPTION 'registration_closed'
+      USING DETAIL = 'This event has reached its maximum number of registrations';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_registrations_limit
+BEFORE INSERT ON public.registrations
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_registration_limit();
@@ -0,0 +1,133 @@
+-- Privacy, terms and marketing texts registrants agree to. Each publication
+-- is a new, immutable version; the latest version of a kind is the current one.
+CREATE TYPE public.consent_kind AS ENUM ('privacy', 'terms', 'marketing');
+
+CREATE TABLE public.consent_documents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  kind public.consent_kind NOT NULL,
+  version INTEGER NOT NULL CHECK (version > 0),
+  title TEXT NOT NULL CHECK (length(trim(title)) > 0),
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  required BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (kind, version)
+);
+
+ALTER TABLE public.consent_documents ENABLE ROW LEVEL SECURITY;
+
+-- The public form shows the texts; records keep pointing at old versions
+CREATE POLICY "Anyone can view consent documents"
+ON public.consent_documents
+FOR SELECT
+USING (true);
+
+-- Publishing only; versions are never edited or removed
+CREATE POLICY "Admins can publish consent documents"
+ON public.consent_documents
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.assign_consent_document_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  SELECT COALESCE(max(version), 0) + 1 INTO NEW.version
+  FROM public.consent_documents
+  WHERE kind = NEW.kind;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_consent_documents_version
+BEFORE INSERT ON public.consent_documents
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_consent_document_version();
+
+CREATE OR REPLACE FUNCTION public.current_consent_documents()
+RETURNS SETOF public.consent_documents
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (kind) *
+  FROM public.consent_documents
+  ORDER BY kind, version DESC
+$$;
+
+-- The consent record of a registration: the document versions accepted
+-- (declined optional ones are left out) and when
+ALTER TABLE public.registrations
+ADD COLUMN consent_document_ids UUID[] NOT NULL DEFAULT '{}',
+ADD COLUMN consented_at TIMESTAMP WITH TIME ZONE;
+
+-- Accepted documents must be the current versions, and every current
+-- required one must be accepted
+CREATE OR REPLACE FUNCTION public.enforce_registration_consents()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.consent_document_ids := ARRAY(SELECT DISTINCT unnest(NEW.consent_document_ids));
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(NEW.consent_document_ids) accepted(id)
+    WHERE accepted.id NOT IN (SELECT c.id FROM public.current_consent_documents() c)
+  ) THEN
+    RAISE EXCEPTION 'consent_outdated'
+      USING DETAIL = 'A newer version of the privacy or terms text has been published';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.current_consent_documents() c
+    WHERE c.required AND NOT c.id = ANY (NEW.consent_document_ids)
+  ) THEN
+    RAISE EXCEPTION 'consent_required'
+      USING DETAIL = 'All required consents must be accepted';
+  END IF;
+
+  NEW.consented_at := CASE WHEN cardinality(NEW.consent_document_ids) > 0 THEN now() END;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_registrations_consents
+BEFORE INSERT ON public.registrations
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_registration_consents();
+
+-- Seeded so the form asks for consent from the start; admins publish
+-- replacements from the Consents screen
+INSERT INTO public.consent_documents (kind, version, title, body, required, created_by)
+VALUES
+  (
+    'privacy',
+    1,
+    'Privacy Policy',
+    E'We collect your name, contact details, address, photo and any documents you upload to process your registration.\n\nThis information is only used by the organisers of the event, is kept for as long as needed to run it and is not shared with third parties. You can ask for your data to be corrected or deleted by contacting the organisers.',
+    true,
+    NULL
+  ),
+  (
+    'terms',
+    1,
+    'Terms of Registration',
+    E'The details you submit must be accurate and your own. The organisers may reject or cancel registrations that are incomplete, duplicated or false.',
+    true,
+    NULL
+  ),
+  (
+    'marketing',
+    1,
+    'Marketing Communications',
+    E'Send me news about upcoming events by email or SMS. You can opt out at any time.',
+    false,
+    NULL
+  );
@@ -0,0 +1,82 @@
+-- Every call to the public submission and upload endpoints, kept for rate
+-- limiting and so admins can review what was turned away. Written only by
+-- the submit-registration and registration-upload-url edge functions.
+CREATE TABLE public.registration_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- As sent by the caller, so not a foreign key: bots post made-up ids too
+  event_id UUID,
+  action TEXT NOT NULL CHECK (action IN ('submit', 'upload')),
+  -- 'accepted' once it passed the abuse checks; the registration itself can
+  -- still be turned down afterwards (duplicate, closed, ...)
+  outcome TEXT NOT NULL CHECK (outcome IN ('accepted', 'rejected')),
+  -- Why it was rejected: honeypot, too_fast, challenge_invalid,
+  -- challenge_reused, ip_rate_limited or email_rate_limited
+  reason TEXT,
+  ip_address TEXT NOT NULL,
+  email TEXT,
+  -- Proof-of-work challenge the submission solved; each one is good for a
+  -- single accepted submission
+  challenge_id TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT registration_attempts_reason_check
+    CHECK ((outcome = 'rejected') = (reason IS NOT NULL))
+);
+
+CREATE INDEX registration_attempts_ip_idx
+ON public.registration_attempts (ip_address, created_at DESC);
+
+CREATE INDEX registration_attempts_email_idx
+ON public.registration_attempts (email, created_at DESC)
+WHERE email IS NOT NULL;
+
+CREATE INDEX registration_attempts_rejected_idx
+ON public.registration_attempts (created_at DESC)
+WHERE outcome = 'rejected';
+
+CREATE UNIQUE INDEX registration_attempts_challenge_id_key
+ON public.registration_attempts (challenge_id)
+WHERE outcome = 'accepted';
+
+ALTER TABLE public.registration_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view registration attempts"
+ON public.registration_attempts
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Submissions now go through submit-registration, which checks the honeypot,
+-- fill time, proof of work and rate limits before inserting with the service
+-- role. Direct inserts through the API would skip all of that.
+DROP POLICY "Anyone can submit registrations while the event is open" ON public.registrations;
+
+-- The service role is not held to the insert policy, so the trigger checks
+-- the whole window (not just the cap) under the intake lock
+CREATE OR REPLACE FUNCTION public.enforce_registration_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('intake:' || NEW.event_id::text));
+
+  IF public.get_registration_window_state(NEW.event_id) <> 'open' THEN
+    RAISE EXCEPTION 'registration_closed'
+      USING DETAIL = 'This event is not taking registrations';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Photos and documents are uploaded through signed upload URLs handed out
+-- (rate limited) by registration-upload-url
+DROP POLICY "Anyone can upload registration photos" ON storage.objects;
+DROP POLICY "Anyone can upload registration documents" ON storage.objects;
+
+UPDATE storage.buckets
+SET file_size_limit = 2097152,
+    allowed_mime_types = ARRAY['image/jpeg', 'image/jpg', 'image/png', 'image/webp']
+WHERE id = 'registration-photos';
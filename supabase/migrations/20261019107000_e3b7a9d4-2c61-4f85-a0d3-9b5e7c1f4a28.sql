@@ -0,0 +1,5 @@
+-- Language the registrant filled in the form in. Follow-up emails (edit links
+-- and the like) are written in it.
+ALTER TABLE public.registrations
+  ADD COLUMN language TEXT NOT NULL DEFAULT 'en'
+    CHECK (language IN ('en', 'hi', 'mr'));
@@ -0,0 +1,106 @@
+-- Kiosk mode: tablets at the venue entrance run the form at /kiosk. Their
+-- registrations are tagged with the source and the device, and leaving the
+-- kiosk takes a PIN the admins set per event.
+ALTER TABLE public.registrations
+  ADD COLUMN source TEXT NOT NULL DEFAULT 'web'
+    CHECK (source IN ('web', 'kiosk')),
+  -- Name the kiosk was set up with, e.g. "Entrance A"
+  ADD COLUMN device_id TEXT
+    CHECK (char_length(device_id) <= 64);
+
+-- Separate from events, which anyone can read
+CREATE TABLE public.kiosk_pins (
+  event_id UUID NOT NULL PRIMARY KEY REFERENCES public.events(id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only reached through the functions below
+ALTER TABLE public.kiosk_pins ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.hash_kiosk_pin(_event_id UUID, _pin TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT encode(extensions.digest(_event_id::TEXT || ':' || _pin, 'sha256'), 'hex')
+$$;
+
+-- Whether the event has a kiosk PIN; admins only
+CREATE OR REPLACE FUNCTION public.has_kiosk_pin(_event_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  RETURN EXISTS (SELECT 1 FROM public.kiosk_pins WHERE event_id = _event_id);
+END;
+$$;
+
+-- Sets or replaces the PIN (4 to 8 digits); admins only
+CREATE OR REPLACE FUNCTION public.set_kiosk_pin(_event_id UUID, _pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF _pin IS NULL OR _pin !~ '^[0-9]{4,8}$' THEN
+    RAISE EXCEPTION 'invalid_kiosk_pin'
+      USING DETAIL = 'The kiosk PIN must be 4 to 8 digits';
+  END IF;
+
+  INSERT INTO public.kiosk_pins (event_id, pin_hash)
+  VALUES (_event_id, public.hash_kiosk_pin(_event_id, _pin))
+  ON CONFLICT (event_id) DO UPDATE
+  SET pin_hash = EXCLUDED.pin_hash,
+      failed_attempts = 0,
+      locked_until = NULL,
+      updated_at = now();
+END;
+$$;
+
+-- Checks a PIN typed at a kiosk. Five wrong ones in a row lock the kiosk's
+-- exit for five minutes; an event without a PIN never lets go.
+CREATE OR REPLACE FUNCTION public.verify_kiosk_pin(_event_id UUID, _pin TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _row public.kiosk_pins%ROWTYPE;
+BEGIN
+  SELECT * INTO _row FROM public.kiosk_pins WHERE event_id = _event_id FOR UPDATE;
+
+  IF NOT FOUND OR _row.locked_until > now() THEN
+    RETURN false;
+  END IF;
+
+  IF _row.pin_hash = public.hash_kiosk_pin(_event_id, coalesce(_pin, '')) THEN
+    UPDATE public.kiosk_pins SET failed_attempts = 0 WHERE event_id = _event_id;
+    RETURN true;
+  END IF;
+
+  UPDATE public.kiosk_pins
+  SET failed_attempts = CASE WHEN _row.failed_attempts + 1 >= 5 THEN 0 ELSE _row.failed_attempts + 1 END,
+      locked_until = CASE WHEN _row.failed_attempts + 1 >= 5 THEN now() + interval '5 minutes' END
+  WHERE event_id = _event_id;
+  RETURN false;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hash_kiosk_pin(UUID, TEXT) FROM PUBLIC, anon, authenticated;
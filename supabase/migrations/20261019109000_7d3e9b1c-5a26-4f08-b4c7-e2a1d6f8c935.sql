@@ -0,0 +1,46 @@
+-- Registrations one person submits for a group (a team lead and their team)
+-- share a group_id: the id of the submitter's own registration. They are
+-- inserted together in one statement, so either all of them go in or none.
+ALTER TABLE public.registrations
+  ADD COLUMN group_id UUID;
+
+CREATE INDEX registrations_group_id_idx
+ON public.registrations (group_id)
+WHERE group_id IS NOT NULL;
+
+-- The submitter verifies their own email and mobile number; the people they
+-- register are vouched for by them and need not verify. The submitter's row
+-- is inserted first, so it is already visible here.
+CREATE OR REPLACE FUNCTION public.apply_registration_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events%ROWTYPE;
+  _vouched BOOLEAN;
+BEGIN
+  SELECT * INTO _event FROM public.events WHERE id = NEW.event_id;
+
+  NEW.email_verified_at := public.consume_verification(NEW.event_id, 'email', NEW.email);
+  NEW.mobile_verified_at := public.consume_verification(NEW.event_id, 'sms', NEW.mobile_number);
+
+  _vouched := NEW.group_id IS NOT NULL AND NEW.group_id <> NEW.id AND EXISTS (
+    SELECT 1 FROM public.registrations r
+    WHERE r.id = NEW.group_id AND r.group_id = NEW.group_id AND r.event_id = NEW.event_id
+  );
+
+  IF NEW.email_verified_at IS NULL AND _event.require_email_verification AND NOT _vouched THEN
+    RAISE EXCEPTION 'email_not_verified'
+      USING DETAIL = 'Please verify your email address before submitting';
+  END IF;
+
+  IF NEW.mobile_verified_at IS NULL AND _event.require_mobile_verification AND NOT _vouched THEN
+    RAISE EXCEPTION 'mobile_not_verified'
+      USING DETAIL = 'Please verify your mobile number before submitting';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
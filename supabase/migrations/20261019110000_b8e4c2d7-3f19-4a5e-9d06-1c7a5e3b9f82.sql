@@ -0,0 +1,143 @@
+-- Invite-only events take registrations only with a valid invite code
+ALTER TABLE public.events
+  ADD COLUMN invite_only BOOLEAN NOT NULL DEFAULT false;
+
+-- Codes admins hand out, each good for max_uses registrations (1 for a
+-- single-use code). Codes look like confirmation numbers ("AB2C-D3EF").
+CREATE TABLE public.invite_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  code TEXT NOT NULL DEFAULT public.generate_confirmation_code(),
+  max_uses INTEGER NOT NULL DEFAULT 1 CHECK (max_uses > 0),
+  uses INTEGER NOT NULL DEFAULT 0 CHECK (uses >= 0),
+  -- Registrations made with the code are put in this department
+  department TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  -- Tells batches apart, e.g. who they were sent to
+  label TEXT CHECK (char_length(label) <= 100),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (event_id, code)
+);
+
+ALTER TABLE public.invite_codes ENABLE ROW LEVEL SECURITY;
+
+-- The public form checks codes through check_invite_code
+CREATE POLICY "Admins can view invite codes"
+ON public.invite_codes
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can create invite codes"
+ON public.invite_codes
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete invite codes"
+ON public.invite_codes
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- The code a registration was made with; kept as a record if the code is
+-- deleted later
+ALTER TABLE public.registrations
+  ADD COLUMN invite_code_id UUID REFERENCES public.invite_codes(id) ON DELETE SET NULL;
+
+CREATE INDEX registrations_invite_code_id_idx
+ON public.registrations (invite_code_id)
+WHERE invite_code_id IS NOT NULL;
+
+-- Upper case with the dash, however the code was typed
+CREATE OR REPLACE FUNCTION public.normalize_invite_code(_code TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN length(c) = 8 THEN substr(c, 1, 4) || '-' || substr(c, 5, 4)
+    ELSE c
+  END
+  FROM (SELECT upper(regexp_replace(coalesce(_code, ''), '[^0-9A-Za-z]', '', 'g')) AS c) normalized
+$$;
+
+-- What the public form shows for a typed code: 'valid', 'invalid',
+-- 'expired' or 'used_up', with its department and the registrations left.
+-- Redeeming is up to the insert trigger below.
+CREATE OR REPLACE FUNCTION public.check_invite_code(_event_id UUID, _code TEXT)
+RETURNS TABLE (state TEXT, department TEXT, uses_left INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    CASE
+      WHEN i.id IS NULL THEN 'invalid'
+      WHEN i.expires_at IS NOT NULL AND now() >= i.expires_at THEN 'expired'
+      WHEN i.uses >= i.max_uses THEN 'used_up'
+      ELSE 'valid'
+    END,
+    i.department,
+    greatest(coalesce(i.max_uses - i.uses, 0), 0)
+  FROM (SELECT 1) one
+  LEFT JOIN public.invite_codes i
+    ON i.event_id = _event_id AND i.code = public.normalize_invite_code(_code)
+$$;
+
+-- Every registration for an invite-only event uses up one redemption of its
+-- code, including each person in a group. The code's row is locked so two
+-- submissions can't both take its last use.
+CREATE OR REPLACE FUNCTION public.redeem_registration_invite()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invite public.invite_codes%ROWTYPE;
+BEGIN
+  IF NEW.invite_code_id IS NULL THEN
+    IF (SELECT invite_only FROM public.events WHERE id = NEW.event_id) THEN
+      RAISE EXCEPTION 'invite_required'
+        USING DETAIL = 'This event takes registrations by invitation only';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _invite
+  FROM public.invite_codes
+  WHERE id = NEW.invite_code_id AND event_id = NEW.event_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'invite_invalid'
+      USING DETAIL = 'The invite code is not valid for this event';
+  END IF;
+  IF _invite.expires_at IS NOT NULL AND now() >= _invite.expires_at THEN
+    RAISE EXCEPTION 'invite_expired'
+      USING DETAIL = 'The invite code has expired';
+  END IF;
+  IF _invite.uses >= _invite.max_uses THEN
+    RAISE EXCEPTION 'invite_used_up'
+      USING DETAIL = 'The invite code has been used up';
+  END IF;
+
+  UPDATE public.invite_codes SET uses = uses + 1 WHERE id = _invite.id;
+
+  IF _invite.department IS NOT NULL THEN
+    NEW.department := _invite.department;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to run before waitlist_registrations_over_capacity, which seats the
+-- department the code may have set
+CREATE TRIGGER redeem_registrations_invite
+BEFORE INSERT ON public.registrations
+FOR EACH ROW
+EXECUTE FUNCTION public.redeem_registration_invite();
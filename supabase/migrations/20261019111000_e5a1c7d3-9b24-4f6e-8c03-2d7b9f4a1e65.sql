@@ -0,0 +1,165 @@
+-- Events for internal onboarding only take people on the HR roster:
+-- 'off' ignores the roster, 'flag' accepts others but marks them for review,
+-- 'block' turns them away
+CREATE TYPE public.roster_policy AS ENUM ('off', 'flag', 'block');
+
+ALTER TABLE public.events
+  ADD COLUMN roster_policy public.roster_policy NOT NULL DEFAULT 'off';
+
+-- One row per person on the uploaded roster. Emails are kept lower case and
+-- employee IDs upper case so matching ignores how they were typed.
+CREATE TABLE public.roster_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  employee_id TEXT CHECK (char_length(employee_id) <= 50),
+  email TEXT CHECK (char_length(email) <= 255),
+  full_name TEXT CHECK (char_length(full_name) <= 100),
+  department TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (employee_id IS NOT NULL OR email IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX roster_entries_event_employee_id_key
+ON public.roster_entries (event_id, employee_id)
+WHERE employee_id IS NOT NULL;
+
+CREATE UNIQUE INDEX roster_entries_event_email_key
+ON public.roster_entries (event_id, email)
+WHERE email IS NOT NULL;
+
+ALTER TABLE public.roster_entries ENABLE ROW LEVEL SECURITY;
+
+-- Uploads go through replace_roster; the public form matches through check_roster
+CREATE POLICY "Admins can view roster entries"
+ON public.roster_entries
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- The employee ID a registrant gave, and how they matched the roster when
+-- they registered: NULL while the event ignores the roster
+ALTER TABLE public.registrations
+  ADD COLUMN employee_id TEXT CHECK (char_length(employee_id) <= 50),
+  ADD COLUMN roster_status TEXT CHECK (roster_status IN ('matched', 'unmatched'));
+
+-- Swaps the event's roster for the uploaded one in one go; admins only.
+-- _entries is a JSON array of {employee_id, email, full_name, department}.
+-- Later rows with an employee ID or email already seen are skipped.
+CREATE OR REPLACE FUNCTION public.replace_roster(_event_id UUID, _entries JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF jsonb_typeof(_entries) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'invalid_roster'
+      USING DETAIL = 'The roster must be a list of people';
+  END IF;
+
+  DELETE FROM public.roster_entries WHERE event_id = _event_id;
+
+  INSERT INTO public.roster_entries (event_id, employee_id, email, full_name, department)
+  SELECT _event_id, employee_id, email, full_name, department
+  FROM (
+    SELECT
+      nullif(upper(trim(e.employee_id)), '') AS employee_id,
+      nullif(lower(trim(e.email)), '') AS email,
+      nullif(trim(e.full_name), '') AS full_name,
+      nullif(trim(e.department), '') AS department,
+      e.ordinality
+    FROM ROWS FROM (
+      jsonb_to_recordset(_entries) AS (employee_id TEXT, email TEXT, full_name TEXT, department TEXT)
+    ) WITH ORDINALITY AS e(employee_id, email, full_name, department, ordinality)
+  ) cleaned
+  WHERE employee_id IS NOT NULL OR email IS NOT NULL
+  ORDER BY ordinality
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+-- The roster row a registrant matches, by employee ID first and then email
+CREATE OR REPLACE FUNCTION public.find_roster_entry(_event_id UUID, _email TEXT, _employee_id TEXT)
+RETURNS SETOF public.roster_entries
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM public.roster_entries r
+  WHERE r.event_id = _event_id
+    AND (
+      r.employee_id = nullif(upper(trim(_employee_id)), '')
+      OR r.email = nullif(lower(trim(_email)), '')
+    )
+  ORDER BY (r.employee_id = nullif(upper(trim(_employee_id)), '')) IS TRUE DESC
+  LIMIT 1
+$$;
+
+-- For the public form to pre-fill the department. Says only whether there is
+-- a match and its department, never who is on the roster.
+CREATE OR REPLACE FUNCTION public.check_roster(_event_id UUID, _email TEXT, _employee_id TEXT)
+RETURNS TABLE (matched BOOLEAN, department TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.id IS NOT NULL, r.department
+  FROM (SELECT 1) one
+  LEFT JOIN public.find_roster_entry(_event_id, _email, _employee_id) r ON true
+$$;
+
+-- Matches each new registration against the roster. The roster's department
+-- wins over the one chosen, or the one an invite code set.
+CREATE OR REPLACE FUNCTION public.verify_registration_roster()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.roster_policy;
+  _entry public.roster_entries%ROWTYPE;
+BEGIN
+  SELECT roster_policy INTO _policy FROM public.events WHERE id = NEW.event_id;
+
+  IF _policy IS NULL OR _policy = 'off' THEN
+    NEW.roster_status := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _entry FROM public.find_roster_entry(NEW.event_id, NEW.email, NEW.employee_id);
+
+  IF _entry.id IS NOT NULL THEN
+    NEW.roster_status := 'matched';
+    IF _entry.department IS NOT NULL THEN
+      NEW.department := _entry.department;
+    END IF;
+  ELSIF _policy = 'block' THEN
+    RAISE EXCEPTION 'not_on_roster'
+      USING DETAIL = 'Only people on the roster can register for this event';
+  ELSE
+    NEW.roster_status := 'unmatched';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to run after redeem_registrations_invite and before
+-- waitlist_registrations_over_capacity, which seats the department set here
+CREATE TRIGGER verify_registrations_roster
+BEFORE INSERT ON public.registrations
+FOR EACH ROW
+EXECUTE FUNCTION public.verify_registration_roster();
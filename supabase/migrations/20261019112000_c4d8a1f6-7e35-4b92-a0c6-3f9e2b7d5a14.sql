@@ -0,0 +1,60 @@
+-- Paid workshops: the fee per person in the currency's minor units (paise
+-- for INR); NULL keeps registration free
+ALTER TABLE public.events
+  ADD COLUMN fee_amount INTEGER CHECK (fee_amount > 0),
+  ADD COLUMN fee_currency TEXT NOT NULL DEFAULT 'INR' CHECK (fee_currency ~ '^[A-Z]{3}$');
+
+CREATE TYPE public.payment_status AS ENUM ('pending_payment', 'paid', 'refunded');
+
+-- Payment of each registration for a paid event; payment_status stays NULL
+-- for free ones. The amount and currency are copied from the event when
+-- registering, so changing the fee later doesn't change what people owe.
+-- payment_provider is the gateway that took the money, or 'manual' for
+-- payments an admin recorded; payment_reference is its payment or receipt id.
+ALTER TABLE public.registrations
+  ADD COLUMN payment_status public.payment_status,
+  ADD COLUMN payment_amount INTEGER CHECK (payment_amount >= 0),
+  ADD COLUMN payment_currency TEXT CHECK (payment_currency ~ '^[A-Z]{3}$'),
+  ADD COLUMN payment_provider TEXT CHECK (char_length(payment_provider) <= 50),
+  ADD COLUMN payment_reference TEXT CHECK (char_length(payment_reference) <= 100),
+  ADD COLUMN paid_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX registrations_payment_reference_idx
+ON public.registrations (payment_reference)
+WHERE payment_reference IS NOT NULL;
+
+-- Every new registration for a paid event starts out owing the event's fee;
+-- payments are only ever recorded afterwards, by registration-payment or an admin
+CREATE OR REPLACE FUNCTION public.apply_registration_fee()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events%ROWTYPE;
+BEGIN
+  SELECT * INTO _event FROM public.events WHERE id = NEW.event_id;
+
+  NEW.payment_provider := NULL;
+  NEW.payment_reference := NULL;
+  NEW.paid_at := NULL;
+
+  IF _event.fee_amount IS NULL THEN
+    NEW.payment_status := NULL;
+    NEW.payment_amount := NULL;
+    NEW.payment_currency := NULL;
+  ELSE
+    NEW.payment_status := 'pending_payment';
+    NEW.payment_amount := _event.fee_amount;
+    NEW.payment_currency := _event.fee_currency;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_registrations_fee
+BEFORE INSERT ON public.registrations
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_registration_fee();
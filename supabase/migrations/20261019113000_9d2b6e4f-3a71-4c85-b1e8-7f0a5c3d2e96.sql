@@ -0,0 +1,51 @@
+-- The registration a confirmation code and its email or mobile number point
+-- to. Not callable by clients, as it hands out the registration id;
+-- registration-payment uses it to charge from the status page.
+CREATE OR REPLACE FUNCTION public.find_registration_by_code(_code TEXT, _contact TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.id
+  FROM public.registrations r
+  WHERE r.confirmation_code = upper(regexp_replace(trim(_code), '^([0-9A-Za-z]{4})-?([0-9A-Za-z]{4})$', '\1-\2'))
+    AND (
+      lower(r.email) = lower(trim(_contact))
+      OR r.mobile_number = regexp_replace(trim(_contact), '[^0-9+]', '', 'g')
+    )
+  LIMIT 1
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_registration_by_code(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Fees of waitlisted registrations are collected once they get a seat, from
+-- the status page, so the lookup also returns what the registration owes
+DROP FUNCTION public.lookup_registration_status(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.lookup_registration_status(_code TEXT, _contact TEXT)
+RETURNS TABLE (
+  confirmation_code TEXT,
+  event_name TEXT,
+  full_name TEXT,
+  status public.registration_status,
+  waitlist_position INTEGER,
+  admin_message TEXT,
+  payment_status public.payment_status,
+  payment_amount INTEGER,
+  payment_currency TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.confirmation_code, e.name, r.full_name, r.status, r.waitlist_position, r.admin_message,
+    r.payment_status, r.payment_amount, r.payment_currency, r.created_at, r.updated_at
+  FROM public.registrations r
+  JOIN public.events e ON e.id = r.event_id
+  WHERE r.id = public.find_registration_by_code(_code, _contact)
+$$;
@@ -0,0 +1,15 @@
+-- Whether a registration with this id exists, so the offline outbox can tell
+-- that an earlier attempt got through before sending it again. A resend
+-- doesn't reach the primary key check: the insert triggers turn it down first,
+-- as the verification code was used up or the email is now a duplicate. Like
+-- get_registration_confirmation, it trusts whoever knows the id, which only
+-- the submitting browser does.
+CREATE OR REPLACE FUNCTION public.is_registration_submitted(_registration_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.registrations WHERE id = _registration_id)
+$$;
@@ -0,0 +1,52 @@
+-- Registrants' own edits are matched against the roster too, so an edit link
+-- can't move someone to another department or swap in an email that isn't on
+-- the roster. Admins can still change both by hand.
+CREATE OR REPLACE FUNCTION public.verify_registration_roster()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.roster_policy;
+  _entry public.roster_entries%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE' AND (
+    public.has_role(auth.uid(), 'admin')
+    OR (NEW.email, NEW.department, NEW.employee_id) IS NOT DISTINCT FROM
+      (OLD.email, OLD.department, OLD.employee_id)
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT roster_policy INTO _policy FROM public.events WHERE id = NEW.event_id;
+
+  IF _policy IS NULL OR _policy = 'off' THEN
+    NEW.roster_status := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _entry FROM public.find_roster_entry(NEW.event_id, NEW.email, NEW.employee_id);
+
+  IF _entry.id IS NOT NULL THEN
+    NEW.roster_status := 'matched';
+    IF _entry.department IS NOT NULL THEN
+      NEW.department := _entry.department;
+    END IF;
+  ELSIF _policy = 'block' THEN
+    RAISE EXCEPTION 'not_on_roster'
+      USING DETAIL = 'Only people on the roster can register for this event';
+  ELSE
+    NEW.roster_status := 'unmatched';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER verify_registrations_roster ON public.registrations;
+
+CREATE TRIGGER verify_registrations_roster
+BEFORE INSERT OR UPDATE OF email, department, employee_id ON public.registrations
+FOR EACH ROW
+EXECUTE FUNCTION public.verify_registration_roster();
@@ -0,0 +1,29 @@
+-- check_roster told anyone whether an email or employee ID was on the roster,
+-- and in which department, which made it a staff directory. It now only says
+-- yes or no, and only for an email the caller has just verified with a code
+-- (see verify_code), the way the form checks before submitting.
+DROP FUNCTION public.check_roster(UUID, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.check_roster(_event_id UUID, _email TEXT, _employee_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.verification_codes c
+    WHERE c.event_id = _event_id
+      AND c.channel = 'email'
+      AND c.target = public.normalize_verification_target('email', _email)
+      AND c.verified_at > now() - interval '30 minutes'
+      AND c.consumed_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'email_not_verified'
+      USING DETAIL = 'Verify the email address before checking it against the roster';
+  END IF;
+
+  RETURN EXISTS (SELECT 1 FROM public.find_roster_entry(_event_id, _email, _employee_id));
+END;
+$$;
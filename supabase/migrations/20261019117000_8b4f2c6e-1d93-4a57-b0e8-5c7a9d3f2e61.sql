@@ -0,0 +1,32 @@
+-- The department an invite code sets held only when registering; an edit link
+-- could move the registration elsewhere afterwards. Registrants' updates now
+-- keep the code's department, and can't swap the code itself. Named to run
+-- before verify_registrations_roster, whose department still wins.
+CREATE OR REPLACE FUNCTION public.keep_registration_invite_department()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _department TEXT;
+BEGIN
+  IF public.has_role(auth.uid(), 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.invite_code_id := OLD.invite_code_id;
+
+  SELECT department INTO _department FROM public.invite_codes WHERE id = NEW.invite_code_id;
+  IF _department IS NOT NULL THEN
+    NEW.department := _department;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER keep_registrations_invite_department
+BEFORE UPDATE OF department, invite_code_id ON public.registrations
+FOR EACH ROW
+EXECUTE FUNCTION public.keep_registration_invite_department();
@@ -0,0 +1,93 @@
+-- Documents are uploaded through registration-upload-url, which files them
+-- under registrations/<registration id>/. It only hands out a URL for a
+-- registration that is about to be submitted or can still take documents,
+-- so nobody can keep adding files under an older registration.
+CREATE OR REPLACE FUNCTION public.can_upload_registration_document(_registration_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (SELECT 1 FROM public.registrations r WHERE r.id = _registration_id)
+    OR public.can_attach_to_registration(_registration_id)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_upload_registration_document(UUID) FROM PUBLIC, anon, authenticated;
+
+-- The policy counted with the statement's snapshot, so a single insert of
+-- many rows passed it; the limit is now held by the trigger below
+CREATE OR REPLACE FUNCTION public.can_attach_to_registration(_registration_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.registrations r
+    WHERE r.id = _registration_id
+      AND r.created_at > now() - interval '1 hour'
+  )
+$$;
+
+-- Re-counts under a lock on the registration, so concurrent inserts wait
+-- for each other and every row of a multi-row insert sees the ones before it
+CREATE OR REPLACE FUNCTION public.enforce_registration_attachment_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  PERFORM 1
+  FROM public.registrations
+  WHERE id = NEW.registration_id
+  FOR UPDATE;
+
+  SELECT count(*) INTO _count
+  FROM public.registration_attachments
+  WHERE registration_id = NEW.registration_id;
+
+  IF _count >= 5 THEN
+    RAISE EXCEPTION 'too_many_attachments'
+      USING DETAIL = 'A registration can have at most 5 documents';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_registration_attachments_limit
+BEFORE INSERT ON public.registration_attachments
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_registration_attachment_limit();
+
+-- Documents without a row that none will be saved for: the registration can
+-- no longer take documents, or it was never submitted. Submissions queued
+-- offline upload before submitting, so those get a week to come through.
+CREATE OR REPLACE FUNCTION public.orphaned_registration_documents()
+RETURNS TABLE (file_path TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT o.name
+  FROM storage.objects o
+  LEFT JOIN public.registrations r ON r.id::text = split_part(o.name, '/', 2)
+  WHERE o.bucket_id = 'registration-documents'
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.registration_attachments a
+      WHERE a.file_path = o.name
+    )
+    AND CASE
+      WHEN r.id IS NULL THEN o.created_at < now() - interval '7 days'
+      ELSE NOT public.can_attach_to_registration(r.id)
+    END
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.orphaned_registration_documents() FROM PUBLIC, anon, authenticated;
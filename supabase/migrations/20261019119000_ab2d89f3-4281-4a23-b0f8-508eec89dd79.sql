@@ -0,0 +1,9 @@
+-- Email verification is opt-in per event, like mobile verification: mail
+-- only goes out once a real MAIL_SENDER is configured, and a default of on
+-- turned every new event's registrants away until then. The events created
+-- while it defaulted to on, the seeded one included, are switched off too;
+-- admins turn it back on once mail is set up.
+ALTER TABLE public.events
+ALTER COLUMN require_email_verification SET DEFAULT false;
+
+UPDATE public.events SET require_email_verification = false;
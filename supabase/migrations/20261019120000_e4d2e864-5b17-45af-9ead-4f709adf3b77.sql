@@ -0,0 +1,4 @@
+-- Told anyone whether an email or mobile number was registered for an event.
+-- submit-registration now checks behind its bot screening, and the insert
+-- trigger still calls it as the function owner.
+REVOKE EXECUTE ON FUNCTION public.check_registration_duplicate(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
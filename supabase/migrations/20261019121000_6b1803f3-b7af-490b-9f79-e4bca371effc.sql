@@ -0,0 +1,7 @@
+-- Requests for verification codes are logged and limited per IP address too,
+-- as each one sends an email or SMS
+ALTER TABLE public.registration_attempts
+DROP CONSTRAINT registration_attempts_action_check;
+
+ALTER TABLE public.registration_attempts
+ADD CONSTRAINT registration_attempts_action_check CHECK (action IN ('submit', 'upload', 'verify'));
@@ -1,15 +1,38 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Fills in the hashed bundles of the build for public/sw.js to precache, so
+// the form still loads offline when they were fetched before the worker took
+// control. Rewriting the worker on every build also makes browsers install
+// the new one.
+function precacheAssets(): Plugin {
+  return {
+    name: "precache-assets",
+    apply: "build",
+    writeBundle(options, bundle) {
+      const assets = Object.keys(bundle)
+        .filter((fileName) => fileName.startsWith("assets/") && !fileName.endsWith(".map"))
+        .map((fileName) => `/${fileName}`);
+      const workerPath = path.resolve(options.dir!, "sw.js");
+      const worker = fs.readFileSync(workerPath, "utf-8");
+      fs.writeFileSync(
+        workerPath,
+        worker.replace("const ASSET_URLS = [];", `const ASSET_URLS = ${JSON.stringify(assets)};`)
+      );
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), mode === "development" && componentTagger(), precacheAssets()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),